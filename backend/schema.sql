@@ -1,3 +1,18 @@
+DROP TABLE IF EXISTS invite;
+DROP TABLE IF EXISTS import_item;
+DROP TABLE IF EXISTS import_job;
+DROP TABLE IF EXISTS memo_revision;
+DROP TABLE IF EXISTS link_metadata;
+DROP TABLE IF EXISTS memo_fts;
+DROP TABLE IF EXISTS session;
+DROP TABLE IF EXISTS idp_auth_state;
+DROP TABLE IF EXISTS user_identity;
+DROP TABLE IF EXISTS idp;
+DROP TABLE IF EXISTS user_access_token;
+DROP TABLE IF EXISTS inbox;
+DROP TABLE IF EXISTS activity;
+DROP TABLE IF EXISTS webhook_delivery;
+DROP TABLE IF EXISTS webhook;
 DROP TABLE IF EXISTS memo_resource;
 DROP TABLE IF EXISTS memo_relation;
 DROP TABLE IF EXISTS memo_tag;
@@ -44,10 +59,19 @@ CREATE TABLE memo (
     content TEXT NOT NULL,
     visibility TEXT NOT NULL DEFAULT 'PRIVATE',
     pinned INTEGER NOT NULL DEFAULT 0,
-    row_status TEXT NOT NULL DEFAULT 'NORMAL',
+    row_status TEXT NOT NULL DEFAULT 'NORMAL', -- NORMAL, ARCHIVED, DELETED（回收站）
     location_placeholder TEXT,
     location_latitude REAL,
     location_longitude REAL,
+    -- 内容属性，写入内容时根据 Markdown 语法树计算
+    has_link INTEGER NOT NULL DEFAULT 0,
+    has_task_list INTEGER NOT NULL DEFAULT 0,
+    has_code INTEGER NOT NULL DEFAULT 0,
+    has_incomplete_tasks INTEGER NOT NULL DEFAULT 0,
+    has_image INTEGER NOT NULL DEFAULT 0,
+    publish_ts INTEGER, -- 定时发布时间，为空表示已发布
+    remind_ts INTEGER, -- 提醒时间，提醒发送后清空
+    deleted_ts INTEGER, -- 移入回收站的时间，超过保留天数后由定时任务彻底删除
     created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
     updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
     FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
@@ -55,10 +79,12 @@ CREATE TABLE memo (
 
 CREATE TABLE tag (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
     creator_id INTEGER NOT NULL,
     created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
-    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
+    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE,
+    -- 标签按用户区分，不同用户可以使用同名标签
+    UNIQUE (creator_id, name)
 );
 
 CREATE TABLE memo_tag (
@@ -78,6 +104,8 @@ CREATE TABLE resource (
     blob BLOB,
     external_link TEXT,
     creator_id INTEGER NOT NULL,
+    row_status TEXT NOT NULL DEFAULT 'NORMAL', -- NORMAL, DELETED（回收站）
+    deleted_ts INTEGER,
     created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
     updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
     FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
@@ -105,6 +133,10 @@ CREATE TABLE memo_relation (
 
 CREATE INDEX idx_memo_creator_id ON memo (creator_id);
 CREATE INDEX idx_memo_created_ts ON memo (created_ts);
+CREATE INDEX idx_memo_publish_ts ON memo (publish_ts);
+CREATE INDEX idx_memo_remind_ts ON memo (remind_ts);
+CREATE INDEX idx_memo_deleted_ts ON memo (deleted_ts);
+CREATE INDEX idx_resource_deleted_ts ON resource (deleted_ts);
 CREATE INDEX idx_tag_creator_id ON tag (creator_id);
 CREATE INDEX idx_resource_creator_id ON resource (creator_id);
 CREATE INDEX idx_user_uid ON user (uid);
@@ -167,4 +199,232 @@ CREATE TABLE shortcut (
     FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
 );
 
-CREATE INDEX idx_shortcut_creator_id ON shortcut (creator_id); 
\ No newline at end of file
+CREATE INDEX idx_shortcut_creator_id ON shortcut (creator_id); 
+
+-- Webhook表
+CREATE TABLE webhook (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL DEFAULT '',
+    creator_id INTEGER NOT NULL,
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_webhook_creator_id ON webhook (creator_id);
+
+-- Webhook投递记录表
+CREATE TABLE webhook_delivery (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL,
+    activity_type TEXT NOT NULL,
+    payload TEXT NOT NULL, -- JSON格式的请求体
+    status TEXT NOT NULL DEFAULT 'PENDING', -- PENDING, SUCCESS, RETRYING, FAILED
+    attempt INTEGER NOT NULL DEFAULT 0,
+    status_code INTEGER,
+    latency_ms INTEGER,
+    response_snippet TEXT,
+    error TEXT,
+    next_retry_ts INTEGER,
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (webhook_id) REFERENCES webhook (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_webhook_delivery_webhook_id ON webhook_delivery (webhook_id);
+CREATE INDEX idx_webhook_delivery_retry ON webhook_delivery (status, next_retry_ts);
+
+-- 活动表（评论、提及、反应等事件，payload 为 JSON）
+CREATE TABLE activity (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    creator_id INTEGER NOT NULL,
+    type TEXT NOT NULL, -- MEMO_COMMENT, MEMO_MENTION, MEMO_REACTION
+    level TEXT NOT NULL DEFAULT 'INFO',
+    payload TEXT NOT NULL DEFAULT '{}', -- JSON格式的活动数据
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_activity_creator_id ON activity (creator_id);
+
+-- 收件箱表（通知）
+CREATE TABLE inbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    sender_id INTEGER NOT NULL,
+    receiver_id INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'UNREAD', -- UNREAD, ARCHIVED
+    type TEXT NOT NULL, -- MEMO_COMMENT, MEMO_MENTION, MEMO_REACTION
+    activity_id INTEGER,
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (sender_id) REFERENCES user (id) ON DELETE CASCADE,
+    FOREIGN KEY (receiver_id) REFERENCES user (id) ON DELETE CASCADE,
+    FOREIGN KEY (activity_id) REFERENCES activity (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_inbox_receiver_status ON inbox (receiver_id, status);
+
+-- 个人访问令牌表（仅保存令牌的 SHA-256 哈希）
+CREATE TABLE user_access_token (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL, -- 令牌前几位，用于在列表中识别
+    expires_ts INTEGER, -- NULL 表示永不过期
+    last_used_ts INTEGER,
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (user_id) REFERENCES user (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_user_access_token_user_id ON user_access_token (user_id);
+
+-- 身份提供商表（SSO）
+CREATE TABLE idp (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'OAUTH2',
+    identifier_filter TEXT NOT NULL DEFAULT '',
+    config TEXT NOT NULL DEFAULT '{}', -- JSON格式的 OAuth2 配置
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+);
+
+-- 用户与外部身份的关联表
+CREATE TABLE user_identity (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    idp_id INTEGER NOT NULL,
+    external_id TEXT NOT NULL, -- 身份提供商返回的用户标识
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (user_id) REFERENCES user (id) ON DELETE CASCADE,
+    FOREIGN KEY (idp_id) REFERENCES idp (id) ON DELETE CASCADE,
+    UNIQUE(idp_id, external_id)
+);
+
+CREATE INDEX idx_user_identity_user_id ON user_identity (user_id);
+
+-- SSO 授权请求状态表（state 与 PKCE code_verifier）
+CREATE TABLE idp_auth_state (
+    state TEXT PRIMARY KEY,
+    idp_id INTEGER NOT NULL,
+    code_verifier TEXT NOT NULL,
+    redirect_uri TEXT NOT NULL,
+    expires_ts INTEGER NOT NULL,
+    FOREIGN KEY (idp_id) REFERENCES idp (id) ON DELETE CASCADE
+);
+
+-- 登录会话表（刷新令牌只保存哈希，删除记录即注销会话）
+CREATE TABLE session (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uid TEXT NOT NULL UNIQUE, -- 会话标识，写入访问令牌的 sid
+    user_id INTEGER NOT NULL,
+    refresh_token_hash TEXT NOT NULL UNIQUE,
+    previous_refresh_token_hash TEXT, -- 上一个刷新令牌的哈希，用于检测令牌重放
+    user_agent TEXT,
+    ip_address TEXT,
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    last_active_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    expires_ts INTEGER NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES user (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_session_user_id ON session (user_id);
+CREATE INDEX idx_session_previous_refresh_token_hash ON session (previous_refresh_token_hash);
+
+-- 备忘录全文索引（FTS5 外部内容表，trigram 分词按子串匹配，中文无需分词）
+CREATE VIRTUAL TABLE memo_fts USING fts5(
+    content,
+    content = 'memo',
+    content_rowid = 'id',
+    tokenize = 'trigram'
+);
+
+-- 通过触发器与 memo 表保持同步
+CREATE TRIGGER memo_fts_after_insert AFTER INSERT ON memo BEGIN
+    INSERT INTO memo_fts (rowid, content) VALUES (new.id, new.content);
+END;
+
+CREATE TRIGGER memo_fts_after_delete AFTER DELETE ON memo BEGIN
+    INSERT INTO memo_fts (memo_fts, rowid, content) VALUES ('delete', old.id, old.content);
+END;
+
+CREATE TRIGGER memo_fts_after_update AFTER UPDATE OF content ON memo BEGIN
+    INSERT INTO memo_fts (memo_fts, rowid, content) VALUES ('delete', old.id, old.content);
+    INSERT INTO memo_fts (rowid, content) VALUES (new.id, new.content);
+END;
+
+-- 为已有数据建立索引
+INSERT INTO memo_fts (memo_fts) VALUES ('rebuild');
+
+-- 链接预览缓存表（image 为原始图片地址，前端通过 /api/link/image 代理访问）
+CREATE TABLE link_metadata (
+    url TEXT PRIMARY KEY,
+    title TEXT NOT NULL DEFAULT '',
+    description TEXT NOT NULL DEFAULT '',
+    image TEXT NOT NULL DEFAULT '',
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    expires_ts INTEGER NOT NULL
+);
+
+CREATE INDEX idx_link_metadata_image ON link_metadata (image);
+CREATE INDEX idx_link_metadata_expires_ts ON link_metadata (expires_ts);
+
+-- 笔记历史版本表（内容或可见性变化时写入，保留数量由 MEMO_RELATED 设置中的 memoRevisionLimit 控制）
+CREATE TABLE memo_revision (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    memo_id INTEGER NOT NULL,
+    creator_id INTEGER NOT NULL,
+    content TEXT NOT NULL DEFAULT '',
+    visibility TEXT NOT NULL DEFAULT 'PRIVATE',
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (memo_id) REFERENCES memo (id) ON DELETE CASCADE,
+    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_memo_revision_memo_id ON memo_revision (memo_id);
+
+-- 导入任务表（上传的文件解析为 import_item 后，分批写入笔记，避免超出 Worker 的 CPU 限制）
+CREATE TABLE import_job (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uid TEXT NOT NULL UNIQUE,
+    creator_id INTEGER NOT NULL,
+    source TEXT NOT NULL, -- MEMOS_DUMP, MEMOS_JSON, FLOMO, MARKDOWN
+    filename TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'RUNNING', -- RUNNING, COMPLETED
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
+);
+
+-- 导入任务中的笔记，payload 为解析后的笔记 JSON，导入完成后清空
+CREATE TABLE import_item (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL,
+    source_key TEXT NOT NULL, -- 笔记在导入文件中的标识，用于解析笔记之间的关联
+    title TEXT NOT NULL DEFAULT '',
+    payload TEXT NOT NULL DEFAULT '',
+    relations TEXT NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'PENDING', -- PENDING, RUNNING, IMPORTED, FAILED
+    memo_id INTEGER,
+    error TEXT, -- 导入失败的原因，或已导入笔记中未能导入的附件
+    updated_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (job_id) REFERENCES import_job (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_import_job_creator_id ON import_job (creator_id);
+CREATE INDEX idx_import_item_job_id_status ON import_item (job_id, status);
+
+-- 邀请码表（HOST 生成，注册时使用；max_uses 为 0 表示不限次数，expires_ts 为空表示永不过期）
+CREATE TABLE invite (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    code TEXT NOT NULL UNIQUE,
+    creator_id INTEGER NOT NULL,
+    role TEXT NOT NULL DEFAULT 'USER', -- 通过邀请注册的用户角色：ADMIN, USER
+    max_uses INTEGER NOT NULL DEFAULT 1,
+    used_count INTEGER NOT NULL DEFAULT 0,
+    expires_ts INTEGER,
+    created_ts INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    FOREIGN KEY (creator_id) REFERENCES user (id) ON DELETE CASCADE
+);
@@ -10,8 +10,21 @@ import { tagRoutes } from './routes/tag';
 import { resourceRoutes } from './routes/resource';
 import { workspaceRoutes } from './routes/workspace';
 import { webhookRoutes } from './routes/webhook';
+import { inboxRoutes } from './routes/inbox';
+import { activityRoutes } from './routes/activity';
+import { idpRoutes } from './routes/idp';
 import { shortcutRoutes } from './routes/shortcut-simple';
+import { linkRoutes } from './routes/link';
+import { trashRoutes } from './routes/trash';
+import { importRoutes } from './routes/import';
+import { inviteRoutes } from './routes/invite';
 import { authMiddleware } from './middleware/auth';
+import { retryDueWebhookDeliveries } from './services/webhook';
+import { processScheduledMemos } from './services/schedule';
+import { purgeExpiredTrash } from './services/trash';
+import { isJWTSecretConfigured } from './services/token';
+import { createResourceResponse, StorageConfigError } from './services/storage';
+import { getStorageSetting } from './services/upload-policy';
 
 // 导入环境类型
 import { Env } from './types';
@@ -56,6 +69,15 @@ app.use('*', cors({
 app.use('*', logger());
 app.use('/api/*', prettyJSON());
 
+// 未配置 JWT_SECRET 时拒绝提供 API 服务，避免用可预测的默认密钥签发令牌
+app.use('/api/*', async (c, next) => {
+  if (!isJWTSecretConfigured(c.env)) {
+    console.error('❌ JWT_SECRET is not configured, refusing to serve API requests');
+    return c.json({ message: 'Server misconfigured: JWT_SECRET is not set' }, 503);
+  }
+  await next();
+});
+
 // 健康检查端点
 app.get('/health', (c) => {
   return c.json({
@@ -72,17 +94,30 @@ app.route('/api/auth', authRoutes);
 // workspace 路由 - /profile 和 /setting GET 端点是公开的
 app.route('/api/workspace', workspaceRoutes);
 
+// idp 路由 - GET 端点是公开的（登录页需要），修改端点需要 HOST 权限
+app.route('/api/idp', idpRoutes);
+
+// link 路由 - /metadata 需要认证，/image 公开（供 <img> 加载代理图片）
+app.route('/api/link', linkRoutes);
+
 // 需要认证的路由
 app.use('/api/user/*', authMiddleware);
 app.use('/api/tag/*', authMiddleware);
 app.use('/api/resource/*', authMiddleware);
 app.use('/api/webhook/*', authMiddleware);
 app.use('/api/shortcut/*', authMiddleware);
+app.use('/api/inbox/*', authMiddleware);
+app.use('/api/activity/*', authMiddleware);
+app.use('/api/trash/*', authMiddleware);
+app.use('/api/import/*', authMiddleware);
+app.use('/api/invite/*', authMiddleware);
 
 // memo 路由需要部分认证 - 只有非GET请求需要认证
 app.post('/api/memo/*', authMiddleware);
 app.patch('/api/memo/*', authMiddleware);
 app.delete('/api/memo/*', authMiddleware);
+// 历史版本只对创建者和管理员开放
+app.get('/api/memo/:id/revisions', authMiddleware);
 
 app.route('/api/user', userRoutes);
 app.route('/api/memo', memoRoutes);
@@ -90,43 +125,36 @@ app.route('/api/tag', tagRoutes);
 app.route('/api/resource', resourceRoutes);
 app.route('/api/webhook', webhookRoutes);
 app.route('/api/shortcut', shortcutRoutes);
+app.route('/api/inbox', inboxRoutes);
+app.route('/api/activity', activityRoutes);
+app.route('/api/trash', trashRoutes);
+app.route('/api/import', importRoutes);
+app.route('/api/invite', inviteRoutes);
 
 // 文件下载路由 (不在 /api 下)
 app.get('/o/r/:uid/:filename', async (c) => {
   try {
-    const { uid, filename } = c.req.param();
+    const { uid } = c.req.param();
     
-    // 查询资源信息
+    // 查询资源信息，回收站中的资源不再提供下载
     const resource = await c.env.DB.prepare(
-      'SELECT * FROM resource WHERE uid = ?'
-    ).bind(uid).first();
+      'SELECT uid, filename, type, external_link FROM resource WHERE uid = ? AND row_status = ?'
+    ).bind(uid, 'NORMAL').first();
 
     if (!resource) {
       return c.json({ message: 'Resource not found' }, 404);
     }
 
-    // 检查 R2 绑定是否存在
-    if (!c.env.R2) {
-      return c.json({ message: 'R2 bucket not configured' }, 500);
-    }
-
-    // 从 R2 获取文件
-    const r2Key = `${uid}/${filename}`;
-    const object = await c.env.R2.get(r2Key);
-
-    if (!object) {
+    // 按资源链接选择存储驱动读取文件
+    const response = await createResourceResponse(c.env, await getStorageSetting(c.env.DB), resource);
+    if (!response) {
       return c.json({ message: 'File not found in storage' }, 404);
     }
-
-    // 返回文件内容
-    return new Response(object.body, {
-      headers: {
-        'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
-        'Content-Length': object.size.toString(),
-        'Cache-Control': 'public, max-age=31536000',
-      },
-    });
+    return response;
   } catch (error: any) {
+    if (error instanceof StorageConfigError) {
+      return c.json({ message: error.message }, 500);
+    }
     console.error('File download error:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
@@ -147,5 +175,20 @@ app.onError((err, c) => {
 });
 
 
-
-export default app; 
\ No newline at end of file
+// 定时任务（Cron Trigger）：重试失败的 webhook 投递，发布到期的定时笔记并发送提醒，清理回收站中过期的内容
+async function scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
+  ctx.waitUntil(retryDueWebhookDeliveries(env.DB).catch((error) => {
+    console.error('Retry webhook deliveries error:', error);
+  }));
+  ctx.waitUntil(processScheduledMemos(env.DB).catch((error) => {
+    console.error('Process scheduled memos error:', error);
+  }));
+  ctx.waitUntil(purgeExpiredTrash(env).catch((error) => {
+    console.error('Purge expired trash error:', error);
+  }));
+}
+
+export default {
+  fetch: app.fetch,
+  scheduled,
+}; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Context, Next } from 'hono';
+import { authenticateToken } from '../services/token';
 
 type Env = {
   DB: D1Database;
@@ -10,6 +11,7 @@ interface Variables {
     sub: string;
     username: string;
     role: string;
+    sid?: string;
     iat: number;
     exp: number;
   };
@@ -28,9 +30,8 @@ export async function authMiddleware(c: Context<{ Bindings: Env; Variables: Vari
   const token = authHeader.substring(7);
   
   try {
-    // 使用固定的JWT_SECRET进行本地开发
-    const jwtSecret = c.env.JWT_SECRET || 'your-super-secret-jwt-key-for-local-development-only-this-should-be-at-least-32-characters-long';
-    const payload = await verifyJWT(token, jwtSecret);
+    // 个人访问令牌查库校验，其余按会话访问令牌校验（含会话是否已注销）
+    const payload = await authenticateToken(c.env, token);
     
     if (!payload) {
       console.log('🔐 Invalid token payload');
@@ -47,52 +48,3 @@ export async function authMiddleware(c: Context<{ Bindings: Env; Variables: Vari
     return c.json({ message: 'Unauthorized' }, 401);
   }
 }
-
-// 简化的 JWT 验证函数
-async function verifyJWT(token: string, secret: string): Promise<any | null> {
-  try {
-    const [header, payload, signature] = token.split('.');
-    if (!header || !payload || !signature) return null;
-
-    // 验证签名
-    const data = `${header}.${payload}`;
-    const expectedSignature = await hmacSHA256(data, secret);
-    
-    if (signature !== expectedSignature) return null;
-
-    // 解析 payload
-    const decodedPayload = JSON.parse(atob(payload));
-    
-    // 检查过期时间
-    if (decodedPayload.exp && decodedPayload.exp < Math.floor(Date.now() / 1000)) {
-      return null;
-    }
-
-    return decodedPayload;
-  } catch (error) {
-    return null;
-  }
-}
-
-// HMAC-SHA256 签名
-async function hmacSHA256(data: string, secret: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  
-  const signature = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    encoder.encode(data)
-  );
-  
-  return btoa(String.fromCharCode(...new Uint8Array(signature)))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-} 
\ No newline at end of file
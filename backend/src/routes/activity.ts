@@ -0,0 +1,55 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { formatActivity } from '../services/inbox';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+export const activityRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 获取单个活动，仅活动创建者或收到相关通知的用户可见
+activityRoutes.get('/:id', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid activity ID' }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE uid = ?'
+    ).bind(userPayload.sub).first();
+
+    if (!user) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const activity = await c.env.DB.prepare(`
+      SELECT a.* FROM activity a
+      WHERE a.id = ? AND (
+        a.creator_id = ?
+        OR EXISTS (SELECT 1 FROM inbox i WHERE i.activity_id = a.id AND i.receiver_id = ?)
+      )
+    `).bind(id, user.id, user.id).first();
+
+    if (!activity) {
+      return c.json({ message: 'Activity not found' }, 404);
+    }
+
+    return c.json(formatActivity(activity));
+  } catch (error: any) {
+    console.error('Error getting activity:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
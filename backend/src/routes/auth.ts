@@ -1,8 +1,25 @@
 import { Hono } from 'hono';
 import { v4 as uuidv4 } from 'uuid';
 import { Env } from '../types';
+import { Password } from '../utils';
+import { authMiddleware } from '../middleware/auth';
+import { createSession, getJWTSecret, getSessionClientInfo, refreshSession } from '../services/token';
+import { consumeAuthState, createAuthorizationUrl, getUserInfoByCode, IdentityProviderUserInfo } from '../services/idp';
+import { consumeInvite, findUsableInvite, InviteError, releaseInvite } from '../services/invite';
+import { getGeneralSetting } from '../services/workspace-setting';
 
-const authRoutes = new Hono<{ Bindings: Env }>();
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    sid?: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+const authRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 // 登录接口
 authRoutes.post('/signin', async (c) => {
@@ -23,25 +40,127 @@ authRoutes.post('/signin', async (c) => {
     }
 
     // 验证密码
-    const isPasswordValid = await verifyPassword(password, user.password_hash as string);
+    const isPasswordValid = await Password.verify(password, user.password_hash as string);
     if (!isPasswordValid) {
       return c.json({ message: 'INVALID_CREDENTIALS' }, 401);
     }
 
-    // 生成 JWT token
-    const now = Math.floor(Date.now() / 1000);
-    const tokenPayload = {
-      sub: user.uid,
+    // 禁用密码登录时只有 HOST 可以通过密码登录（管理员登录页），在校验密码之后判断，避免泄露账号信息
+    if (user.role !== 'HOST' && (await getGeneralSetting(c.env.DB)).disallowPasswordAuth) {
+      return c.json({ message: 'PASSWORD_AUTH_DISALLOWED' }, 403);
+    }
+
+    // 旧格式或迭代次数变更的哈希在登录成功后自动升级
+    const iterations = Password.getIterations(c.env);
+    if (Password.needsRehash(user.password_hash as string, iterations)) {
+      const passwordHash = await Password.hash(password, iterations);
+      await c.env.DB.prepare(
+        'UPDATE user SET password_hash = ? WHERE id = ?'
+      ).bind(passwordHash, user.id).run();
+      console.log('🔐 Upgraded password hash for user:', user.username);
+    }
+
+    // 创建会话，签发访问令牌和刷新令牌
+    const tokens = await createSession(c.env.DB, getJWTSecret(c.env), user, getSessionClientInfo(c.req));
+
+    // 返回用户信息（不包括密码哈希）
+    const userResponse = {
+      id: user.id,
+      uid: user.uid,
       username: user.username,
       role: user.role,
-      iat: now,
-      exp: now + 7 * 24 * 60 * 60 // 7 days
+      email: user.email,
+      avatarUrl: user.avatar_url,
+      createdTs: user.created_ts,
+      updatedTs: user.updated_ts
     };
 
-    console.log('JWT_SECRET length:', c.env.JWT_SECRET?.length || 0);
-    // 使用固定的JWT_SECRET进行本地开发
-    const jwtSecret = c.env.JWT_SECRET || 'your-super-secret-jwt-key-for-local-development-only-this-should-be-at-least-32-characters-long';
-    const accessToken = await signJWT(tokenPayload, jwtSecret);
+    return c.json({
+      ...tokens,
+      user: userResponse
+    });
+
+  } catch (error) {
+    console.error('Sign in error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// SSO 授权接口：生成跳转到身份提供商的授权地址（state + PKCE）
+authRoutes.post('/sso/authorize', async (c) => {
+  try {
+    const { idpId, redirectUri } = await c.req.json();
+
+    if (!idpId || !redirectUri) {
+      return c.json({ message: 'IDP_AND_REDIRECT_URI_REQUIRED' }, 400);
+    }
+
+    try {
+      const parsed = new URL(redirectUri);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return c.json({ message: 'INVALID_REDIRECT_URI' }, 400);
+      }
+    } catch {
+      return c.json({ message: 'INVALID_REDIRECT_URI' }, 400);
+    }
+
+    const idp = await c.env.DB.prepare(
+      'SELECT * FROM idp WHERE id = ?'
+    ).bind(idpId).first();
+
+    if (!idp) {
+      return c.json({ message: 'IDENTITY_PROVIDER_NOT_FOUND' }, 404);
+    }
+
+    const authUrl = await createAuthorizationUrl(c.env.DB, idp, redirectUri);
+    return c.json({ authUrl });
+
+  } catch (error) {
+    console.error('SSO authorize error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// SSO 登录接口：校验 state，用授权码换取用户信息，然后登录（首次登录时创建用户）
+authRoutes.post('/signin/sso', async (c) => {
+  try {
+    const { idpId, code, state, redirectUri } = await c.req.json();
+
+    if (!idpId || !code || !state || !redirectUri) {
+      return c.json({ message: 'SSO_CREDENTIALS_REQUIRED' }, 400);
+    }
+
+    const idp = await c.env.DB.prepare(
+      'SELECT * FROM idp WHERE id = ?'
+    ).bind(idpId).first();
+
+    if (!idp) {
+      return c.json({ message: 'IDENTITY_PROVIDER_NOT_FOUND' }, 404);
+    }
+
+    // state 只能使用一次，且 redirect_uri 必须与授权时一致
+    const authState = await consumeAuthState(c.env.DB, state, idp.id as number);
+    if (!authState || authState.redirect_uri !== redirectUri) {
+      return c.json({ message: 'INVALID_SSO_STATE' }, 400);
+    }
+
+    let userInfo: IdentityProviderUserInfo;
+    try {
+      userInfo = await getUserInfoByCode(idp, code, redirectUri, authState.code_verifier as string);
+    } catch (error) {
+      console.error('SSO user info error:', error);
+      return c.json({ message: 'SSO_AUTHENTICATION_FAILED' }, 401);
+    }
+
+    // 检查 identifier 是否匹配过滤规则，规则无效时拒绝登录（创建和修改身份提供商时已校验）
+    if (!matchesIdentifierFilter(idp.identifier_filter as string, userInfo.identifier)) {
+      return c.json({ message: 'IDENTIFIER_NOT_ALLOWED' }, 403);
+    }
+
+    const user = await findOrCreateSSOUser(c.env.DB, idp.id as number, userInfo);
+
+    // 创建会话，签发访问令牌和刷新令牌
+    const tokens = await createSession(c.env.DB, getJWTSecret(c.env), user, getSessionClientInfo(c.req));
 
     // 返回用户信息（不包括密码哈希）
     const userResponse = {
@@ -56,20 +175,24 @@ authRoutes.post('/signin', async (c) => {
     };
 
     return c.json({
-      accessToken,
+      ...tokens,
       user: userResponse
     });
 
   } catch (error) {
-    console.error('Sign in error:', error);
+    if (error instanceof SSOSignInError) {
+      return c.json({ message: error.message }, 403);
+    }
+    console.error('SSO sign in error:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
 });
 
-// 注册接口（仅限首次安装时创建 HOST 账户）
+// 注册接口：首次安装时创建 HOST 账户，之后按「禁止用户注册」设置注册普通用户，
+// 或者使用邀请码注册（不受该设置限制，角色由邀请码决定）
 authRoutes.post('/signup', async (c) => {
   try {
-    const { username, password, email } = await c.req.json();
+    const { username, password, email, inviteCode } = await c.req.json();
     
     if (!username || !password) {
       return c.json({ message: 'USERNAME_AND_PASSWORD_REQUIRED' }, 400);
@@ -79,8 +202,14 @@ authRoutes.post('/signup', async (c) => {
     const existingUser = await c.env.DB.prepare(
       'SELECT COUNT(*) as count FROM user WHERE row_status = ?'
     ).bind('NORMAL').first();
+    const isFirstUser = !existingUser || (existingUser.count as number) === 0;
+    const useInvite = !isFirstUser && !!inviteCode;
 
-    if (existingUser && (existingUser.count as number) > 0) {
+    if (useInvite) {
+      if (!(await findUsableInvite(c.env.DB, inviteCode))) {
+        return c.json({ message: 'INVALID_INVITE' }, 403);
+      }
+    } else if (!isFirstUser && (await getGeneralSetting(c.env.DB)).disallowUserRegistration) {
       return c.json({ message: 'SIGNUP_DISABLED' }, 403);
     }
 
@@ -95,18 +224,29 @@ authRoutes.post('/signup', async (c) => {
 
     // 生成用户 UID 和密码哈希
     const userUid = uuidv4();
-    const passwordHash = await hashPassword(password);
+    const passwordHash = await Password.hash(password, Password.getIterations(c.env));
     const now = Math.floor(Date.now() / 1000);
 
-    // 创建 HOST 用户
-    const result = await c.env.DB.prepare(`
-      INSERT INTO user (uid, username, role, email, password_hash, row_status, created_ts, updated_ts)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `).bind(userUid, username, 'HOST', email || null, passwordHash, 'NORMAL', now, now).run();
+    // 第一个用户为 HOST，使用邀请码时占用一次并使用邀请码的角色
+    const role = isFirstUser ? 'HOST' : useInvite ? await consumeInvite(c.env.DB, inviteCode) : 'USER';
+
+    // 创建用户
+    try {
+      const result = await c.env.DB.prepare(`
+        INSERT INTO user (uid, username, role, email, password_hash, row_status, created_ts, updated_ts)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(userUid, username, role, email || null, passwordHash, 'NORMAL', now, now).run();
 
-    if (!result.success) {
-      throw new Error('Failed to create user');
+      if (!result.success) {
+        throw new Error('Failed to create user');
+      }
+    } catch (error) {
+      if (useInvite) {
+        await releaseInvite(c.env.DB, inviteCode);
+      }
+      throw error;
     }
+    console.log(`👤 User ${username} (${role}) signed up${useInvite ? ' with invite' : ''}`);
 
     // 获取创建的用户信息
     const newUser = await c.env.DB.prepare(
@@ -117,17 +257,8 @@ authRoutes.post('/signup', async (c) => {
       throw new Error('Failed to retrieve created user');
     }
 
-    // 生成 JWT token
-    const tokenPayload = {
-      sub: userUid,
-      username: username,
-      role: 'HOST',
-      iat: now,
-      exp: now + 7 * 24 * 60 * 60 // 7 days
-    };
-
-    console.log('JWT_SECRET length:', c.env.JWT_SECRET?.length || 0);
-    const accessToken = await signJWT(tokenPayload, c.env.JWT_SECRET);
+    // 创建会话，签发访问令牌和刷新令牌
+    const tokens = await createSession(c.env.DB, getJWTSecret(c.env), newUser, getSessionClientInfo(c.req));
 
     // 返回用户信息
     const userResponse = {
@@ -142,80 +273,165 @@ authRoutes.post('/signup', async (c) => {
     };
 
     return c.json({
-      accessToken,
+      ...tokens,
       user: userResponse
     });
 
   } catch (error) {
+    if (error instanceof InviteError) {
+      return c.json({ message: error.message }, 403);
+    }
     console.error('Sign up error:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
 });
 
-// 密码哈希函数
-export async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
+// 查询邀请码，注册页面用于确认邀请链接是否有效
+authRoutes.get('/invite/:code', async (c) => {
+  try {
+    const invite = await findUsableInvite(c.env.DB, c.req.param('code'));
+    if (!invite) {
+      return c.json({ message: 'INVALID_INVITE' }, 404);
+    }
+
+    return c.json({
+      role: invite.role,
+      expiresAt: invite.expires_ts ? new Date((invite.expires_ts as number) * 1000).toISOString() : undefined,
+    });
+
+  } catch (error) {
+    console.error('Get invite error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 刷新接口：用刷新令牌换取新的访问令牌，刷新令牌同时轮换
+authRoutes.post('/refresh', async (c) => {
+  try {
+    const { refreshToken } = await c.req.json();
+
+    if (!refreshToken) {
+      return c.json({ message: 'REFRESH_TOKEN_REQUIRED' }, 400);
+    }
+
+    const tokens = await refreshSession(c.env.DB, getJWTSecret(c.env), refreshToken, getSessionClientInfo(c.req));
+    if (!tokens) {
+      return c.json({ message: 'INVALID_REFRESH_TOKEN' }, 401);
+    }
+
+    return c.json(tokens);
+
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
 
-// 密码验证函数
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const hashedPassword = await hashPassword(password);
-  return hashedPassword === hash;
+// 退出登录接口：注销当前会话
+authRoutes.post('/signout', authMiddleware, async (c) => {
+  try {
+    const userPayload = c.get('user');
+
+    // 个人访问令牌没有会话，无需处理
+    if (userPayload?.sid) {
+      await c.env.DB.prepare(
+        'DELETE FROM session WHERE uid = ?'
+      ).bind(userPayload.sid).run();
+    }
+
+    return c.json({ message: 'Signed out successfully' });
+
+  } catch (error) {
+    console.error('Sign out error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+function matchesIdentifierFilter(filter: string, identifier: string): boolean {
+  if (!filter) return true;
+  try {
+    return new RegExp(filter).test(identifier);
+  } catch (error) {
+    console.error('Invalid identifier filter:', filter, error);
+    return false;
+  }
 }
 
-// JWT 签名函数
-async function signJWT(payload: any, secret: string): Promise<string> {
-  if (!secret || secret.length === 0) {
-    throw new Error('JWT_SECRET is empty or undefined');
+// SSO 登录被拒绝时抛出，message 为返回给前端的错误码
+class SSOSignInError extends Error {}
+
+// 根据身份提供商返回的用户信息查找用户：已关联的身份 -> 创建新用户
+// 不会按用户名自动关联已有用户，否则控制身份提供商账号的人可以接管同名的本地账号（包括 HOST）
+// 与 /signup 一样，关闭注册后不再为未关联的身份创建新用户
+async function findOrCreateSSOUser(db: D1Database, idpId: number, userInfo: IdentityProviderUserInfo): Promise<any> {
+  const identity = await db.prepare(`
+    SELECT u.* FROM user_identity ui
+    JOIN user u ON ui.user_id = u.id
+    WHERE ui.idp_id = ? AND ui.external_id = ?
+  `).bind(idpId, userInfo.identifier).first();
+
+  if (identity) {
+    if (identity.row_status !== 'NORMAL') {
+      throw new SSOSignInError('USER_ARCHIVED');
+    }
+    return identity;
   }
-  
-  const header = {
-    alg: 'HS256',
-    typ: 'JWT'
-  };
 
-  const encodedHeader = btoa(JSON.stringify(header))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-  const encodedPayload = btoa(JSON.stringify(payload))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-  
-  const data = `${encodedHeader}.${encodedPayload}`;
-  const signature = await hmacSHA256(data, secret);
-  
-  return `${data}.${signature}`;
+  if ((await getGeneralSetting(db)).disallowUserRegistration) {
+    throw new SSOSignInError('SIGNUP_DISABLED');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const username = await generateSSOUsername(db, userInfo.identifier);
+  const userUid = uuidv4();
+
+  // SSO 用户没有密码，空哈希永远无法通过密码校验
+  await db.prepare(`
+    INSERT INTO user (uid, username, nickname, role, email, avatar_url, password_hash, row_status, created_ts, updated_ts)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    userUid,
+    username,
+    userInfo.displayName || username,
+    'USER',
+    userInfo.email || null,
+    userInfo.avatarUrl || null,
+    '',
+    'NORMAL',
+    now,
+    now
+  ).run();
+
+  const user = await db.prepare(
+    'SELECT * FROM user WHERE uid = ?'
+  ).bind(userUid).first();
+
+  if (!user) {
+    throw new Error('Failed to retrieve created user');
+  }
+  console.log('👤 Created user from SSO:', username);
+
+  await db.prepare(`
+    INSERT INTO user_identity (user_id, idp_id, external_id, created_ts)
+    VALUES (?, ?, ?, ?)
+  `).bind(user.id, idpId, userInfo.identifier, now).run();
+
+  return user;
 }
 
-// HMAC-SHA256 签名
-async function hmacSHA256(data: string, secret: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  
-  const signature = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    encoder.encode(data)
-  );
-  
-  return btoa(String.fromCharCode(...new Uint8Array(signature)))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
+// 根据 identifier 生成可用的用户名，冲突时追加数字后缀
+async function generateSSOUsername(db: D1Database, identifier: string): Promise<string> {
+  const base = identifier.replace(/[^a-zA-Z0-9_.-]/g, '_').slice(0, 32) || 'user';
+  for (let i = 0; i < 100; i++) {
+    const candidate = i === 0 ? base : `${base}${i}`;
+    const existing = await db.prepare(
+      'SELECT id FROM user WHERE username = ?'
+    ).bind(candidate).first();
+    if (!existing) {
+      return candidate;
+    }
+  }
+  return `${base}-${uuidv4().slice(0, 8)}`;
 }
 
 export { authRoutes }; 
\ No newline at end of file
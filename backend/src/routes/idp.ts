@@ -0,0 +1,218 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { formatIdentityProvider, OAuth2Config, parseOAuth2Config, validateOAuth2Config } from '../services/idp';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+export const idpRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 校验 identifier 过滤正则
+function isValidIdentifierFilter(filter: string): boolean {
+  if (!filter) return true;
+  try {
+    new RegExp(filter);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 获取身份提供商列表（登录页需要，公开访问，不返回 clientSecret）
+idpRoutes.get('/', async (c) => {
+  try {
+    const idps = await c.env.DB.prepare(
+      'SELECT * FROM idp ORDER BY id ASC'
+    ).all();
+
+    return c.json({
+      identityProviders: (idps.results || []).map(formatIdentityProvider)
+    });
+  } catch (error: any) {
+    console.error('Error listing identity providers:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 获取单个身份提供商
+idpRoutes.get('/:id', async (c) => {
+  try {
+    const id = parseInt(c.req.param('id') || '');
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid identity provider ID' }, 400);
+    }
+
+    const idp = await c.env.DB.prepare(
+      'SELECT * FROM idp WHERE id = ?'
+    ).bind(id).first();
+
+    if (!idp) {
+      return c.json({ message: 'Identity provider not found' }, 404);
+    }
+
+    return c.json(formatIdentityProvider(idp));
+  } catch (error: any) {
+    console.error('Error getting identity provider:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 创建身份提供商（仅 HOST）
+idpRoutes.post('/', authMiddleware, async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const { title, type = 'OAUTH2', identifierFilter = '', config } = await c.req.json();
+    if (!title) {
+      return c.json({ message: 'Title is required' }, 400);
+    }
+    if (type !== 'OAUTH2') {
+      return c.json({ message: 'Unsupported identity provider type' }, 400);
+    }
+    if (!isValidIdentifierFilter(identifierFilter)) {
+      return c.json({ message: 'Invalid identifier filter' }, 400);
+    }
+
+    const oauth2Config = parseOAuth2Config({ config: JSON.stringify(config || {}) });
+    const validationError = validateOAuth2Config(oauth2Config);
+    if (validationError) {
+      return c.json({ message: validationError }, 400);
+    }
+    if (!oauth2Config.clientSecret) {
+      return c.json({ message: 'Client secret is required' }, 400);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await c.env.DB.prepare(`
+      INSERT INTO idp (name, type, identifier_filter, config, created_ts, updated_ts)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(title, type, identifierFilter, JSON.stringify({ oauth2Config }), now, now).run();
+
+    if (!result.success) {
+      throw new Error('Failed to create identity provider');
+    }
+
+    const idp = await c.env.DB.prepare(
+      'SELECT * FROM idp WHERE id = ?'
+    ).bind(result.meta.last_row_id).first();
+
+    return c.json(formatIdentityProvider(idp));
+  } catch (error: any) {
+    console.error('Error creating identity provider:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 更新身份提供商（仅 HOST），clientSecret 为空时保留原值
+idpRoutes.patch('/:id', authMiddleware, async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const id = parseInt(c.req.param('id') || '');
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid identity provider ID' }, 400);
+    }
+
+    const existing = await c.env.DB.prepare(
+      'SELECT * FROM idp WHERE id = ?'
+    ).bind(id).first();
+
+    if (!existing) {
+      return c.json({ message: 'Identity provider not found' }, 404);
+    }
+
+    const { title, identifierFilter, config } = await c.req.json();
+    const updates = [];
+    const values = [];
+
+    if (title !== undefined) {
+      if (!title) {
+        return c.json({ message: 'Title is required' }, 400);
+      }
+      updates.push('name = ?');
+      values.push(title);
+    }
+
+    if (identifierFilter !== undefined) {
+      if (!isValidIdentifierFilter(identifierFilter)) {
+        return c.json({ message: 'Invalid identifier filter' }, 400);
+      }
+      updates.push('identifier_filter = ?');
+      values.push(identifierFilter);
+    }
+
+    if (config !== undefined) {
+      const oauth2Config: OAuth2Config = parseOAuth2Config({ config: JSON.stringify(config || {}) });
+      if (!oauth2Config.clientSecret) {
+        oauth2Config.clientSecret = parseOAuth2Config(existing).clientSecret;
+      }
+      const validationError = validateOAuth2Config(oauth2Config);
+      if (validationError) {
+        return c.json({ message: validationError }, 400);
+      }
+      updates.push('config = ?');
+      values.push(JSON.stringify({ oauth2Config }));
+    }
+
+    updates.push('updated_ts = ?');
+    values.push(Math.floor(Date.now() / 1000));
+    values.push(id);
+
+    if (updates.length > 1) {
+      await c.env.DB.prepare(`
+        UPDATE idp SET ${updates.join(', ')} WHERE id = ?
+      `).bind(...values).run();
+    }
+
+    const idp = await c.env.DB.prepare(
+      'SELECT * FROM idp WHERE id = ?'
+    ).bind(id).first();
+
+    return c.json(formatIdentityProvider(idp));
+  } catch (error: any) {
+    console.error('Error updating identity provider:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 删除身份提供商（仅 HOST）
+idpRoutes.delete('/:id', authMiddleware, async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const id = parseInt(c.req.param('id') || '');
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid identity provider ID' }, 400);
+    }
+
+    const result = await c.env.DB.prepare(
+      'DELETE FROM idp WHERE id = ?'
+    ).bind(id).run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Identity provider not found' }, 404);
+    }
+
+    return c.json({ message: 'Identity provider deleted successfully' });
+  } catch (error: any) {
+    console.error('Error deleting identity provider:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,111 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { createImportJob, getImportJobProgress, runImportJob } from '../services/import';
+import { ImportFormatError } from '../services/import-source';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+// 导入文件大小上限（Workers 请求体上限为 100MB）
+const IMPORT_MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+export const importRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 辅助函数：通过 UID 获取用户 ID
+async function getUserIdFromUid(db: D1Database, uid: string): Promise<number | null> {
+  const user = await db.prepare('SELECT id FROM user WHERE uid = ?').bind(uid).first();
+  return user ? (user.id as number) : null;
+}
+
+// 上传导入文件并创建导入任务（multipart：file，timezoneOffset）
+importRoutes.post('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const formData = await c.req.formData();
+    const file = formData.get('file') as File | null;
+    if (!file || typeof file === 'string') {
+      return c.json({ message: 'No file provided' }, 400);
+    }
+    if (file.size > IMPORT_MAX_FILE_SIZE) {
+      return c.json({ message: 'File too large. Maximum size is 100MB.' }, 400);
+    }
+
+    const timezoneOffset = parseInt(String(formData.get('timezoneOffset') ?? '0')) || 0;
+    const job = await createImportJob(c.env, userId, file, {
+      username: userPayload.username,
+      timezoneOffset,
+    });
+
+    return c.json(job);
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return c.json({ message: error.message }, 400);
+    }
+    console.error('Create import job error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 获取导入任务进度
+importRoutes.get('/:uid', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    const job = await c.env.DB.prepare(
+      'SELECT * FROM import_job WHERE uid = ? AND creator_id = ?'
+    ).bind(c.req.param('uid'), userId).first();
+
+    if (!job) {
+      return c.json({ message: 'Import job not found' }, 404);
+    }
+
+    return c.json(await getImportJobProgress(c.env.DB, job));
+  } catch (error) {
+    console.error('Get import job error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 导入下一批笔记，客户端重复调用直到任务状态变为 COMPLETED
+importRoutes.post('/:uid/run', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    const job = await c.env.DB.prepare(
+      'SELECT * FROM import_job WHERE uid = ? AND creator_id = ?'
+    ).bind(c.req.param('uid'), userId).first();
+
+    if (!job) {
+      return c.json({ message: 'Import job not found' }, 404);
+    }
+
+    return c.json(await runImportJob(c.env, job));
+  } catch (error) {
+    console.error('Run import job error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,148 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { formatInbox, InboxStatus } from '../services/inbox';
+import { buildOrderBy, CursorKey, PageTokenError, paginate, parsePageSize } from '../services/pagination';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+export const inboxRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const INBOX_LIST_DEFAULT_PAGE_SIZE = 100;
+const INBOX_LIST_MAX_PAGE_SIZE = 200;
+
+// 辅助函数：通过 UID 获取用户 ID
+async function getUserIdFromUid(db: D1Database, uid: string): Promise<number | null> {
+  const user = await db.prepare('SELECT id FROM user WHERE uid = ?').bind(uid).first();
+  return user ? (user.id as number) : null;
+}
+
+// 获取当前用户的通知
+inboxRoutes.get('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const keys: CursorKey[] = [
+      { column: 'created_ts', desc: true },
+      { column: 'id', desc: true },
+    ];
+    const page = await paginate(c.env, {
+      scope: 'inboxes',
+      keys,
+      // 兼容旧版本客户端的 limit 参数
+      pageSize: parsePageSize(c.req.query('pageSize') || c.req.query('limit'), INBOX_LIST_DEFAULT_PAGE_SIZE, INBOX_LIST_MAX_PAGE_SIZE),
+      pageToken: c.req.query('pageToken'),
+      query: async (cursor, limit) => {
+        const inboxes = await c.env.DB.prepare(`
+          SELECT * FROM inbox
+          WHERE receiver_id = ?${cursor ? ` AND ${cursor.sql}` : ''}
+          ORDER BY ${buildOrderBy(keys)}
+          LIMIT ?
+        `).bind(userId, ...(cursor?.params || []), limit).all();
+        return (inboxes.results || []) as Record<string, unknown>[];
+      },
+      getCursor: (inbox) => [inbox.created_ts as number, inbox.id as number],
+    });
+
+    return c.json({
+      inboxes: page.items.map(formatInbox),
+      nextPageToken: page.nextPageToken,
+    });
+  } catch (error: any) {
+    if (error instanceof PageTokenError) {
+      return c.json({ message: error.message }, 400);
+    }
+    console.error('Error listing inboxes:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 更新通知状态（已读/归档）
+inboxRoutes.patch('/:id', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid inbox ID' }, 400);
+    }
+
+    const { status } = await c.req.json();
+    if (status !== InboxStatus.UNREAD && status !== InboxStatus.ARCHIVED) {
+      return c.json({ message: 'Invalid inbox status' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const result = await c.env.DB.prepare(
+      'UPDATE inbox SET status = ? WHERE id = ? AND receiver_id = ?'
+    ).bind(status, id, userId).run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Inbox not found' }, 404);
+    }
+
+    const inbox = await c.env.DB.prepare(
+      'SELECT * FROM inbox WHERE id = ?'
+    ).bind(id).first();
+
+    return c.json({ inbox: formatInbox(inbox) });
+  } catch (error: any) {
+    console.error('Error updating inbox:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 删除通知
+inboxRoutes.delete('/:id', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid inbox ID' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const result = await c.env.DB.prepare(
+      'DELETE FROM inbox WHERE id = ? AND receiver_id = ?'
+    ).bind(id, userId).run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Inbox not found' }, 404);
+    }
+
+    return c.json({ message: 'Inbox deleted successfully' });
+  } catch (error: any) {
+    console.error('Error deleting inbox:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
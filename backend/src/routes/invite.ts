@@ -0,0 +1,102 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { formatInvite, generateInviteCode } from '../services/invite';
+import { ASSIGNABLE_ROLES } from '../services/user-management';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+// 邀请码管理仅 HOST 可用
+export const inviteRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 获取全部邀请码（包括已过期和已用完的）
+inviteRoutes.get('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const invites = await c.env.DB.prepare(
+      'SELECT * FROM invite ORDER BY created_ts DESC, id DESC'
+    ).all();
+
+    return c.json({ invites: (invites.results || []).map(formatInvite) });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 创建邀请码：role 为注册后的角色，maxUses 为可使用次数（0 表示不限），expiresAt 为过期时间（可选）
+inviteRoutes.post('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const { role = 'USER', maxUses = 1, expiresAt } = await c.req.json();
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return c.json({ message: 'INVALID_ROLE' }, 400);
+    }
+    if (!Number.isInteger(maxUses) || maxUses < 0) {
+      return c.json({ message: 'Invalid max uses' }, 400);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    let expiresTs: number | null = null;
+    if (expiresAt) {
+      expiresTs = Math.floor(new Date(expiresAt).getTime() / 1000);
+      if (isNaN(expiresTs) || expiresTs <= now) {
+        return c.json({ message: 'Invalid expiration time' }, 400);
+      }
+    }
+
+    const invite = await c.env.DB.prepare(`
+      INSERT INTO invite (code, creator_id, role, max_uses, used_count, expires_ts, created_ts)
+      SELECT ?, id, ?, ?, 0, ?, ? FROM user WHERE uid = ?
+      RETURNING *
+    `).bind(generateInviteCode(), role, maxUses, expiresTs, now, userPayload.sub).first();
+
+    if (!invite) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    console.log(`✉️ Invite created by ${userPayload.username} (${role}, max uses: ${maxUses || 'unlimited'})`);
+    return c.json(formatInvite(invite));
+  } catch (error) {
+    console.error('Create invite error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 删除邀请码，已通过该邀请码注册的用户不受影响
+inviteRoutes.delete('/:id', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const result = await c.env.DB.prepare(
+      'DELETE FROM invite WHERE id = ?'
+    ).bind(parseInt(c.req.param('id'))).run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Invite not found' }, 404);
+    }
+
+    return c.json({ message: 'Invite deleted successfully' });
+  } catch (error) {
+    console.error('Delete invite error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
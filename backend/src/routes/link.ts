@@ -0,0 +1,159 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import {
+  fetchLinkMetadata,
+  fetchPublicUrl,
+  LINK_METADATA_FAILURE_TTL_SECONDS,
+  LINK_METADATA_TTL_SECONDS,
+  LINK_PREVIEW_MAX_IMAGE_BYTES,
+  LinkMetadata,
+  LinkPreviewError,
+  parseLinkUrl,
+  readLimitedBody,
+} from '../services/link-preview';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+export const linkRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 代理图片在浏览器中的缓存时间（秒）
+const IMAGE_CACHE_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+// 检查工作区是否开启了链接预览（未配置时默认开启）
+async function isLinkPreviewEnabled(db: D1Database): Promise<boolean> {
+  const setting = await db.prepare(
+    'SELECT setting_data FROM workspace_setting WHERE name = ?'
+  ).bind('settings/MEMO_RELATED').first();
+  if (!setting) return true;
+
+  try {
+    return JSON.parse(setting.setting_data as string)?.memoRelatedSetting?.enableLinkPreview !== false;
+  } catch {
+    return true;
+  }
+}
+
+// 转换为前端使用的 LinkMetadata，图片统一走代理地址
+function formatLinkMetadata(metadata: LinkMetadata) {
+  return {
+    title: metadata.title,
+    description: metadata.description,
+    image: metadata.image ? `/api/link/image?url=${encodeURIComponent(metadata.image)}` : '',
+  };
+}
+
+// 获取链接预览元数据（优先读取 D1 缓存）
+linkRoutes.get('/metadata', authMiddleware, async (c) => {
+  try {
+    const url = parseLinkUrl(c.req.query('url') || '');
+    if (!url) {
+      return c.json({ message: 'Invalid url' }, 400);
+    }
+
+    if (!(await isLinkPreviewEnabled(c.env.DB))) {
+      return c.json({ message: 'Link preview is disabled' }, 403);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const cached = await c.env.DB.prepare(
+      'SELECT title, description, image FROM link_metadata WHERE url = ? AND expires_ts > ?'
+    ).bind(url.toString(), now).first<LinkMetadata>();
+    if (cached) {
+      return c.json(formatLinkMetadata(cached));
+    }
+
+    let metadata: LinkMetadata;
+    let ttl = LINK_METADATA_TTL_SECONDS;
+    try {
+      metadata = await fetchLinkMetadata(url);
+    } catch (error: any) {
+      // 抓取失败也缓存一段较短的时间，避免反复请求不可用的地址
+      console.log(`⚠️ Link preview fetch failed for ${url.toString()}: ${error instanceof LinkPreviewError ? error.message : error?.name || error}`);
+      metadata = { title: '', description: '', image: '' };
+      ttl = LINK_METADATA_FAILURE_TTL_SECONDS;
+    }
+
+    await c.env.DB.batch([
+      c.env.DB.prepare('DELETE FROM link_metadata WHERE expires_ts <= ?').bind(now),
+      c.env.DB.prepare(`
+        INSERT INTO link_metadata (url, title, description, image, created_ts, expires_ts)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (url) DO UPDATE SET
+          title = excluded.title,
+          description = excluded.description,
+          image = excluded.image,
+          created_ts = excluded.created_ts,
+          expires_ts = excluded.expires_ts
+      `).bind(url.toString(), metadata.title, metadata.description, metadata.image, now, now + ttl),
+    ]);
+
+    return c.json(formatLinkMetadata(metadata));
+  } catch (error: any) {
+    console.error('Get link metadata error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 代理预览图片（<img> 无法携带令牌，因此公开访问，但只代理缓存中出现过的图片地址）
+linkRoutes.get('/image', async (c) => {
+  try {
+    const url = parseLinkUrl(c.req.query('url') || '');
+    if (!url) {
+      return c.json({ message: 'Invalid url' }, 400);
+    }
+
+    const known = await c.env.DB.prepare(
+      'SELECT 1 FROM link_metadata WHERE image = ? AND expires_ts > ? LIMIT 1'
+    ).bind(url.toString(), Math.floor(Date.now() / 1000)).first();
+    if (!known) {
+      return c.json({ message: 'Image not found' }, 404);
+    }
+
+    let upstream: Response;
+    try {
+      ({ response: upstream } = await fetchPublicUrl(url, 'image/*'));
+    } catch (error: any) {
+      console.log(`⚠️ Link preview image fetch failed for ${url.toString()}: ${error instanceof LinkPreviewError ? error.message : error?.name || error}`);
+      return c.json({ message: 'Failed to fetch image' }, 502);
+    }
+
+    // 不代理 SVG，避免在本站域名下执行其中的脚本
+    const contentType = (upstream.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    if (!upstream.ok || !contentType.startsWith('image/') || contentType === 'image/svg+xml') {
+      await upstream.body?.cancel();
+      return c.json({ message: 'Failed to fetch image' }, 502);
+    }
+
+    const contentLength = Number(upstream.headers.get('Content-Length') || 0);
+    if (contentLength > LINK_PREVIEW_MAX_IMAGE_BYTES) {
+      await upstream.body?.cancel();
+      return c.json({ message: 'Image is too large' }, 413);
+    }
+    const { bytes, truncated } = await readLimitedBody(upstream, LINK_PREVIEW_MAX_IMAGE_BYTES);
+    if (truncated) {
+      return c.json({ message: 'Image is too large' }, 413);
+    }
+
+    return new Response(bytes, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': bytes.byteLength.toString(),
+        'Cache-Control': `public, max-age=${IMAGE_CACHE_MAX_AGE_SECONDS}`,
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error('Proxy link image error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
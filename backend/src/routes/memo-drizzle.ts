@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { eq, and, desc, asc, sql, like, inArray, or } from 'drizzle-orm';
 import { createDb, memos, users, tags, memoTags, memoRelations, memoReactions, resources, memoResources } from '../db';
 import { v4 as uuidv4 } from 'uuid';
+import { loadMemoChildren } from '../services/memo-details';
 
 type Env = {
   DB: D1Database;
@@ -133,84 +134,51 @@ memoRoutes.get('/', async (c) => {
       .limit(limit)
       .offset(offset);
 
-    // 为每个memo获取标签和资源
-    const result = await Promise.all(
-      memoList.map(async (memo) => {
-        // 获取标签
-        const memoTagList = await db
-          .select({
-            id: tags.id,
-            name: tags.name,
-          })
-          .from(tags)
-          .innerJoin(memoTags, eq(tags.id, memoTags.tagId))
-          .where(eq(memoTags.memoId, memo.id));
-
-        // 获取资源
-        const memoResourceList = await db
-          .select({
-            id: resources.id,
-            uid: resources.uid,
-            filename: resources.filename,
-            type: resources.type,
-            size: resources.size,
-            externalLink: resources.externalLink,
-          })
-          .from(resources)
-          .innerJoin(memoResources, eq(resources.id, memoResources.resourceId))
-          .where(eq(memoResources.memoId, memo.id));
-
-        // 获取reactions
-        const reactionList = await db
-          .select({
-            id: memoReactions.id,
-            reactionType: memoReactions.reactionType,
-            creatorId: memoReactions.creatorId,
-          })
-          .from(memoReactions)
-          .where(eq(memoReactions.memoId, memo.id));
-
-        return {
-          id: memo.id,
-          name: `memos/${memo.id}`,
-          uid: memo.uid,
-          creator: `users/${memo.creatorId}`,
-          content: memo.content,
-          visibility: memo.visibility,
-          pinned: memo.pinned === 1,
-          rowStatus: memo.rowStatus,
-          location: memo.locationPlaceholder || memo.locationLatitude || memo.locationLongitude ? {
-            placeholder: memo.locationPlaceholder || '',
-            latitude: memo.locationLatitude || 0,
-            longitude: memo.locationLongitude || 0,
-          } : undefined,
-          tags: memoTagList.map(tag => ({
-            id: tag.id,
-            name: tag.name,
-          })),
-          resources: memoResourceList.map(resource => ({
-            id: resource.id,
-            uid: resource.uid,
-            name: `resources/${resource.uid}`,
-            filename: resource.filename,
-            type: resource.type,
-            size: resource.size,
-            externalLink: resource.externalLink,
-          })),
-          reactions: reactionList.map(reaction => ({
-            id: reaction.id,
-            reactionType: reaction.reactionType,
-            creator: `users/${reaction.creatorId}`,
-          })),
-          relations: [], // 暂时为空，后续可以添加
-          snippet: memo.content ? memo.content.slice(0, 100) : '',
-          createTime: new Date(memo.createdTs * 1000).toISOString(),
-          updateTime: new Date(memo.updatedTs * 1000).toISOString(),
-          displayTime: new Date(memo.createdTs * 1000).toISOString(),
-          state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
-        };
-      })
-    );
+    // 一次批量读取本页全部memo的标签、资源和reactions
+    const children = await loadMemoChildren(c.env.DB, memoList.map((memo) => memo.id));
+    const result = memoList.map((memo) => {
+      const { tags: memoTagList, resources: memoResourceList, reactions: reactionList } = children.get(memo.id)!;
+
+      return {
+        id: memo.id,
+        name: `memos/${memo.id}`,
+        uid: memo.uid,
+        creator: `users/${memo.creatorId}`,
+        content: memo.content,
+        visibility: memo.visibility,
+        pinned: memo.pinned === 1,
+        rowStatus: memo.rowStatus,
+        location: memo.locationPlaceholder || memo.locationLatitude || memo.locationLongitude ? {
+          placeholder: memo.locationPlaceholder || '',
+          latitude: memo.locationLatitude || 0,
+          longitude: memo.locationLongitude || 0,
+        } : undefined,
+        tags: memoTagList.map(tag => ({
+          id: tag.id,
+          name: tag.name,
+        })),
+        resources: memoResourceList.map(resource => ({
+          id: resource.id,
+          uid: resource.uid,
+          name: `resources/${resource.uid}`,
+          filename: resource.filename,
+          type: resource.type,
+          size: resource.size,
+          externalLink: resource.external_link,
+        })),
+        reactions: reactionList.map(reaction => ({
+          id: reaction.id,
+          reactionType: reaction.reaction_type,
+          creator: `users/${reaction.creator_id}`,
+        })),
+        relations: [], // 暂时为空，后续可以添加
+        snippet: memo.content ? memo.content.slice(0, 100) : '',
+        createTime: new Date(memo.createdTs * 1000).toISOString(),
+        updateTime: new Date(memo.updatedTs * 1000).toISOString(),
+        displayTime: new Date(memo.createdTs * 1000).toISOString(),
+        state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
+      };
+    });
 
     return c.json(result);
   } catch (error) {
@@ -1,9 +1,29 @@
 import { Hono } from 'hono';
 import { v4 as uuidv4 } from 'uuid';
-import { updateMemoTags } from '../utils';
+import { computeMemoPropertyValues, MEMO_PROPERTY_COLUMNS, updateMemoTags } from '../utils';
+import { scheduleMemoWebhooks, WebhookActivityType } from '../services/webhook';
+import { notifyMemoComment, notifyMemoMentions, notifyMemoReaction } from '../services/inbox';
+import { authenticateToken } from '../services/token';
+import { buildHighlightedSnippet, buildSearchQuery } from '../services/search';
+import { compileMemoFilter, FilterError } from '../services/filter';
+import { parseScheduleTime, ScheduleTimeError } from '../services/schedule';
+import { formatMemoRevision, recordMemoRevision } from '../services/revision';
+import { getMemoWithDetails, loadMemosWithDetails } from '../services/memo-details';
+import { isSuperUser } from '../services/user-management';
+import {
+  buildOrderBy,
+  CursorKey,
+  decodePageToken,
+  encodePageToken,
+  Page,
+  PageTokenError,
+  paginate,
+  parsePageSize,
+} from '../services/pagination';
 
 type Env = {
   DB: D1Database;
+  JWT_SECRET: string;
 };
 
 interface Variables {
@@ -16,6 +36,10 @@ interface Variables {
 
 const memoRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+const MEMO_LIST_DEFAULT_PAGE_SIZE = 50;
+const MEMO_LIST_MAX_PAGE_SIZE = 100;
+const MEMO_SEARCH_PAGE_SCOPE = 'memos:search';
+
 // 创建笔记
 memoRoutes.post('/', async (c) => {
   try {
@@ -24,15 +48,29 @@ memoRoutes.post('/', async (c) => {
       return c.json({ message: 'Unauthorized' }, 401);
     }
 
-    const { content, visibility = 'PRIVATE', resourceIdList = [], resources = [], relations = [], location } = await c.req.json();
+    const { content, visibility = 'PRIVATE', resourceIdList = [], resources = [], relations = [], location, publishTime, remindTime } = await c.req.json();
     
     // 允许只有资源而没有文本内容的memo
     if (!content && (!resources || resources.length === 0) && (!resourceIdList || resourceIdList.length === 0)) {
       return c.json({ message: 'Content or resources are required' }, 400);
     }
 
+    let publishTs;
+    let remindTs;
+    try {
+      publishTs = parseScheduleTime(publishTime, 'publishTime');
+      remindTs = parseScheduleTime(remindTime, 'remindTime');
+    } catch (error) {
+      if (error instanceof ScheduleTimeError) {
+        return c.json({ message: error.message }, 400);
+      }
+      throw error;
+    }
+
     const memoUid = uuidv4();
     const now = Math.floor(Date.now() / 1000);
+    // 发布时间已过去时直接发布
+    const scheduledPublishTs = publishTs && publishTs > now ? publishTs : null;
 
     // 获取用户ID
     const user = await c.env.DB.prepare(
@@ -45,8 +83,8 @@ memoRoutes.post('/', async (c) => {
 
     // 创建笔记
     const memoResult = await c.env.DB.prepare(`
-      INSERT INTO memo (uid, creator_id, content, visibility, row_status, location_placeholder, location_latitude, location_longitude, created_ts, updated_ts)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO memo (uid, creator_id, content, visibility, row_status, location_placeholder, location_latitude, location_longitude, ${MEMO_PROPERTY_COLUMNS.join(', ')}, publish_ts, remind_ts, created_ts, updated_ts)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${MEMO_PROPERTY_COLUMNS.map(() => '?').join(', ')}, ?, ?, ?, ?)
     `).bind(
       memoUid, 
       user.id, 
@@ -56,6 +94,9 @@ memoRoutes.post('/', async (c) => {
       location?.placeholder || null,
       location?.latitude || null,
       location?.longitude || null,
+      ...computeMemoPropertyValues(content),
+      scheduledPublishTs,
+      remindTs ?? null,
       now, 
       now
     ).run();
@@ -151,8 +192,32 @@ memoRoutes.post('/', async (c) => {
       // 标签创建失败不影响memo创建
     }
 
+    // 记录初始版本
+    try {
+      await recordMemoRevision(c.env.DB, memoId as number, {
+        creatorId: user.id as number,
+        content,
+        visibility,
+        createdTs: now,
+      });
+    } catch (error) {
+      console.error('Failed to record memo revision:', error);
+    }
+
+    // 通知被提及的用户，定时笔记在发布时再通知
+    if (!scheduledPublishTs) {
+      try {
+        await notifyMemoMentions(c.env.DB, user.id as number, memoId as number, content, visibility);
+      } catch (error) {
+        console.error('Failed to notify memo mentions:', error);
+      }
+    }
+
     // 获取创建的笔记信息
     const newMemo = await getMemoWithDetails(c.env.DB, memoId);
+
+    // 异步触发 webhook，不影响响应速度
+    scheduleMemoWebhooks(c, WebhookActivityType.MEMO_CREATED, newMemo);
     
     return c.json(newMemo);
 
@@ -166,18 +231,26 @@ memoRoutes.post('/', async (c) => {
 memoRoutes.get('/', async (c) => {
   try {
     const url = new URL(c.req.url);
-    const rowStatus = url.searchParams.get('rowStatus') || 'NORMAL';
+    // 回收站中的笔记通过 /api/trash 获取，不出现在列表中
+    const rowStatus = url.searchParams.get('rowStatus') === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL';
     const creatorId = url.searchParams.get('creatorId');
     const parent = url.searchParams.get('parent'); // 处理parent参数，格式如 "users/1"
     const tag = url.searchParams.get('tag');
     const visibility = url.searchParams.get('visibility');
-    const limit = parseInt(url.searchParams.get('limit') || '50');
-    const offset = parseInt(url.searchParams.get('offset') || '0');
+    // 兼容旧版本客户端的 limit 参数
+    const pageSize = parsePageSize(url.searchParams.get('pageSize') || url.searchParams.get('limit'), MEMO_LIST_DEFAULT_PAGE_SIZE, MEMO_LIST_MAX_PAGE_SIZE);
+    const pageToken = url.searchParams.get('pageToken');
+    const direction = url.searchParams.get('direction') === 'ASC' ? 'ASC' : 'DESC';
 	const filter = url.searchParams.get('filter'); // 新的filter参数
 	const oldFilter = url.searchParams.get('oldFilter'); // 例如：content_search == ["hello"] && tag_search == ["tag1"]
 
-    let whereClause = 'WHERE m.row_status = ? AND m.id NOT IN (SELECT memo_id FROM memo_relation WHERE type = ?)';
-    const params = [rowStatus, 'COMMENT'];
+    // 已归档用户的笔记不再展示
+    let whereClause = "WHERE m.row_status = ? AND u.row_status = 'NORMAL' AND m.id NOT IN (SELECT memo_id FROM memo_relation WHERE type = ?)";
+    const params: any[] = [rowStatus, 'COMMENT'];
+
+    // 未发布的定时笔记只对创建者可见
+    whereClause += ' AND (m.publish_ts IS NULL OR m.creator_id = ?)';
+    params.push(await getRequestUserId(c) ?? 0);
 
     if (creatorId) {
       whereClause += ' AND m.creator_id = ?';
@@ -190,86 +263,31 @@ memoRoutes.get('/', async (c) => {
       whereClause += ' AND m.creator_id = ?';
       params.push(parentUserId);
     }
-	// 处理筛选条件 - 同时处理filter和oldFilter参数
-	const processFilter = (filterString: string) => {
-	  if (!filterString) return;
-	  
+	// 解析筛选表达式，filter 与 oldFilter 相同时只处理一次，表达式无效时返回 400
+	const contentSearchWords: string[] = [];
+	const filterStrings = [...new Set([filter, oldFilter].filter((value): value is string => !!value))];
+	for (const filterString of filterStrings) {
 	  console.log('🔍 Backend - Processing filter:', filterString);
-	  // 匹配 content_search == ["xxx"]
-	  const contentSearchMatch = filterString.match(/content_search == \[([^\]]+)\]/);
-	  if (contentSearchMatch) {
-		// 提取内容关键词数组
-		const words = JSON.parse(`[${contentSearchMatch[1]}]`);
-		console.log('🔍 Backend - Content search words:', words);
-		words.forEach((word: string) => {
-		  whereClause += ' AND m.content LIKE ?';
-		  params.push(`%${word}%`);
-		});
-	  }
-	  // 处理标签搜索
-	  const tag_search = filterString.match(/tag_search == \[([^\]]+)\]/);
-	  if (tag_search) {
-		// 提取标签名称数组
-		const tags = JSON.parse(`[${tag_search[1]}]`);
-		console.log('🏷️ Backend - Processing tag search:', tags);
-		tags.forEach((tag: string) => {
-			// 移除引号，因为JSON.parse会保留引号
-			const cleanTag = tag.replace(/"/g, '');
-			console.log('🏷️ Backend - Searching for tag:', cleanTag);
-			whereClause += ` AND EXISTS (
-			SELECT 1 FROM memo_tag mt 
-			JOIN tag t ON mt.tag_id = t.id 
-			WHERE mt.memo_id = m.id AND t.name = ?
-		)`;
-		  params.push(cleanTag);
-		});
-	  }
-	  // 处理属性筛选器
-	  const hasTaskListMatch = filterString.match(/has_task_list == true/);
-	  if (hasTaskListMatch) {
-		console.log('📋 Backend - Processing hasTaskList filter');
-		whereClause += ` AND m.content LIKE '%- [%]%'`;
-	  }
-	  
-	  const hasLinkMatch = filterString.match(/has_link == true/);
-	  if (hasLinkMatch) {
-		console.log('🔗 Backend - Processing hasLink filter');
-		whereClause += ` AND m.content LIKE '%http%'`;
-	  }
-	  
-	  const hasCodeMatch = filterString.match(/has_code == true/);
-	  if (hasCodeMatch) {
-		console.log('💻 Backend - Processing hasCode filter');
-		whereClause += " AND (m.content LIKE '%```%' OR m.content LIKE '%`%')";
-	  }
-	  
-	  // 处理置顶筛选器
-	  const pinnedMatch = filterString.match(/pinned == true/);
-	  if (pinnedMatch) {
-		console.log('📌 Backend - Processing pinned filter');
-		whereClause += ' AND m.pinned = 1';
+	  let compiledFilter;
+	  try {
+		compiledFilter = compileMemoFilter(filterString, { extractSearch: true });
+	  } catch (error) {
+		if (error instanceof FilterError) {
+		  return c.json({ message: error.message }, 400);
+		}
+		throw error;
 	  }
-	  
-	  // 处理displayTime时间范围筛选器
-	  const displayTimeAfterMatch = filterString.match(/display_time_after == (\d+)/);
-	  const displayTimeBeforeMatch = filterString.match(/display_time_before == (\d+)/);
-	  if (displayTimeAfterMatch) {
-		const timestamp = parseInt(displayTimeAfterMatch[1]);
-		console.log('📅 Backend - Processing displayTimeAfter filter:', timestamp);
-		whereClause += ' AND m.created_ts >= ?';
-		params.push(timestamp);
+	  if (compiledFilter.sql) {
+		whereClause += ` AND (${compiledFilter.sql})`;
+		params.push(...compiledFilter.params);
 	  }
-	  if (displayTimeBeforeMatch) {
-		const timestamp = parseInt(displayTimeBeforeMatch[1]);
-		console.log('📅 Backend - Processing displayTimeBefore filter:', timestamp);
-		whereClause += ' AND m.created_ts < ?';
-		params.push(timestamp);
-	  }
-	};
-	
-	// 调用筛选处理函数
-	processFilter(filter);
-	processFilter(oldFilter);
+	  // 内容搜索关键词统一交给全文索引处理
+	  contentSearchWords.push(...compiledFilter.searchWords);
+	}
+
+	const searchQuery = buildSearchQuery(contentSearchWords);
+	whereClause += searchQuery.where;
+	params.push(...searchQuery.params);
 	
     if (visibility) {
       whereClause += ' AND m.visibility = ?';
@@ -291,47 +309,98 @@ memoRoutes.get('/', async (c) => {
       params.push(tag);
     }
 
-    params.push(limit.toString(), offset.toString());
-
     console.log('🔍 Backend - Final query params:', params);
     console.log('🔍 Backend - Final whereClause:', whereClause);
 
-    const memos = await c.env.DB.prepare(`
-      SELECT m.*, u.username as creator_username
-      FROM memo m
-      JOIN user u ON m.creator_id = u.id
-      ${whereClause}
-      ORDER BY m.created_ts DESC
-      LIMIT ? OFFSET ?
-    `).bind(...params).all();
+    const queryMemos = async (conditionSql: string, conditionParams: unknown[], orderBy: string, limit: number, offset = 0) => {
+      const result = await c.env.DB.prepare(`
+        SELECT m.*, u.username as creator_username${searchQuery.snippetColumn ? `, ${searchQuery.snippetColumn} AS search_snippet` : ''}
+        FROM memo m
+        JOIN user u ON m.creator_id = u.id
+        ${searchQuery.join}
+        ${whereClause}${conditionSql}
+        ORDER BY ${orderBy}
+        LIMIT ? OFFSET ?
+      `).bind(...params, ...conditionParams, limit, offset).all();
+      return (result.results || []) as Record<string, unknown>[];
+    };
+
+    const timeColumn = await getMemoTimeColumn(c.env.DB);
+    let page: Page<Record<string, unknown>>;
+    if (searchQuery.orderBy) {
+      // 按相关度排序时没有稳定的排序键，游标记录已读取的条数
+      const [offset = 0] = (await decodePageToken(c.env, MEMO_SEARCH_PAGE_SCOPE, pageToken, 1)) ?? [];
+      const rows = await queryMemos('', [], `${searchQuery.orderBy}, m.id DESC`, pageSize + 1, Number(offset));
+      page = {
+        items: rows.slice(0, pageSize),
+        nextPageToken: rows.length > pageSize ? await encodePageToken(c.env, MEMO_SEARCH_PAGE_SCOPE, [Number(offset) + pageSize]) : '',
+      };
+    } else {
+      // 指定创建者的正常笔记（首页、个人主页）置顶笔记排在最前，与前端的排序一致
+      const pinnedFirst = rowStatus === 'NORMAL' && !!(creatorId || parent);
+      const keys: CursorKey[] = [
+        ...(pinnedFirst ? [{ column: 'm.pinned', desc: true }] : []),
+        { column: `m.${timeColumn}`, desc: direction === 'DESC' },
+        { column: 'm.id', desc: direction === 'DESC' },
+      ];
+      page = await paginate(c.env, {
+        scope: `memos:${pinnedFirst ? 'pinned:' : ''}${timeColumn}:${direction}`,
+        keys,
+        pageSize,
+        pageToken,
+        query: (cursor, limit) => queryMemos(cursor ? ` AND ${cursor.sql}` : '', cursor?.params || [], buildOrderBy(keys), limit),
+        getCursor: (memo) => [
+          ...(pinnedFirst ? [memo.pinned ? 1 : 0] : []),
+          memo[timeColumn] as number,
+          memo.id as number,
+        ],
+      });
+    }
 
-    console.log('🔍 Backend - Query results:', memos.results?.length || 0, 'memos found');
+    console.log('🔍 Backend - Query results:', page.items.length, 'memos found');
 
-    // 为每个笔记获取详细信息
+    // 一次批量读取本页全部笔记的详细信息
+    const details = await loadMemosWithDetails(c.env.DB, page.items.map((memo) => memo.id as number));
     const memosWithDetails = [];
-    for (const memo of memos.results || []) {
-      const memoWithDetails = await getMemoWithDetails(c.env.DB, memo.id as number);
-      memosWithDetails.push(memoWithDetails);
+    for (const memo of page.items) {
+      const memoWithDetails = details.get(memo.id as number);
+      if (!memoWithDetails) continue;
+      // 搜索时附带高亮摘要
+      const searchSnippet = contentSearchWords.length > 0
+        ? (memo.search_snippet as string | undefined) || buildHighlightedSnippet(memo.content as string, searchQuery.highlightTerms)
+        : '';
+      // displayTs 为列表排序使用的时间
+      const listMemo = { ...memoWithDetails, displayTs: memo[timeColumn] };
+      memosWithDetails.push(searchSnippet ? { ...listMemo, searchSnippet } : listMemo);
     }
 
-    return c.json(memosWithDetails);
+    return c.json({ memos: memosWithDetails, nextPageToken: page.nextPageToken });
 
   } catch (error) {
+    if (error instanceof PageTokenError) {
+      return c.json({ message: error.message }, 400);
+    }
     console.error('Get memos error:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
 });
 
-// 获取单个笔记
-memoRoutes.get('/:id', async (c) => {
+// 获取单个笔记（id 只匹配数字，避免遮蔽 /stats）
+memoRoutes.get('/:id{[0-9]+}', async (c) => {
   try {
     const memoId = parseInt(c.req.param('id'));
     
     const memo = await c.env.DB.prepare(
-      'SELECT m.*, u.username as creator_username FROM memo m JOIN user u ON m.creator_id = u.id WHERE m.id = ?'
+      'SELECT m.*, u.username as creator_username, u.row_status as creator_row_status FROM memo m JOIN user u ON m.creator_id = u.id WHERE m.id = ?'
     ).bind(memoId).first();
 
-    if (!memo) {
+    // 已归档用户的笔记不再展示
+    if (!memo || memo.creator_row_status !== 'NORMAL') {
+      return c.json({ message: 'Memo not found' }, 404);
+    }
+
+    // 未发布的定时笔记和回收站中的笔记只对创建者可见
+    if ((memo.publish_ts !== null || memo.row_status === 'DELETED') && memo.creator_id !== await getRequestUserId(c)) {
       return c.json({ message: 'Memo not found' }, 404);
     }
 
@@ -344,8 +413,7 @@ memoRoutes.get('/:id', async (c) => {
       if (authHeader && authHeader.startsWith('Bearer ')) {
         const token = authHeader.substring(7);
         try {
-          const jwtSecret = c.env.JWT_SECRET || 'your-super-secret-jwt-key-for-local-development-only-this-should-be-at-least-32-characters-long';
-          userPayload = await verifyJWT(token, jwtSecret);
+          userPayload = await authenticateToken(c.env, token);
         } catch (error) {
           console.log('🔐 JWT verification failed:', error);
         }
@@ -418,17 +486,30 @@ memoRoutes.patch('/:id', async (c) => {
       'SELECT * FROM memo WHERE id = ?'
     ).bind(memoId).first();
 
-    if (!memo) {
+    // 回收站中的笔记需要先恢复才能编辑
+    if (!memo || memo.row_status === 'DELETED') {
       return c.json({ message: 'Memo not found' }, 404);
     }
 
     const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
-    if (memo.creator_id !== userId && userPayload.role !== 'HOST') {
+    if (memo.creator_id !== userId && !isSuperUser(userPayload.role)) {
       return c.json({ message: 'Forbidden' }, 403);
     }
 
-    const { content, visibility, state, pinned, resourceIdList, resources = [], relations, location } = await c.req.json();
+    const { content, visibility, state, pinned, resourceIdList, resources = [], relations, location, publishTime, remindTime } = await c.req.json();
     const now = Math.floor(Date.now() / 1000);
+
+    let publishTs;
+    let remindTs;
+    try {
+      publishTs = parseScheduleTime(publishTime, 'publishTime');
+      remindTs = parseScheduleTime(remindTime, 'remindTime');
+    } catch (error) {
+      if (error instanceof ScheduleTimeError) {
+        return c.json({ message: error.message }, 400);
+      }
+      throw error;
+    }
 	// 新增：将 state 转为 rowStatus
 	let rowStatus;
 	if (state !== undefined) {
@@ -445,6 +526,9 @@ memoRoutes.patch('/:id', async (c) => {
     if (content !== undefined) {
       updates.push('content = ?');
       values.push(content);
+      // 内容变化时重新计算内容属性
+      updates.push(...MEMO_PROPERTY_COLUMNS.map((column) => `${column} = ?`));
+      values.push(...computeMemoPropertyValues(content));
     }
     
     if (visibility !== undefined) {
@@ -467,6 +551,25 @@ memoRoutes.patch('/:id', async (c) => {
       values.push(location?.longitude || null);
     }
     
+    // 定时发布：设置为未来时间时重新进入定时状态；清除或改为过去时间时立即发布定时笔记
+    let isScheduled = memo.publish_ts !== null;
+    if (publishTs !== undefined) {
+      if (publishTs && publishTs > now) {
+        updates.push('publish_ts = ?');
+        values.push(publishTs);
+        isScheduled = true;
+      } else if (isScheduled) {
+        updates.push('publish_ts = NULL', 'created_ts = ?');
+        values.push(now);
+        isScheduled = false;
+      }
+    }
+
+    if (remindTs !== undefined) {
+      updates.push('remind_ts = ?');
+      values.push(remindTs);
+    }
+
     // 支持归档
     if (rowStatus !== undefined) {
       updates.push('row_status = ?');
@@ -482,6 +585,25 @@ memoRoutes.patch('/:id', async (c) => {
       `).bind(...values).run();
     }
 
+    // 内容或可见性变化时记录新版本
+    if ((content !== undefined && content !== memo.content) || (visibility !== undefined && visibility !== memo.visibility)) {
+      try {
+        await recordMemoRevision(c.env.DB, memoId, {
+          creatorId: (userId ?? memo.creator_id) as number,
+          content: content ?? memo.content,
+          visibility: visibility ?? memo.visibility,
+          createdTs: now,
+        }, {
+          creatorId: memo.creator_id as number,
+          content: memo.content as string,
+          visibility: memo.visibility as string,
+          createdTs: memo.updated_ts as number,
+        });
+      } catch (error) {
+        console.error('Failed to record memo revision:', error);
+      }
+    }
+
     // 处理资源关联更新 - 支持两种格式
     let finalResourceIdList = resourceIdList;
     
@@ -575,17 +697,37 @@ memoRoutes.patch('/:id', async (c) => {
       }
     }
 
-    // 如果内容更新了，重新提取标签
-    if (content !== undefined && userId) {
+    // 如果内容更新了，重新提取标签（标签和提及都归属笔记作者，管理员编辑时也不例外）
+    if (content !== undefined) {
       try {
-        await updateMemoTags(c.env.DB, memoId, userId, content);
+        await updateMemoTags(c.env.DB, memoId, memo.creator_id as number, content);
       } catch (error) {
         console.error('Failed to update memo tags:', error);
         // 标签更新失败不影响memo更新
       }
     }
 
+    // 只通知新增的提及，定时笔记在发布时再通知；提前发布的定时笔记不会再被定时任务处理，需按完整内容通知
+    const isPublishedNow = memo.publish_ts !== null && !isScheduled;
+    if (!isScheduled && (content !== undefined || isPublishedNow)) {
+      try {
+        await notifyMemoMentions(
+          c.env.DB,
+          memo.creator_id as number,
+          memoId,
+          content ?? (memo.content as string),
+          visibility ?? (memo.visibility as string),
+          isPublishedNow ? undefined : (memo.content as string)
+        );
+      } catch (error) {
+        console.error('Failed to notify memo mentions:', error);
+      }
+    }
+
     const updatedMemo = await getMemoWithDetails(c.env.DB, memoId);
+
+    // 异步触发 webhook，不影响响应速度
+    scheduleMemoWebhooks(c, WebhookActivityType.MEMO_UPDATED, updatedMemo);
     
     return c.json(updatedMemo);
 
@@ -595,6 +737,157 @@ memoRoutes.patch('/:id', async (c) => {
   }
 });
 
+// 获取笔记的历史版本（仅创建者和管理员），按时间倒序
+memoRoutes.get('/:id{[0-9]+}/revisions', async (c) => {
+  try {
+    const memoId = parseInt(c.req.param('id'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const memo = await c.env.DB.prepare(
+      'SELECT creator_id FROM memo WHERE id = ?'
+    ).bind(memoId).first();
+
+    if (!memo) {
+      return c.json({ message: 'Memo not found' }, 404);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (memo.creator_id !== userId && !isSuperUser(userPayload.role)) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const { results } = await c.env.DB.prepare(`
+      SELECT r.*, u.username as creator_username
+      FROM memo_revision r
+      JOIN user u ON r.creator_id = u.id
+      WHERE r.memo_id = ?
+      ORDER BY r.id DESC
+    `).bind(memoId).all();
+
+    return c.json((results || []).map(formatMemoRevision));
+  } catch (error) {
+    console.error('List memo revisions error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 将笔记恢复到指定版本的内容和可见性，恢复操作本身也会记录为一个新版本
+memoRoutes.post('/:id{[0-9]+}/revisions/:revisionId{[0-9]+}/restore', async (c) => {
+  try {
+    const memoId = parseInt(c.req.param('id'));
+    const revisionId = parseInt(c.req.param('revisionId'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const memo = await c.env.DB.prepare(
+      'SELECT * FROM memo WHERE id = ?'
+    ).bind(memoId).first();
+
+    // 与编辑一致，回收站中的笔记需要先恢复才能回滚版本
+    if (!memo || memo.row_status === 'DELETED') {
+      return c.json({ message: 'Memo not found' }, 404);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (memo.creator_id !== userId && !isSuperUser(userPayload.role)) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const revision = await c.env.DB.prepare(
+      'SELECT content, visibility FROM memo_revision WHERE id = ? AND memo_id = ?'
+    ).bind(revisionId, memoId).first();
+
+    if (!revision) {
+      return c.json({ message: 'Revision not found' }, 404);
+    }
+
+    const content = revision.content as string;
+    const visibility = revision.visibility as string;
+    const now = Math.floor(Date.now() / 1000);
+
+    await c.env.DB.prepare(`
+      UPDATE memo SET content = ?, visibility = ?, ${MEMO_PROPERTY_COLUMNS.map((column) => `${column} = ?`).join(', ')}, updated_ts = ?
+      WHERE id = ?
+    `).bind(content, visibility, ...computeMemoPropertyValues(content), now, memoId).run();
+
+    await recordMemoRevision(c.env.DB, memoId, {
+      creatorId: (userId ?? memo.creator_id) as number,
+      content,
+      visibility,
+      createdTs: now,
+    });
+
+    try {
+      await updateMemoTags(c.env.DB, memoId, memo.creator_id as number, content);
+    } catch (error) {
+      console.error('Failed to update memo tags:', error);
+    }
+
+    const updatedMemo = await getMemoWithDetails(c.env.DB, memoId);
+
+    // 异步触发 webhook，不影响响应速度
+    scheduleMemoWebhooks(c, WebhookActivityType.MEMO_UPDATED, updatedMemo);
+
+    console.log(`✅ Restored memo ${memoId} to revision ${revisionId}`);
+    return c.json(updatedMemo);
+  } catch (error) {
+    console.error('Restore memo revision error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 回填内容属性的默认和最大批量大小，避免单次请求超出 Worker 的 CPU 时间限制
+const PROPERTY_BACKFILL_DEFAULT_LIMIT = 100;
+const PROPERTY_BACKFILL_MAX_LIMIT = 500;
+
+// 为已有笔记重新计算内容属性，按 id 分批处理，返回 nextAfterId 供下一次调用，为 null 表示已全部完成
+// 这是部署升级后的全站维护操作，与工作区设置一样只允许 HOST 调用，ADMIN 不可用
+memoRoutes.post('/properties/backfill', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+    if (userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const afterId = parseInt(c.req.query('afterId') || '0') || 0;
+    const limit = Math.min(
+      Math.max(parseInt(c.req.query('limit') || '') || PROPERTY_BACKFILL_DEFAULT_LIMIT, 1),
+      PROPERTY_BACKFILL_MAX_LIMIT
+    );
+
+    const { results } = await c.env.DB.prepare(
+      'SELECT id, content FROM memo WHERE id > ? ORDER BY id ASC LIMIT ?'
+    ).bind(afterId, limit).all();
+    const memos = results || [];
+
+    if (memos.length > 0) {
+      const assignments = MEMO_PROPERTY_COLUMNS.map((column) => `${column} = ?`).join(', ');
+      await c.env.DB.batch(memos.map((memo: any) =>
+        c.env.DB.prepare(`UPDATE memo SET ${assignments} WHERE id = ?`)
+          .bind(...computeMemoPropertyValues(memo.content as string), memo.id)
+      ));
+    }
+
+    const nextAfterId = memos.length === limit ? memos[memos.length - 1].id : null;
+    console.log(`✅ Backfilled memo properties for ${memos.length} memos after id ${afterId}`);
+
+    return c.json({ processed: memos.length, nextAfterId });
+  } catch (error) {
+    console.error('Backfill memo properties error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 // 删除笔记
 memoRoutes.delete('/:id', async (c) => {
   try {
@@ -614,17 +907,21 @@ memoRoutes.delete('/:id', async (c) => {
     }
 
     const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
-    if (memo.creator_id !== userId && userPayload.role !== 'HOST') {
+    if (memo.creator_id !== userId && !isSuperUser(userPayload.role)) {
       return c.json({ message: 'Forbidden' }, 403);
     }
 
-    // 逻辑删除
+    // 移入回收站，超过保留天数后由定时任务彻底删除
     const now = Math.floor(Date.now() / 1000);
     await c.env.DB.prepare(`
-      UPDATE memo SET row_status = ?, updated_ts = ? WHERE id = ?
-    `).bind('ARCHIVED', now, memoId).run();
+      UPDATE memo SET row_status = ?, deleted_ts = ?, updated_ts = ? WHERE id = ?
+    `).bind('DELETED', now, now, memoId).run();
+
+    // 异步触发 webhook，不影响响应速度
+    const deletedMemo = await getMemoWithDetails(c.env.DB, memoId);
+    scheduleMemoWebhooks(c, WebhookActivityType.MEMO_DELETED, deletedMemo);
 
-    return c.json({ message: 'Memo deleted successfully' });
+    return c.json({ message: 'Memo moved to trash' });
 
   } catch (error) {
     console.error('Delete memo error:', error);
@@ -632,28 +929,41 @@ memoRoutes.delete('/:id', async (c) => {
   }
 });
 
-// 获取笔记统计
+// 获取笔记统计，可通过 filter 参数限定统计范围
 memoRoutes.get('/stats', async (c) => {
   try {
+    let compiledFilter;
+    try {
+      compiledFilter = compileMemoFilter(c.req.query('filter'));
+    } catch (error) {
+      if (error instanceof FilterError) {
+        return c.json({ message: error.message }, 400);
+      }
+      throw error;
+    }
+    // 不统计已归档用户的笔记
+    const filterClause = ` AND m.creator_id IN (SELECT id FROM user WHERE row_status = 'NORMAL')${compiledFilter.sql ? ` AND (${compiledFilter.sql})` : ''}`;
+
     // 总数统计
     const totalResult = await c.env.DB.prepare(
-      'SELECT COUNT(*) as total FROM memo WHERE row_status = ? AND visibility = ?'
-    ).bind('NORMAL', 'PUBLIC').first();
+      `SELECT COUNT(*) as total FROM memo m WHERE m.row_status = ? AND m.visibility = ? AND m.publish_ts IS NULL${filterClause}`
+    ).bind('NORMAL', 'PUBLIC', ...compiledFilter.params).first();
 
     // 每日统计（最近30天）
     const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
     
     const dailyStats = await c.env.DB.prepare(`
       SELECT 
-        DATE(created_ts, 'unixepoch') as date,
+        DATE(m.created_ts, 'unixepoch') as date,
         COUNT(*) as count
-      FROM memo 
-      WHERE row_status = ? 
-        AND visibility = ? 
-        AND created_ts > ?
-      GROUP BY DATE(created_ts, 'unixepoch')
+      FROM memo m
+      WHERE m.row_status = ? 
+        AND m.visibility = ? 
+        AND m.publish_ts IS NULL
+        AND m.created_ts > ?${filterClause}
+      GROUP BY DATE(m.created_ts, 'unixepoch')
       ORDER BY date DESC
-    `).bind('NORMAL', 'PUBLIC', thirtyDaysAgo).all();
+    `).bind('NORMAL', 'PUBLIC', thirtyDaysAgo, ...compiledFilter.params).all();
 
     const dailyHistogram = (dailyStats.results || []).map((row: any) => ({
       ts: Math.floor(new Date(row.date).getTime() / 1000),
@@ -671,126 +981,6 @@ memoRoutes.get('/stats', async (c) => {
   }
 });
 
-// 辅助函数：获取笔记详细信息（包括资源和标签）
-async function getMemoWithDetails(db: any, memoId: number) {
-  const memo = await db.prepare(
-    'SELECT m.*, u.username as creator_username FROM memo m JOIN user u ON m.creator_id = u.id WHERE m.id = ?'
-  ).bind(memoId).first();
-
-  if (!memo) return null;
-
-  // 获取关联的资源详细信息
-  const resources = await db.prepare(`
-    SELECT r.id, r.uid, r.filename, r.type, r.size, r.external_link, r.created_ts
-    FROM resource r
-    JOIN memo_resource mr ON r.id = mr.resource_id 
-    WHERE mr.memo_id = ?
-  `).bind(memoId).all();
-
-  const resourceIdList = (resources.results || []).map((r: any) => r.id);
-  
-  // 转换为前端期望的资源格式
-  const resourceList = (resources.results || []).map((r: any) => ({
-    name: `resources/${r.uid}`,
-    uid: r.uid,
-    createTime: new Date(r.created_ts * 1000).toISOString(),
-    filename: r.filename,
-    content: new Uint8Array(), // 空数组
-    externalLink: '', // 空字符串，让前端构建正确的URL
-    type: r.type,
-    size: r.size,
-    memo: `memos/${memo.id}`, // 关联的memo
-  }));
-
-  // 获取标签
-  const tags = await db.prepare(`
-    SELECT t.name FROM tag t 
-    JOIN memo_tag mt ON t.id = mt.tag_id 
-    WHERE mt.memo_id = ?
-  `).bind(memoId).all();
-
-  const tagList = (tags.results || []).map((t: any) => t.name);
-
-  // 获取关系信息 - 包括这个memo作为评论者的关系和作为被评论者的关系
-  const outgoingRelations = await db.prepare(`
-    SELECT mr.type, mr.related_memo_id, m.uid as related_memo_uid, m.content as related_memo_content
-    FROM memo_relation mr
-    JOIN memo m ON mr.related_memo_id = m.id
-    WHERE mr.memo_id = ?
-  `).bind(memoId).all();
-
-  const incomingRelations = await db.prepare(`
-    SELECT mr.type, mr.memo_id, m.uid as memo_uid, m.content as memo_content
-    FROM memo_relation mr
-    JOIN memo m ON mr.memo_id = m.id
-    WHERE mr.related_memo_id = ?
-  `).bind(memoId).all();
-
-  // 获取reaction信息
-  const reactions = await db.prepare(`
-    SELECT mr.id, mr.reaction_type, mr.creator_id, u.username as creator_username
-    FROM memo_reaction mr
-    JOIN user u ON mr.creator_id = u.id
-    WHERE mr.memo_id = ?
-    ORDER BY mr.created_ts ASC
-  `).bind(memoId).all();
-
-  const relationList = [
-    ...(outgoingRelations.results || []).map((r: any) => ({
-      memo: { name: `memos/${memoId}`, uid: memo.uid, id: memoId },
-      relatedMemo: { 
-        name: `memos/${r.related_memo_id}`, 
-        uid: r.related_memo_uid,
-        id: r.related_memo_id,
-        snippet: r.related_memo_content ? r.related_memo_content.slice(0, 100) : ''
-      },
-      type: r.type
-    })),
-    ...(incomingRelations.results || []).map((r: any) => ({
-      memo: { 
-        name: `memos/${r.memo_id}`, 
-        uid: r.memo_uid,
-        id: r.memo_id,
-        snippet: r.memo_content ? r.memo_content.slice(0, 100) : ''
-      },
-      relatedMemo: { name: `memos/${memoId}`, uid: memo.uid, id: memoId },
-      type: r.type
-    }))
-  ];
-
-  // 转换reactions为前端期望的格式
-  const reactionList = (reactions.results || []).map((r: any) => ({
-    id: r.id,
-    reactionType: r.reaction_type,
-    creator: `users/${r.creator_id}`,
-    contentId: `memos/${memoId}`,
-    createdTs: r.created_ts
-  }));
-
-  return {
-    id: memo.id,
-    uid: memo.uid,
-    creatorId: memo.creator_id,
-    content: memo.content,
-    visibility: memo.visibility,
-    rowStatus: memo.row_status,
-    pinned: Boolean(memo.pinned), // 添加pinned字段
-    createdTs: memo.created_ts,
-    updatedTs: memo.updated_ts,
-    resourceIdList, // 保留向后兼容
-    resources: resourceList, // 新增：完整的资源对象数组
-    tags: tagList,
-    relations: relationList, // 新增：关系信息
-    reactions: reactionList, // 新增：reaction信息
-    snippet: memo.content ? memo.content.slice(0, 100) : '', // 添加snippet字段
-    location: memo.location_placeholder || memo.location_latitude || memo.location_longitude ? {
-      placeholder: memo.location_placeholder || '',
-      latitude: memo.location_latitude || 0,
-      longitude: memo.location_longitude || 0
-    } : undefined
-  };
-}
-
 // 创建memo评论
 memoRoutes.post('/:id/comment', async (c) => {
   try {
@@ -833,9 +1023,9 @@ memoRoutes.post('/:id/comment', async (c) => {
 
     // 创建评论memo
     const commentResult = await c.env.DB.prepare(`
-      INSERT INTO memo (uid, creator_id, content, visibility, row_status, created_ts, updated_ts)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `).bind(commentUid, user.id, content, visibility, 'NORMAL', now, now).run();
+      INSERT INTO memo (uid, creator_id, content, visibility, row_status, ${MEMO_PROPERTY_COLUMNS.join(', ')}, created_ts, updated_ts)
+      VALUES (?, ?, ?, ?, ?, ${MEMO_PROPERTY_COLUMNS.map(() => '?').join(', ')}, ?, ?)
+    `).bind(commentUid, user.id, content, visibility, 'NORMAL', ...computeMemoPropertyValues(content), now, now).run();
 
     const commentId = commentResult.meta.last_row_id;
     console.log('💬 Created comment with ID:', commentId);
@@ -852,6 +1042,14 @@ memoRoutes.post('/:id/comment', async (c) => {
       // 继续执行，即使关系创建失败
     }
 
+    // 通知被评论 memo 的作者和评论中提及的用户
+    try {
+      await notifyMemoComment(c.env.DB, user.id as number, commentId as number, memoId);
+      await notifyMemoMentions(c.env.DB, user.id as number, commentId as number, content, visibility);
+    } catch (error) {
+      console.error('Failed to notify memo comment:', error);
+    }
+
     // 返回创建的评论
     console.log('💬 Returning comment data...');
     return c.json({
@@ -922,6 +1120,13 @@ memoRoutes.post('/:id/reaction', async (c) => {
       VALUES (?, ?, ?, ?)
     `).bind(memoId, user.id, reactionType, now).run();
 
+    // 通知被反应 memo 的作者
+    try {
+      await notifyMemoReaction(c.env.DB, user.id as number, memoId, reactionType);
+    } catch (error) {
+      console.error('Failed to notify memo reaction:', error);
+    }
+
     return c.json({
       id: reactionResult.meta.last_row_id,
       memoId,
@@ -1033,53 +1238,31 @@ async function getUserIdFromUid(db: any, uid: string): Promise<number | null> {
   return user ? user.id : null;
 }
 
-// JWT 验证函数
-async function verifyJWT(token: string, secret: string): Promise<any | null> {
-  try {
-    const [header, payload, signature] = token.split('.');
-    if (!header || !payload || !signature) return null;
+// 笔记列表的时间排序列，MEMO_RELATED 设置中开启「显示更新时间」时按更新时间排序
+async function getMemoTimeColumn(db: D1Database): Promise<'created_ts' | 'updated_ts'> {
+  const setting = await db.prepare(
+    'SELECT setting_data FROM workspace_setting WHERE name = ?'
+  ).bind('settings/MEMO_RELATED').first();
+  if (!setting) return 'created_ts';
 
-    // 验证签名
-    const data = `${header}.${payload}`;
-    const expectedSignature = await hmacSHA256(data, secret);
-    
-    if (signature !== expectedSignature) return null;
+  try {
+    return JSON.parse(setting.setting_data as string)?.memoRelatedSetting?.displayWithUpdateTime ? 'updated_ts' : 'created_ts';
+  } catch {
+    return 'created_ts';
+  }
+}
 
-    // 解析 payload
-    const decodedPayload = JSON.parse(atob(payload));
-    
-    // 检查过期时间
-    if (decodedPayload.exp && decodedPayload.exp < Math.floor(Date.now() / 1000)) {
-      return null;
-    }
+// GET 请求不经过 authMiddleware，从 Authorization 头解析当前用户 ID，未登录时返回 null
+async function getRequestUserId(c: any): Promise<number | null> {
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
 
-    return decodedPayload;
-  } catch (error) {
+  try {
+    const userPayload = await authenticateToken(c.env, authHeader.substring(7));
+    return userPayload ? await getUserIdFromUid(c.env.DB, userPayload.sub) : null;
+  } catch {
     return null;
   }
 }
 
-// HMAC-SHA256 签名
-async function hmacSHA256(data: string, secret: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  
-  const signature = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    encoder.encode(data)
-  );
-  
-  return btoa(String.fromCharCode(...new Uint8Array(signature)))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-}
-
 export { memoRoutes }; 
\ No newline at end of file
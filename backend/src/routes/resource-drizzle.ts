@@ -1,7 +1,19 @@
 import { Hono } from 'hono';
 import { eq, desc } from 'drizzle-orm';
-import { createDb, resources, users, workspaceSettings } from '../db';
+import { createDb, resources, users } from '../db';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  createResourceResponse,
+  createStoredResource,
+  getStorageDriverForLink,
+  getStorageTypeFromLink,
+} from '../services/storage';
+import {
+  assertUploadAllowed,
+  getStorageSetting,
+  UnsupportedMediaTypeError,
+  UploadTooLargeError,
+} from '../services/upload-policy';
 
 type Env = {
   DB: D1Database;
@@ -21,99 +33,6 @@ interface Variables {
 
 const resourceRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
-// 获取存储设置
-async function getStorageSetting(c: any) {
-  try {
-    const db = createDb(c.env.DB);
-    const setting = await db
-      .select()
-      .from(workspaceSettings)
-      .where(eq(workspaceSettings.name, 'settings/STORAGE'))
-      .limit(1);
-
-    if (setting.length > 0) {
-      return JSON.parse(setting[0].settingData);
-    }
-
-    // 返回默认设置
-    return {
-      storageType: 'R2',
-      filepathTemplate: '{{filename}}',
-      uploadSizeLimitMb: 32,
-    };
-  } catch (error) {
-    console.error('Error getting storage setting:', error);
-    return {
-      storageType: 'R2',
-      filepathTemplate: '{{filename}}',
-      uploadSizeLimitMb: 32,
-    };
-  }
-}
-
-// R2 上传函数
-async function uploadToR2(
-  bucket: any, // R2Bucket 绑定
-  key: string,
-  file: File
-): Promise<boolean> {
-  try {
-    console.log('📤 Starting R2 upload with params:', {
-      key,
-      fileName: file.name,
-      fileSize: file.size,
-      fileType: file.type
-    });
-    
-    // 直接使用Cloudflare Workers的R2绑定进行上传
-    console.log('⬆️ Calling bucket.put...');
-    const result = await bucket.put(key, file, {
-      httpMetadata: {
-        contentType: file.type,
-      },
-    });
-    
-    console.log('✅ R2 upload result:', result);
-    return true;
-  } catch (error) {
-    console.error('💥 R2 upload error:', error);
-    console.error('📊 R2 error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      name: error instanceof Error ? error.name : undefined
-    });
-    return false;
-  }
-}
-
-// 数据库存储函数（将文件内容存储为BLOB）
-async function uploadToDatabase(
-  db: any,
-  resourceUid: string,
-  fileName: string,
-  mimeType: string,
-  file: File
-): Promise<{ success: boolean; buffer?: Buffer }> {
-  try {
-    console.log('📤 Starting database upload for file:', fileName);
-    
-    // 将文件转换为ArrayBuffer
-    const arrayBuffer = await file.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
-    console.log('✅ File converted to ArrayBuffer, size:', uint8Array.length);
-    
-    // 将ArrayBuffer转换为Buffer（SQLite BLOB格式）
-    const buffer = Buffer.from(uint8Array);
-    
-    console.log('✅ File converted to Buffer, size:', buffer.length);
-    return { success: true, buffer };
-  } catch (error) {
-    console.error('💥 Database upload error:', error);
-    return { success: false };
-  }
-}
-
 // 文件上传端点
 resourceRoutes.post('/blob', async (c) => {
   try {
@@ -157,12 +76,6 @@ resourceRoutes.post('/blob', async (c) => {
       type: file.type
     });
 
-    // 检查文件大小限制 (32MB)
-    const maxSize = 32 * 1024 * 1024; // 32MB
-    if (file.size > maxSize) {
-      return c.json({ message: 'File too large. Maximum size is 32MB.' }, 400);
-    }
-
     // 生成资源ID和文件名
     const resourceUid = uuidv4();
     const fileName = file.name;
@@ -170,156 +83,47 @@ resourceRoutes.post('/blob', async (c) => {
 
     console.log('🆔 Generated resource UID:', resourceUid);
 
-    // 获取存储设置
-    const storageSetting = await getStorageSetting(c);
-    console.log('📋 Storage setting:', storageSetting);
-
-    let externalLink: string;
-    let uploadSuccess: boolean;
-
-    if (storageSetting.storageType === 'DATABASE') {
-      // 使用数据库存储
-      console.log('🗄️ Using database storage');
-      const dbResult = await uploadToDatabase(
-        db,
-        resourceUid,
-        fileName,
-        mimeType,
-        file
-      );
-      uploadSuccess = dbResult.success;
-      externalLink = `database://${resourceUid}`;
-    } else if (storageSetting.storageType === 'R2') {
-      // 使用R2存储
-      console.log('☁️ Using R2 storage');
-      
-      // 检查R2存储桶是否配置
-      if (!c.env.R2) {
-        console.log('❌ R2 bucket not configured - c.env.R2 is undefined');
-        return c.json({ message: 'R2 bucket not configured' }, 500);
-      }
-      
-      const r2Key = `${resourceUid}/${fileName}`;
-      console.log('📍 R2 key:', r2Key);
-      
-      uploadSuccess = await uploadToR2(
-        c.env.R2,
-        r2Key,
-        file
-      );
-      
-      // 存储R2 key到数据库，但返回HTTP URL给前端
-      externalLink = `r2://${r2Key}`;
-    } else {
-      // 默认使用R2存储
-      console.log('☁️ Using default R2 storage');
-      
-      if (!c.env.R2) {
-        console.log('❌ R2 bucket not configured - c.env.R2 is undefined');
-        return c.json({ message: 'R2 bucket not configured' }, 500);
-      }
-      
-      const r2Key = `${resourceUid}/${fileName}`;
-      console.log('📍 R2 key:', r2Key);
-      
-      uploadSuccess = await uploadToR2(
-        c.env.R2,
-        r2Key,
-        file
-      );
-      
-      // 存储R2 key到数据库，但返回HTTP URL给前端
-      externalLink = `r2://${r2Key}`;
-    }
-
-    if (!uploadSuccess) {
-      console.log('❌ Upload failed');
-      throw new Error('Failed to upload file');
-    }
-    console.log('✅ Upload successful');
+    // 获取存储设置，检查文件大小、类型和用户存储配额
+    const storageSetting = await getStorageSetting(c.env.DB);
+    await assertUploadAllowed(c.env.DB, userId, { size: file.size, type: mimeType }, storageSetting);
 
+    // 通过存储驱动写入文件并保存资源记录
     const now = Math.floor(Date.now() / 1000);
+    const { id } = await createStoredResource(c.env, storageSetting, {
+      uid: resourceUid,
+      creatorId: userId,
+      filename: fileName,
+      type: mimeType,
+      data: new Uint8Array(await file.arrayBuffer()),
+      createdTs: now,
+    });
+    console.log('✅ Resource saved with ID:', id);
 
-    // 保存资源记录到数据库
-    console.log('💾 Saving to database...');
-    
-    let result;
-    if (storageSetting.storageType === 'DATABASE') {
-      // 数据库存储：将文件内容存储为BLOB
-      const dbResult = await uploadToDatabase(
-        db,
-        resourceUid,
-        fileName,
-        mimeType,
-        file
-      );
-      
-      if (!dbResult.success || !dbResult.buffer) {
-        throw new Error('Failed to process file for database storage');
-      }
-      
-      result = await db
-        .insert(resources)
-        .values({
-          uid: resourceUid,
-          creatorId: userId,
-          filename: fileName,
-          type: mimeType,
-          size: file.size,
-          blob: dbResult.buffer,
-          externalLink: externalLink,
-          createdTs: now,
-          updatedTs: now,
-        })
-        .returning({ id: resources.id });
-    } else {
-      // R2存储：只存储元数据，不存储文件内容
-      result = await db
-        .insert(resources)
-        .values({
-          uid: resourceUid,
-          creatorId: userId,
-          filename: fileName,
-          type: mimeType,
-          size: file.size,
-          externalLink: externalLink,
-          createdTs: now,
-          updatedTs: now,
-        })
-        .returning({ id: resources.id });
+    return c.json({
+      id,
+      uid: resourceUid,
+      name: `resources/${resourceUid}`,
+      creator: `users/${userId}`,
+      filename: fileName,
+      type: mimeType,
+      size: file.size,
+      externalLink: `/api/resource/blob/${resourceUid}`,
+      createTime: new Date(now * 1000).toISOString(),
+      updateTime: new Date(now * 1000).toISOString()
+    });
+  } catch (error: any) {
+    if (error instanceof UploadTooLargeError) {
+      return c.json({ message: error.message }, 413);
     }
-
-    if (result.length > 0) {
-      console.log('✅ Resource saved to database with ID:', result[0].id);
-      
-      // 返回HTTP URL给前端，而不是存储的协议URL
-      const httpUrl = externalLink.startsWith('r2://') || externalLink.startsWith('database://') 
-        ? `/api/resource/blob/${resourceUid}`
-        : externalLink;
-
-      return c.json({
-        id: result[0].id,
-        uid: resourceUid,
-        name: `resources/${resourceUid}`,
-        creator: `users/${userId}`,
-        filename: fileName,
-        type: mimeType,
-        size: file.size,
-        externalLink: httpUrl,
-        createTime: new Date(now * 1000).toISOString(),
-        updateTime: new Date(now * 1000).toISOString()
-      });
-    } else {
-      console.log('❌ Failed to save resource to database');
-      throw new Error('Failed to save resource to database');
+    if (error instanceof UnsupportedMediaTypeError) {
+      return c.json({ message: error.message }, 415);
     }
-  } catch (error: any) {
     console.error('Resource upload error:', error);
     return c.json({ message: 'Internal server error', details: error.message }, 500);
   }
 });
 
-// 文件访问端点 - 从R2或数据库获取文件
+// 文件访问端点 - 通过存储驱动读取文件
 resourceRoutes.get('/blob/:uid', async (c) => {
   try {
     const resourceUid = c.req.param('uid');
@@ -347,47 +151,15 @@ resourceRoutes.get('/blob/:uid', async (c) => {
       external_link: resourceData.externalLink
     });
 
-    // 检查存储类型
-    if (resourceData.externalLink?.startsWith('r2://')) {
-      // 从R2获取文件
-      const r2Key = resourceData.externalLink.replace('r2://', '');
-      console.log('☁️ Fetching from R2:', r2Key);
-
-      if (!c.env.R2) {
-        return c.json({ message: 'R2 bucket not configured' }, 500);
-      }
-
-      const r2Object = await c.env.R2.get(r2Key);
-      if (!r2Object) {
-        return c.json({ message: 'File not found in R2' }, 404);
-      }
-
-      const fileData = await r2Object.arrayBuffer();
-      return new Response(fileData, {
-        headers: {
-          'Content-Type': resourceData.type || 'application/octet-stream',
-          'Content-Disposition': `inline; filename="${resourceData.filename}"`,
-          'Cache-Control': 'public, max-age=31536000', // 1 year cache
-        },
-      });
-    } else if (resourceData.externalLink?.startsWith('database://')) {
-      // 从数据库获取文件
-      console.log('🗄️ Fetching from database');
-      
-      if (!resourceData.blob) {
-        return c.json({ message: 'File not found in database' }, 404);
-      }
-
-      return new Response(resourceData.blob, {
-        headers: {
-          'Content-Type': resourceData.type || 'application/octet-stream',
-          'Content-Disposition': `inline; filename="${resourceData.filename}"`,
-          'Cache-Control': 'public, max-age=31536000', // 1 year cache
-        },
-      });
-    } else {
-      return c.json({ message: 'Unknown storage type' }, 500);
+    const response = await createResourceResponse(c.env, await getStorageSetting(c.env.DB), {
+      external_link: resourceData.externalLink,
+      filename: resourceData.filename,
+      type: resourceData.type,
+    });
+    if (!response) {
+      return c.json({ message: 'File not found in storage' }, 404);
     }
+    return response;
   } catch (error: any) {
     console.error('Resource access error:', error);
     return c.json({ message: 'Internal server error', details: error.message }, 500);
@@ -437,7 +209,7 @@ resourceRoutes.get('/', async (c) => {
       filename: resource.filename,
       type: resource.type,
       size: resource.size,
-      externalLink: resource.externalLink?.startsWith('r2://') || resource.externalLink?.startsWith('database://') 
+      externalLink: getStorageTypeFromLink(resource.externalLink)
         ? `/api/resource/blob/${resource.uid}`
         : resource.externalLink,
       createTime: new Date(resource.createdTs * 1000).toISOString(),
@@ -496,7 +268,7 @@ resourceRoutes.get('/:uid', async (c) => {
       filename: resourceData.filename,
       type: resourceData.type,
       size: resourceData.size,
-      externalLink: resourceData.externalLink?.startsWith('r2://') || resourceData.externalLink?.startsWith('database://') 
+      externalLink: getStorageTypeFromLink(resourceData.externalLink)
         ? `/api/resource/blob/${resourceData.uid}`
         : resourceData.externalLink,
       createTime: new Date(resourceData.createdTs * 1000).toISOString(),
@@ -545,15 +317,13 @@ resourceRoutes.delete('/:uid', async (c) => {
 
     const resourceData = resource[0];
 
-    // 如果是R2存储，从R2删除文件
-    if (resourceData.externalLink?.startsWith('r2://') && c.env.R2) {
-      const r2Key = resourceData.externalLink.replace('r2://', '');
-      try {
-        await c.env.R2.delete(r2Key);
-        console.log('✅ File deleted from R2:', r2Key);
-      } catch (error) {
-        console.error('❌ Failed to delete file from R2:', error);
-      }
+    // 从存储中删除文件
+    try {
+      const driver = getStorageDriverForLink(c.env, resourceData.externalLink, await getStorageSetting(c.env.DB));
+      await driver?.delete(resourceData.externalLink!);
+      console.log('✅ File deleted from storage:', resourceData.externalLink);
+    } catch (error) {
+      console.error('❌ Failed to delete file from storage:', error);
     }
 
     // 从数据库删除资源记录
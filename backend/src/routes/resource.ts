@@ -1,98 +1,24 @@
 import { Hono } from 'hono';
 import { v4 as uuidv4 } from 'uuid';
 import { Env, Variables } from '../types';
+import {
+  assertUploadAllowed,
+  getStorageSetting,
+  getStorageUsage,
+  UnsupportedMediaTypeError,
+  UploadTooLargeError,
+} from '../services/upload-policy';
+import { createResourceResponse, createStoredResource, migrateResources, StorageConfigError } from '../services/storage';
+import { buildOrderBy, CursorKey, PageTokenError, paginate, parsePageSize } from '../services/pagination';
 
 const resourceRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
-// 获取存储设置
-async function getStorageSetting(c: any) {
-  try {
-    const setting = await c.env.DB.prepare(
-      'SELECT * FROM workspace_setting WHERE name = ?'
-    ).bind('settings/STORAGE').first();
+// 存储迁移每次处理的资源数，文件需要经过 Worker 读写，默认值较小
+const STORAGE_MIGRATION_DEFAULT_LIMIT = 10;
+const STORAGE_MIGRATION_MAX_LIMIT = 50;
 
-    if (setting) {
-      return JSON.parse(setting.setting_data);
-    }
-
-    // 返回默认设置
-    return {
-      storageType: 'R2',
-      filepathTemplate: '{{filename}}',
-      uploadSizeLimitMb: 32,
-    };
-  } catch (error) {
-    console.error('Error getting storage setting:', error);
-    return {
-      storageType: 'R2',
-      filepathTemplate: '{{filename}}',
-      uploadSizeLimitMb: 32,
-    };
-  }
-}
-
-// R2 上传函数
-async function uploadToR2(
-  bucket: any, // R2Bucket 绑定
-  key: string,
-  file: File
-): Promise<boolean> {
-  try {
-    console.log('📤 Starting R2 upload with params:', {
-      key,
-      fileName: file.name,
-      fileSize: file.size,
-      fileType: file.type
-    });
-    
-    // 直接使用Cloudflare Workers的R2绑定进行上传
-    console.log('⬆️ Calling bucket.put...');
-    const result = await bucket.put(key, file, {
-      httpMetadata: {
-        contentType: file.type,
-      },
-    });
-    
-    console.log('✅ R2 upload result:', result);
-    return true;
-  } catch (error) {
-    console.error('💥 R2 upload error:', error);
-    console.error('📊 R2 error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      name: error instanceof Error ? error.name : undefined
-    });
-    return false;
-  }
-}
-
-// 数据库存储函数（将文件内容存储为BLOB）
-async function uploadToDatabase(
-  db: any,
-  resourceUid: string,
-  fileName: string,
-  mimeType: string,
-  file: File
-): Promise<{ success: boolean; buffer?: Buffer }> {
-  try {
-    console.log('📤 Starting database upload for file:', fileName);
-    
-    // 将文件转换为ArrayBuffer
-    const arrayBuffer = await file.arrayBuffer();
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
-    console.log('✅ File converted to ArrayBuffer, size:', uint8Array.length);
-    
-    // 将ArrayBuffer转换为Buffer（SQLite BLOB格式）
-    const buffer = Buffer.from(uint8Array);
-    
-    console.log('✅ File converted to Buffer, size:', buffer.length);
-    return { success: true, buffer };
-  } catch (error) {
-    console.error('💥 Database upload error:', error);
-    return { success: false };
-  }
-}
+const RESOURCE_LIST_DEFAULT_PAGE_SIZE = 100;
+const RESOURCE_LIST_MAX_PAGE_SIZE = 200;
 
 // 文件上传端点
 resourceRoutes.post('/blob', async (c) => {
@@ -116,14 +42,14 @@ resourceRoutes.post('/blob', async (c) => {
       return c.json({ message: 'User not found' }, 404);
     }
     
-    const userId = userRecord.id;
+    const userId = userRecord.id as number;
     console.log('👤 User ID found:', userId);
 
     // 解析multipart form data
     const formData = await c.req.formData();
-    const file = formData.get('file') as File;
+    const file = formData.get('file') as File | null;
     
-    if (!file) {
+    if (!file || typeof file === 'string') {
       return c.json({ message: 'No file provided' }, 400);
     }
 
@@ -133,12 +59,6 @@ resourceRoutes.post('/blob', async (c) => {
       type: file.type
     });
 
-    // 检查文件大小限制 (32MB)
-    const maxSize = 32 * 1024 * 1024; // 32MB
-    if (file.size > maxSize) {
-      return c.json({ message: 'File too large. Maximum size is 32MB.' }, 400);
-    }
-
     // 生成资源ID和文件名
     const resourceUid = uuidv4();
     const fileName = file.name;
@@ -146,199 +66,134 @@ resourceRoutes.post('/blob', async (c) => {
 
     console.log('🆔 Generated resource UID:', resourceUid);
 
-    // 获取存储设置
-    const storageSetting = await getStorageSetting(c);
-    console.log('📋 Storage setting:', storageSetting);
-
-    let externalLink: string;
-    let uploadSuccess: boolean;
-
-    if (storageSetting.storageType === 'DATABASE') {
-      // 使用数据库存储
-      console.log('🗄️ Using database storage');
-      const dbResult = await uploadToDatabase(
-        c.env.DB,
-        resourceUid,
-        fileName,
-        mimeType,
-        file
-      );
-      uploadSuccess = dbResult.success;
-      externalLink = `database://${resourceUid}`;
-    } else if (storageSetting.storageType === 'R2') {
-      // 使用R2存储
-      console.log('☁️ Using R2 storage');
-      
-      // 检查R2存储桶是否配置
-      if (!c.env.R2) {
-        console.log('❌ R2 bucket not configured - c.env.R2 is undefined');
-        return c.json({ message: 'R2 bucket not configured' }, 500);
-      }
-      
-      const r2Key = `${resourceUid}/${fileName}`;
-      console.log('📍 R2 key:', r2Key);
-      
-      uploadSuccess = await uploadToR2(
-        c.env.R2,
-        r2Key,
-        file
-      );
-      
-      // 存储R2 key到数据库，但返回HTTP URL给前端
-      externalLink = `r2://${r2Key}`;
-    } else {
-      // 默认使用R2存储
-      console.log('☁️ Using default R2 storage');
-      
-      if (!c.env.R2) {
-        console.log('❌ R2 bucket not configured - c.env.R2 is undefined');
-        return c.json({ message: 'R2 bucket not configured' }, 500);
-      }
-      
-      const r2Key = `${resourceUid}/${fileName}`;
-      console.log('📍 R2 key:', r2Key);
-      
-      uploadSuccess = await uploadToR2(
-        c.env.R2,
-        r2Key,
-        file
-      );
-      
-      // 存储R2 key到数据库，但返回HTTP URL给前端
-      externalLink = `r2://${r2Key}`;
-    }
-
-    if (!uploadSuccess) {
-      console.log('❌ Upload failed');
-      throw new Error('Failed to upload file');
-    }
-    console.log('✅ Upload successful');
+    // 获取存储设置，检查文件大小、类型和用户存储配额
+    const storageSetting = await getStorageSetting(c.env.DB);
+    console.log('📋 Storage setting:', storageSetting.storageType);
+    await assertUploadAllowed(c.env.DB, userId, { size: file.size, type: mimeType }, storageSetting);
 
+    // 通过存储驱动写入文件并保存资源记录
     const now = Math.floor(Date.now() / 1000);
+    const { id } = await createStoredResource(c.env, storageSetting, {
+      uid: resourceUid,
+      creatorId: userId,
+      filename: fileName,
+      type: mimeType,
+      data: new Uint8Array(await file.arrayBuffer()),
+      createdTs: now,
+    });
+    console.log('✅ Resource saved with ID:', id);
 
-    // 保存资源记录到数据库
-    console.log('💾 Saving to database...');
-    
-    let result;
-    if (storageSetting.storageType === 'DATABASE') {
-      // 数据库存储：将文件内容存储为BLOB
-      // 重新获取文件内容（因为之前已经处理过了）
-      const arrayBuffer = await file.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
-      const buffer = Buffer.from(uint8Array);
-      
-      result = await c.env.DB.prepare(`
-        INSERT INTO resource (uid, creator_id, filename, type, size, blob, external_link, created_ts)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `).bind(resourceUid, userId, fileName, mimeType, file.size, buffer, externalLink, now).run();
-    } else {
-      // R2存储：只存储元数据，不存储文件内容
-      result = await c.env.DB.prepare(`
-        INSERT INTO resource (uid, creator_id, filename, type, size, external_link, created_ts)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-      `).bind(resourceUid, userId, fileName, mimeType, file.size, externalLink, now).run();
+    // 返回HTTP URL给前端，而不是存储的协议URL
+    return c.json({
+      id,
+      uid: resourceUid,
+      name: `resources/${resourceUid}`,
+      creator: `users/${userId}`,
+      filename: fileName,
+      type: mimeType,
+      size: file.size,
+      externalLink: `/api/resource/blob/${resourceUid}`,
+      createTime: new Date(now * 1000).toISOString(),
+      updateTime: new Date(now * 1000).toISOString()
+    });
+  } catch (error: any) {
+    if (error instanceof UploadTooLargeError) {
+      return c.json({ message: error.message }, 413);
     }
-
-    if (result.success) {
-      console.log('✅ Resource saved to database with ID:', result.meta.last_row_id);
-      
-      // 返回HTTP URL给前端，而不是存储的协议URL
-      const httpUrl = externalLink.startsWith('r2://') || externalLink.startsWith('database://') 
-        ? `/api/resource/blob/${resourceUid}`
-        : externalLink;
-
-      return c.json({
-        id: result.meta.last_row_id,
-        uid: resourceUid,
-        name: `resources/${resourceUid}`,
-        creator: `users/${userId}`,
-        filename: fileName,
-        type: mimeType,
-        size: file.size,
-        externalLink: httpUrl,
-        createTime: new Date(now * 1000).toISOString(),
-        updateTime: new Date(now * 1000).toISOString()
-      });
-    } else {
-      console.log('❌ Failed to save resource to database');
-      throw new Error('Failed to save resource to database');
+    if (error instanceof UnsupportedMediaTypeError) {
+      return c.json({ message: error.message }, 415);
+    }
+    if (error instanceof StorageConfigError) {
+      return c.json({ message: error.message }, 500);
     }
-  } catch (error: any) {
     console.error('Resource upload error:', error);
     return c.json({ message: 'Internal server error', details: error.message }, 500);
   }
 });
 
-// 文件访问端点 - 从R2或数据库获取文件
+// 文件访问端点 - 通过存储驱动读取文件
 resourceRoutes.get('/blob/:uid', async (c) => {
   try {
     const resourceUid = c.req.param('uid');
     console.log('📁 Accessing resource:', resourceUid);
 
-    // 从数据库获取资源信息
+    // 从数据库获取资源信息，回收站中的资源不再提供下载
     const resource = await c.env.DB.prepare(
-      'SELECT * FROM resource WHERE uid = ?'
-    ).bind(resourceUid).first();
+      'SELECT uid, filename, type, external_link FROM resource WHERE uid = ? AND row_status = ?'
+    ).bind(resourceUid, 'NORMAL').first();
 
     if (!resource) {
       return c.json({ message: 'Resource not found' }, 404);
     }
 
-    console.log('📋 Resource found:', {
-      uid: resource.uid,
-      filename: resource.filename,
-      type: resource.type,
-      external_link: resource.external_link
-    });
-
-    // 检查存储类型
-    if (resource.external_link.startsWith('r2://')) {
-      // 从R2获取文件
-      const r2Key = resource.external_link.replace('r2://', '');
-      console.log('☁️ Fetching from R2:', r2Key);
-
-      if (!c.env.R2) {
-        return c.json({ message: 'R2 bucket not configured' }, 500);
-      }
-
-      const r2Object = await c.env.R2.get(r2Key);
-      if (!r2Object) {
-        return c.json({ message: 'File not found in R2' }, 404);
-      }
-
-      const fileData = await r2Object.arrayBuffer();
-      return new Response(fileData, {
-        headers: {
-          'Content-Type': resource.type || 'application/octet-stream',
-          'Content-Disposition': `inline; filename="${resource.filename}"`,
-          'Cache-Control': 'public, max-age=31536000', // 1 year cache
-        },
-      });
-    } else if (resource.external_link.startsWith('database://')) {
-      // 从数据库获取文件
-      console.log('🗄️ Fetching from database');
-      
-      if (!resource.blob) {
-        return c.json({ message: 'File not found in database' }, 404);
-      }
-
-      return new Response(resource.blob, {
-        headers: {
-          'Content-Type': resource.type || 'application/octet-stream',
-          'Content-Disposition': `inline; filename="${resource.filename}"`,
-          'Cache-Control': 'public, max-age=31536000', // 1 year cache
-        },
-      });
-    } else {
-      return c.json({ message: 'Unknown storage type' }, 500);
+    const response = await createResourceResponse(c.env, await getStorageSetting(c.env.DB), resource);
+    if (!response) {
+      return c.json({ message: 'File not found in storage' }, 404);
     }
+    return response;
   } catch (error: any) {
+    if (error instanceof StorageConfigError) {
+      return c.json({ message: error.message }, 500);
+    }
     console.error('Resource access error:', error);
     return c.json({ message: 'Internal server error', details: error.message }, 500);
   }
 });
 
-// 获取资源列表
+// 获取当前用户的存储用量、配额和单文件大小上限（字节，配额为 0 表示不限制）
+resourceRoutes.get('/usage', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userRecord = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE uid = ?'
+    ).bind(userPayload.sub).first();
+
+    if (!userRecord) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const storageSetting = await getStorageSetting(c.env.DB);
+    return c.json(await getStorageUsage(c.env.DB, userRecord.id as number, storageSetting));
+  } catch (error: any) {
+    console.error('Get storage usage error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 把已有资源迁移到当前设置的存储（仅 HOST，分批处理，返回 nextAfterId 直到为 null）
+resourceRoutes.post('/migrate', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+    if (userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const afterId = parseInt(c.req.query('afterId') || '0') || 0;
+    const limit = Math.min(
+      Math.max(parseInt(c.req.query('limit') || '') || STORAGE_MIGRATION_DEFAULT_LIMIT, 1),
+      STORAGE_MIGRATION_MAX_LIMIT
+    );
+
+    const result = await migrateResources(c.env, await getStorageSetting(c.env.DB), afterId, limit);
+    console.log(`✅ Migrated ${result.migrated} resources after id ${afterId}, ${result.failed.length} failed`);
+    return c.json(result);
+  } catch (error: any) {
+    if (error instanceof StorageConfigError) {
+      return c.json({ message: error.message }, 400);
+    }
+    console.error('Migrate resources error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 获取资源列表（不包括回收站中的资源），memo 为第一个关联的未删除笔记
 resourceRoutes.get('/', async (c) => {
   try {
     const userPayload = c.get('user');
@@ -346,70 +201,93 @@ resourceRoutes.get('/', async (c) => {
       return c.json({ message: 'Unauthorized' }, 401);
     }
 
-    const user = userPayload;
-    const url = new URL(c.req.url);
-    const limit = parseInt(url.searchParams.get('limit') || '20');
-    const offset = parseInt(url.searchParams.get('offset') || '0');
+    const userRecord = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE uid = ?'
+    ).bind(userPayload.sub).first();
 
-    const resources = await c.env.DB.prepare(`
-      SELECT * FROM resource 
-      WHERE creator_id = ? 
-      ORDER BY created_ts DESC 
-      LIMIT ? OFFSET ?
-    `).bind(user.id, limit, offset).all();
+    if (!userRecord) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const keys: CursorKey[] = [
+      { column: 'r.created_ts', desc: true },
+      { column: 'r.id', desc: true },
+    ];
+    const page = await paginate(c.env, {
+      scope: 'resources',
+      keys,
+      pageSize: parsePageSize(c.req.query('pageSize'), RESOURCE_LIST_DEFAULT_PAGE_SIZE, RESOURCE_LIST_MAX_PAGE_SIZE),
+      pageToken: c.req.query('pageToken'),
+      query: async (cursor, limit) => {
+        const resources = await c.env.DB.prepare(`
+          SELECT r.id, r.uid, r.filename, r.type, r.size, r.created_ts, r.updated_ts,
+            (
+              SELECT mr.memo_id FROM memo_resource mr
+              JOIN memo m ON mr.memo_id = m.id
+              WHERE mr.resource_id = r.id AND m.row_status != 'DELETED'
+              ORDER BY mr.memo_id ASC LIMIT 1
+            ) as memo_id
+          FROM resource r
+          WHERE r.creator_id = ? AND r.row_status = ?${cursor ? ` AND ${cursor.sql}` : ''}
+          ORDER BY ${buildOrderBy(keys)}
+          LIMIT ?
+        `).bind(userRecord.id, 'NORMAL', ...(cursor?.params || []), limit).all();
+        return (resources.results || []) as Record<string, unknown>[];
+      },
+      getCursor: (resource) => [resource.created_ts as number, resource.id as number],
+    });
 
     return c.json({
-      resources: resources.results || [],
-      total: resources.results?.length || 0
+      nextPageToken: page.nextPageToken,
+      resources: page.items.map((resource: any) => ({
+        id: resource.id,
+        uid: resource.uid,
+        name: `resources/${resource.uid}`,
+        filename: resource.filename,
+        type: resource.type,
+        size: resource.size,
+        externalLink: '',
+        memo: resource.memo_id ? `memos/${resource.memo_id}` : '',
+        createTime: new Date(resource.created_ts * 1000).toISOString(),
+        updateTime: new Date(resource.updated_ts * 1000).toISOString(),
+      }))
     });
   } catch (error: any) {
+    if (error instanceof PageTokenError) {
+      return c.json({ message: error.message }, 400);
+    }
     console.error('Get resources error:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
 });
 
-// 删除资源
-resourceRoutes.delete('/:id', async (c) => {
+// 删除资源：移入回收站，存储中的文件在彻底删除时才会移除
+resourceRoutes.delete('/:uid', async (c) => {
   try {
     const userPayload = c.get('user');
     if (!userPayload) {
       return c.json({ message: 'Unauthorized' }, 401);
     }
 
-    const user = userPayload;
-    const resourceId = c.req.param('id');
-
-    // 获取资源信息
-    const resource = await c.env.DB.prepare(
-      'SELECT * FROM resource WHERE id = ? AND creator_id = ?'
-    ).bind(resourceId, user.id).first();
-
-    if (!resource) {
-      return c.json({ message: 'Resource not found' }, 404);
-    }
+    const userRecord = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE uid = ?'
+    ).bind(userPayload.sub).first();
 
-    // 从R2删除文件
-    if (c.env.R2 && resource.external_link?.startsWith('r2://')) {
-      const r2Key = resource.external_link.replace('r2://', '');
-      try {
-        await c.env.R2.delete(r2Key);
-        console.log('✅ File deleted from R2:', r2Key);
-      } catch (error) {
-        console.error('❌ Failed to delete file from R2:', error);
-        // 继续删除数据库记录，即使R2删除失败
-      }
+    if (!userRecord) {
+      return c.json({ message: 'User not found' }, 404);
     }
 
-    // 从数据库删除记录
-    const result = await c.env.DB.prepare(
-      'DELETE FROM resource WHERE id = ? AND creator_id = ?'
-    ).bind(resourceId, user.id).run();
+    const now = Math.floor(Date.now() / 1000);
+    const result = await c.env.DB.prepare(`
+      UPDATE resource SET row_status = ?, deleted_ts = ?, updated_ts = ?
+      WHERE uid = ? AND creator_id = ? AND row_status = ?
+    `).bind('DELETED', now, now, c.req.param('uid'), userRecord.id, 'NORMAL').run();
 
-    if (result.success) {
-      return c.json({ message: 'Resource deleted successfully' });
-    } else {
-      return c.json({ message: 'Failed to delete resource' }, 500);
+    if (!result.meta.changes) {
+      return c.json({ message: 'Resource not found' }, 404);
     }
+
+    return c.json({ message: 'Resource moved to trash' });
   } catch (error: any) {
     console.error('Delete resource error:', error);
     return c.json({ message: 'Internal server error' }, 500);
@@ -1,4 +1,5 @@
 import { Hono } from 'hono';
+import { compileMemoFilter, FilterError } from '../services/filter';
 
 type Env = {
   DB: D1Database;
@@ -17,6 +18,19 @@ interface Variables {
 
 const shortcutRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+// 校验捷径的筛选表达式（与笔记列表使用同一解析器），返回错误信息或 null
+function validateShortcutFilter(payload: any): string | null {
+  try {
+    compileMemoFilter(payload?.filter);
+    return null;
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return `Invalid filter: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
 // 获取shortcut列表
 shortcutRoutes.get('/', async (c) => {
   try {
@@ -85,6 +99,11 @@ shortcutRoutes.post('/', async (c) => {
       return c.json({ message: 'Title and payload are required' }, 400);
     }
 
+    const filterError = validateShortcutFilter(payload);
+    if (filterError) {
+      return c.json({ message: filterError }, 400);
+    }
+
     const now = Math.floor(Date.now() / 1000);
 
     const result = await c.env.DB.prepare(
@@ -141,6 +160,13 @@ shortcutRoutes.patch('/:id', async (c) => {
     const body = await c.req.json();
     const { title, payload } = body;
 
+    if (payload !== undefined) {
+      const filterError = validateShortcutFilter(payload);
+      if (filterError) {
+        return c.json({ message: filterError }, 400);
+      }
+    }
+
     const now = Math.floor(Date.now() / 1000);
 
     const updateData: any = {
@@ -1,6 +1,21 @@
 import { Hono } from 'hono';
+import { Env } from '../types';
+import { buildMemoRevisionStatements, getMemoRevisionLimit } from '../services/revision';
+import { loadMemosWithDetails } from '../services/memo-details';
+import { scheduleMemoWebhooks, WebhookActivityType } from '../services/webhook';
+import { buildMemoTagStatements, replaceTagInContent } from '../utils';
 
-const tagRoutes = new Hono();
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+const tagRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 // 获取用户的标签列表
 tagRoutes.get('/', async (c) => {
@@ -85,6 +100,10 @@ tagRoutes.post('/', async (c) => {
       'SELECT * FROM tag WHERE id = ?'
     ).bind(result.meta.last_row_id).first();
 
+    if (!newTag) {
+      throw new Error('Failed to retrieve created tag');
+    }
+
     return c.json({
       id: newTag.id,
       name: newTag.name,
@@ -97,6 +116,186 @@ tagRoutes.post('/', async (c) => {
   }
 });
 
+// 查找内容中包含指定标签（或其子标签）的 memo
+async function findMemosWithTag(db: D1Database, creatorId: number, tag: string): Promise<any[]> {
+  const memos = await db.prepare(`
+    SELECT id, content, visibility, row_status, updated_ts FROM memo
+    WHERE creator_id = ? AND row_status != ? AND instr(content, ?) > 0
+  `).bind(creatorId, 'DELETED', `#${tag}`).all();
+
+  return (memos.results || []).filter((memo: any) => replaceTagInContent(memo.content, tag, null) !== memo.content);
+}
+
+// 为批量改写或删除的 memo 触发 webhook，与单条编辑、删除保持一致
+async function scheduleTagMemoWebhooks(c: any, activityType: WebhookActivityType, memos: any[]): Promise<void> {
+  const details = await loadMemosWithDetails(c.env.DB, memos.map((memo) => memo.id));
+  for (const memo of details.values()) {
+    scheduleMemoWebhooks(c, activityType, memo);
+  }
+}
+
+// 改写 memo 内容时记录新版本，批量改名或移除标签后仍可在历史版本中恢复
+function buildRewriteRevisionStatements(
+  db: D1Database,
+  memo: any,
+  userId: number,
+  content: string,
+  now: number,
+  revisionLimit: number
+): D1PreparedStatement[] {
+  return buildMemoRevisionStatements(db, memo.id, {
+    creatorId: userId,
+    content,
+    visibility: memo.visibility,
+    createdTs: now,
+  }, {
+    creatorId: userId,
+    content: memo.content,
+    visibility: memo.visibility,
+    createdTs: memo.updated_ts,
+  }, revisionLimit);
+}
+
+// 清理不再被任何 memo 使用的旧标签（包括子标签）
+function buildUnusedTagCleanupStatement(db: D1Database, creatorId: number, tag: string): D1PreparedStatement {
+  const likePattern = `${tag.replace(/[\\%_]/g, '\\$&')}/%`;
+  return db.prepare(`
+    DELETE FROM tag
+    WHERE creator_id = ? AND (name = ? OR name LIKE ? ESCAPE '\\')
+      AND id NOT IN (SELECT tag_id FROM memo_tag)
+  `).bind(creatorId, tag, likePattern);
+}
+
+// 重命名标签：把所有相关 memo 内容中的 #old（及 #old/child）改写为 #new
+tagRoutes.patch('/rename', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const { oldTag, newTag } = await c.req.json();
+    const oldName = typeof oldTag === 'string' ? oldTag.trim().replace(/^#/, '') : '';
+    const newName = typeof newTag === 'string' ? newTag.trim().replace(/^#/, '') : '';
+
+    if (!oldName || !newName) {
+      return c.json({ message: 'Old tag and new tag are required' }, 400);
+    }
+    if (/[\s#]/.test(newName)) {
+      return c.json({ message: 'Tag name cannot contain spaces or #' }, 400);
+    }
+    if (oldName === newName) {
+      return c.json({ message: 'New tag must be different from old tag' }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE uid = ?'
+    ).bind(userPayload.sub).first();
+
+    if (!user) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const userId = user.id as number;
+    const memos = await findMemosWithTag(c.env.DB, userId, oldName);
+    const revisionLimit = await getMemoRevisionLimit(c.env.DB);
+    const now = Math.floor(Date.now() / 1000);
+    const statements: D1PreparedStatement[] = [];
+
+    for (const memo of memos) {
+      const content = replaceTagInContent(memo.content, oldName, newName);
+      statements.push(
+        c.env.DB.prepare('UPDATE memo SET content = ?, updated_ts = ? WHERE id = ?').bind(content, now, memo.id),
+        ...buildMemoTagStatements(c.env.DB, memo.id, userId, content),
+        ...buildRewriteRevisionStatements(c.env.DB, memo, userId, content, now, revisionLimit)
+      );
+    }
+    statements.push(buildUnusedTagCleanupStatement(c.env.DB, userId, oldName));
+
+    // 所有改动在同一个 batch（事务）中完成
+    await c.env.DB.batch(statements);
+    await scheduleTagMemoWebhooks(c, WebhookActivityType.MEMO_UPDATED, memos);
+
+    console.log(`🏷️ Renamed tag #${oldName} to #${newName} in ${memos.length} memos`);
+    return c.json({ affectedMemoCount: memos.length });
+
+  } catch (error) {
+    console.error('Rename tag error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 按名称删除标签：从相关 memo 内容中移除 #tag（及 #tag/child），或直接删除这些 memo
+tagRoutes.delete('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const tagName = (c.req.query('tag') || '').trim().replace(/^#/, '');
+    const deleteRelatedMemos = c.req.query('deleteRelatedMemos') === 'true';
+
+    if (!tagName) {
+      return c.json({ message: 'Tag is required' }, 400);
+    }
+
+    const user = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE uid = ?'
+    ).bind(userPayload.sub).first();
+
+    if (!user) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const userId = user.id as number;
+    const memos = await findMemosWithTag(c.env.DB, userId, tagName);
+    const revisionLimit = await getMemoRevisionLimit(c.env.DB);
+    const now = Math.floor(Date.now() / 1000);
+    const statements: D1PreparedStatement[] = [];
+
+    for (const memo of memos) {
+      if (deleteRelatedMemos) {
+        // 与删除单条 memo 一致，移入回收站
+        statements.push(
+          c.env.DB.prepare('UPDATE memo SET row_status = ?, deleted_ts = ?, updated_ts = ? WHERE id = ?').bind('DELETED', now, now, memo.id)
+        );
+      } else {
+        const content = replaceTagInContent(memo.content, tagName, null);
+        statements.push(
+          c.env.DB.prepare('UPDATE memo SET content = ?, updated_ts = ? WHERE id = ?').bind(content, now, memo.id),
+          ...buildMemoTagStatements(c.env.DB, memo.id, userId, content),
+          ...buildRewriteRevisionStatements(c.env.DB, memo, userId, content, now, revisionLimit)
+        );
+      }
+    }
+
+    if (deleteRelatedMemos) {
+      // 被删除的 memo 不再计入标签，直接移除标签本身
+      const likePattern = `${tagName.replace(/[\\%_]/g, '\\$&')}/%`;
+      statements.push(c.env.DB.prepare(`
+        DELETE FROM tag WHERE creator_id = ? AND (name = ? OR name LIKE ? ESCAPE '\\')
+      `).bind(userId, tagName, likePattern));
+    } else {
+      statements.push(buildUnusedTagCleanupStatement(c.env.DB, userId, tagName));
+    }
+
+    await c.env.DB.batch(statements);
+    await scheduleTagMemoWebhooks(
+      c,
+      deleteRelatedMemos ? WebhookActivityType.MEMO_DELETED : WebhookActivityType.MEMO_UPDATED,
+      memos
+    );
+
+    console.log(`🏷️ Deleted tag #${tagName} from ${memos.length} memos`);
+    return c.json({ affectedMemoCount: memos.length });
+
+  } catch (error) {
+    console.error('Delete tag by name error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 // 删除标签
 tagRoutes.delete('/:id', async (c) => {
   try {
@@ -0,0 +1,178 @@
+import { Hono } from 'hono';
+import { Env } from '../types';
+import { buildMemoSnippet, buildMemoTagStatements } from '../utils';
+import { getTrashRetentionDays, purgeMemo, purgeResource } from '../services/trash';
+
+interface Variables {
+  user: {
+    sub: string;
+    username: string;
+    role: string;
+    iat: number;
+    exp: number;
+  };
+}
+
+export const trashRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 辅助函数：通过 UID 获取用户 ID
+async function getUserIdFromUid(db: D1Database, uid: string): Promise<number | null> {
+  const user = await db.prepare('SELECT id FROM user WHERE uid = ?').bind(uid).first();
+  return user ? (user.id as number) : null;
+}
+
+// 获取当前用户回收站中的笔记和资源
+trashRoutes.get('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const memos = await c.env.DB.prepare(`
+      SELECT id, uid, content, visibility, created_ts, deleted_ts FROM memo
+      WHERE creator_id = ? AND row_status = ?
+      ORDER BY deleted_ts DESC, id DESC
+    `).bind(userId, 'DELETED').all();
+
+    const resources = await c.env.DB.prepare(`
+      SELECT id, uid, filename, type, size, created_ts, deleted_ts FROM resource
+      WHERE creator_id = ? AND row_status = ?
+      ORDER BY deleted_ts DESC, id DESC
+    `).bind(userId, 'DELETED').all();
+
+    return c.json({
+      memos: (memos.results || []).map((memo: any) => ({
+        id: memo.id,
+        uid: memo.uid,
+        content: memo.content,
+        snippet: buildMemoSnippet(memo.content),
+        visibility: memo.visibility,
+        createdTs: memo.created_ts,
+        deletedTs: memo.deleted_ts,
+      })),
+      resources: (resources.results || []).map((resource: any) => ({
+        id: resource.id,
+        uid: resource.uid,
+        filename: resource.filename,
+        type: resource.type,
+        size: resource.size,
+        createdTs: resource.created_ts,
+        deletedTs: resource.deleted_ts,
+      })),
+      retentionDays: await getTrashRetentionDays(c.env.DB),
+    });
+  } catch (error) {
+    console.error('List trash error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 从回收站恢复笔记
+trashRoutes.post('/memos/:id{[0-9]+}/restore', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    const memo = await c.env.DB.prepare(
+      'SELECT id, content FROM memo WHERE id = ? AND creator_id = ? AND row_status = ?'
+    ).bind(parseInt(c.req.param('id')), userId, 'DELETED').first();
+
+    if (!memo) {
+      return c.json({ message: 'Memo not found in trash' }, 404);
+    }
+
+    // 按标签删除笔记时会移除标签本身，恢复时重新同步标签关联
+    await c.env.DB.batch([
+      c.env.DB.prepare('UPDATE memo SET row_status = ?, deleted_ts = NULL WHERE id = ?').bind('NORMAL', memo.id),
+      ...buildMemoTagStatements(c.env.DB, memo.id as number, userId as number, memo.content as string),
+    ]);
+
+    return c.json({ message: 'Memo restored successfully' });
+  } catch (error) {
+    console.error('Restore memo from trash error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 彻底删除回收站中的笔记
+trashRoutes.delete('/memos/:id{[0-9]+}', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    const memo = await c.env.DB.prepare(
+      'SELECT id FROM memo WHERE id = ? AND creator_id = ? AND row_status = ?'
+    ).bind(parseInt(c.req.param('id')), userId, 'DELETED').first();
+
+    if (!memo) {
+      return c.json({ message: 'Memo not found in trash' }, 404);
+    }
+
+    await purgeMemo(c.env.DB, memo.id as number);
+    return c.json({ message: 'Memo deleted permanently' });
+  } catch (error) {
+    console.error('Purge memo error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 从回收站恢复资源
+trashRoutes.post('/resources/:uid/restore', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    const result = await c.env.DB.prepare(`
+      UPDATE resource SET row_status = ?, deleted_ts = NULL WHERE uid = ? AND creator_id = ? AND row_status = ?
+    `).bind('NORMAL', c.req.param('uid'), userId, 'DELETED').run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Resource not found in trash' }, 404);
+    }
+
+    return c.json({ message: 'Resource restored successfully' });
+  } catch (error) {
+    console.error('Restore resource from trash error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 彻底删除回收站中的资源（同时删除 R2 中的文件）
+trashRoutes.delete('/resources/:uid', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    const resource = await c.env.DB.prepare(
+      'SELECT id, external_link FROM resource WHERE uid = ? AND creator_id = ? AND row_status = ?'
+    ).bind(c.req.param('uid'), userId, 'DELETED').first();
+
+    if (!resource) {
+      return c.json({ message: 'Resource not found in trash' }, 404);
+    }
+
+    await purgeResource(c.env, resource as any);
+    return c.json({ message: 'Resource deleted permanently' });
+  } catch (error) {
+    console.error('Purge resource error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
@@ -1,11 +1,12 @@
 import { Hono } from 'hono';
 import { eq, and, desc, sql } from 'drizzle-orm';
 import { createDb, users, userSettings, memos, memoReactions } from '../db';
-import { hashPassword } from '../routes/auth';
+import { Password } from '../utils';
 
 type Env = {
   DB: D1Database;
   JWT_SECRET: string;
+  PASSWORD_HASH_ITERATIONS?: string;
 };
 
 interface Variables {
@@ -311,13 +312,13 @@ userRoutes.patch('/me/password', async (c) => {
     const user = userRecord[0];
 
     // 验证旧密码
-    const hashedOldPassword = await hashPassword(oldPassword);
-    if (user.passwordHash !== hashedOldPassword) {
+    const isOldPasswordValid = await Password.verify(oldPassword, user.passwordHash);
+    if (!isOldPasswordValid) {
       return c.json({ message: 'Invalid old password' }, 400);
     }
 
     // 更新密码
-    const hashedNewPassword = await hashPassword(newPassword);
+    const hashedNewPassword = await Password.hash(newPassword, Password.getIterations(c.env));
     const now = Math.floor(Date.now() / 1000);
 
     await db
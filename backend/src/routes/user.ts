@@ -1,9 +1,26 @@
 import { Hono } from 'hono';
-import { hashPassword } from '../routes/auth';
+import { v4 as uuidv4 } from 'uuid';
+import { Password } from '../utils';
+import { formatAccessToken, generateAccessToken, getAccessTokenPrefix, hashAccessToken } from '../services/access-token';
+import { formatSession, revokeAllSessions, revokeSession } from '../services/token';
+import { compileMemoFilter, FilterError, MEMO_HAS_IMAGE_CONDITION } from '../services/filter';
+import { createAccountArchive } from '../services/export';
+import { buildOrderBy, CursorKey, PageTokenError, paginate, parsePageSize } from '../services/pagination';
+import {
+  ASSIGNABLE_ROLES,
+  canManageUser,
+  deleteUser,
+  formatUser,
+  isSuperUser,
+  USER_ROW_STATUSES,
+} from '../services/user-management';
+import { getGeneralSetting } from '../services/workspace-setting';
 
 type Env = {
   DB: D1Database;
   JWT_SECRET: string;
+  PASSWORD_HASH_ITERATIONS?: string;
+  R2?: R2Bucket;
 };
 
 interface Variables {
@@ -11,6 +28,7 @@ interface Variables {
     sub: string;
     username: string;
     role: string;
+    sid?: string;
     iat: number;
     exp: number;
   };
@@ -18,6 +36,9 @@ interface Variables {
 
 const userRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+const USER_LIST_DEFAULT_PAGE_SIZE = 50;
+const USER_LIST_MAX_PAGE_SIZE = 200;
+
 // 获取当前用户信息
 userRoutes.get('/me', async (c) => {
   try {
@@ -36,22 +57,7 @@ userRoutes.get('/me', async (c) => {
       return c.json({ message: 'User not found' }, 404);
     }
 
-    // 返回用户信息（不包括密码哈希�?
-    const userResponse = {
-      id: user.id,
-      uid: user.uid,
-      username: user.username,
-      nickname: user.nickname,
-      role: user.role,
-      email: user.email,
-      avatarUrl: user.avatar_url,
-      description: user.description,
-      rowStatus: user.row_status,
-      createdTs: user.created_ts,
-      updatedTs: user.updated_ts
-    };
-
-    return c.json(userResponse);
+    return c.json(formatUser(user));
 
   } catch (error) {
     console.error('Get current user error:', error);
@@ -59,35 +65,129 @@ userRoutes.get('/me', async (c) => {
   }
 });
 
-// 获取用户列表（管理员功能�?
+// 导出当前用户的全部笔记和附件（ZIP 文件流）
+userRoutes.get('/me/export', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const user = await c.env.DB.prepare(
+      'SELECT id, username FROM user WHERE uid = ? AND row_status = ?'
+    ).bind(userPayload.sub, 'NORMAL').first();
+
+    if (!user) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const archive = await createAccountArchive(c.env, user.id as number);
+    const date = new Date().toISOString().slice(0, 10);
+    console.log(`📦 Exporting account data for user ${user.username}`);
+
+    return new Response(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="memos-export-${encodeURIComponent(user.username as string)}-${date}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Export account error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 获取用户列表（管理员功能），未指定 rowStatus 时包括已归档的用户
 userRoutes.get('/', async (c) => {
   try {
     const userPayload = c.get('user');
-    if (!userPayload || userPayload.role !== 'HOST') {
+    if (!userPayload || !isSuperUser(userPayload.role)) {
       return c.json({ message: 'Forbidden' }, 403);
     }
 
     const url = new URL(c.req.url);
-    const rowStatus = url.searchParams.get('rowStatus') || 'NORMAL';
-    const limit = parseInt(url.searchParams.get('limit') || '50');
-    const offset = parseInt(url.searchParams.get('offset') || '0');
-
-    const users = await c.env.DB.prepare(`
-      SELECT id, uid, username, nickname, role, email, avatar_url, description, row_status, created_ts, updated_ts
-      FROM user 
-      WHERE row_status = ?
-      ORDER BY created_ts DESC
-      LIMIT ? OFFSET ?
-    `).bind(rowStatus, limit, offset).all();
+    const rowStatus = url.searchParams.get('rowStatus');
+    const keys: CursorKey[] = [
+      { column: 'created_ts', desc: true },
+      { column: 'id', desc: true },
+    ];
+    const page = await paginate(c.env, {
+      scope: `users:${rowStatus || 'ALL'}`,
+      keys,
+      pageSize: parsePageSize(url.searchParams.get('pageSize'), USER_LIST_DEFAULT_PAGE_SIZE, USER_LIST_MAX_PAGE_SIZE),
+      pageToken: url.searchParams.get('pageToken'),
+      query: async (cursor, limit) => {
+        const users = await c.env.DB.prepare(`
+          SELECT id, uid, username, nickname, role, email, avatar_url, description, row_status, created_ts, updated_ts
+          FROM user
+          WHERE ${rowStatus ? 'row_status = ?' : '1 = 1'}${cursor ? ` AND ${cursor.sql}` : ''}
+          ORDER BY ${buildOrderBy(keys)}
+          LIMIT ?
+        `).bind(...(rowStatus ? [rowStatus] : []), ...(cursor?.params || []), limit).all();
+        return (users.results || []) as Record<string, unknown>[];
+      },
+      getCursor: (user) => [user.created_ts as number, user.id as number],
+    });
 
-    return c.json(users.results || []);
+    return c.json({
+      users: page.items.map(formatUser),
+      nextPageToken: page.nextPageToken,
+    });
 
   } catch (error) {
+    if (error instanceof PageTokenError) {
+      return c.json({ message: error.message }, 400);
+    }
     console.error('Get users error:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
 });
 
+// 创建用户（管理员功能）：HOST 可以创建 ADMIN 和普通用户，ADMIN 只能创建普通用户
+userRoutes.post('/', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload || !isSuperUser(userPayload.role)) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const { username, password, role = 'USER', email, nickname } = await c.req.json();
+    if (!username || !password) {
+      return c.json({ message: 'USERNAME_AND_PASSWORD_REQUIRED' }, 400);
+    }
+    if (!ASSIGNABLE_ROLES.includes(role)) {
+      return c.json({ message: 'INVALID_ROLE' }, 400);
+    }
+    if (!canManageUser(userPayload.role, role)) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const existingUsername = await c.env.DB.prepare(
+      'SELECT id FROM user WHERE username = ?'
+    ).bind(username).first();
+
+    if (existingUsername) {
+      return c.json({ message: 'USERNAME_ALREADY_EXISTS' }, 409);
+    }
+
+    const passwordHash = await Password.hash(password, Password.getIterations(c.env));
+    const now = Math.floor(Date.now() / 1000);
+    const user = await c.env.DB.prepare(`
+      INSERT INTO user (uid, username, nickname, role, email, password_hash, row_status, created_ts, updated_ts)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `).bind(uuidv4(), username, nickname || null, role, email || null, passwordHash, 'NORMAL', now, now).first();
+
+    console.log(`👤 User ${username} (${role}) created by ${userPayload.username}`);
+    return c.json(formatUser(user), 201);
+
+  } catch (error) {
+    console.error('Create user error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 // 获取指定用户公开信息
 userRoutes.get('/:id', async (c) => {
   try {
@@ -119,32 +219,71 @@ userRoutes.patch('/:id', async (c) => {
       return c.json({ message: 'Unauthorized' }, 401);
     }
 
-    // 检查权限：只能修改自己的信息，或者HOST可以修改任何�?
+    // 检查权限：只能修改自己的信息，或者管理员修改其可以管理的用户（包括已归档的用户）
     const targetUser = await c.env.DB.prepare(
-      'SELECT * FROM user WHERE id = ? AND row_status = ?'
-    ).bind(userId, 'NORMAL').first();
+      'SELECT * FROM user WHERE id = ?'
+    ).bind(userId).first();
 
     if (!targetUser) {
       return c.json({ message: 'User not found' }, 404);
     }
 
-    if (targetUser.uid !== userPayload.sub && userPayload.role !== 'HOST') {
+    const isSelf = targetUser.uid === userPayload.sub;
+    if (!isSelf && !canManageUser(userPayload.role, targetUser.role as string)) {
       return c.json({ message: 'Forbidden' }, 403);
     }
 
-    const { username, nickname, email, avatarUrl, description, password } = await c.req.json();
+    const { username, nickname, email, avatarUrl, description, password, role, rowStatus } = await c.req.json();
     const now = Math.floor(Date.now() / 1000);
 
     // 构建更新字段
     const updates = [];
     const values = [];
+
+    // 角色只能由 HOST 修改，且不能修改自己的角色
+    if (role !== undefined && role !== targetUser.role) {
+      if (userPayload.role !== 'HOST' || isSelf) {
+        return c.json({ message: 'Forbidden' }, 403);
+      }
+      if (!ASSIGNABLE_ROLES.includes(role)) {
+        return c.json({ message: 'INVALID_ROLE' }, 400);
+      }
+      updates.push('role = ?');
+      values.push(role);
+    }
+
+    // 归档或恢复用户，不能归档自己
+    const rowStatusChanged = rowStatus !== undefined && rowStatus !== targetUser.row_status;
+    if (rowStatusChanged) {
+      if (isSelf) {
+        return c.json({ message: 'Forbidden' }, 403);
+      }
+      if (!USER_ROW_STATUSES.includes(rowStatus)) {
+        return c.json({ message: 'INVALID_ROW_STATUS' }, 400);
+      }
+      updates.push('row_status = ?');
+      values.push(rowStatus);
+    }
     
-    if (username !== undefined) {
+    // 工作区禁止修改用户名或昵称时只有 HOST 可以修改；前端总是提交这两个字段，未变化的值不算修改（空昵称与 NULL 等同）
+    const usernameChanged = username !== undefined && username !== targetUser.username;
+    const nicknameChanged = nickname !== undefined && (nickname || '') !== (targetUser.nickname || '');
+    if ((usernameChanged || nicknameChanged) && userPayload.role !== 'HOST') {
+      const generalSetting = await getGeneralSetting(c.env.DB);
+      if (usernameChanged && generalSetting.disallowChangeUsername) {
+        return c.json({ message: 'USERNAME_CHANGE_DISALLOWED' }, 403);
+      }
+      if (nicknameChanged && generalSetting.disallowChangeNickname) {
+        return c.json({ message: 'NICKNAME_CHANGE_DISALLOWED' }, 403);
+      }
+    }
+
+    if (usernameChanged) {
       updates.push('username = ?');
       values.push(username);
     }
     
-    if (nickname !== undefined) {
+    if (nicknameChanged) {
       updates.push('nickname = ?');
       values.push(nickname);
     }
@@ -166,7 +305,7 @@ userRoutes.patch('/:id', async (c) => {
 
 	// 新增：处理密码更�?
 	if (password !== undefined && password !== "") {
-	  const passwordHash = await hashPassword(password);
+	  const passwordHash = await Password.hash(password, Password.getIterations(c.env));
 	  updates.push('password_hash = ?');
 	  values.push(passwordHash);
 	}
@@ -181,12 +320,20 @@ userRoutes.patch('/:id', async (c) => {
       `).bind(...values).run();
     }
 
+    // 归档后立即注销该用户的全部会话，个人访问令牌在校验时也会因 row_status 失效
+    if (rowStatusChanged) {
+      if (rowStatus === 'ARCHIVED') {
+        await revokeAllSessions(c.env.DB, userId);
+      }
+      console.log(`👤 User ${targetUser.username} ${rowStatus === 'ARCHIVED' ? 'archived' : 'restored'} by ${userPayload.username}`);
+    }
+
     // 返回更新后的用户信息
     const updatedUser = await c.env.DB.prepare(
-      'SELECT id, uid, username, nickname, role, email, avatar_url, description, row_status, created_ts, updated_ts FROM user WHERE id = ?'
+      'SELECT * FROM user WHERE id = ?'
     ).bind(userId).first();
 
-    return c.json(updatedUser);
+    return c.json(formatUser(updatedUser));
 
   } catch (error) {
     console.error('Update user error:', error);
@@ -194,6 +341,52 @@ userRoutes.patch('/:id', async (c) => {
   }
 });
 
+// 删除用户（仅 HOST）：reassignTo 指定接收其笔记、附件和标签的用户，未指定时彻底删除其全部内容
+userRoutes.delete('/:id', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const userPayload = c.get('user');
+
+    if (!userPayload || userPayload.role !== 'HOST') {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const [actor, targetUser] = await Promise.all([
+      c.env.DB.prepare('SELECT id FROM user WHERE uid = ?').bind(userPayload.sub).first(),
+      c.env.DB.prepare('SELECT id, username, role FROM user WHERE id = ?').bind(userId).first(),
+    ]);
+
+    if (!actor || !targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (!canManageUser(userPayload.role, targetUser.role as string)) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const reassignParam = c.req.query('reassignTo');
+    let reassignTo: number | undefined;
+    if (reassignParam) {
+      reassignTo = parseInt(reassignParam);
+      const reassignUser = reassignTo !== userId
+        ? await c.env.DB.prepare('SELECT id FROM user WHERE id = ? AND row_status = ?').bind(reassignTo, 'NORMAL').first()
+        : null;
+      if (!reassignUser) {
+        return c.json({ message: 'INVALID_REASSIGN_USER' }, 400);
+      }
+    }
+
+    await deleteUser(c.env, userId, { reassignTo, tagOwnerId: actor.id as number });
+
+    console.log(`🗑️ User ${targetUser.username} deleted by ${userPayload.username}${reassignTo !== undefined ? `, content reassigned to user ${reassignTo}` : ', content purged'}`);
+    return c.json({ message: 'User deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete user error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 // 获取用户设置
 userRoutes.get('/:id/setting', async (c) => {
   try {
@@ -393,23 +586,36 @@ userRoutes.get('/:id/stats', async (c) => {
       return c.json({ message: 'Forbidden' }, 403);
     }
 
+    // 可选的筛选表达式（如当前捷径的 filter），与笔记列表使用相同的语法
+    let compiledFilter;
+    try {
+      compiledFilter = compileMemoFilter(c.req.query('filter'));
+    } catch (error) {
+      if (error instanceof FilterError) {
+        return c.json({ message: error.message }, 400);
+      }
+      throw error;
+    }
+    const memoScope = `m.creator_id = ? AND m.row_status = ?${compiledFilter.sql ? ` AND (${compiledFilter.sql})` : ''}`;
+    const memoScopeParams = [userId, 'NORMAL', ...compiledFilter.params];
+
     // 获取用户的笔记总数
     const memoCountResult = await c.env.DB.prepare(
-      'SELECT COUNT(*) as count FROM memo WHERE creator_id = ? AND row_status = ?'
-    ).bind(userId, 'NORMAL').first();
+      `SELECT COUNT(*) as count FROM memo m WHERE ${memoScope}`
+    ).bind(...memoScopeParams).first();
 
     const totalMemoCount = memoCountResult?.count || 0;
 
     // 获取标签统计
     const tagStats = await c.env.DB.prepare(`
-      SELECT t.name, COUNT(mt.memo_id) as count
+      SELECT t.name, COUNT(m.id) as count
       FROM tag t
       LEFT JOIN memo_tag mt ON t.id = mt.tag_id
-      LEFT JOIN memo m ON mt.memo_id = m.id AND m.row_status = ?
+      LEFT JOIN memo m ON mt.memo_id = m.id AND ${memoScope}
       WHERE t.creator_id = ?
       GROUP BY t.id, t.name
       ORDER BY count DESC, t.name ASC
-    `).bind('NORMAL', userId).all();
+    `).bind(...memoScopeParams, userId).all();
 
     const tagCount: Record<string, number> = {};
     console.log('🏷�?Backend - tagStats results:', tagStats.results);
@@ -422,25 +628,23 @@ userRoutes.get('/:id/stats', async (c) => {
     const thirtyDaysAgo = Math.floor(Date.now() / 1000) - (30 * 24 * 60 * 60);
     const dailyStats = await c.env.DB.prepare(`
       SELECT 
-        DATE(created_ts, 'unixepoch') as date,
+        DATE(m.created_ts, 'unixepoch') as date,
         COUNT(*) as count
-      FROM memo 
-      WHERE creator_id = ? 
-        AND row_status = ? 
-        AND created_ts > ?
-      GROUP BY DATE(created_ts, 'unixepoch')
+      FROM memo m
+      WHERE ${memoScope}
+        AND m.created_ts > ?
+      GROUP BY DATE(m.created_ts, 'unixepoch')
       ORDER BY date DESC
-    `).bind(userId, 'NORMAL', thirtyDaysAgo).all();
+    `).bind(...memoScopeParams, thirtyDaysAgo).all();
 
     // 为每个memo返回一个时间戳，而不是每个日期一个时间戳
     const memoDisplayTimestamps = await c.env.DB.prepare(`
-      SELECT created_ts
-      FROM memo 
-      WHERE creator_id = ? 
-        AND row_status = ? 
-        AND created_ts > ?
-      ORDER BY created_ts DESC
-    `).bind(userId, 'NORMAL', thirtyDaysAgo).all();
+      SELECT m.created_ts
+      FROM memo m
+      WHERE ${memoScope}
+        AND m.created_ts > ?
+      ORDER BY m.created_ts DESC
+    `).bind(...memoScopeParams, thirtyDaysAgo).all();
     
     const memoDisplayTimestampsList = (memoDisplayTimestamps.results || []).map((row: any) => 
       new Date(row.created_ts * 1000).toISOString()
@@ -453,53 +657,60 @@ userRoutes.get('/:id/stats', async (c) => {
     const oneMonthAgo = now - (30 * 24 * 60 * 60);
 
     const dailyCountResult = await c.env.DB.prepare(
-      'SELECT COUNT(*) as count FROM memo WHERE creator_id = ? AND row_status = ? AND created_ts > ?'
-    ).bind(userId, 'NORMAL', oneDayAgo).first();
+      `SELECT COUNT(*) as count FROM memo m WHERE ${memoScope} AND m.created_ts > ?`
+    ).bind(...memoScopeParams, oneDayAgo).first();
 
     const weeklyCountResult = await c.env.DB.prepare(
-      'SELECT COUNT(*) as count FROM memo WHERE creator_id = ? AND row_status = ? AND created_ts > ?'
-    ).bind(userId, 'NORMAL', oneWeekAgo).first();
+      `SELECT COUNT(*) as count FROM memo m WHERE ${memoScope} AND m.created_ts > ?`
+    ).bind(...memoScopeParams, oneWeekAgo).first();
 
     const monthlyCountResult = await c.env.DB.prepare(
-      'SELECT COUNT(*) as count FROM memo WHERE creator_id = ? AND row_status = ? AND created_ts > ?'
-    ).bind(userId, 'NORMAL', oneMonthAgo).first();
+      `SELECT COUNT(*) as count FROM memo m WHERE ${memoScope} AND m.created_ts > ?`
+    ).bind(...memoScopeParams, oneMonthAgo).first();
 
     // 获取置顶笔记
     const pinnedMemos = await c.env.DB.prepare(`
       SELECT m.id
       FROM memo m
-      WHERE m.creator_id = ? AND m.row_status = ? AND m.pinned = 1
+      WHERE ${memoScope} AND m.pinned = 1
       ORDER BY m.created_ts DESC
-    `).bind(userId, 'NORMAL').all();
+    `).bind(...memoScopeParams).all();
 
     const pinnedMemoNames = (pinnedMemos.results || []).map((row: any) => `memos/${row.id}`);
 
-    // 计算memo类型统计 - 使用更简单的查询避免特殊字符问题
+    // 计算memo类型统计 - 使用写入时计算的内容属性列
     const linkCount = await c.env.DB.prepare(`
       SELECT COUNT(*) as count
       FROM memo m
-      WHERE m.creator_id = ? AND m.row_status = ? AND m.content LIKE '%http%'
-    `).bind(userId.toString(), 'NORMAL').first();
+      WHERE ${memoScope} AND m.has_link = 1
+    `).bind(...memoScopeParams).first();
 
-    const codeCount = await c.env.DB.prepare("SELECT COUNT(*) as count FROM memo m WHERE m.creator_id = ? AND m.row_status = ? AND (m.content LIKE '%```%' OR m.content LIKE '%`%')").bind(userId.toString(), 'NORMAL').first();
+    const codeCount = await c.env.DB.prepare(`SELECT COUNT(*) as count FROM memo m WHERE ${memoScope} AND m.has_code = 1`).bind(...memoScopeParams).first();
 
     const todoCount = await c.env.DB.prepare(`
       SELECT COUNT(*) as count
       FROM memo m
-      WHERE m.creator_id = ? AND m.row_status = ? AND m.content LIKE '%- [%]%'
-    `).bind(userId.toString(), 'NORMAL').first();
+      WHERE ${memoScope} AND m.has_task_list = 1
+    `).bind(...memoScopeParams).first();
 
     const undoCount = await c.env.DB.prepare(`
       SELECT COUNT(*) as count
       FROM memo m
-      WHERE m.creator_id = ? AND m.row_status = ? AND m.content LIKE '%- [ ]%'
-    `).bind(userId.toString(), 'NORMAL').first();
+      WHERE ${memoScope} AND m.has_incomplete_tasks = 1
+    `).bind(...memoScopeParams).first();
+
+    const imageCount = await c.env.DB.prepare(`
+      SELECT COUNT(*) as count
+      FROM memo m
+      WHERE ${memoScope} AND ${MEMO_HAS_IMAGE_CONDITION}
+    `).bind(...memoScopeParams).first();
 
     console.log('📊 Backend - memoTypeStats:', {
       linkCount: linkCount?.count || 0,
       codeCount: codeCount?.count || 0,
       todoCount: todoCount?.count || 0,
       undoCount: undoCount?.count || 0,
+      imageCount: imageCount?.count || 0,
     });
 
     return c.json({
@@ -510,6 +721,7 @@ userRoutes.get('/:id/stats', async (c) => {
         codeCount: (codeCount as any)?.count || 0,
         todoCount: (todoCount as any)?.count || 0,
         undoCount: (undoCount as any)?.count || 0,
+        imageCount: (imageCount as any)?.count || 0,
       },
       tagCount,
       pinnedMemos: pinnedMemoNames,
@@ -526,7 +738,7 @@ userRoutes.get('/:id/stats', async (c) => {
 userRoutes.get('/stats', async (c) => {
   try {
     const userPayload = c.get('user');
-    if (!userPayload || userPayload.role !== 'HOST') {
+    if (!userPayload || !isSuperUser(userPayload.role)) {
       return c.json({ message: 'Forbidden' }, 403);
     }
 
@@ -607,25 +819,31 @@ userRoutes.get('/stats', async (c) => {
 
       const pinnedMemoNames = (pinnedMemos.results || []).map((row: any) => `memos/${row.id}`);
 
-      // 计算memo类型统计 - 使用更简单的查询避免特殊字符问题
+      // 计算memo类型统计 - 使用写入时计算的内容属性列
       const linkCount = await c.env.DB.prepare(`
         SELECT COUNT(*) as count
         FROM memo m
-        WHERE m.creator_id = ? AND m.row_status = ? AND m.content LIKE '%http%'
+        WHERE m.creator_id = ? AND m.row_status = ? AND m.has_link = 1
       `).bind(userId.toString(), 'NORMAL').first();
 
-      const codeCount = await c.env.DB.prepare("SELECT COUNT(*) as count FROM memo m WHERE m.creator_id = ? AND m.row_status = ? AND (m.content LIKE '%```%' OR m.content LIKE '%`%')").bind(userId.toString(), 'NORMAL').first();
+      const codeCount = await c.env.DB.prepare('SELECT COUNT(*) as count FROM memo m WHERE m.creator_id = ? AND m.row_status = ? AND m.has_code = 1').bind(userId.toString(), 'NORMAL').first();
 
       const todoCount = await c.env.DB.prepare(`
         SELECT COUNT(*) as count
         FROM memo m
-        WHERE m.creator_id = ? AND m.row_status = ? AND m.content LIKE '%- [%]%'
+        WHERE m.creator_id = ? AND m.row_status = ? AND m.has_task_list = 1
       `).bind(userId.toString(), 'NORMAL').first();
 
       const undoCount = await c.env.DB.prepare(`
         SELECT COUNT(*) as count
         FROM memo m
-        WHERE m.creator_id = ? AND m.row_status = ? AND m.content LIKE '%- [ ]%'
+        WHERE m.creator_id = ? AND m.row_status = ? AND m.has_incomplete_tasks = 1
+      `).bind(userId.toString(), 'NORMAL').first();
+
+      const imageCount = await c.env.DB.prepare(`
+        SELECT COUNT(*) as count
+        FROM memo m
+        WHERE m.creator_id = ? AND m.row_status = ? AND ${MEMO_HAS_IMAGE_CONDITION}
       `).bind(userId.toString(), 'NORMAL').first();
 
       console.log('📊 Backend - getAllUserStats memoTypeStats for user', userId, ':', {
@@ -633,6 +851,7 @@ userRoutes.get('/stats', async (c) => {
         codeCount: codeCount?.count || 0,
         todoCount: todoCount?.count || 0,
         undoCount: undoCount?.count || 0,
+        imageCount: imageCount?.count || 0,
       });
 
       userStats.push({
@@ -643,6 +862,7 @@ userRoutes.get('/stats', async (c) => {
           codeCount: (codeCount as any)?.count || 0,
           todoCount: (todoCount as any)?.count || 0,
           undoCount: (undoCount as any)?.count || 0,
+          imageCount: (imageCount as any)?.count || 0,
         },
         tagCount,
         pinnedMemos: pinnedMemoNames,
@@ -658,4 +878,243 @@ userRoutes.get('/stats', async (c) => {
   }
 });
 
+
+// 获取用户的个人访问令牌（只能查看自己的令牌）
+userRoutes.get('/:id/access-tokens', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const targetUser = await c.env.DB.prepare(
+      'SELECT id, uid FROM user WHERE id = ? AND row_status = ?'
+    ).bind(userId, 'NORMAL').first();
+
+    if (!targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (targetUser.uid !== userPayload.sub) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const tokens = await c.env.DB.prepare(
+      'SELECT * FROM user_access_token WHERE user_id = ? ORDER BY created_ts DESC'
+    ).bind(userId).all();
+
+    return c.json({
+      accessTokens: (tokens.results || []).map((row) => formatAccessToken(row))
+    });
+  } catch (error) {
+    console.error('List access tokens error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 创建个人访问令牌，明文令牌只在此处返回一次
+userRoutes.post('/:id/access-tokens', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const targetUser = await c.env.DB.prepare(
+      'SELECT id, uid FROM user WHERE id = ? AND row_status = ?'
+    ).bind(userId, 'NORMAL').first();
+
+    if (!targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (targetUser.uid !== userPayload.sub) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const { description, expiresAt } = await c.req.json();
+    if (!description) {
+      return c.json({ message: 'Description is required' }, 400);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    let expiresTs: number | null = null;
+    if (expiresAt) {
+      expiresTs = Math.floor(new Date(expiresAt).getTime() / 1000);
+      if (isNaN(expiresTs) || expiresTs <= now) {
+        return c.json({ message: 'Invalid expiration time' }, 400);
+      }
+    }
+
+    const token = generateAccessToken();
+    const tokenHash = await hashAccessToken(token);
+    const result = await c.env.DB.prepare(`
+      INSERT INTO user_access_token (user_id, description, token_hash, token_prefix, expires_ts, created_ts)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(userId, description, tokenHash, getAccessTokenPrefix(token), expiresTs, now).run();
+
+    if (!result.success) {
+      throw new Error('Failed to create access token');
+    }
+
+    const row = await c.env.DB.prepare(
+      'SELECT * FROM user_access_token WHERE id = ?'
+    ).bind(result.meta.last_row_id).first();
+
+    console.log(`🔑 Created access token ${result.meta.last_row_id} for user ${userId}`);
+    return c.json({ accessToken: formatAccessToken(row, token) });
+  } catch (error) {
+    console.error('Create access token error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 撤销个人访问令牌
+userRoutes.delete('/:id/access-tokens/:tokenId', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const tokenId = parseInt(c.req.param('tokenId'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    if (isNaN(userId) || isNaN(tokenId)) {
+      return c.json({ message: 'Invalid user ID or token ID' }, 400);
+    }
+
+    const targetUser = await c.env.DB.prepare(
+      'SELECT id, uid FROM user WHERE id = ? AND row_status = ?'
+    ).bind(userId, 'NORMAL').first();
+
+    if (!targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (targetUser.uid !== userPayload.sub) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const result = await c.env.DB.prepare(
+      'DELETE FROM user_access_token WHERE id = ? AND user_id = ?'
+    ).bind(tokenId, userId).run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Access token not found' }, 404);
+    }
+
+    return c.json({ message: 'Access token deleted successfully' });
+  } catch (error) {
+    console.error('Delete access token error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 获取用户的登录会话（只能查看自己的会话）
+userRoutes.get('/:id/sessions', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const targetUser = await c.env.DB.prepare(
+      'SELECT id, uid FROM user WHERE id = ? AND row_status = ?'
+    ).bind(userId, 'NORMAL').first();
+
+    if (!targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (targetUser.uid !== userPayload.sub) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const sessions = await c.env.DB.prepare(
+      'SELECT * FROM session WHERE user_id = ? AND expires_ts >= ? ORDER BY last_active_ts DESC'
+    ).bind(userId, Math.floor(Date.now() / 1000)).all();
+
+    return c.json({
+      sessions: (sessions.results || []).map((row) => formatSession(row, userPayload.sid))
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 注销指定会话
+userRoutes.delete('/:id/sessions/:sessionId', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const sessionId = c.req.param('sessionId');
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const targetUser = await c.env.DB.prepare(
+      'SELECT id, uid FROM user WHERE id = ? AND row_status = ?'
+    ).bind(userId, 'NORMAL').first();
+
+    if (!targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (targetUser.uid !== userPayload.sub) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const revoked = await revokeSession(c.env.DB, userId, sessionId);
+    if (!revoked) {
+      return c.json({ message: 'Session not found' }, 404);
+    }
+
+    return c.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 注销全部会话（在所有设备上退出登录）
+userRoutes.delete('/:id/sessions', async (c) => {
+  try {
+    const userId = parseInt(c.req.param('id'));
+    const userPayload = c.get('user');
+
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const targetUser = await c.env.DB.prepare(
+      'SELECT id, uid FROM user WHERE id = ? AND row_status = ?'
+    ).bind(userId, 'NORMAL').first();
+
+    if (!targetUser) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    if (targetUser.uid !== userPayload.sub) {
+      return c.json({ message: 'Forbidden' }, 403);
+    }
+
+    const count = await revokeAllSessions(c.env.DB, userId);
+    console.log(`🚪 Revoked ${count} sessions for user ${userId}`);
+
+    return c.json({ message: 'All sessions revoked successfully' });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 export { userRoutes }; 
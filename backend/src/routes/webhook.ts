@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
 import { Env } from '../types';
+import { createAndDeliver, formatWebhook, formatWebhookDelivery, generateWebhookSecret } from '../services/webhook';
 
 interface Variables {
   user: {
@@ -13,21 +14,41 @@ interface Variables {
 
 export const webhookRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+// 校验 webhook URL，只允许 http/https
+function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// 辅助函数：通过 UID 获取用户 ID
+async function getUserIdFromUid(db: D1Database, uid: string): Promise<number | null> {
+  const user = await db.prepare('SELECT id FROM user WHERE uid = ?').bind(uid).first();
+  return user ? (user.id as number) : null;
+}
+
 // 获取用户的 webhooks
 webhookRoutes.get('/', async (c) => {
   try {
-    const creator = c.req.query('creator') || c.get('user')?.username;
-    
-    if (!creator) {
-      return c.json({ message: 'Creator parameter required' }, 400);
-    }
-
-    // 由于数据库中可能没有webhook表，返回空数组
-    // 在真实实现中，这里会查询数据库中的webhook记录
-    const webhooks: any[] = [];
-    
-    return c.json({ 
-      webhooks: webhooks
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const webhooks = await c.env.DB.prepare(
+      'SELECT * FROM webhook WHERE creator_id = ? ORDER BY created_ts DESC'
+    ).bind(userId).all();
+
+    return c.json({
+      webhooks: (webhooks.results || []).map((row) => formatWebhook(row))
     });
   } catch (error: any) {
     console.error('Error listing webhooks:', error);
@@ -35,60 +56,271 @@ webhookRoutes.get('/', async (c) => {
   }
 });
 
+// 获取单个 webhook
+webhookRoutes.get('/:id', async (c) => {
+  try {
+    const userPayload = c.get('user');
+    if (!userPayload) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid webhook ID' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, userPayload.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const webhook = await c.env.DB.prepare(
+      'SELECT * FROM webhook WHERE id = ? AND creator_id = ?'
+    ).bind(id, userId).first();
+
+    if (!webhook) {
+      return c.json({ message: 'Webhook not found' }, 404);
+    }
+
+    return c.json(formatWebhook(webhook, true));
+  } catch (error: any) {
+    console.error('Error getting webhook:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 // 创建新的 webhook
 webhookRoutes.post('/', async (c) => {
   try {
     const body = await c.req.json();
     const user = c.get('user');
-    
+
     if (!user) {
       return c.json({ message: 'Unauthorized' }, 401);
     }
 
     const { name, url } = body;
-    
+
     if (!name || !url) {
       return c.json({ message: 'Name and URL are required' }, 400);
     }
 
-    // 由于数据库中可能没有webhook表，暂时返回成功
-    // 在真实实现中，这里会在数据库中创建webhook记录
-    const webhook = {
-      id: Date.now(),  // 返回数字类型的id
-      name,
-      url,
-      creator: user.username,
-      createTime: new Date(),
-      updateTime: new Date()
-    };
-    
-    return c.json({ webhook });
+    if (!isValidWebhookUrl(url)) {
+      return c.json({ message: 'Invalid webhook URL' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, user.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const secret = generateWebhookSecret();
+    const result = await c.env.DB.prepare(`
+      INSERT INTO webhook (name, url, secret, creator_id, created_ts, updated_ts)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).bind(name, url, secret, userId, now, now).run();
+
+    if (!result.success) {
+      throw new Error('Failed to create webhook');
+    }
+
+    const webhook = await c.env.DB.prepare(
+      'SELECT * FROM webhook WHERE id = ?'
+    ).bind(result.meta.last_row_id).first();
+
+    // 创建时返回签名密钥，供接收端校验 X-Memos-Signature
+    return c.json({ webhook: formatWebhook(webhook, true) });
   } catch (error: any) {
     console.error('Error creating webhook:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
 });
 
+// 更新 webhook
+webhookRoutes.patch('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid webhook ID' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, user.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const existing = await c.env.DB.prepare(
+      'SELECT * FROM webhook WHERE id = ? AND creator_id = ?'
+    ).bind(id, userId).first();
+
+    if (!existing) {
+      return c.json({ message: 'Webhook not found' }, 404);
+    }
+
+    const { name, url } = await c.req.json();
+    const updates = [];
+    const values = [];
+
+    if (name !== undefined) {
+      if (!name) {
+        return c.json({ message: 'Name is required' }, 400);
+      }
+      updates.push('name = ?');
+      values.push(name);
+    }
+
+    if (url !== undefined) {
+      if (!isValidWebhookUrl(url)) {
+        return c.json({ message: 'Invalid webhook URL' }, 400);
+      }
+      updates.push('url = ?');
+      values.push(url);
+    }
+
+    updates.push('updated_ts = ?');
+    values.push(Math.floor(Date.now() / 1000));
+    values.push(id);
+
+    if (updates.length > 1) {
+      await c.env.DB.prepare(`
+        UPDATE webhook SET ${updates.join(', ')} WHERE id = ?
+      `).bind(...values).run();
+    }
+
+    const webhook = await c.env.DB.prepare(
+      'SELECT * FROM webhook WHERE id = ?'
+    ).bind(id).first();
+
+    return c.json({ webhook: formatWebhook(webhook) });
+  } catch (error: any) {
+    console.error('Error updating webhook:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
 // 删除 webhook
 webhookRoutes.delete('/:id', async (c) => {
   try {
-    const id = c.req.param('id');
+    const id = parseInt(c.req.param('id'));
     const user = c.get('user');
-    
+
     if (!user) {
       return c.json({ message: 'Unauthorized' }, 401);
     }
 
-    if (!id) {
+    if (isNaN(id)) {
       return c.json({ message: 'Webhook ID required' }, 400);
     }
 
-    // 由于数据库中可能没有webhook表，暂时返回成功
-    // 在真实实现中，这里会从数据库中删除webhook记录
-    
+    const userId = await getUserIdFromUid(c.env.DB, user.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const result = await c.env.DB.prepare(
+      'DELETE FROM webhook WHERE id = ? AND creator_id = ?'
+    ).bind(id, userId).run();
+
+    if (!result.meta.changes) {
+      return c.json({ message: 'Webhook not found' }, 404);
+    }
+
     return c.json({ message: 'Webhook deleted successfully' });
   } catch (error: any) {
     console.error('Error deleting webhook:', error);
     return c.json({ message: 'Internal server error' }, 500);
   }
-}); 
\ No newline at end of file
+});
+
+// 获取 webhook 最近的投递记录
+webhookRoutes.get('/:id/deliveries', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ message: 'Invalid webhook ID' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, user.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const webhook = await c.env.DB.prepare(
+      'SELECT id FROM webhook WHERE id = ? AND creator_id = ?'
+    ).bind(id, userId).first();
+
+    if (!webhook) {
+      return c.json({ message: 'Webhook not found' }, 404);
+    }
+
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+    const deliveries = await c.env.DB.prepare(`
+      SELECT * FROM webhook_delivery
+      WHERE webhook_id = ?
+      ORDER BY created_ts DESC, id DESC
+      LIMIT ?
+    `).bind(id, limit).all();
+
+    return c.json({
+      deliveries: (deliveries.results || []).map(formatWebhookDelivery)
+    });
+  } catch (error: any) {
+    console.error('Error listing webhook deliveries:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
+
+// 重新投递：使用原始请求体创建一次新的投递
+webhookRoutes.post('/:id/deliveries/:deliveryId/redeliver', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) {
+      return c.json({ message: 'Unauthorized' }, 401);
+    }
+
+    const id = parseInt(c.req.param('id'));
+    const deliveryId = parseInt(c.req.param('deliveryId'));
+    if (isNaN(id) || isNaN(deliveryId)) {
+      return c.json({ message: 'Invalid webhook ID or delivery ID' }, 400);
+    }
+
+    const userId = await getUserIdFromUid(c.env.DB, user.sub);
+    if (!userId) {
+      return c.json({ message: 'User not found' }, 404);
+    }
+
+    const webhook = await c.env.DB.prepare(
+      'SELECT * FROM webhook WHERE id = ? AND creator_id = ?'
+    ).bind(id, userId).first();
+
+    if (!webhook) {
+      return c.json({ message: 'Webhook not found' }, 404);
+    }
+
+    const delivery = await c.env.DB.prepare(
+      'SELECT * FROM webhook_delivery WHERE id = ? AND webhook_id = ?'
+    ).bind(deliveryId, id).first();
+
+    if (!delivery) {
+      return c.json({ message: 'Delivery not found' }, 404);
+    }
+
+    const redelivery = await createAndDeliver(c.env.DB, webhook, delivery.activity_type as string, delivery.payload as string);
+
+    return c.json({ delivery: formatWebhookDelivery(redelivery) });
+  } catch (error: any) {
+    console.error('Error redelivering webhook:', error);
+    return c.json({ message: 'Internal server error' }, 500);
+  }
+});
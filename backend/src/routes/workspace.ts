@@ -1,5 +1,9 @@
 import { Hono } from 'hono';
 import { authMiddleware } from '../middleware/auth';
+import { DEFAULT_MEMO_REVISION_LIMIT } from '../services/revision';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../services/trash';
+import { DEFAULT_UPLOAD_SIZE_LIMIT_MB } from '../services/upload-policy';
+import { invalidateGeneralSettingCache } from '../services/workspace-setting';
 
 type Env = {
   DB: D1Database;
@@ -15,6 +19,18 @@ interface Variables {
 
 const workspaceRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+// 获取设置的接口不需要登录，S3 的密钥不返回给前端
+function redactSetting(setting: any) {
+  if (!setting?.storageSetting?.s3Config?.accessKeySecret) return setting;
+  return {
+    ...setting,
+    storageSetting: {
+      ...setting.storageSetting,
+      s3Config: { ...setting.storageSetting.s3Config, accessKeySecret: '' },
+    },
+  };
+}
+
 // 获取workspace profile
 workspaceRoutes.get('/profile', async (c) => {
   try {
@@ -52,7 +68,7 @@ workspaceRoutes.get('/setting', async (c) => {
 
     if (setting) {
       // 如果数据库中有设置，返回解析后的JSON
-      return c.json(JSON.parse(setting.setting_data));
+      return c.json(redactSetting(JSON.parse(setting.setting_data)));
     }
 
     // 如果数据库中没有设置，返回默认设置
@@ -90,7 +106,9 @@ workspaceRoutes.get('/setting', async (c) => {
           enableLocation: true,
           enableTagSuggestion: true,
           disableMarkdownShortcuts: false,
-          reactions: ['👍', '👎', '❤️', '😄', '😢', '😮', '😠']
+          reactions: ['👍', '👎', '❤️', '😄', '😢', '😮', '😠'],
+          memoRevisionLimit: DEFAULT_MEMO_REVISION_LIMIT,
+          trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
         }
       },
       'STORAGE': {
@@ -98,7 +116,10 @@ workspaceRoutes.get('/setting', async (c) => {
         storageSetting: {
           storageType: 'R2',
           filepathTemplate: '{{filename}}',
-          uploadSizeLimitMb: 32,
+          uploadSizeLimitMb: DEFAULT_UPLOAD_SIZE_LIMIT_MB,
+          allowedMimeTypes: [],
+          deniedMimeTypes: [],
+          userStorageQuotaMb: 0,
         }
       }
     };
@@ -124,11 +145,10 @@ workspaceRoutes.post('/setting', authMiddleware, async (c) => {
     }
 
     const body = await c.req.json();
-    console.log('Update workspace setting:', body);
+    console.log('Update workspace setting:', (body.setting || body).name);
     
     const setting = body.setting || body;
     const settingName = setting.name;
-    const settingData = JSON.stringify(setting);
     const now = Math.floor(Date.now() / 1000);
 
     // 检查是否已存在设置
@@ -136,6 +156,13 @@ workspaceRoutes.post('/setting', authMiddleware, async (c) => {
       'SELECT * FROM workspace_setting WHERE name = ?'
     ).bind(settingName).first();
 
+    // 前端拿到的 S3 密钥为空，未重新填写时保留原来的密钥
+    const s3Config = setting.storageSetting?.s3Config;
+    if (s3Config && !s3Config.accessKeySecret && existingSetting) {
+      s3Config.accessKeySecret = JSON.parse(existingSetting.setting_data as string)?.storageSetting?.s3Config?.accessKeySecret || '';
+    }
+    const settingData = JSON.stringify(setting);
+
     if (existingSetting) {
       // 更新现有设置
       await c.env.DB.prepare(`
@@ -151,8 +178,12 @@ workspaceRoutes.post('/setting', authMiddleware, async (c) => {
       `).bind(settingName, settingData, now, now).run();
     }
 
+    if (settingName === 'settings/GENERAL') {
+      invalidateGeneralSettingCache();
+    }
+
     console.log('Workspace setting saved successfully:', settingName);
-    return c.json(setting);
+    return c.json(redactSetting(setting));
   } catch (error) {
     console.error('Update workspace setting error:', error);
     return c.json({ message: 'Internal server error' }, 500);
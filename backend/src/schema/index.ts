@@ -40,6 +40,14 @@ export const memos = sqliteTable('memo', {
   locationPlaceholder: text('location_placeholder'),
   locationLatitude: real('location_latitude'),
   locationLongitude: real('location_longitude'),
+  hasLink: integer('has_link').notNull().default(0),
+  hasTaskList: integer('has_task_list').notNull().default(0),
+  hasCode: integer('has_code').notNull().default(0),
+  hasIncompleteTasks: integer('has_incomplete_tasks').notNull().default(0),
+  hasImage: integer('has_image').notNull().default(0),
+  publishTs: integer('publish_ts'),
+  remindTs: integer('remind_ts'),
+  deletedTs: integer('deleted_ts'),
   createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
   updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
 });
@@ -70,6 +78,8 @@ export const resources = sqliteTable('resource', {
   blob: blob('blob'),
   externalLink: text('external_link'),
   creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  rowStatus: text('row_status').notNull().default('NORMAL'),
+  deletedTs: integer('deleted_ts'),
   createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
   updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
 });
@@ -102,6 +112,42 @@ export const memoReactions = sqliteTable('memo_reaction', {
   uniqueReaction: unique('unique_memo_reaction').on(table.memoId, table.creatorId, table.reactionType),
 }));
 
+// Memo revision table
+export const memoRevisions = sqliteTable('memo_revision', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  memoId: integer('memo_id').notNull().references(() => memos.id, { onDelete: 'cascade' }),
+  creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  content: text('content').notNull().default(''),
+  visibility: text('visibility').notNull().default('PRIVATE'),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// Import job table
+export const importJobs = sqliteTable('import_job', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  uid: text('uid').notNull().unique(),
+  creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  source: text('source').notNull(),
+  filename: text('filename').notNull().default(''),
+  status: text('status').notNull().default('RUNNING'),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// Import item table
+export const importItems = sqliteTable('import_item', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  jobId: integer('job_id').notNull().references(() => importJobs.id, { onDelete: 'cascade' }),
+  sourceKey: text('source_key').notNull(),
+  title: text('title').notNull().default(''),
+  payload: text('payload').notNull().default(''), // JSON format
+  relations: text('relations').notNull().default('[]'), // JSON format
+  status: text('status').notNull().default('PENDING'),
+  memoId: integer('memo_id'),
+  error: text('error'),
+  updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
 // Workspace setting table
 export const workspaceSettings = sqliteTable('workspace_setting', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -121,6 +167,134 @@ export const shortcuts = sqliteTable('shortcut', {
   updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
 });
 
+// Webhook table
+export const webhooks = sqliteTable('webhook', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  url: text('url').notNull(),
+  secret: text('secret').notNull().default(''),
+  creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// Webhook delivery table
+export const webhookDeliveries = sqliteTable('webhook_delivery', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  webhookId: integer('webhook_id').notNull().references(() => webhooks.id, { onDelete: 'cascade' }),
+  activityType: text('activity_type').notNull(),
+  payload: text('payload').notNull(), // JSON format
+  status: text('status').notNull().default('PENDING'), // PENDING, SUCCESS, RETRYING, FAILED
+  attempt: integer('attempt').notNull().default(0),
+  statusCode: integer('status_code'),
+  latencyMs: integer('latency_ms'),
+  responseSnippet: text('response_snippet'),
+  error: text('error'),
+  nextRetryTs: integer('next_retry_ts'),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// User access token table
+export const userAccessTokens = sqliteTable('user_access_token', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  description: text('description').notNull().default(''),
+  tokenHash: text('token_hash').notNull().unique(),
+  tokenPrefix: text('token_prefix').notNull(),
+  expiresTs: integer('expires_ts'),
+  lastUsedTs: integer('last_used_ts'),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// Invite table (max_uses = 0 means unlimited)
+export const invites = sqliteTable('invite', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  code: text('code').notNull().unique(),
+  creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: text('role').notNull().default('USER'),
+  maxUses: integer('max_uses').notNull().default(1),
+  usedCount: integer('used_count').notNull().default(0),
+  expiresTs: integer('expires_ts'),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// Session table (refresh tokens are stored hashed)
+export const sessions = sqliteTable('session', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  uid: text('uid').notNull().unique(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  refreshTokenHash: text('refresh_token_hash').notNull().unique(),
+  previousRefreshTokenHash: text('previous_refresh_token_hash'),
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  lastActiveTs: integer('last_active_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  expiresTs: integer('expires_ts').notNull(),
+});
+
+// Identity provider table
+export const idps = sqliteTable('idp', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  type: text('type').notNull().default('OAUTH2'),
+  identifierFilter: text('identifier_filter').notNull().default(''),
+  config: text('config').notNull().default('{}'), // JSON format
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  updatedTs: integer('updated_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// User identity table (links users to identity provider accounts)
+export const userIdentities = sqliteTable('user_identity', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  idpId: integer('idp_id').notNull().references(() => idps.id, { onDelete: 'cascade' }),
+  externalId: text('external_id').notNull(),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+}, (table) => ({
+  uniqueIdpExternalId: unique('unique_user_identity').on(table.idpId, table.externalId),
+}));
+
+// Identity provider authorization state table
+export const idpAuthStates = sqliteTable('idp_auth_state', {
+  state: text('state').primaryKey(),
+  idpId: integer('idp_id').notNull().references(() => idps.id, { onDelete: 'cascade' }),
+  codeVerifier: text('code_verifier').notNull(),
+  redirectUri: text('redirect_uri').notNull(),
+  expiresTs: integer('expires_ts').notNull(),
+});
+
+// Link preview metadata cache
+export const linkMetadata = sqliteTable('link_metadata', {
+  url: text('url').primaryKey(),
+  title: text('title').notNull().default(''),
+  description: text('description').notNull().default(''),
+  image: text('image').notNull().default(''),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+  expiresTs: integer('expires_ts').notNull(),
+});
+
+// Activity table
+export const activities = sqliteTable('activity', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // MEMO_COMMENT, MEMO_MENTION, MEMO_REACTION
+  level: text('level').notNull().default('INFO'),
+  payload: text('payload').notNull().default('{}'), // JSON format
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+// Inbox table
+export const inboxes = sqliteTable('inbox', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  senderId: integer('sender_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  receiverId: integer('receiver_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: text('status').notNull().default('UNREAD'), // UNREAD, ARCHIVED
+  type: text('type').notNull(), // MEMO_COMMENT, MEMO_MENTION, MEMO_REACTION
+  activityId: integer('activity_id').references(() => activities.id, { onDelete: 'cascade' }),
+  createdTs: integer('created_ts').notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   settings: many(userSettings),
@@ -129,6 +303,12 @@ export const usersRelations = relations(users, ({ many }) => ({
   resources: many(resources),
   reactions: many(memoReactions),
   shortcuts: many(shortcuts),
+  webhooks: many(webhooks),
+  activities: many(activities),
+  inboxes: many(inboxes, { relationName: 'receiver' }),
+  accessTokens: many(userAccessTokens),
+  identities: many(userIdentities),
+  sessions: many(sessions),
 }));
 
 export const userSettingsRelations = relations(userSettings, ({ one }) => ({
@@ -147,6 +327,7 @@ export const memosRelations = relations(memos, ({ one, many }) => ({
   resources: many(memoResources),
   relations: many(memoRelations),
   reactions: many(memoReactions),
+  revisions: many(memoRevisions),
 }));
 
 export const tagsRelations = relations(tags, ({ one, many }) => ({
@@ -209,6 +390,32 @@ export const memoReactionsRelations = relations(memoReactions, ({ one }) => ({
   }),
 }));
 
+export const memoRevisionsRelations = relations(memoRevisions, ({ one }) => ({
+  memo: one(memos, {
+    fields: [memoRevisions.memoId],
+    references: [memos.id],
+  }),
+  creator: one(users, {
+    fields: [memoRevisions.creatorId],
+    references: [users.id],
+  }),
+}));
+
+export const importJobsRelations = relations(importJobs, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [importJobs.creatorId],
+    references: [users.id],
+  }),
+  items: many(importItems),
+}));
+
+export const importItemsRelations = relations(importItems, ({ one }) => ({
+  job: one(importJobs, {
+    fields: [importItems.jobId],
+    references: [importJobs.id],
+  }),
+}));
+
 export const shortcutsRelations = relations(shortcuts, ({ one }) => ({
   creator: one(users, {
     fields: [shortcuts.creatorId],
@@ -216,6 +423,80 @@ export const shortcutsRelations = relations(shortcuts, ({ one }) => ({
   }),
 }));
 
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [webhooks.creatorId],
+    references: [users.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  webhook: one(webhooks, {
+    fields: [webhookDeliveries.webhookId],
+    references: [webhooks.id],
+  }),
+}));
+
+export const userAccessTokensRelations = relations(userAccessTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [userAccessTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const invitesRelations = relations(invites, ({ one }) => ({
+  creator: one(users, {
+    fields: [invites.creatorId],
+    references: [users.id],
+  }),
+}));
+
+export const idpsRelations = relations(idps, ({ many }) => ({
+  identities: many(userIdentities),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+  idp: one(idps, {
+    fields: [userIdentities.idpId],
+    references: [idps.id],
+  }),
+}));
+
+export const activitiesRelations = relations(activities, ({ one }) => ({
+  creator: one(users, {
+    fields: [activities.creatorId],
+    references: [users.id],
+  }),
+}));
+
+export const inboxesRelations = relations(inboxes, ({ one }) => ({
+  sender: one(users, {
+    fields: [inboxes.senderId],
+    references: [users.id],
+  }),
+  receiver: one(users, {
+    fields: [inboxes.receiverId],
+    references: [users.id],
+    relationName: 'receiver',
+  }),
+  activity: one(activities, {
+    fields: [inboxes.activityId],
+    references: [activities.id],
+  }),
+}));
+
 // Import sql helper
 import { sql } from 'drizzle-orm';
 import { unique } from 'drizzle-orm/sqlite-core';
@@ -239,7 +520,35 @@ export type MemoRelation = typeof memoRelations.$inferSelect;
 export type NewMemoRelation = typeof memoRelations.$inferInsert;
 export type MemoReaction = typeof memoReactions.$inferSelect;
 export type NewMemoReaction = typeof memoReactions.$inferInsert;
+export type MemoRevision = typeof memoRevisions.$inferSelect;
+export type NewMemoRevision = typeof memoRevisions.$inferInsert;
+export type ImportJob = typeof importJobs.$inferSelect;
+export type NewImportJob = typeof importJobs.$inferInsert;
+export type ImportItem = typeof importItems.$inferSelect;
+export type NewImportItem = typeof importItems.$inferInsert;
 export type WorkspaceSetting = typeof workspaceSettings.$inferSelect;
 export type NewWorkspaceSetting = typeof workspaceSettings.$inferInsert;
 export type Shortcut = typeof shortcuts.$inferSelect;
 export type NewShortcut = typeof shortcuts.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type NewWebhook = typeof webhooks.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type Activity = typeof activities.$inferSelect;
+export type NewActivity = typeof activities.$inferInsert;
+export type Inbox = typeof inboxes.$inferSelect;
+export type NewInbox = typeof inboxes.$inferInsert;
+export type UserAccessToken = typeof userAccessTokens.$inferSelect;
+export type NewUserAccessToken = typeof userAccessTokens.$inferInsert;
+export type Invite = typeof invites.$inferSelect;
+export type NewInvite = typeof invites.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+export type Idp = typeof idps.$inferSelect;
+export type NewIdp = typeof idps.$inferInsert;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
+export type IdpAuthState = typeof idpAuthStates.$inferSelect;
+export type NewIdpAuthState = typeof idpAuthStates.$inferInsert;
+export type LinkMetadata = typeof linkMetadata.$inferSelect;
+export type NewLinkMetadata = typeof linkMetadata.$inferInsert;
@@ -0,0 +1,75 @@
+// 个人访问令牌服务：生成、哈希存储和校验长期有效的 API 令牌
+
+// 令牌前缀，用于和会话 JWT 区分
+export const ACCESS_TOKEN_PREFIX = 'memos_pat_';
+// 列表中展示的令牌字符数（含前缀）
+const TOKEN_DISPLAY_LENGTH = ACCESS_TOKEN_PREFIX.length + 4;
+// last_used_ts 的最小更新间隔（秒），避免每个请求都写数据库
+const LAST_USED_UPDATE_INTERVAL = 60;
+
+// 判断是否为个人访问令牌
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+// 生成新的访问令牌明文
+export function generateAccessToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return ACCESS_TOKEN_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 计算令牌的 SHA-256 哈希（hex），数据库只保存哈希
+export async function hashAccessToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 获取令牌用于展示的前缀
+export function getAccessTokenPrefix(token: string): string {
+  return token.slice(0, TOKEN_DISPLAY_LENGTH);
+}
+
+// 转换数据库行为前端使用的 UserAccessToken 格式，明文令牌只在创建时返回
+export function formatAccessToken(row: any, token?: string) {
+  return {
+    id: row.id,
+    name: `users/${row.user_id}/accessTokens/${row.id}`,
+    accessToken: token || row.token_prefix,
+    description: row.description,
+    issuedAt: new Date(row.created_ts * 1000).toISOString(),
+    expiresAt: row.expires_ts ? new Date(row.expires_ts * 1000).toISOString() : undefined,
+    lastUsedAt: row.last_used_ts ? new Date(row.last_used_ts * 1000).toISOString() : undefined,
+  };
+}
+
+// 校验访问令牌，成功时返回与会话 JWT 相同结构的载荷
+export async function verifyAccessToken(db: D1Database, token: string): Promise<any | null> {
+  const tokenHash = await hashAccessToken(token);
+  const row = await db.prepare(`
+    SELECT t.id, t.expires_ts, t.last_used_ts, t.created_ts, u.uid, u.username, u.role
+    FROM user_access_token t
+    JOIN user u ON t.user_id = u.id
+    WHERE t.token_hash = ? AND u.row_status = 'NORMAL'
+  `).bind(tokenHash).first();
+
+  if (!row) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (row.expires_ts && (row.expires_ts as number) < now) {
+    return null;
+  }
+
+  if (!row.last_used_ts || now - (row.last_used_ts as number) >= LAST_USED_UPDATE_INTERVAL) {
+    await db.prepare(
+      'UPDATE user_access_token SET last_used_ts = ? WHERE id = ?'
+    ).bind(now, row.id).run();
+  }
+
+  return {
+    sub: row.uid,
+    username: row.username,
+    role: row.role,
+    iat: row.created_ts,
+    exp: row.expires_ts || undefined,
+  };
+}
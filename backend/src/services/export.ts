@@ -0,0 +1,259 @@
+// 账号导出服务：把用户的笔记导出为 ZIP 压缩包，包含每条笔记一个 Markdown 文件（带 YAML front matter）、
+// attachments/ 目录下的附件，以及可供程序读取的 memos.json
+import { Env } from '../types';
+import { getStorageDriverForLink } from './storage';
+import { getStorageSetting, StorageSetting } from './upload-policy';
+import { createZipStream, ZipEntry } from './zip';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+// 导出只需要数据库和 R2 绑定，S3 的配置来自 STORAGE 设置
+type ExportEnv = Pick<Env, 'DB' | 'R2'>;
+
+interface ExportRelation {
+  type: string;
+  memo: string;
+}
+
+interface ExportAttachment {
+  uid: string;
+  filename: string;
+  type: string;
+  size: number;
+  // 压缩包中的路径，文件已丢失时为 null
+  path: string | null;
+}
+
+interface ExportMemo {
+  uid: string;
+  content: string;
+  visibility: string;
+  pinned: boolean;
+  rowStatus: string;
+  tags: string[];
+  location: { placeholder: string; latitude: number; longitude: number } | null;
+  relations: ExportRelation[];
+  attachments: ExportAttachment[];
+  createTime: string;
+  updateTime: string;
+}
+
+interface ExportResource extends ExportAttachment {
+  id: number;
+  externalLink: string;
+  createdTs: number;
+}
+
+function toISOString(ts: number): string {
+  return new Date(ts * 1000).toISOString();
+}
+
+// 去掉文件名中的路径分隔符和控制字符，避免解压时写到 attachments/ 之外
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/[\/\\\x00-\x1f]/g, '_').replace(/^\.+/, '_') || 'file';
+}
+
+// JSON 字符串同时也是合法的 YAML 双引号标量
+function yamlValue(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function buildMemoMarkdown(memo: ExportMemo): string {
+  const lines = [
+    '---',
+    `uid: ${yamlValue(memo.uid)}`,
+    `visibility: ${yamlValue(memo.visibility)}`,
+    `pinned: ${memo.pinned}`,
+    `rowStatus: ${yamlValue(memo.rowStatus)}`,
+    `tags: ${yamlValue(memo.tags)}`,
+    `createTime: ${yamlValue(memo.createTime)}`,
+    `updateTime: ${yamlValue(memo.updateTime)}`,
+  ];
+
+  if (memo.location) {
+    lines.push(
+      'location:',
+      `  placeholder: ${yamlValue(memo.location.placeholder)}`,
+      `  latitude: ${memo.location.latitude}`,
+      `  longitude: ${memo.location.longitude}`,
+    );
+  }
+
+  if (memo.relations.length > 0) {
+    lines.push('relations:');
+    for (const relation of memo.relations) {
+      lines.push(`  - type: ${yamlValue(relation.type)}`, `    memo: ${yamlValue(relation.memo)}`);
+    }
+  }
+
+  const attachmentPaths = memo.attachments.filter((attachment) => attachment.path).map((attachment) => attachment.path);
+  if (attachmentPaths.length > 0) {
+    lines.push('attachments:', ...attachmentPaths.map((path) => `  - ${yamlValue(path)}`));
+  }
+
+  lines.push('---', '', memo.content);
+  return lines.join('\n') + '\n';
+}
+
+// 读取附件内容，通过存储驱动以流的方式返回，找不到文件时返回 null
+async function readResourceData(
+  env: ExportEnv,
+  storageSetting: StorageSetting,
+  resource: ExportResource,
+): Promise<Uint8Array | ReadableStream<Uint8Array> | null> {
+  const driver = getStorageDriverForLink(env, resource.externalLink, storageSetting);
+  if (!driver) return null;
+  const object = await driver.get(resource.externalLink);
+  return object ? object.body : null;
+}
+
+async function* buildArchiveEntries(
+  env: ExportEnv,
+  storageSetting: StorageSetting,
+  user: Record<string, unknown>,
+  memos: ExportMemo[],
+  resources: ExportResource[],
+): AsyncGenerator<ZipEntry> {
+  // 先写附件，这样笔记和 memos.json 中可以标记出已丢失的附件
+  for (const resource of resources) {
+    const data = await readResourceData(env, storageSetting, resource).catch((error) => {
+      console.error(`Failed to read attachment ${resource.uid}:`, error);
+      return null;
+    });
+    if (!data) {
+      console.warn(`⚠️ Attachment ${resource.uid} is missing, skipped in export`);
+      resource.path = null;
+      continue;
+    }
+    yield { name: resource.path as string, data, modifiedAt: new Date(resource.createdTs * 1000) };
+  }
+
+  const encoder = new TextEncoder();
+  for (const memo of memos) {
+    yield {
+      name: `memos/${memo.uid}.md`,
+      data: encoder.encode(buildMemoMarkdown(memo)),
+      modifiedAt: new Date(memo.updateTime),
+    };
+  }
+
+  yield {
+    name: 'memos.json',
+    data: encoder.encode(JSON.stringify({
+      version: EXPORT_FORMAT_VERSION,
+      exportTime: new Date().toISOString(),
+      user,
+      memos: memos.map((memo) => ({
+        ...memo,
+        attachments: memo.attachments.map(({ uid, filename, type, size, path }) => ({ uid, filename, type, size, path })),
+      })),
+    }, null, 2)),
+  };
+}
+
+// 读取用户的全部笔记（不含回收站中的笔记）和附件信息，返回 ZIP 文件流
+// 数据库查询在返回前完成，附件内容在写入压缩包时才逐个读取
+export async function createAccountArchive(env: ExportEnv, userId: number): Promise<ReadableStream<Uint8Array>> {
+  const db = env.DB;
+
+  const user = await db.prepare(
+    'SELECT username, nickname, email, description, created_ts FROM user WHERE id = ?'
+  ).bind(userId).first();
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [memoRows, tagRows, relationRows, resourceRows, memoResourceRows] = await db.batch([
+    db.prepare(`
+      SELECT id, uid, content, visibility, pinned, row_status,
+             location_placeholder, location_latitude, location_longitude, created_ts, updated_ts
+      FROM memo
+      WHERE creator_id = ? AND row_status != 'DELETED'
+      ORDER BY created_ts ASC, id ASC
+    `).bind(userId),
+    db.prepare(`
+      SELECT mt.memo_id, t.name FROM memo_tag mt
+      JOIN tag t ON t.id = mt.tag_id
+      JOIN memo m ON m.id = mt.memo_id
+      WHERE m.creator_id = ?
+      ORDER BY t.name
+    `).bind(userId),
+    db.prepare(`
+      SELECT mr.memo_id, mr.type, rm.uid AS related_memo_uid FROM memo_relation mr
+      JOIN memo m ON m.id = mr.memo_id
+      JOIN memo rm ON rm.id = mr.related_memo_id
+      WHERE m.creator_id = ? AND rm.row_status != 'DELETED'
+      ORDER BY mr.id
+    `).bind(userId),
+    db.prepare(`
+      SELECT id, uid, filename, type, size, external_link, created_ts FROM resource
+      WHERE creator_id = ? AND row_status = 'NORMAL'
+      ORDER BY id
+    `).bind(userId),
+    db.prepare(`
+      SELECT mr.memo_id, mr.resource_id FROM memo_resource mr
+      JOIN resource r ON r.id = mr.resource_id
+      WHERE r.creator_id = ? AND r.row_status = 'NORMAL'
+    `).bind(userId),
+  ]);
+
+  const resources: ExportResource[] = ((resourceRows.results || []) as any[]).map((resource) => ({
+    id: resource.id,
+    uid: resource.uid,
+    filename: resource.filename,
+    type: resource.type,
+    size: resource.size,
+    path: `attachments/${resource.uid}-${sanitizeFilename(resource.filename)}`,
+    externalLink: resource.external_link || '',
+    createdTs: resource.created_ts,
+  }));
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]));
+
+  const groupByMemo = <T>(rows: any[], map: (row: any) => T | undefined): Map<number, T[]> => {
+    const grouped = new Map<number, T[]>();
+    for (const row of rows) {
+      const value = map(row);
+      if (value === undefined) continue;
+      grouped.set(row.memo_id, [...(grouped.get(row.memo_id) || []), value]);
+    }
+    return grouped;
+  };
+  const tagsByMemo = groupByMemo<string>(tagRows.results || [], (row) => row.name);
+  const relationsByMemo = groupByMemo<ExportRelation>(relationRows.results || [], (row) => ({
+    type: row.type,
+    memo: row.related_memo_uid,
+  }));
+  const resourcesByMemo = groupByMemo<ExportResource>(memoResourceRows.results || [], (row) => resourcesById.get(row.resource_id));
+
+  const memos: ExportMemo[] = ((memoRows.results || []) as any[]).map((memo) => ({
+    uid: memo.uid,
+    content: memo.content,
+    visibility: memo.visibility,
+    pinned: Boolean(memo.pinned),
+    rowStatus: memo.row_status,
+    tags: tagsByMemo.get(memo.id) || [],
+    location: memo.location_placeholder != null || memo.location_latitude != null
+      ? {
+          placeholder: memo.location_placeholder || '',
+          latitude: memo.location_latitude || 0,
+          longitude: memo.location_longitude || 0,
+        }
+      : null,
+    relations: relationsByMemo.get(memo.id) || [],
+    // 与 resources 共享同一个对象，附件丢失时 path 会同步变为 null
+    attachments: resourcesByMemo.get(memo.id) || [],
+    createTime: toISOString(memo.created_ts),
+    updateTime: toISOString(memo.updated_ts),
+  }));
+
+  const exportUser = {
+    username: user.username,
+    nickname: user.nickname,
+    email: user.email,
+    description: user.description,
+    createTime: toISOString(user.created_ts as number),
+  };
+
+  const storageSetting = await getStorageSetting(db);
+  return createZipStream(buildArchiveEntries(env, storageSetting, exportUser, memos, resources));
+}
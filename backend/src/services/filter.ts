@@ -0,0 +1,505 @@
+// 筛选表达式服务：解析 ListMemosRequest.filter 使用的类 CEL 语法，并编译为参数化 SQL
+//
+// 支持的语法：
+//   表达式    a && b、a || b、!a、(a)
+//   比较      field == value、!=、<、<=、>、>=，以及 field in [v1, v2]
+//   方法      content.contains("x")、tag.startsWith("x")、tag.contains("x")
+//   布尔字段  pinned、has_link 等可直接作为条件，也可与 true / false 比较
+//   字面量    "字符串" 或 '字符串'、数字、true / false、[列表]
+//
+// 编译结果中的 SQL 以 m 作为 memo 表的别名
+
+import { buildSearchCondition } from './search';
+
+// 筛选表达式无效时抛出，调用方应返回 400
+export class FilterError extends Error {
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'FilterError';
+  }
+}
+
+// 编译后的筛选条件
+export interface CompiledFilter {
+  // 为空字符串时表示没有筛选条件
+  sql: string;
+  params: any[];
+  // 只通过 && 与根节点相连的内容搜索关键词，由列表查询通过全文索引 JOIN 处理以便排序和生成摘要
+  searchWords: string[];
+}
+
+export interface CompileFilterOptions {
+  // 为 true 时提取 searchWords，否则内容搜索全部编译为子查询条件
+  extractSearch?: boolean;
+}
+
+type Literal = string | number | boolean | Literal[];
+
+type Operator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'contains' | 'startsWith';
+
+type FilterNode =
+  | { kind: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { kind: 'not'; operand: FilterNode }
+  | { kind: 'condition'; field: string; operator: Operator; value: Literal; position: number };
+
+interface Token {
+  type: 'identifier' | 'string' | 'number' | 'operator' | 'punctuation' | 'eof';
+  value: string;
+  position: number;
+}
+
+interface SQLCondition {
+  sql: string;
+  params: any[];
+}
+
+// 表达式最大长度，避免超长输入拖慢解析
+const MAX_FILTER_LENGTH = 4096;
+
+const VISIBILITIES = ['PUBLIC', 'PROTECTED', 'PRIVATE'];
+
+// 包含图片：内容中的 Markdown 图片或作为附件上传的图片
+export const MEMO_HAS_IMAGE_CONDITION = `(m.has_image = 1 OR EXISTS (
+  SELECT 1 FROM memo_resource mr JOIN resource r ON r.id = mr.resource_id
+  WHERE mr.memo_id = m.id AND r.type LIKE 'image/%'
+))`;
+
+// 内容属性的判断条件，属性列在写入内容时根据语法树计算，与统计接口保持一致
+const PROPERTY_CONDITIONS: Record<string, string> = {
+  has_task_list: 'm.has_task_list = 1',
+  has_incomplete_tasks: 'm.has_incomplete_tasks = 1',
+  has_link: 'm.has_link = 1',
+  has_code: 'm.has_code = 1',
+  has_image: MEMO_HAS_IMAGE_CONDITION,
+};
+
+// 时间字段对应的列，值为 Unix 时间戳（秒）
+const TIME_COLUMNS: Record<string, string> = {
+  display_time: 'm.created_ts',
+  create_time: 'm.created_ts',
+  update_time: 'm.updated_ts',
+};
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          const escaped = input[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+          continue;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new FilterError('Unterminated string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(input.slice(i));
+    if (numberMatch && (char !== '-' || /\d/.test(input[i + 1] || ''))) {
+      tokens.push({ type: 'number', value: numberMatch[0], position: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0], position: i });
+      i += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = ['==', '!=', '<=', '>=', '&&', '||'].find((op) => input.startsWith(op, i))
+      || (['<', '>', '!'].includes(char) ? char : null);
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if ('()[],.'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new FilterError(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+// 递归下降解析，优先级：! > && > ||
+class FilterParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new FilterError(`Unexpected "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private accept(type: Token['type'], value: string): boolean {
+    const token = this.peek();
+    if (token.type === type && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token['type'], value: string): void {
+    const token = this.peek();
+    if (!this.accept(type, value)) {
+      throw new FilterError(`Expected "${value}" but found "${token.value || 'end of filter'}"`, token.position);
+    }
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.accept('operator', '||')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseUnary();
+    while (this.accept('operator', '&&')) {
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.accept('operator', '!')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    if (this.accept('punctuation', '(')) {
+      const node = this.parseOr();
+      this.expect('punctuation', ')');
+      return node;
+    }
+
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new FilterError(`Expected a field but found "${token.value || 'end of filter'}"`, token.position);
+    }
+    const field = token.value;
+
+    // 方法调用，如 tag.startsWith("work")
+    if (this.accept('punctuation', '.')) {
+      const method = this.next();
+      if (method.type !== 'identifier' || (method.value !== 'contains' && method.value !== 'startsWith')) {
+        throw new FilterError(`Unsupported method "${method.value}"`, method.position);
+      }
+      this.expect('punctuation', '(');
+      const value = this.parseLiteral();
+      this.expect('punctuation', ')');
+      return { kind: 'condition', field, operator: method.value, value, position: token.position };
+    }
+
+    if (this.accept('identifier', 'in')) {
+      const listToken = this.peek();
+      const value = this.parseLiteral();
+      if (!Array.isArray(value)) {
+        throw new FilterError('Expected a list after "in"', listToken.position);
+      }
+      return { kind: 'condition', field, operator: 'in', value, position: token.position };
+    }
+
+    const operatorToken = this.peek();
+    if (operatorToken.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(operatorToken.value)) {
+      this.index++;
+      return { kind: 'condition', field, operator: operatorToken.value as Operator, value: this.parseLiteral(), position: token.position };
+    }
+
+    // 单独出现的字段视为布尔条件，如 pinned
+    return { kind: 'condition', field, operator: '==', value: true, position: token.position };
+  }
+
+  private parseLiteral(): Literal {
+    const token = this.next();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'identifier' && (token.value === 'true' || token.value === 'false')) {
+      return token.value === 'true';
+    }
+    if (token.type === 'punctuation' && token.value === '[') {
+      const items: Literal[] = [];
+      if (this.accept('punctuation', ']')) return items;
+      do {
+        items.push(this.parseLiteral());
+      } while (this.accept('punctuation', ','));
+      this.expect('punctuation', ']');
+      return items;
+    }
+    throw new FilterError(`Expected a value but found "${token.value || 'end of filter'}"`, token.position);
+  }
+}
+
+function expectString(node: Extract<FilterNode, { kind: 'condition' }>, value: Literal): string {
+  if (typeof value !== 'string') {
+    throw new FilterError(`Field "${node.field}" expects a string value`, node.position);
+  }
+  return value;
+}
+
+function expectStringList(node: Extract<FilterNode, { kind: 'condition' }>, value: Literal): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((item) => expectString(node, item));
+}
+
+function expectNumber(node: Extract<FilterNode, { kind: 'condition' }>, value: Literal): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FilterError(`Field "${node.field}" expects a number value`, node.position);
+  }
+  return value;
+}
+
+function unsupportedOperator(node: Extract<FilterNode, { kind: 'condition' }>): FilterError {
+  return new FilterError(`Operator "${node.operator}" is not supported for field "${node.field}"`, node.position);
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+// 标签条件，子查询使用独立别名，避免与外层查询的 tag / memo_tag 别名冲突
+function tagExists(condition: string): string {
+  return `EXISTS (SELECT 1 FROM memo_tag fmt JOIN tag ft ON fmt.tag_id = ft.id WHERE fmt.memo_id = m.id AND ${condition})`;
+}
+
+function compileTagCondition(node: Extract<FilterNode, { kind: 'condition' }>): SQLCondition {
+  const { operator, value } = node;
+  switch (operator) {
+    case '==':
+      return { sql: tagExists('ft.name = ?'), params: [expectString(node, value)] };
+    case '!=':
+      return { sql: `NOT ${tagExists('ft.name = ?')}`, params: [expectString(node, value)] };
+    case 'in': {
+      const tags = expectStringList(node, value);
+      if (tags.length === 0) return { sql: '0 = 1', params: [] };
+      return { sql: tagExists(`ft.name IN (${placeholders(tags.length)})`), params: tags };
+    }
+    case 'startsWith':
+      return { sql: tagExists("ft.name LIKE ? ESCAPE '\\'"), params: [`${escapeLikePattern(expectString(node, value))}%`] };
+    case 'contains':
+      return { sql: tagExists("ft.name LIKE ? ESCAPE '\\'"), params: [`%${escapeLikePattern(expectString(node, value))}%`] };
+    default:
+      throw unsupportedOperator(node);
+  }
+}
+
+// 兼容旧语法 tag_search == ["a", "b"]：每个标签都必须存在
+function compileTagSearchCondition(node: Extract<FilterNode, { kind: 'condition' }>): SQLCondition {
+  if (node.operator !== '==') throw unsupportedOperator(node);
+  const tags = expectStringList(node, node.value);
+  if (tags.length === 0) return { sql: '1 = 1', params: [] };
+  return {
+    sql: tags.map(() => tagExists('ft.name = ?')).join(' AND '),
+    params: tags,
+  };
+}
+
+// creator 的值为 "users/{id}"，creator_id 的值为数字
+function parseCreatorId(node: Extract<FilterNode, { kind: 'condition' }>, value: Literal): number {
+  if (node.field === 'creator_id') {
+    return expectNumber(node, value);
+  }
+  const match = /^users\/(\d+)$/.exec(expectString(node, value));
+  if (!match) {
+    throw new FilterError(`Field "creator" expects a value like "users/1"`, node.position);
+  }
+  return parseInt(match[1]);
+}
+
+function compileEnumCondition(
+  node: Extract<FilterNode, { kind: 'condition' }>,
+  column: string,
+  parseValue: (value: Literal) => string | number
+): SQLCondition {
+  const { operator, value } = node;
+  switch (operator) {
+    case '==':
+      return { sql: `${column} = ?`, params: [parseValue(value)] };
+    case '!=':
+      return { sql: `${column} != ?`, params: [parseValue(value)] };
+    case 'in': {
+      const values = (value as Literal[]).map(parseValue);
+      if (values.length === 0) return { sql: '0 = 1', params: [] };
+      return { sql: `${column} IN (${placeholders(values.length)})`, params: values };
+    }
+    default:
+      throw unsupportedOperator(node);
+  }
+}
+
+function compileBooleanCondition(node: Extract<FilterNode, { kind: 'condition' }>, sql: string): SQLCondition {
+  if (node.operator !== '==' && node.operator !== '!=') throw unsupportedOperator(node);
+  if (typeof node.value !== 'boolean') {
+    throw new FilterError(`Field "${node.field}" expects true or false`, node.position);
+  }
+  const expected = node.operator === '==' ? node.value : !node.value;
+  return { sql: expected ? sql : `NOT (${sql})`, params: [] };
+}
+
+function compileTimeCondition(node: Extract<FilterNode, { kind: 'condition' }>, column: string): SQLCondition {
+  const comparisons: Partial<Record<Operator, string>> = { '==': '=', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+  const comparison = comparisons[node.operator];
+  if (!comparison) throw unsupportedOperator(node);
+  return { sql: `${column} ${comparison} ?`, params: [expectNumber(node, node.value)] };
+}
+
+// 内容搜索关键词：content_search == ["a", "b"] 或 content.contains("a")
+function getContentSearchWords(node: Extract<FilterNode, { kind: 'condition' }>): string[] | null {
+  if (node.field === 'content_search') {
+    if (node.operator !== '==') throw unsupportedOperator(node);
+    return expectStringList(node, node.value);
+  }
+  if (node.field === 'content') {
+    if (node.operator !== 'contains') throw unsupportedOperator(node);
+    return [expectString(node, node.value)];
+  }
+  return null;
+}
+
+function compileCondition(node: Extract<FilterNode, { kind: 'condition' }>): SQLCondition {
+  const { field } = node;
+
+  const searchWords = getContentSearchWords(node);
+  if (searchWords) {
+    return buildSearchCondition(searchWords);
+  }
+
+  if (field === 'tag') {
+    return compileTagCondition(node);
+  }
+  if (field === 'tag_search') {
+    return compileTagSearchCondition(node);
+  }
+  if (field === 'visibility') {
+    return compileEnumCondition(node, 'm.visibility', (value) => {
+      if (typeof value !== 'string' || !VISIBILITIES.includes(value)) {
+        throw new FilterError(`Invalid visibility "${value}"`, node.position);
+      }
+      return value;
+    });
+  }
+  if (field === 'creator' || field === 'creator_id') {
+    return compileEnumCondition(node, 'm.creator_id', (value) => parseCreatorId(node, value));
+  }
+  if (field === 'pinned') {
+    return compileBooleanCondition(node, 'm.pinned = 1');
+  }
+  if (PROPERTY_CONDITIONS[field]) {
+    return compileBooleanCondition(node, PROPERTY_CONDITIONS[field]);
+  }
+  if (TIME_COLUMNS[field]) {
+    return compileTimeCondition(node, TIME_COLUMNS[field]);
+  }
+  // 兼容旧语法 display_time_after == 时间戳 / display_time_before == 时间戳
+  if (field === 'display_time_after' || field === 'display_time_before') {
+    if (node.operator !== '==') throw unsupportedOperator(node);
+    const comparison = field === 'display_time_after' ? '>=' : '<';
+    return { sql: `m.created_ts ${comparison} ?`, params: [expectNumber(node, node.value)] };
+  }
+
+  throw new FilterError(`Unknown field "${field}"`, node.position);
+}
+
+// 编译语法树，conjunctive 表示当前节点只通过 && 与根节点相连
+function compileNode(node: FilterNode, conjunctive: boolean, searchWords: string[] | null): SQLCondition | null {
+  switch (node.kind) {
+    case 'and': {
+      const parts = [
+        compileNode(node.left, conjunctive, searchWords),
+        compileNode(node.right, conjunctive, searchWords),
+      ].filter((part): part is SQLCondition => part !== null);
+      if (parts.length === 0) return null;
+      return {
+        sql: parts.map((part) => `(${part.sql})`).join(' AND '),
+        params: parts.flatMap((part) => part.params),
+      };
+    }
+    case 'or': {
+      const left = compileNode(node.left, false, searchWords) as SQLCondition;
+      const right = compileNode(node.right, false, searchWords) as SQLCondition;
+      return { sql: `(${left.sql}) OR (${right.sql})`, params: [...left.params, ...right.params] };
+    }
+    case 'not': {
+      const operand = compileNode(node.operand, false, searchWords) as SQLCondition;
+      return { sql: `NOT (${operand.sql})`, params: operand.params };
+    }
+    case 'condition': {
+      const words = conjunctive && searchWords ? getContentSearchWords(node) : null;
+      if (words) {
+        searchWords!.push(...words);
+        return null;
+      }
+      return compileCondition(node);
+    }
+  }
+}
+
+// 解析并编译筛选表达式，表达式无效时抛出 FilterError
+export function compileMemoFilter(filter: string | null | undefined, options: CompileFilterOptions = {}): CompiledFilter {
+  const input = (filter || '').trim();
+  if (!input) {
+    return { sql: '', params: [], searchWords: [] };
+  }
+  if (input.length > MAX_FILTER_LENGTH) {
+    throw new FilterError('Filter is too long');
+  }
+
+  const ast = new FilterParser(tokenize(input)).parse();
+  const searchWords: string[] = [];
+  const condition = compileNode(ast, true, options.extractSearch ? searchWords : null);
+
+  return {
+    sql: condition ? condition.sql : '',
+    params: condition ? condition.params : [],
+    searchWords,
+  };
+}
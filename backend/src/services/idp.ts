@@ -0,0 +1,241 @@
+// 身份提供商服务：OAuth2/OIDC 授权码流程（state + PKCE）、令牌交换和用户信息映射
+
+// 授权请求 state 的有效期（秒）
+const AUTH_STATE_TTL_SECONDS = 10 * 60;
+// 请求身份提供商的超时时间（毫秒）
+const IDP_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// 对应 idp_service.ts 中的 FieldMapping
+export interface FieldMapping {
+  identifier: string;
+  displayName: string;
+  email: string;
+  avatarUrl: string;
+}
+
+// 对应 idp_service.ts 中的 OAuth2Config
+export interface OAuth2Config {
+  clientId: string;
+  clientSecret: string;
+  authUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  scopes: string[];
+  fieldMapping: FieldMapping;
+}
+
+// 从身份提供商获取并映射后的用户信息
+export interface IdentityProviderUserInfo {
+  identifier: string;
+  displayName: string;
+  email: string;
+  avatarUrl: string;
+}
+
+// 解析数据库中的 OAuth2 配置
+export function parseOAuth2Config(row: any): OAuth2Config {
+  let config: any = {};
+  try {
+    config = JSON.parse(row.config || '{}');
+  } catch {
+    // 配置损坏时使用空配置
+  }
+
+  const oauth2Config = config.oauth2Config || {};
+  return {
+    clientId: oauth2Config.clientId || '',
+    clientSecret: oauth2Config.clientSecret || '',
+    authUrl: oauth2Config.authUrl || '',
+    tokenUrl: oauth2Config.tokenUrl || '',
+    userInfoUrl: oauth2Config.userInfoUrl || '',
+    scopes: Array.isArray(oauth2Config.scopes) ? oauth2Config.scopes.filter(Boolean) : [],
+    fieldMapping: {
+      identifier: oauth2Config.fieldMapping?.identifier || '',
+      displayName: oauth2Config.fieldMapping?.displayName || '',
+      email: oauth2Config.fieldMapping?.email || '',
+      avatarUrl: oauth2Config.fieldMapping?.avatarUrl || '',
+    },
+  };
+}
+
+// 转换数据库行为前端使用的 IdentityProvider 格式，clientSecret 永远不返回
+export function formatIdentityProvider(row: any) {
+  return {
+    name: `identityProviders/${row.id}`,
+    type: row.type,
+    title: row.name,
+    identifierFilter: row.identifier_filter || '',
+    config: {
+      oauth2Config: {
+        ...parseOAuth2Config(row),
+        clientSecret: '',
+      },
+    },
+  };
+}
+
+// 校验 OAuth2 配置，返回错误信息或 null
+export function validateOAuth2Config(config: OAuth2Config): string | null {
+  if (!config.clientId || !config.authUrl || !config.tokenUrl || !config.userInfoUrl) {
+    return 'Client ID, auth URL, token URL and user info URL are required';
+  }
+  for (const url of [config.authUrl, config.tokenUrl, config.userInfoUrl]) {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return `Invalid URL: ${url}`;
+      }
+    } catch {
+      return `Invalid URL: ${url}`;
+    }
+  }
+  if (!config.fieldMapping.identifier) {
+    return 'Identifier field mapping is required';
+  }
+  return null;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+// 生成 PKCE code_verifier 和对应的 S256 code_challenge
+async function generatePKCE(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64UrlEncode(new Uint8Array(digest)) };
+}
+
+// 创建授权请求：保存 state 和 code_verifier，返回跳转到身份提供商的 URL
+// state 以 "-{idpId}" 结尾，AuthCallback 页面据此识别身份提供商
+export async function createAuthorizationUrl(db: D1Database, idp: any, redirectUri: string): Promise<string> {
+  const config = parseOAuth2Config(idp);
+  const now = Math.floor(Date.now() / 1000);
+  const state = `${base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))}-${idp.id}`;
+  const { codeVerifier, codeChallenge } = await generatePKCE();
+
+  // 顺便清理过期的 state
+  await db.prepare('DELETE FROM idp_auth_state WHERE expires_ts < ?').bind(now).run();
+  await db.prepare(`
+    INSERT INTO idp_auth_state (state, idp_id, code_verifier, redirect_uri, expires_ts)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(state, idp.id, codeVerifier, redirectUri, now + AUTH_STATE_TTL_SECONDS).run();
+
+  const url = new URL(config.authUrl);
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', config.scopes.join(' '));
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+// 取出并删除授权请求 state（一次性），无效或过期时返回 null
+export async function consumeAuthState(db: D1Database, state: string, idpId: number): Promise<any | null> {
+  const authState = await db.prepare(
+    'SELECT * FROM idp_auth_state WHERE state = ? AND idp_id = ?'
+  ).bind(state, idpId).first();
+
+  if (!authState) return null;
+
+  await db.prepare('DELETE FROM idp_auth_state WHERE state = ?').bind(state).run();
+
+  if ((authState.expires_ts as number) < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+  return authState;
+}
+
+// 用授权码交换访问令牌
+async function exchangeToken(config: OAuth2Config, code: string, redirectUri: string, codeVerifier: string): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+    code_verifier: codeVerifier,
+  });
+
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: body.toString(),
+    signal: AbortSignal.timeout(IDP_REQUEST_TIMEOUT_MS),
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`Token exchange failed with status ${response.status}: ${text.slice(0, 200)}`);
+  }
+
+  // 部分提供商（如 GitHub 未指定 Accept 时）返回表单格式
+  let accessToken: string | null = null;
+  try {
+    accessToken = JSON.parse(text).access_token || null;
+  } catch {
+    accessToken = new URLSearchParams(text).get('access_token');
+  }
+
+  if (!accessToken) {
+    throw new Error('Token exchange response does not contain access_token');
+  }
+  return accessToken;
+}
+
+// 按字段路径（支持 a.b 形式）读取用户信息中的值
+function getClaim(claims: any, path: string): string {
+  if (!path) return '';
+  const value = path.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), claims);
+  return value == null ? '' : String(value);
+}
+
+// 获取用户信息并按 FieldMapping 映射
+async function fetchUserInfo(config: OAuth2Config, accessToken: string): Promise<IdentityProviderUserInfo> {
+  const response = await fetch(config.userInfoUrl, {
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/json',
+      'User-Agent': 'memos-cloudflare',
+    },
+    signal: AbortSignal.timeout(IDP_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`User info request failed with status ${response.status}`);
+  }
+
+  const claims = await response.json();
+  const { fieldMapping } = config;
+  return {
+    identifier: getClaim(claims, fieldMapping.identifier),
+    displayName: getClaim(claims, fieldMapping.displayName),
+    email: getClaim(claims, fieldMapping.email),
+    avatarUrl: getClaim(claims, fieldMapping.avatarUrl),
+  };
+}
+
+// 完成授权码流程，返回映射后的用户信息
+export async function getUserInfoByCode(
+  idp: any,
+  code: string,
+  redirectUri: string,
+  codeVerifier: string
+): Promise<IdentityProviderUserInfo> {
+  const config = parseOAuth2Config(idp);
+  const accessToken = await exchangeToken(config, code, redirectUri, codeVerifier);
+  const userInfo = await fetchUserInfo(config, accessToken);
+
+  if (!userInfo.identifier) {
+    throw new Error(`Identifier field "${config.fieldMapping.identifier}" not found in user info`);
+  }
+  return userInfo;
+}
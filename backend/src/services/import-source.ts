@@ -0,0 +1,808 @@
+// 导入来源解析：把上游 Memos 的 SQLite dump / API 导出、Flomo 的 HTML 导出以及 Markdown 文件（或 ZIP）
+// 统一转换为 ImportMemo 列表，由导入任务分批写入数据库
+import { extractTagsFromContent } from '../utils';
+import { readZipDirectory, readZipEntry, ZipDirectoryEntry, ZipEntryLocation } from './zip';
+
+export type ImportSource = 'MEMOS_DUMP' | 'MEMOS_JSON' | 'FLOMO' | 'MARKDOWN';
+
+export interface ImportAttachment {
+  filename: string;
+  type: string;
+  // 附件内容位于上传的 ZIP 中
+  zipEntry?: ZipEntryLocation;
+  // 附件内容直接包含在导入文件中，创建任务时会暂存到 R2 并替换为 stagedKey
+  data?: Uint8Array;
+  stagedKey?: string;
+  // 无法导入的原因，例如附件不在导入文件中
+  error?: string;
+}
+
+export interface ImportRelation {
+  type: string;
+  // 被关联笔记在导入文件中的标识
+  key: string;
+}
+
+export interface ImportMemo {
+  // 笔记在导入文件中的标识，用于解析笔记之间的关联
+  key: string;
+  content: string;
+  visibility: string;
+  pinned: boolean;
+  archived: boolean;
+  createdTs: number;
+  updatedTs: number;
+  location?: { placeholder: string; latitude: number; longitude: number };
+  relations: ImportRelation[];
+  attachments: ImportAttachment[];
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  memos: ImportMemo[];
+  // 上传文件本身是 ZIP 时为 true，附件需要从 ZIP 中读取
+  isArchive: boolean;
+}
+
+export interface ImportOptions {
+  // 导入上游 Memos dump 时只导入同名用户的笔记，找不到同名用户时导入全部笔记
+  username: string;
+  // 浏览器的时区偏移（分钟，与 Date.getTimezoneOffset 一致），用于解析不带时区的时间
+  timezoneOffset: number;
+}
+
+// 导入文件格式不正确或不受支持
+export class ImportFormatError extends Error {}
+
+const VISIBILITIES = ['PUBLIC', 'PROTECTED', 'PRIVATE'];
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  zip: 'application/zip',
+};
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+
+function getExtension(path: string): string {
+  const name = getBasename(path);
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+}
+
+function getBasename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function getDirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index + 1) : '';
+}
+
+function guessMimeType(filename: string): string {
+  return MIME_TYPES[getExtension(filename)] || 'application/octet-stream';
+}
+
+// 拼接并规范化压缩包内的相对路径（处理 ./ 和 ../）
+function resolvePath(base: string, path: string): string {
+  const parts: string[] = [];
+  for (const part of (base + path).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function normalizeVisibility(value: unknown): string {
+  const visibility = typeof value === 'string' ? value.toUpperCase() : '';
+  return VISIBILITIES.includes(visibility) ? visibility : 'PRIVATE';
+}
+
+// 解析导入文件中的时间，返回秒级时间戳；不带时区的时间按浏览器时区处理
+function parseImportTime(value: unknown, timezoneOffset: number): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.floor(value > 1e12 ? value / 1000 : value);
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const local = value.trim().match(/^(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (local) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = local;
+    const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    return Math.floor(utc / 1000) + timezoneOffset * 60;
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+// 确保导入的标签出现在内容中（标签由内容计算得出）
+function appendMissingTags(content: string, tags: unknown): string {
+  if (!Array.isArray(tags)) return content;
+  const existing = new Set(extractTagsFromContent(content));
+  const missing = tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().replace(/^#/, '').replace(/\s+/g, '-'))
+    // 与 extractTagsFromContent 一致，过短或纯数字的不算标签
+    .filter((tag) => tag.length >= 2 && !/^\d+$/.test(tag) && !existing.has(tag));
+  if (missing.length === 0) return content;
+  return `${content.trimEnd()}\n\n${[...new Set(missing)].map((tag) => `#${tag}`).join(' ')}`;
+}
+
+function toZipEntryLocation({ offset, compressedSize, method }: ZipDirectoryEntry): ZipEntryLocation {
+  return { offset, compressedSize, method };
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ---------- 上游 Memos SQLite dump（sqlite3 memos.db .dump 的输出） ----------
+
+type SqlValue = string | number | null | Uint8Array;
+
+// 只解析导入需要的表
+const DUMP_TABLES = ['user', 'memo', 'resource', 'memo_relation', 'memo_organizer'];
+
+function unquoteIdentifier(name: string): string {
+  const match = name.match(/^["`\[](.*)["`\]]$/);
+  return (match ? match[1] : name).toLowerCase();
+}
+
+// 按分号拆分 SQL 语句，忽略字符串、标识符和注释中的分号
+function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    if (char === "'" || char === '"' || char === '`') {
+      const end = sql.indexOf(char, i + 1);
+      i = end < 0 ? sql.length : end + 1;
+      // 连续的引号是转义，继续读取
+      while (sql[i] === char) {
+        const next = sql.indexOf(char, i + 1);
+        i = next < 0 ? sql.length : next + 1;
+      }
+    } else if (char === '[') {
+      const end = sql.indexOf(']', i + 1);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (char === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 2;
+    } else if (char === ';') {
+      statements.push(sql.slice(start, i).trim());
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+  const rest = sql.slice(start).trim();
+  if (rest) statements.push(rest);
+  return statements;
+}
+
+// 按顶层逗号拆分（忽略括号和引号内的逗号）
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+// 读取 INSERT 语句中的值，支持 .dump 输出中用到的 replace()、char()、unistr() 和 || 拼接
+class SqlValueReader {
+  private pos = 0;
+
+  constructor(private readonly sql: string) {}
+
+  private skipWhitespace() {
+    while (this.pos < this.sql.length && /\s/.test(this.sql[this.pos])) this.pos++;
+  }
+
+  private expect(char: string) {
+    this.skipWhitespace();
+    if (this.sql[this.pos] !== char) {
+      throw new ImportFormatError(`Unexpected SQL near "${this.sql.slice(this.pos, this.pos + 20)}"`);
+    }
+    this.pos++;
+  }
+
+  private peek(): string {
+    this.skipWhitespace();
+    return this.sql[this.pos];
+  }
+
+  readTuples(): SqlValue[][] {
+    const tuples: SqlValue[][] = [];
+    while (true) {
+      this.expect('(');
+      const values: SqlValue[] = [this.readExpression()];
+      while (this.peek() === ',') {
+        this.pos++;
+        values.push(this.readExpression());
+      }
+      this.expect(')');
+      tuples.push(values);
+      if (this.peek() !== ',') return tuples;
+      this.pos++;
+    }
+  }
+
+  private readExpression(): SqlValue {
+    let value = this.readPrimary();
+    while (this.peek() === '|' && this.sql[this.pos + 1] === '|') {
+      this.pos += 2;
+      value = `${value ?? ''}${this.readPrimary() ?? ''}`;
+    }
+    return value;
+  }
+
+  private readString(): string {
+    let result = '';
+    this.pos++;
+    while (this.pos < this.sql.length) {
+      const end = this.sql.indexOf("'", this.pos);
+      if (end < 0) break;
+      result += this.sql.slice(this.pos, end);
+      this.pos = end + 1;
+      if (this.sql[this.pos] !== "'") return result;
+      result += "'";
+      this.pos++;
+    }
+    throw new ImportFormatError('Unterminated SQL string');
+  }
+
+  private readPrimary(): SqlValue {
+    this.skipWhitespace();
+    const rest = this.sql.slice(this.pos, this.pos + 64);
+
+    if (rest[0] === "'") {
+      return this.readString();
+    }
+
+    const hex = rest.match(/^[xX]'/);
+    if (hex) {
+      this.pos++;
+      const digits = this.readString();
+      const bytes = new Uint8Array(digits.length / 2);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+      }
+      return bytes;
+    }
+
+    const number = rest.match(/^[-+]?\d+(\.\d+)?([eE][-+]?\d+)?/);
+    if (number) {
+      this.pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const identifier = rest.match(/^[A-Za-z_]+/);
+    if (!identifier) {
+      throw new ImportFormatError(`Unexpected SQL near "${rest.slice(0, 20)}"`);
+    }
+    this.pos += identifier[0].length;
+    const name = identifier[0].toLowerCase();
+    if (name === 'null') {
+      return null;
+    }
+
+    this.expect('(');
+    const args: SqlValue[] = [this.readExpression()];
+    while (this.peek() === ',') {
+      this.pos++;
+      args.push(this.readExpression());
+    }
+    this.expect(')');
+
+    switch (name) {
+      case 'replace':
+        return String(args[0] ?? '').split(String(args[1] ?? '')).join(String(args[2] ?? ''));
+      case 'char':
+        return String.fromCodePoint(...args.map(Number));
+      case 'unistr':
+        return String(args[0] ?? '').replace(
+          /\\(?:u([0-9a-fA-F]{4})|\+([0-9a-fA-F]{6})|U([0-9a-fA-F]{8})|([0-9a-fA-F]{4})|(\\))/g,
+          (_, u4, p6, u8, x4, backslash) => backslash ? '\\' : String.fromCodePoint(parseInt(u4 || p6 || u8 || x4, 16)),
+        );
+      default:
+        throw new ImportFormatError(`Unsupported SQL function ${name}()`);
+    }
+  }
+}
+
+function parseSqlDump(sql: string): Map<string, Record<string, SqlValue>[]> {
+  const columnsByTable = new Map<string, string[]>();
+  const rowsByTable = new Map<string, Record<string, SqlValue>[]>();
+
+  for (const statement of splitSqlStatements(sql)) {
+    const create = statement.match(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?("[^"]+"|`[^`]+`|\[[^\]]+\]|\w+)\s*\(([\s\S]*)\)[^)]*$/i);
+    if (create) {
+      const table = unquoteIdentifier(create[1]);
+      const columns = splitTopLevel(create[2])
+        .filter((definition) => !/^(CONSTRAINT|PRIMARY|UNIQUE|FOREIGN|CHECK)\b/i.test(definition))
+        .map((definition) => unquoteIdentifier(definition.split(/\s+/)[0]));
+      columnsByTable.set(table, columns);
+      continue;
+    }
+
+    const insert = statement.match(/^INSERT\s+(?:OR\s+\w+\s+)?INTO\s+("[^"]+"|`[^`]+`|\[[^\]]+\]|\w+)\s*(?:\(([^)]*)\))?\s*VALUES\s*/i);
+    if (!insert) continue;
+
+    const table = unquoteIdentifier(insert[1]);
+    if (!DUMP_TABLES.includes(table)) continue;
+
+    const columns = insert[2] ? insert[2].split(',').map((column) => unquoteIdentifier(column.trim())) : columnsByTable.get(table);
+    if (!columns) {
+      throw new ImportFormatError(`Missing CREATE TABLE statement for table ${table}`);
+    }
+
+    const rows = rowsByTable.get(table) || [];
+    for (const values of new SqlValueReader(statement.slice(insert[0].length)).readTuples()) {
+      rows.push(Object.fromEntries(columns.map((column, index) => [column, values[index] ?? null])));
+    }
+    rowsByTable.set(table, rows);
+  }
+
+  return rowsByTable;
+}
+
+function parseMemosDump(sql: string, options: ImportOptions): ImportMemo[] {
+  const tables = parseSqlDump(sql);
+  const memoRows = tables.get('memo');
+  if (!memoRows) {
+    throw new ImportFormatError('No memo table found in the SQL dump');
+  }
+
+  // 多用户实例只导入与当前用户同名的用户的笔记
+  const owner = (tables.get('user') || []).find((user) => user.username === options.username);
+  const rows = memoRows.filter((memo) => !owner || memo.creator_id === owner.id);
+  const memoIds = new Set(rows.map((memo) => memo.id));
+
+  const pinnedMemoIds = new Set(
+    (tables.get('memo_organizer') || []).filter((organizer) => Number(organizer.pinned) === 1).map((organizer) => organizer.memo_id),
+  );
+
+  const attachmentsByMemo = new Map<SqlValue, ImportAttachment[]>();
+  for (const resource of tables.get('resource') || []) {
+    if (!memoIds.has(resource.memo_id)) continue;
+    const filename = String(resource.filename || 'file');
+    const attachment: ImportAttachment = { filename, type: String(resource.type || guessMimeType(filename)) };
+    if (resource.blob instanceof Uint8Array && resource.blob.length > 0) {
+      attachment.data = resource.blob;
+    } else {
+      attachment.error = `Stored outside the database (${resource.storage_type || 'LOCAL'}: ${resource.reference || resource.internal_path || resource.external_link || ''}), not included in the dump`;
+    }
+    attachmentsByMemo.set(resource.memo_id, [...(attachmentsByMemo.get(resource.memo_id) || []), attachment]);
+  }
+
+  const relationsByMemo = new Map<SqlValue, ImportRelation[]>();
+  for (const relation of tables.get('memo_relation') || []) {
+    const relations = relationsByMemo.get(relation.memo_id) || [];
+    relations.push({ type: String(relation.type || 'REFERENCE'), key: `id:${relation.related_memo_id}` });
+    relationsByMemo.set(relation.memo_id, relations);
+  }
+
+  return rows.map((memo) => {
+    let payload: any = {};
+    try {
+      payload = typeof memo.payload === 'string' && memo.payload ? JSON.parse(memo.payload) : {};
+    } catch {
+      // payload 格式异常时忽略
+    }
+    const location = payload.location;
+
+    return {
+      key: `id:${memo.id}`,
+      content: appendMissingTags(String(memo.content || ''), payload.tags),
+      visibility: normalizeVisibility(memo.visibility),
+      pinned: Number(memo.pinned) === 1 || pinnedMemoIds.has(memo.id),
+      archived: memo.row_status === 'ARCHIVED',
+      createdTs: Number(memo.created_ts),
+      updatedTs: Number(memo.updated_ts || memo.created_ts),
+      location: location && (location.placeholder || location.latitude || location.longitude)
+        ? { placeholder: location.placeholder || '', latitude: location.latitude || 0, longitude: location.longitude || 0 }
+        : undefined,
+      relations: relationsByMemo.get(memo.id) || [],
+      attachments: attachmentsByMemo.get(memo.id) || [],
+    };
+  });
+}
+
+// ---------- 上游 Memos API 导出（ListMemos 返回的 JSON） ----------
+
+function parseMemosJson(json: any, options: ImportOptions): ImportMemo[] {
+  const list = Array.isArray(json) ? json : json?.memos;
+  if (!Array.isArray(list)) {
+    throw new ImportFormatError('Expected a JSON array of memos or an object with a "memos" field');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return list.map((memo: any, index: number) => {
+    const key = String(memo.name || memo.uid || index);
+    const createdTs = parseImportTime(memo.createTime ?? memo.displayTime ?? memo.createdTs, options.timezoneOffset) ?? now;
+    const attachments = (memo.attachments || memo.resources || []).map((resource: any): ImportAttachment => {
+      const filename = String(resource.filename || 'file');
+      const attachment: ImportAttachment = { filename, type: resource.type || guessMimeType(filename) };
+      if (typeof resource.content === 'string' && resource.content) {
+        attachment.data = decodeBase64(resource.content);
+      } else {
+        attachment.error = 'Attachment content is not included in the export';
+      }
+      return attachment;
+    });
+
+    // 只保留由当前笔记发出的关联，兼容本项目导出的 { type, memo } 格式
+    const relations: ImportRelation[] = (memo.relations || [])
+      .filter((relation: any) => typeof relation.memo === 'string' || relation.memo?.name === memo.name)
+      .map((relation: any) => ({
+        type: String(relation.type || 'REFERENCE'),
+        key: String(typeof relation.memo === 'string' ? relation.memo : relation.relatedMemo?.name),
+      }));
+
+    return {
+      key,
+      content: appendMissingTags(String(memo.content || ''), memo.tags),
+      visibility: normalizeVisibility(memo.visibility),
+      pinned: Boolean(memo.pinned),
+      archived: memo.state === 'ARCHIVED' || memo.rowStatus === 'ARCHIVED',
+      createdTs,
+      updatedTs: parseImportTime(memo.updateTime ?? memo.updatedTs, options.timezoneOffset) ?? createdTs,
+      location: memo.location
+        ? { placeholder: memo.location.placeholder || '', latitude: memo.location.latitude || 0, longitude: memo.location.longitude || 0 }
+        : undefined,
+      relations,
+      attachments,
+    };
+  });
+}
+
+// ---------- Flomo HTML 导出 ----------
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos|nbsp|#39);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'nbsp': return ' ';
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+// 把 Flomo 笔记内容中的 HTML 转换为 Markdown
+function htmlToMarkdown(html: string): string {
+  const markdown = html
+    .replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      let index = 0;
+      return items.replace(/<li[^>]*>/gi, () => `\n${++index}. `);
+    })
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|blockquote|ul|ol)>/gi, '\n')
+    .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<code>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) => (text === href ? href : `[${text}](${href})`))
+    .replace(/<[^>]+>/g, '');
+
+  return decodeHtmlEntities(markdown)
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseFlomoHtml(html: string, options: ImportOptions, findFile?: (path: string) => ZipDirectoryEntry | undefined): ImportMemo[] {
+  const chunks = html.split(/<div class="memo">/).slice(1);
+  if (chunks.length === 0) {
+    throw new ImportFormatError('No Flomo memos found in the HTML file');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return chunks.map((chunk, index) => {
+    const time = chunk.match(/<div class="time">([\s\S]*?)<\/div>/)?.[1];
+    const createdTs = parseImportTime(decodeHtmlEntities(time || '').trim(), options.timezoneOffset) ?? now;
+    const content = htmlToMarkdown(chunk.match(/<div class="content">([\s\S]*?)<\/div>/)?.[1] || '');
+    const files = chunk.match(/<div class="files">([\s\S]*?)<\/div>/)?.[1] || '';
+
+    const attachments = [...files.matchAll(/(?:src|href)="([^"]+)"/g)].map(([, src]): ImportAttachment => {
+      const path = decodeURIComponent(decodeHtmlEntities(src));
+      const filename = getBasename(path);
+      const entry = findFile?.(path);
+      return entry
+        ? { filename, type: guessMimeType(filename), zipEntry: toZipEntryLocation(entry) }
+        : { filename, type: guessMimeType(filename), error: 'Attachment file not found, upload the whole Flomo export as a ZIP' };
+    });
+
+    return {
+      key: `flomo:${index}`,
+      content,
+      visibility: 'PRIVATE',
+      pinned: false,
+      archived: false,
+      createdTs,
+      updatedTs: createdTs,
+      relations: [],
+      attachments,
+    };
+  });
+}
+
+// ---------- Markdown 文件（Obsidian 仓库、本项目的导出或普通 Markdown 目录） ----------
+
+function parseYamlScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitTopLevel(value.slice(1, -1)).filter(Boolean).map(parseYamlScalar);
+  }
+  return value;
+}
+
+// 解析 front matter 中常见的 YAML 子集：标量、行内数组、列表、一层嵌套的对象以及对象列表
+function parseFrontMatter(yaml: string): Record<string, any> {
+  const result: Record<string, any> = {};
+  let currentKey = '';
+  let currentItem: Record<string, unknown> | null = null;
+
+  for (const line of yaml.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      const match = text.match(/^([\w-]+):\s*(.*)$/);
+      if (!match) continue;
+      currentKey = match[1];
+      currentItem = null;
+      result[currentKey] = match[2] ? parseYamlScalar(match[2]) : null;
+      continue;
+    }
+    if (!currentKey) continue;
+
+    if (text.startsWith('- ') || text === '-') {
+      const item = text.slice(1).trim();
+      const list = Array.isArray(result[currentKey]) ? result[currentKey] : (result[currentKey] = []);
+      const pair = item.match(/^([\w-]+):\s*(.*)$/);
+      if (pair) {
+        currentItem = { [pair[1]]: parseYamlScalar(pair[2]) };
+        list.push(currentItem);
+      } else {
+        currentItem = null;
+        list.push(parseYamlScalar(item));
+      }
+      continue;
+    }
+
+    const pair = text.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    if (currentItem) {
+      currentItem[pair[1]] = parseYamlScalar(pair[2]);
+    } else {
+      if (typeof result[currentKey] !== 'object' || result[currentKey] === null || Array.isArray(result[currentKey])) {
+        result[currentKey] = {};
+      }
+      result[currentKey][pair[1]] = parseYamlScalar(pair[2]);
+    }
+  }
+
+  return result;
+}
+
+function parseMarkdownFile(
+  path: string,
+  text: string,
+  modifiedTs: number,
+  options: ImportOptions,
+  findFile?: (path: string, from: string) => ZipDirectoryEntry | undefined,
+): ImportMemo {
+  let body = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  let frontMatter: Record<string, any> = {};
+  const frontMatterMatch = body.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+  if (frontMatterMatch) {
+    frontMatter = parseFrontMatter(frontMatterMatch[1]);
+    body = body.slice(frontMatterMatch[0].length);
+  }
+
+  const attachments: ImportAttachment[] = [];
+  const attached = new Set<string>();
+  const attach = (target: string): boolean => {
+    const entry = findFile?.(target, path);
+    if (!entry || MARKDOWN_EXTENSIONS.includes(getExtension(entry.name))) return false;
+    if (!attached.has(entry.name)) {
+      attached.add(entry.name);
+      const filename = getBasename(entry.name).replace(/^[0-9a-f-]{36}-/, '');
+      attachments.push({ filename, type: guessMimeType(filename), zipEntry: toZipEntryLocation(entry) });
+    }
+    return true;
+  };
+
+  for (const target of Array.isArray(frontMatter.attachments) ? frontMatter.attachments : []) {
+    if (typeof target === 'string') attach(target);
+  }
+
+  // 压缩包中的附件以资源形式导入，从内容中去掉对应的嵌入语法
+  let content = body
+    .replace(/!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]\n?/g, (embed, target: string) => (attach(target.trim()) ? '' : embed))
+    .replace(/!\[[^\]]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)\n?/g, (embed, target: string) =>
+      /^[a-z][\w+.-]*:/i.test(target) || !attach(decodeURIComponent(target)) ? embed : '',
+    )
+    .trim();
+  content = appendMissingTags(content, typeof frontMatter.tags === 'string' ? frontMatter.tags.split(/[\s,]+/) : frontMatter.tags);
+
+  const relations: ImportRelation[] = [];
+  for (const relation of Array.isArray(frontMatter.relations) ? frontMatter.relations : []) {
+    if (relation && typeof relation.memo === 'string') {
+      relations.push({ type: String(relation.type || 'REFERENCE'), key: relation.memo });
+    }
+  }
+  // Obsidian 的 [[笔记]] 链接转换为引用关系
+  for (const [, target] of body.matchAll(/(?<!!)\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g)) {
+    const key = getBasename(target.trim()).replace(/\.(md|markdown)$/i, '');
+    if (!relations.some((relation) => relation.key === key)) {
+      relations.push({ type: 'REFERENCE', key });
+    }
+  }
+
+  const createdTs = parseImportTime(
+    frontMatter.createTime ?? frontMatter.created ?? frontMatter.date ?? frontMatter.created_at,
+    options.timezoneOffset,
+  ) ?? modifiedTs;
+  const location = frontMatter.location;
+
+  return {
+    // 本项目导出的文件名就是笔记 uid，其他来源使用文件名，便于解析 [[笔记]] 链接
+    key: getBasename(path).replace(/\.(md|markdown)$/i, ''),
+    content,
+    visibility: normalizeVisibility(frontMatter.visibility),
+    pinned: frontMatter.pinned === true,
+    archived: frontMatter.rowStatus === 'ARCHIVED' || frontMatter.archived === true,
+    createdTs,
+    updatedTs: parseImportTime(frontMatter.updateTime ?? frontMatter.updated ?? frontMatter.modified, options.timezoneOffset) ?? modifiedTs,
+    location: location && typeof location === 'object'
+      ? { placeholder: String(location.placeholder || ''), latitude: Number(location.latitude) || 0, longitude: Number(location.longitude) || 0 }
+      : undefined,
+    relations,
+    attachments,
+  };
+}
+
+// ---------- 入口 ----------
+
+function isIgnoredArchivePath(path: string): boolean {
+  return path.startsWith('__MACOSX/') || path.split('/').some((part) => part.startsWith('.'));
+}
+
+async function parseArchive(archive: Uint8Array, options: ImportOptions): Promise<ParsedImport> {
+  const entries = readZipDirectory(archive).filter((entry) => !isIgnoredArchivePath(entry.name));
+  const entriesByPath = new Map(entries.map((entry) => [entry.name, entry]));
+  const decoder = new TextDecoder();
+
+  // Flomo 导出的压缩包中包含一个 HTML 文件和 file/ 目录
+  for (const entry of entries.filter((entry) => getExtension(entry.name) === 'html')) {
+    const html = decoder.decode(await readZipEntry(archive, entry));
+    if (html.includes('<div class="memo">')) {
+      const base = getDirname(entry.name);
+      return {
+        source: 'FLOMO',
+        isArchive: true,
+        memos: parseFlomoHtml(html, options, (path) => entriesByPath.get(resolvePath(base, path))),
+      };
+    }
+  }
+
+  const markdownEntries = entries.filter((entry) => MARKDOWN_EXTENSIONS.includes(getExtension(entry.name)));
+  if (markdownEntries.length === 0) {
+    throw new ImportFormatError('No Markdown or Flomo HTML files found in the ZIP archive');
+  }
+
+  // 附件路径依次按相对当前文件、相对压缩包根目录以及 Obsidian 的按文件名查找解析
+  const entriesByName = new Map<string, ZipDirectoryEntry>();
+  for (const entry of entries) {
+    if (!entriesByName.has(getBasename(entry.name))) entriesByName.set(getBasename(entry.name), entry);
+  }
+  const findFile = (target: string, from: string) =>
+    entriesByPath.get(resolvePath(getDirname(from), target)) || entriesByPath.get(resolvePath('', target)) || entriesByName.get(getBasename(target));
+
+  const memos: ImportMemo[] = [];
+  for (const entry of markdownEntries) {
+    const text = decoder.decode(await readZipEntry(archive, entry));
+    memos.push(parseMarkdownFile(entry.name, text, Math.floor(entry.modifiedAt.getTime() / 1000), options, findFile));
+  }
+  return { source: 'MARKDOWN', isArchive: true, memos };
+}
+
+// 根据文件内容识别导入来源并解析
+export async function parseImportFile(filename: string, data: Uint8Array, options: ImportOptions): Promise<ParsedImport> {
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    return parseArchive(data, options);
+  }
+
+  const text = new TextDecoder().decode(data);
+  if (text.startsWith('SQLite format 3\0')) {
+    throw new ImportFormatError('SQLite database files are not supported, upload the output of "sqlite3 memos.db .dump" instead');
+  }
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new ImportFormatError('Invalid JSON file');
+    }
+    return { source: 'MEMOS_JSON', isArchive: false, memos: parseMemosJson(json, options) };
+  }
+
+  if (/^(PRAGMA|BEGIN TRANSACTION|CREATE TABLE|INSERT INTO)/im.test(trimmed.slice(0, 4096))) {
+    return { source: 'MEMOS_DUMP', isArchive: false, memos: parseMemosDump(text, options) };
+  }
+
+  if (text.includes('<div class="memo">')) {
+    return { source: 'FLOMO', isArchive: false, memos: parseFlomoHtml(text, options) };
+  }
+
+  if (MARKDOWN_EXTENSIONS.includes(getExtension(filename))) {
+    return { source: 'MARKDOWN', isArchive: false, memos: [parseMarkdownFile(filename, text, Math.floor(Date.now() / 1000), options)] };
+  }
+
+  throw new ImportFormatError('Unrecognized import file, expected a Memos SQL dump or JSON export, a Flomo export, or Markdown files');
+}
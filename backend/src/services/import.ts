@@ -0,0 +1,316 @@
+// 导入任务服务：创建任务时解析上传的文件并写入 import_item，之后每次调用 runImportJob 导入一批笔记，
+// 全部导入后再解析笔记之间的关联，避免单个请求超出 Worker 的 CPU 限制
+import { v4 as uuidv4 } from 'uuid';
+import { Env } from '../types';
+import { buildMemoSnippet, buildMemoTagStatements, computeMemoPropertyValues, MEMO_PROPERTY_COLUMNS } from '../utils';
+import { recordMemoRevision } from './revision';
+import { ImportAttachment, ImportFormatError, ImportMemo, ImportOptions, parseImportFile } from './import-source';
+import { createStoredResource } from './storage';
+import { assertUploadAllowed, getStorageSetting, StorageSetting } from './upload-policy';
+import { getZipEntryDataOffset, inflateZipEntry, ZIP_LOCAL_HEADER_SIZE } from './zip';
+
+type ImportEnv = Pick<Env, 'DB' | 'R2'>;
+
+// 每次调用导入的笔记数
+export const IMPORT_CHUNK_SIZE = 20;
+
+// 创建任务时每个 D1 batch 写入的 import_item 数
+const IMPORT_INSERT_BATCH_SIZE = 50;
+
+// 处理中的笔记超过该时间（秒）仍未完成时视为请求已中断，重新放回待导入队列
+const IMPORT_CLAIM_TIMEOUT = 5 * 60;
+
+// 任务详情中最多返回的错误数
+const IMPORT_ERROR_LIMIT = 100;
+
+function getStagingPrefix(jobUid: string): string {
+  return `imports/${jobUid}/`;
+}
+
+// 创建导入任务：解析文件，把附件暂存到 R2，并写入待导入的笔记
+export async function createImportJob(
+  env: ImportEnv,
+  userId: number,
+  file: File,
+  options: ImportOptions,
+): Promise<Record<string, unknown>> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const parsed = await parseImportFile(file.name, data, options);
+  if (parsed.memos.length === 0) {
+    throw new ImportFormatError('No memos found in the import file');
+  }
+
+  const jobUid = uuidv4();
+  const prefix = getStagingPrefix(jobUid);
+  const hasAttachments = parsed.memos.some((memo) => memo.attachments.some((attachment) => !attachment.error));
+
+  if (hasAttachments && !env.R2) {
+    // 没有 R2 时仍然导入笔记内容，附件记为错误
+    for (const attachment of parsed.memos.flatMap((memo) => memo.attachments)) {
+      attachment.error ??= 'R2 bucket not configured';
+      delete attachment.data;
+      delete attachment.zipEntry;
+    }
+  } else if (hasAttachments) {
+    if (parsed.isArchive) {
+      await env.R2!.put(`${prefix}source`, data);
+    }
+    let index = 0;
+    for (const attachment of parsed.memos.flatMap((memo) => memo.attachments)) {
+      if (!attachment.data) continue;
+      attachment.stagedKey = `${prefix}files/${index++}`;
+      await env.R2!.put(attachment.stagedKey, attachment.data);
+      delete attachment.data;
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const job = await env.DB.prepare(`
+    INSERT INTO import_job (uid, creator_id, source, filename, status, created_ts, updated_ts)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).bind(jobUid, userId, parsed.source, file.name, 'RUNNING', now, now).first();
+
+  for (let i = 0; i < parsed.memos.length; i += IMPORT_INSERT_BATCH_SIZE) {
+    await env.DB.batch(parsed.memos.slice(i, i + IMPORT_INSERT_BATCH_SIZE).map((memo) =>
+      env.DB.prepare(`
+        INSERT INTO import_item (job_id, source_key, title, payload, relations, status, updated_ts)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        job!.id,
+        memo.key,
+        buildMemoSnippet(memo.content).slice(0, 50) || memo.key,
+        JSON.stringify({ ...memo, relations: [] }),
+        JSON.stringify(memo.relations),
+        'PENDING',
+        now,
+      )
+    ));
+  }
+
+  console.log(`📥 Created import job ${jobUid} with ${parsed.memos.length} memos from ${parsed.source}`);
+  return getImportJobProgress(env.DB, job!);
+}
+
+// 读取附件内容：暂存的文件直接读取，ZIP 中的文件按范围读取后解压
+async function readAttachmentData(env: ImportEnv, jobUid: string, attachment: ImportAttachment): Promise<Uint8Array> {
+  if (!env.R2) {
+    throw new Error('R2 bucket not configured');
+  }
+
+  if (attachment.stagedKey) {
+    const object = await env.R2.get(attachment.stagedKey);
+    if (!object) throw new Error('Staged attachment not found');
+    return new Uint8Array(await object.arrayBuffer());
+  }
+
+  const entry = attachment.zipEntry!;
+  const sourceKey = `${getStagingPrefix(jobUid)}source`;
+  const header = await env.R2.get(sourceKey, { range: { offset: entry.offset, length: ZIP_LOCAL_HEADER_SIZE } });
+  if (!header) throw new Error('Import archive not found');
+  const dataOffset = getZipEntryDataOffset(new Uint8Array(await header.arrayBuffer()));
+  if (entry.compressedSize === 0) {
+    return new Uint8Array();
+  }
+
+  const compressed = await env.R2.get(sourceKey, { range: { offset: entry.offset + dataOffset, length: entry.compressedSize } });
+  if (!compressed) throw new Error('Import archive not found');
+  return inflateZipEntry(entry, new Uint8Array(await compressed.arrayBuffer()));
+}
+
+// 导入单条笔记，返回笔记 ID 和未能导入的附件；附件同样受上传大小、类型和存储配额限制
+async function importMemo(
+  env: ImportEnv,
+  jobUid: string,
+  userId: number,
+  memo: ImportMemo,
+  storageSetting: StorageSetting,
+): Promise<{ memoId: number; warnings: string[] }> {
+  const db = env.DB;
+  const memoResult = await db.prepare(`
+    INSERT INTO memo (uid, creator_id, content, visibility, pinned, row_status, location_placeholder, location_latitude, location_longitude, ${MEMO_PROPERTY_COLUMNS.join(', ')}, created_ts, updated_ts)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${MEMO_PROPERTY_COLUMNS.map(() => '?').join(', ')}, ?, ?)
+  `).bind(
+    uuidv4(),
+    userId,
+    memo.content,
+    memo.visibility,
+    memo.pinned ? 1 : 0,
+    memo.archived ? 'ARCHIVED' : 'NORMAL',
+    memo.location?.placeholder || null,
+    memo.location?.latitude || null,
+    memo.location?.longitude || null,
+    ...computeMemoPropertyValues(memo.content),
+    memo.createdTs,
+    memo.updatedTs,
+  ).run();
+  const memoId = memoResult.meta.last_row_id as number;
+
+  // 导入的笔记不触发 webhook 和提及通知
+  await db.batch(buildMemoTagStatements(db, memoId, userId, memo.content));
+  await recordMemoRevision(db, memoId, {
+    creatorId: userId,
+    content: memo.content,
+    visibility: memo.visibility,
+    createdTs: memo.updatedTs,
+  });
+
+  const warnings: string[] = [];
+  for (const attachment of memo.attachments) {
+    if (attachment.error) {
+      warnings.push(`${attachment.filename}: ${attachment.error}`);
+      continue;
+    }
+
+    try {
+      const data = await readAttachmentData(env, jobUid, attachment);
+      await assertUploadAllowed(db, userId, { size: data.length, type: attachment.type }, storageSetting);
+      const { id: resourceId } = await createStoredResource(env, storageSetting, {
+        uid: uuidv4(),
+        creatorId: userId,
+        filename: attachment.filename,
+        type: attachment.type,
+        data,
+        createdTs: memo.createdTs,
+      });
+      await db.prepare(
+        'INSERT INTO memo_resource (memo_id, resource_id) VALUES (?, ?)'
+      ).bind(memoId, resourceId).run();
+    } catch (error: any) {
+      warnings.push(`${attachment.filename}: ${error.message}`);
+    }
+  }
+
+  return { memoId, warnings };
+}
+
+// 所有笔记导入后，把导入文件中的关联转换为新笔记之间的关联
+async function importRelations(db: D1Database, jobId: number): Promise<void> {
+  const items = await db.prepare(
+    'SELECT source_key, memo_id, relations FROM import_item WHERE job_id = ? AND status = ? ORDER BY id'
+  ).bind(jobId, 'IMPORTED').all();
+
+  const memoIdsByKey = new Map<string, number>();
+  for (const item of (items.results || []) as any[]) {
+    if (!memoIdsByKey.has(item.source_key)) memoIdsByKey.set(item.source_key, item.memo_id);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const statements: D1PreparedStatement[] = [];
+  for (const item of (items.results || []) as any[]) {
+    for (const relation of JSON.parse(item.relations) as { type: string; key: string }[]) {
+      const relatedMemoId = memoIdsByKey.get(relation.key);
+      if (!relatedMemoId || relatedMemoId === item.memo_id) continue;
+      statements.push(db.prepare(`
+        INSERT INTO memo_relation (memo_id, related_memo_id, type, created_ts) VALUES (?, ?, ?, ?)
+      `).bind(item.memo_id, relatedMemoId, relation.type === 'COMMENT' ? 'COMMENT' : 'REFERENCE', now));
+    }
+  }
+
+  for (let i = 0; i < statements.length; i += IMPORT_INSERT_BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + IMPORT_INSERT_BATCH_SIZE));
+  }
+}
+
+// 删除 R2 中暂存的文件
+async function deleteStagedFiles(env: ImportEnv, jobUid: string): Promise<void> {
+  if (!env.R2) return;
+  let cursor: string | undefined;
+  do {
+    const listed = await env.R2.list({ prefix: getStagingPrefix(jobUid), cursor });
+    if (listed.objects.length > 0) {
+      await env.R2.delete(listed.objects.map((object) => object.key));
+    }
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+}
+
+// 导入下一批笔记；没有待导入的笔记时解析关联并结束任务
+export async function runImportJob(env: ImportEnv, job: Record<string, unknown>): Promise<Record<string, unknown>> {
+  if (job.status !== 'RUNNING') {
+    return getImportJobProgress(env.DB, job);
+  }
+
+  const db = env.DB;
+  const now = Math.floor(Date.now() / 1000);
+
+  // 认领一批笔记，避免并发请求重复导入
+  await db.prepare(`
+    UPDATE import_item SET status = 'PENDING' WHERE job_id = ? AND status = 'RUNNING' AND updated_ts < ?
+  `).bind(job.id, now - IMPORT_CLAIM_TIMEOUT).run();
+  const claimed = await db.prepare(`
+    UPDATE import_item SET status = 'RUNNING', updated_ts = ?
+    WHERE id IN (SELECT id FROM import_item WHERE job_id = ? AND status = 'PENDING' ORDER BY id LIMIT ?)
+    RETURNING id, payload
+  `).bind(now, job.id, IMPORT_CHUNK_SIZE).all();
+
+  const storageSetting = await getStorageSetting(db);
+  for (const item of (claimed.results || []) as any[]) {
+    try {
+      const { memoId, warnings } = await importMemo(
+        env,
+        job.uid as string,
+        job.creator_id as number,
+        JSON.parse(item.payload),
+        storageSetting,
+      );
+      await db.prepare(`
+        UPDATE import_item SET status = 'IMPORTED', memo_id = ?, error = ?, payload = '', updated_ts = ? WHERE id = ?
+      `).bind(memoId, warnings.length > 0 ? warnings.join('\n') : null, Math.floor(Date.now() / 1000), item.id).run();
+    } catch (error: any) {
+      console.error(`Failed to import item ${item.id}:`, error);
+      await db.prepare(`
+        UPDATE import_item SET status = 'FAILED', error = ?, payload = '', updated_ts = ? WHERE id = ?
+      `).bind(error.message || 'Unknown error', Math.floor(Date.now() / 1000), item.id).run();
+    }
+  }
+
+  const remaining = await db.prepare(`
+    SELECT COUNT(*) AS count FROM import_item WHERE job_id = ? AND status IN ('PENDING', 'RUNNING')
+  `).bind(job.id).first();
+
+  if (remaining?.count === 0) {
+    await importRelations(db, job.id as number);
+    await deleteStagedFiles(env, job.uid as string);
+    await db.prepare('UPDATE import_job SET status = ?, updated_ts = ? WHERE id = ?')
+      .bind('COMPLETED', Math.floor(Date.now() / 1000), job.id).run();
+    console.log(`✅ Import job ${job.uid} completed`);
+  } else {
+    await db.prepare('UPDATE import_job SET updated_ts = ? WHERE id = ?').bind(now, job.id).run();
+  }
+
+  const updatedJob = await db.prepare('SELECT * FROM import_job WHERE id = ?').bind(job.id).first();
+  return getImportJobProgress(db, updatedJob!);
+}
+
+// 任务进度：各状态的笔记数量以及导入失败或附件未能导入的笔记
+export async function getImportJobProgress(db: D1Database, job: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const [counts, errors] = await db.batch([
+    db.prepare('SELECT status, COUNT(*) AS count FROM import_item WHERE job_id = ? GROUP BY status').bind(job.id),
+    db.prepare(`
+      SELECT title, status, error FROM import_item WHERE job_id = ? AND error IS NOT NULL ORDER BY id LIMIT ?
+    `).bind(job.id, IMPORT_ERROR_LIMIT),
+  ]);
+
+  const countByStatus = Object.fromEntries(((counts.results || []) as any[]).map((row) => [row.status, row.count as number]));
+  const imported = countByStatus.IMPORTED || 0;
+  const failed = countByStatus.FAILED || 0;
+
+  return {
+    uid: job.uid,
+    name: `imports/${job.uid}`,
+    source: job.source,
+    filename: job.filename,
+    status: job.status,
+    total: imported + failed + (countByStatus.PENDING || 0) + (countByStatus.RUNNING || 0),
+    imported,
+    failed,
+    errors: ((errors.results || []) as any[]).map((row) => ({
+      title: row.title,
+      failed: row.status === 'FAILED',
+      message: row.error,
+    })),
+    createTime: new Date((job.created_ts as number) * 1000).toISOString(),
+    updateTime: new Date((job.updated_ts as number) * 1000).toISOString(),
+  };
+}
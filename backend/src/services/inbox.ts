@@ -0,0 +1,177 @@
+// 收件箱服务：在评论、提及、反应发生以及提醒到期时为相关用户生成通知
+
+// 通知类型，与前端 Inbox_Type 对应
+export const InboxType = {
+  MEMO_COMMENT: 'MEMO_COMMENT',
+  MEMO_MENTION: 'MEMO_MENTION',
+  MEMO_REACTION: 'MEMO_REACTION',
+  MEMO_REMINDER: 'MEMO_REMINDER',
+} as const;
+
+export type InboxType = typeof InboxType[keyof typeof InboxType];
+
+// 通知状态
+export const InboxStatus = {
+  UNREAD: 'UNREAD',
+  ARCHIVED: 'ARCHIVED',
+} as const;
+
+// 一条 memo 最多通知的被提及用户数
+const MAX_MENTIONS_PER_MEMO = 20;
+
+// 转换数据库行为前端使用的 Inbox 格式（对应 inbox_service.ts 中的 Inbox）
+export function formatInbox(row: any) {
+  return {
+    name: `inboxes/${row.id}`,
+    sender: `users/${row.sender_id}`,
+    receiver: `users/${row.receiver_id}`,
+    status: row.status,
+    type: row.type,
+    activityId: row.activity_id ?? undefined,
+    createTime: new Date(row.created_ts * 1000).toISOString(),
+  };
+}
+
+// 转换活动记录为前端使用的 Activity 格式（对应 activity_service.ts 中的 Activity）
+export function formatActivity(row: any) {
+  let payload: any = {};
+  try {
+    payload = JSON.parse(row.payload || '{}');
+  } catch {
+    // payload 损坏时返回空对象
+  }
+
+  return {
+    name: `activities/${row.id}`,
+    creator: `users/${row.creator_id}`,
+    type: row.type,
+    level: row.level,
+    createTime: new Date(row.created_ts * 1000).toISOString(),
+    payload,
+  };
+}
+
+// 提取内容中的 @username，忽略代码块和行内代码
+export function extractMentionedUsernames(content: string): string[] {
+  if (!content) return [];
+
+  const text = content
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/`[^`\n]*`/g, '');
+
+  const usernames = new Set<string>();
+  const regex = /(^|[^\w@/])@([a-zA-Z0-9_-]+)/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    usernames.add(match[2].toLowerCase());
+    if (usernames.size >= MAX_MENTIONS_PER_MEMO) break;
+  }
+
+  return Array.from(usernames);
+}
+
+// 创建活动记录，返回活动 ID
+async function createActivity(db: D1Database, creatorId: number, type: InboxType, payload: any): Promise<number> {
+  const now = Math.floor(Date.now() / 1000);
+  const result = await db.prepare(`
+    INSERT INTO activity (creator_id, type, level, payload, created_ts)
+    VALUES (?, ?, 'INFO', ?, ?)
+  `).bind(creatorId, type, JSON.stringify(payload), now).run();
+
+  return result.meta.last_row_id as number;
+}
+
+// 创建一条未读通知
+async function createInbox(db: D1Database, senderId: number, receiverId: number, type: InboxType, activityId: number) {
+  const now = Math.floor(Date.now() / 1000);
+  await db.prepare(`
+    INSERT INTO inbox (sender_id, receiver_id, status, type, activity_id, created_ts)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).bind(senderId, receiverId, InboxStatus.UNREAD, type, activityId, now).run();
+}
+
+// 评论通知：通知被评论 memo 的作者
+export async function notifyMemoComment(db: D1Database, senderId: number, commentId: number, memoId: number): Promise<void> {
+  const memo = await db.prepare('SELECT creator_id FROM memo WHERE id = ?').bind(memoId).first();
+  if (!memo || memo.creator_id === senderId) return;
+
+  const activityId = await createActivity(db, senderId, InboxType.MEMO_COMMENT, {
+    memoComment: {
+      memo: `memos/${commentId}`,
+      relatedMemo: `memos/${memoId}`,
+    },
+  });
+  await createInbox(db, senderId, memo.creator_id as number, InboxType.MEMO_COMMENT, activityId);
+
+  console.log(`📬 Inbox: comment ${commentId} on memo ${memoId} -> user ${memo.creator_id}`);
+}
+
+// 反应通知：通知被反应 memo 的作者，同一用户对同一 memo 的相同反应只通知一次
+export async function notifyMemoReaction(db: D1Database, senderId: number, memoId: number, reactionType: string): Promise<void> {
+  const memo = await db.prepare('SELECT creator_id FROM memo WHERE id = ?').bind(memoId).first();
+  if (!memo || memo.creator_id === senderId) return;
+
+  const payload = {
+    memoReaction: {
+      memo: `memos/${memoId}`,
+      reactionType,
+    },
+  };
+
+  const existing = await db.prepare(`
+    SELECT id FROM activity WHERE creator_id = ? AND type = ? AND payload = ?
+  `).bind(senderId, InboxType.MEMO_REACTION, JSON.stringify(payload)).first();
+  if (existing) return;
+
+  const activityId = await createActivity(db, senderId, InboxType.MEMO_REACTION, payload);
+  await createInbox(db, senderId, memo.creator_id as number, InboxType.MEMO_REACTION, activityId);
+
+  console.log(`📬 Inbox: reaction ${reactionType} on memo ${memoId} -> user ${memo.creator_id}`);
+}
+
+// 提及通知：通知 memo 内容中 @ 到的用户
+// 更新 memo 时传入 previousContent，只通知新增的提及；私有 memo 不发送提及通知
+export async function notifyMemoMentions(
+  db: D1Database,
+  senderId: number,
+  memoId: number,
+  content: string,
+  visibility: string,
+  previousContent = ''
+): Promise<void> {
+  if (visibility === 'PRIVATE') return;
+
+  const previous = new Set(extractMentionedUsernames(previousContent));
+  const usernames = extractMentionedUsernames(content).filter((username) => !previous.has(username));
+  if (usernames.length === 0) return;
+
+  const placeholders = usernames.map(() => '?').join(', ');
+  const users = await db.prepare(`
+    SELECT id FROM user WHERE LOWER(username) IN (${placeholders}) AND row_status = 'NORMAL'
+  `).bind(...usernames).all();
+
+  for (const user of (users.results || []) as any[]) {
+    if (user.id === senderId) continue;
+
+    const activityId = await createActivity(db, senderId, InboxType.MEMO_MENTION, {
+      memoMention: {
+        memo: `memos/${memoId}`,
+      },
+    });
+    await createInbox(db, senderId, user.id, InboxType.MEMO_MENTION, activityId);
+
+    console.log(`📬 Inbox: mention in memo ${memoId} -> user ${user.id}`);
+  }
+}
+
+// 提醒通知：笔记设置的提醒时间到达时通知笔记作者本人（由 Cron Trigger 调用）
+export async function notifyMemoReminder(db: D1Database, creatorId: number, memoId: number): Promise<void> {
+  const activityId = await createActivity(db, creatorId, InboxType.MEMO_REMINDER, {
+    memoReminder: {
+      memo: `memos/${memoId}`,
+    },
+  });
+  await createInbox(db, creatorId, creatorId, InboxType.MEMO_REMINDER, activityId);
+
+  console.log(`📬 Inbox: reminder for memo ${memoId} -> user ${creatorId}`);
+}
@@ -0,0 +1,54 @@
+// 邀请码：HOST 生成可使用一次或多次、可设置有效期和注册角色的邀请码，
+// 用户通过 /auth/signup?invite=<code> 链接注册，不受「禁止用户注册」设置的限制
+import { base64UrlEncode } from './token';
+
+// 邀请码不存在、已过期或已用完，对应 403
+export class InviteError extends Error {}
+
+// 可用的邀请码：未用完（max_uses 为 0 表示不限次数）且未过期，绑定参数为当前时间
+const USABLE_INVITE_CONDITION = '(max_uses = 0 OR used_count < max_uses) AND (expires_ts IS NULL OR expires_ts > ?)';
+
+export function generateInviteCode(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(12)));
+}
+
+// 转换数据库行为前端使用的格式
+export function formatInvite(row: any) {
+  return {
+    id: row.id,
+    name: `invites/${row.id}`,
+    code: row.code,
+    role: row.role,
+    maxUses: row.max_uses,
+    usedCount: row.used_count,
+    expiresAt: row.expires_ts ? new Date(row.expires_ts * 1000).toISOString() : undefined,
+    createdAt: new Date(row.created_ts * 1000).toISOString(),
+  };
+}
+
+// 查询可用的邀请码，不可用时返回 null
+export async function findUsableInvite(db: D1Database, code: string): Promise<Record<string, unknown> | null> {
+  const now = Math.floor(Date.now() / 1000);
+  return db.prepare(
+    `SELECT * FROM invite WHERE code = ? AND ${USABLE_INVITE_CONDITION}`
+  ).bind(code, now).first();
+}
+
+// 占用一次邀请码并返回注册角色，条件更新保证并发注册时不会超出使用次数
+export async function consumeInvite(db: D1Database, code: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const invite = await db.prepare(
+    `UPDATE invite SET used_count = used_count + 1 WHERE code = ? AND ${USABLE_INVITE_CONDITION} RETURNING role`
+  ).bind(code, now).first();
+  if (!invite) {
+    throw new InviteError('INVALID_INVITE');
+  }
+  return invite.role as string;
+}
+
+// 注册失败时归还占用的次数
+export async function releaseInvite(db: D1Database, code: string): Promise<void> {
+  await db.prepare(
+    'UPDATE invite SET used_count = used_count - 1 WHERE code = ? AND used_count > 0'
+  ).bind(code).run();
+}
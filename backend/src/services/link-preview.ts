@@ -0,0 +1,326 @@
+// 链接预览服务：抓取网页并解析 OpenGraph / Twitter Card / <title> 元数据，带 SSRF 防护、大小和时间限制
+
+// 整个抓取过程（含重定向）的超时时间（毫秒）
+const LINK_PREVIEW_TIMEOUT_MS = 5 * 1000;
+// 最多跟随的重定向次数，每一跳都会重新校验目标地址
+const LINK_PREVIEW_MAX_REDIRECTS = 3;
+// 网页最多读取的字节数，元数据通常都在 <head> 中
+const LINK_PREVIEW_MAX_HTML_BYTES = 512 * 1024;
+// 代理图片的最大字节数
+export const LINK_PREVIEW_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// 缓存有效期（秒）：成功结果 24 小时，抓取失败 1 小时
+export const LINK_METADATA_TTL_SECONDS = 24 * 60 * 60;
+export const LINK_METADATA_FAILURE_TTL_SECONDS = 60 * 60;
+// 链接最大长度
+export const LINK_URL_MAX_LENGTH = 2048;
+// 标题和描述最多保留的字符数
+const TITLE_MAX_LENGTH = 300;
+const DESCRIPTION_MAX_LENGTH = 1000;
+// 用于解析域名的 DNS over HTTPS 服务
+const DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query';
+const USER_AGENT = 'Mozilla/5.0 (compatible; MemosLinkPreview/1.0)';
+
+// 对应 markdown_service.ts 中的 LinkMetadata，image 为原始图片地址
+export interface LinkMetadata {
+  title: string;
+  description: string;
+  image: string;
+}
+
+// 目标地址不允许访问（非 http(s)、内网地址、无法解析等）
+export class LinkPreviewError extends Error {}
+
+// 解析并规范化链接，只允许 http(s) 且不带用户名密码
+export function parseLinkUrl(raw: string): URL | null {
+  if (!raw || raw.length > LINK_URL_MAX_LENGTH) return null;
+  try {
+    const url = new URL(raw);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (url.username || url.password) return null;
+    url.hash = '';
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+// 私有、回环、链路本地、CGNAT、文档示例、组播及保留地址段
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 0 && (c === 0 || c === 2))
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+    || (a === 198 && b === 51 && c === 100)
+    || (a === 203 && b === 0 && c === 113)
+    || a >= 224;
+}
+
+// 将 IPv6 地址展开为 8 个 16 位分组，支持 "::" 缩写和末尾内嵌的 IPv4
+function parseIPv6(host: string): number[] | null {
+  let address = host.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!address.includes(':')) return null;
+  address = address.replace(/%.*$/, '');
+
+  const embedded = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const octets = parseIPv4(embedded[1]);
+    if (!octets) return null;
+    address = address.slice(0, -embedded[1].length)
+      + `${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.length !== 8 || !groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  // 未指定地址、回环地址以及 IPv4 兼容地址 ::x.x.x.x
+  if (groups.slice(0, 6).every((group) => group === 0)) {
+    return groups[6] === 0 || isPrivateIPv4(embeddedIPv4);
+  }
+  // IPv4 映射地址 ::ffff:x.x.x.x 和 NAT64 地址 64:ff9b::x.x.x.x 按内嵌的 IPv4 判断
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+  return (groups[0] & 0xfe00) === 0xfc00  // fc00::/7 唯一本地地址
+    || (groups[0] & 0xffc0) === 0xfe80    // fe80::/10 链路本地地址
+    || (groups[0] & 0xff00) === 0xff00    // ff00::/8 组播地址
+    || (groups[0] === 0x2001 && groups[1] === 0x0db8);  // 2001:db8::/32 文档示例地址
+}
+
+// 判断 IP 字面量是否属于不允许访问的地址段，非 IP 字面量返回 null
+export function isPrivateAddress(address: string): boolean | null {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  if (ipv6) return isPrivateIPv6(ipv6);
+  return null;
+}
+
+// 通过 DNS over HTTPS 解析域名的 A / AAAA 记录
+async function resolveHost(hostname: string, signal: AbortSignal): Promise<string[]> {
+  const lookups = ['A', 'AAAA'].map(async (type) => {
+    const response = await fetch(`${DOH_ENDPOINT}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { Accept: 'application/dns-json' },
+      signal,
+    });
+    if (!response.ok) {
+      throw new LinkPreviewError(`DNS lookup failed with status ${response.status}`);
+    }
+    const data: any = await response.json();
+    return (Array.isArray(data.Answer) ? data.Answer : [])
+      .filter((answer: any) => answer.type === 1 || answer.type === 28)
+      .map((answer: any) => String(answer.data));
+  });
+  return (await Promise.all(lookups)).flat();
+}
+
+// 校验目标地址只指向公网，域名的所有解析结果都必须是公网地址
+// Workers 的出站请求本身无法访问内网，这里额外防止通过链接探测同一网络下的其他服务
+async function assertPublicUrl(url: URL, signal: AbortSignal): Promise<void> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (!hostname || hostname === 'localhost' || /\.(localhost|local|internal|lan|home\.arpa)$/.test(hostname)) {
+    throw new LinkPreviewError('Host is not allowed');
+  }
+
+  const literal = isPrivateAddress(hostname);
+  if (literal !== null) {
+    if (literal) throw new LinkPreviewError('Host is not allowed');
+    return;
+  }
+  if (!hostname.includes('.')) {
+    throw new LinkPreviewError('Host is not allowed');
+  }
+
+  const addresses = await resolveHost(hostname, signal);
+  if (addresses.length === 0) {
+    throw new LinkPreviewError('Host could not be resolved');
+  }
+  if (addresses.some((address) => isPrivateAddress(address) !== false)) {
+    throw new LinkPreviewError('Host resolves to a private address');
+  }
+}
+
+// 手动跟随重定向，每一跳都重新校验地址，返回最终响应及其地址
+export async function fetchPublicUrl(url: URL, accept: string, timeoutMs = LINK_PREVIEW_TIMEOUT_MS): Promise<{ response: Response; finalUrl: URL }> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= LINK_PREVIEW_MAX_REDIRECTS; redirects++) {
+    await assertPublicUrl(currentUrl, signal);
+    const response = await fetch(currentUrl.toString(), {
+      headers: { Accept: accept, 'User-Agent': USER_AGENT },
+      redirect: 'manual',
+      signal,
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      const nextUrl = parseLinkUrl(new URL(location, currentUrl).toString());
+      if (!nextUrl) {
+        throw new LinkPreviewError('Redirect target is not allowed');
+      }
+      currentUrl = nextUrl;
+      continue;
+    }
+    return { response, finalUrl: currentUrl };
+  }
+
+  throw new LinkPreviewError('Too many redirects');
+}
+
+// 读取响应体，超过上限时截断（stopAt 用于在读到 </head> 后提前结束）
+export async function readLimitedBody(response: Response, maxBytes: number, stopAt?: RegExp): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  const reader = response.body?.getReader();
+  if (!reader) return { bytes: new Uint8Array(0), truncated: false };
+
+  const chunks: Uint8Array[] = [];
+  const decoder = stopAt ? new TextDecoder() : null;
+  let received = 0;
+  let truncated = false;
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (received + value.byteLength > maxBytes) {
+      chunks.push(value.slice(0, maxBytes - received));
+      received = maxBytes;
+      truncated = true;
+      break;
+    }
+    chunks.push(value);
+    received += value.byteLength;
+    if (decoder && stopAt) {
+      text += decoder.decode(value, { stream: true });
+      if (stopAt.test(text)) {
+        truncated = true;
+        break;
+      }
+    }
+  }
+  if (truncated) {
+    await reader.cancel().catch(() => {});
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes, truncated };
+}
+
+function decodeHTMLEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+function cleanText(value: string | undefined, maxLength: number): string {
+  if (!value) return '';
+  const text = decodeHTMLEntities(value).replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+// 解析网页中的元数据，优先级：OpenGraph > Twitter Card > <title> / <meta name="description">
+export function parseLinkMetadata(html: string, baseUrl: URL): LinkMetadata {
+  const meta: Record<string, string> = {};
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && meta[key] === undefined) {
+      meta[key] = attributes.content;
+    }
+  }
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  let image = '';
+  const rawImage = (meta['og:image'] || meta['og:image:url'] || meta['og:image:secure_url'] || meta['twitter:image'] || meta['twitter:image:src'] || '').trim();
+  if (rawImage) {
+    try {
+      image = parseLinkUrl(new URL(decodeHTMLEntities(rawImage), baseUrl).toString())?.toString() || '';
+    } catch {
+      // 图片地址无效时忽略
+    }
+  }
+
+  return {
+    title: cleanText(meta['og:title'] || meta['twitter:title'] || titleTag, TITLE_MAX_LENGTH),
+    description: cleanText(meta['og:description'] || meta['twitter:description'] || meta['description'], DESCRIPTION_MAX_LENGTH),
+    image,
+  };
+}
+
+// 从 Content-Type 中取出字符集，不支持时回退为 UTF-8
+function createDecoder(contentType: string, head: Uint8Array): TextDecoder {
+  const headText = new TextDecoder().decode(head.slice(0, 2048));
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+    || headText.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+    || 'utf-8';
+  try {
+    return new TextDecoder(charset.toLowerCase());
+  } catch {
+    return new TextDecoder();
+  }
+}
+
+// 抓取链接并解析元数据
+export async function fetchLinkMetadata(url: URL): Promise<LinkMetadata> {
+  const { response, finalUrl } = await fetchPublicUrl(url, 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1');
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new LinkPreviewError(`Request failed with status ${response.status}`);
+  }
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel();
+    // 非网页链接（图片、PDF 等）只返回文件名作为标题
+    const filename = decodeURIComponent(finalUrl.pathname.split('/').pop() || '');
+    return { title: cleanText(filename || finalUrl.hostname, TITLE_MAX_LENGTH), description: '', image: '' };
+  }
+
+  const { bytes } = await readLimitedBody(response, LINK_PREVIEW_MAX_HTML_BYTES, /<\/head>/i);
+  const html = createDecoder(contentType, bytes).decode(bytes);
+  return parseLinkMetadata(html, finalUrl);
+}
@@ -0,0 +1,176 @@
+// 笔记详情的批量加载：一页笔记的资源、标签、关联关系和表情回应通过一次 DB.batch 读取，
+// 查询次数与笔记数量无关；笔记 ID 以 JSON 数组绑定（json_each），不受 D1 每条语句 100 个参数的限制
+import { buildMemoSnippet } from '../utils';
+
+// 按笔记分组的关联数据，字段与数据库列一致
+export interface MemoChildren {
+  resources: any[];
+  tags: { id: number; name: string }[];
+  outgoingRelations: any[];
+  incomingRelations: any[];
+  reactions: any[];
+}
+
+function groupByMemoId(rows: any[], memoIds: number[]): Map<number, any[]> {
+  const grouped = new Map<number, any[]>(memoIds.map((id) => [id, []]));
+  for (const row of rows) {
+    grouped.get(row.group_memo_id)?.push(row);
+  }
+  return grouped;
+}
+
+function buildChildStatements(db: D1Database, ids: string): D1PreparedStatement[] {
+  return [
+    db.prepare(`
+      SELECT mr.memo_id AS group_memo_id, r.id, r.uid, r.filename, r.type, r.size, r.external_link, r.created_ts
+      FROM memo_resource mr
+      JOIN resource r ON r.id = mr.resource_id
+      WHERE mr.memo_id IN (SELECT value FROM json_each(?)) AND r.row_status = 'NORMAL'
+      ORDER BY mr.memo_id, mr.resource_id
+    `).bind(ids),
+    db.prepare(`
+      SELECT mt.memo_id AS group_memo_id, t.id, t.name
+      FROM memo_tag mt
+      JOIN tag t ON t.id = mt.tag_id
+      WHERE mt.memo_id IN (SELECT value FROM json_each(?))
+      ORDER BY mt.memo_id, mt.tag_id
+    `).bind(ids),
+    db.prepare(`
+      SELECT mr.memo_id AS group_memo_id, mr.type, mr.related_memo_id, m.uid AS related_memo_uid, m.content AS related_memo_content
+      FROM memo_relation mr
+      JOIN memo m ON m.id = mr.related_memo_id
+      WHERE mr.memo_id IN (SELECT value FROM json_each(?)) AND m.row_status != 'DELETED'
+      ORDER BY mr.id
+    `).bind(ids),
+    db.prepare(`
+      SELECT mr.related_memo_id AS group_memo_id, mr.type, mr.memo_id, m.uid AS memo_uid, m.content AS memo_content
+      FROM memo_relation mr
+      JOIN memo m ON m.id = mr.memo_id
+      WHERE mr.related_memo_id IN (SELECT value FROM json_each(?)) AND m.row_status != 'DELETED'
+      ORDER BY mr.id
+    `).bind(ids),
+    db.prepare(`
+      SELECT mr.memo_id AS group_memo_id, mr.id, mr.reaction_type, mr.creator_id, mr.created_ts
+      FROM memo_reaction mr
+      WHERE mr.memo_id IN (SELECT value FROM json_each(?))
+      ORDER BY mr.created_ts ASC, mr.id ASC
+    `).bind(ids),
+  ];
+}
+
+function collectChildren(memoIds: number[], results: D1Result[]): Map<number, MemoChildren> {
+  const [resources, tags, outgoingRelations, incomingRelations, reactions] = results.map((result) =>
+    groupByMemoId((result.results || []) as any[], memoIds)
+  );
+  return new Map(memoIds.map((id) => [id, {
+    resources: resources.get(id)!,
+    tags: tags.get(id)!,
+    outgoingRelations: outgoingRelations.get(id)!,
+    incomingRelations: incomingRelations.get(id)!,
+    reactions: reactions.get(id)!,
+  }]));
+}
+
+// 读取多条笔记的关联数据（5 条语句，一次往返）
+export async function loadMemoChildren(db: D1Database, memoIds: number[]): Promise<Map<number, MemoChildren>> {
+  if (memoIds.length === 0) return new Map();
+  return collectChildren(memoIds, await db.batch(buildChildStatements(db, JSON.stringify(memoIds))));
+}
+
+function formatMemoWithDetails(memo: any, children: MemoChildren) {
+  const memoId = memo.id as number;
+
+  // 转换为前端期望的资源格式
+  const resourceList = children.resources.map((r: any) => ({
+    name: `resources/${r.uid}`,
+    uid: r.uid,
+    createTime: new Date(r.created_ts * 1000).toISOString(),
+    filename: r.filename,
+    content: new Uint8Array(), // 空数组
+    externalLink: '', // 空字符串，让前端构建正确的URL
+    type: r.type,
+    size: r.size,
+    memo: `memos/${memoId}`, // 关联的memo
+  }));
+
+  // 包括这个memo作为评论者的关系和作为被评论者的关系
+  const relationList = [
+    ...children.outgoingRelations.map((r: any) => ({
+      memo: { name: `memos/${memoId}`, uid: memo.uid, id: memoId },
+      relatedMemo: {
+        name: `memos/${r.related_memo_id}`,
+        uid: r.related_memo_uid,
+        id: r.related_memo_id,
+        snippet: buildMemoSnippet(r.related_memo_content)
+      },
+      type: r.type
+    })),
+    ...children.incomingRelations.map((r: any) => ({
+      memo: {
+        name: `memos/${r.memo_id}`,
+        uid: r.memo_uid,
+        id: r.memo_id,
+        snippet: buildMemoSnippet(r.memo_content)
+      },
+      relatedMemo: { name: `memos/${memoId}`, uid: memo.uid, id: memoId },
+      type: r.type
+    }))
+  ];
+
+  const reactionList = children.reactions.map((r: any) => ({
+    id: r.id,
+    reactionType: r.reaction_type,
+    creator: `users/${r.creator_id}`,
+    contentId: `memos/${memoId}`,
+    createdTs: r.created_ts
+  }));
+
+  return {
+    id: memo.id,
+    uid: memo.uid,
+    creatorId: memo.creator_id,
+    content: memo.content,
+    visibility: memo.visibility,
+    rowStatus: memo.row_status,
+    pinned: Boolean(memo.pinned),
+    publishTs: memo.publish_ts ?? undefined,
+    remindTs: memo.remind_ts ?? undefined,
+    createdTs: memo.created_ts,
+    updatedTs: memo.updated_ts,
+    resourceIdList: children.resources.map((r: any) => r.id), // 保留向后兼容
+    resources: resourceList,
+    tags: children.tags.map((t) => t.name),
+    relations: relationList,
+    reactions: reactionList,
+    snippet: buildMemoSnippet(memo.content as string),
+    location: memo.location_placeholder || memo.location_latitude || memo.location_longitude ? {
+      placeholder: memo.location_placeholder || '',
+      latitude: memo.location_latitude || 0,
+      longitude: memo.location_longitude || 0
+    } : undefined
+  };
+}
+
+export type MemoWithDetails = ReturnType<typeof formatMemoWithDetails>;
+
+// 读取多条笔记及其详情（6 条语句，一次往返），不存在的笔记不出现在结果中
+export async function loadMemosWithDetails(db: D1Database, memoIds: number[]): Promise<Map<number, MemoWithDetails>> {
+  if (memoIds.length === 0) return new Map();
+
+  const ids = JSON.stringify(memoIds);
+  const [memoRows, ...childResults] = await db.batch([
+    db.prepare('SELECT * FROM memo WHERE id IN (SELECT value FROM json_each(?))').bind(ids),
+    ...buildChildStatements(db, ids),
+  ]);
+  const children = collectChildren(memoIds, childResults);
+
+  const memos = new Map<number, MemoWithDetails>();
+  for (const memo of (memoRows.results || []) as any[]) {
+    memos.set(memo.id, formatMemoWithDetails(memo, children.get(memo.id)!));
+  }
+  return memos;
+}
+
+export async function getMemoWithDetails(db: D1Database, memoId: number): Promise<MemoWithDetails | null> {
+  return (await loadMemosWithDetails(db, [memoId])).get(memoId) ?? null;
+}
@@ -0,0 +1,114 @@
+// 游标分页：列表接口返回的 nextPageToken 记录上一页最后一条记录的排序键，翻页时按排序键比较继续读取，
+// 列表中新增或删除记录不会导致重复或遗漏；游标使用 JWT_SECRET 签名，客户端无法伪造
+import { base64UrlDecode, base64UrlEncode, getJWTSecret, hmacSHA256, verifyHmacSHA256 } from './token';
+
+export type CursorValue = number | string;
+
+// 排序键，column 为 SQL 表达式，对应的值不能为 NULL
+export interface CursorKey {
+  column: string;
+  desc: boolean;
+}
+
+// 一页数据和下一页的游标，没有更多数据时 nextPageToken 为空字符串
+export interface Page<T> {
+  items: T[];
+  nextPageToken: string;
+}
+
+// 游标无效、被篡改或不属于当前列表，对应 400
+export class PageTokenError extends Error {}
+
+type SecretEnv = { JWT_SECRET?: string };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function parsePageSize(value: string | null | undefined, defaultSize: number, maxSize: number): number {
+  return Math.min(Math.max(parseInt(value || '') || defaultSize, 1), maxSize);
+}
+
+// scope 标识列表和排序方式，用其他列表或排序方式的游标翻页时返回 PageTokenError
+export async function encodePageToken(env: SecretEnv, scope: string, values: CursorValue[]): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify({ s: scope, v: values })));
+  return `${payload}.${await hmacSHA256(payload, getJWTSecret(env))}`;
+}
+
+// 解析游标，空游标表示第一页，返回 null
+export async function decodePageToken(
+  env: SecretEnv,
+  scope: string,
+  token: string | null | undefined,
+  length: number,
+): Promise<CursorValue[] | null> {
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !(await verifyHmacSHA256(payload, signature, getJWTSecret(env)))) {
+    throw new PageTokenError('Invalid page token');
+  }
+
+  let decoded: { s?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(decoder.decode(base64UrlDecode(payload)));
+  } catch {
+    throw new PageTokenError('Invalid page token');
+  }
+
+  const values = decoded.v;
+  if (
+    decoded.s !== scope ||
+    !Array.isArray(values) ||
+    values.length !== length ||
+    !values.every((value) => typeof value === 'number' || typeof value === 'string')
+  ) {
+    throw new PageTokenError('Page token does not match this list');
+  }
+  return values as CursorValue[];
+}
+
+// 生成「排在游标之后」的条件，例如 (a, b) 均为降序时为 a < ? OR (a = ? AND b < ?)
+export function buildCursorCondition(keys: CursorKey[], values: CursorValue[]): { sql: string; params: CursorValue[] } {
+  let sql = '';
+  let params: CursorValue[] = [];
+  for (let index = keys.length - 1; index >= 0; index--) {
+    const { column, desc } = keys[index];
+    const comparison = `${column} ${desc ? '<' : '>'} ?`;
+    if (!sql) {
+      sql = comparison;
+      params = [values[index]];
+    } else {
+      sql = `${comparison} OR (${column} = ? AND (${sql}))`;
+      params = [values[index], values[index], ...params];
+    }
+  }
+  return { sql: `(${sql})`, params };
+}
+
+export function buildOrderBy(keys: CursorKey[]): string {
+  return keys.map(({ column, desc }) => `${column} ${desc ? 'DESC' : 'ASC'}`).join(', ');
+}
+
+// 按排序键读取一页：多读一条判断是否还有下一页，游标取本页最后一条记录的排序键
+export async function paginate<T extends Record<string, unknown>>(
+  env: SecretEnv,
+  options: {
+    scope: string;
+    keys: CursorKey[];
+    pageSize: number;
+    pageToken: string | null | undefined;
+    // 根据游标条件（没有游标时为空）查询，需要使用 buildOrderBy(keys) 排序并 LIMIT limit 条
+    query: (cursor: { sql: string; params: CursorValue[] } | null, limit: number) => Promise<T[]>;
+    // 记录中排序键的值，顺序与 keys 一致
+    getCursor: (row: T) => CursorValue[];
+  },
+): Promise<Page<T>> {
+  const values = await decodePageToken(env, options.scope, options.pageToken, options.keys.length);
+  const rows = await options.query(values ? buildCursorCondition(options.keys, values) : null, options.pageSize + 1);
+
+  const items = rows.slice(0, options.pageSize);
+  const nextPageToken = rows.length > options.pageSize
+    ? await encodePageToken(env, options.scope, options.getCursor(items[items.length - 1]))
+    : '';
+  return { items, nextPageToken };
+}
@@ -0,0 +1,87 @@
+// 笔记历史版本服务：内容或可见性变化时记录版本，并按工作区设置清理超出保留数量的旧版本
+
+// 未配置 memoRevisionLimit 时每条笔记保留的版本数，设置为 0 表示不限制
+export const DEFAULT_MEMO_REVISION_LIMIT = 50;
+
+export interface MemoRevisionInput {
+  creatorId: number;
+  content: string;
+  visibility: string;
+  createdTs: number;
+}
+
+// 读取 MEMO_RELATED 设置中的版本保留数量
+export async function getMemoRevisionLimit(db: D1Database): Promise<number> {
+  const setting = await db.prepare(
+    'SELECT setting_data FROM workspace_setting WHERE name = ?'
+  ).bind('settings/MEMO_RELATED').first();
+  if (!setting) return DEFAULT_MEMO_REVISION_LIMIT;
+
+  try {
+    const limit = JSON.parse(setting.setting_data as string)?.memoRelatedSetting?.memoRevisionLimit;
+    return typeof limit === 'number' && limit >= 0 ? Math.floor(limit) : DEFAULT_MEMO_REVISION_LIMIT;
+  } catch {
+    return DEFAULT_MEMO_REVISION_LIMIT;
+  }
+}
+
+function insertMemoRevision(db: D1Database, memoId: number, revision: MemoRevisionInput): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO memo_revision (memo_id, creator_id, content, visibility, created_ts)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(memoId, revision.creatorId, revision.content, revision.visibility, revision.createdTs);
+}
+
+// 生成写入新版本的语句，便于与其他写操作放入同一个 D1 batch；limit 为 getMemoRevisionLimit 的结果
+// previous 为修改前的状态，仅在笔记还没有任何版本（如升级前创建的笔记）时补写，保证能看到第一次修改的差异
+export function buildMemoRevisionStatements(
+  db: D1Database,
+  memoId: number,
+  revision: MemoRevisionInput,
+  previous: MemoRevisionInput | undefined,
+  limit: number
+): D1PreparedStatement[] {
+  const statements = [];
+  if (previous) {
+    statements.push(db.prepare(`
+      INSERT INTO memo_revision (memo_id, creator_id, content, visibility, created_ts)
+      SELECT ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (SELECT 1 FROM memo_revision WHERE memo_id = ?)
+    `).bind(memoId, previous.creatorId, previous.content, previous.visibility, previous.createdTs, memoId));
+  }
+  statements.push(insertMemoRevision(db, memoId, revision));
+
+  if (limit > 0) {
+    statements.push(db.prepare(`
+      DELETE FROM memo_revision
+      WHERE memo_id = ? AND id NOT IN (
+        SELECT id FROM memo_revision WHERE memo_id = ? ORDER BY id DESC LIMIT ?
+      )
+    `).bind(memoId, memoId, limit));
+  }
+  return statements;
+}
+
+// 写入一个新版本并清理超出保留数量的旧版本
+export async function recordMemoRevision(
+  db: D1Database,
+  memoId: number,
+  revision: MemoRevisionInput,
+  previous?: MemoRevisionInput
+): Promise<void> {
+  const limit = await getMemoRevisionLimit(db);
+  await db.batch(buildMemoRevisionStatements(db, memoId, revision, previous, limit));
+}
+
+// 转换为前端使用的格式
+export function formatMemoRevision(revision: any) {
+  return {
+    id: revision.id,
+    memoId: revision.memo_id,
+    creatorId: revision.creator_id,
+    creatorUsername: revision.creator_username,
+    content: revision.content,
+    visibility: revision.visibility,
+    createdTs: revision.created_ts,
+  };
+}
@@ -0,0 +1,174 @@
+// S3 兼容存储客户端：使用 AWS Signature Version 4 签名请求和预签名 URL，
+// 适用于 AWS S3、MinIO、Cloudflare R2 的 S3 接口等，只依赖 fetch 和 WebCrypto
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  accessKeySecret: string;
+  // 使用 {endpoint}/{bucket}/{key} 形式的地址，MinIO 等自建服务通常需要开启
+  usePathStyle: boolean;
+}
+
+export class S3RequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+// RFC 3986 编码，encodeURIComponent 不会编码 !'()*
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// 20130524T000000Z 格式的时间
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export class S3Client {
+  constructor(private config: S3Config) {}
+
+  private getRegion(): string {
+    return this.config.region || 'auto';
+  }
+
+  // 对象的 URL，对象键按路径分段编码
+  getObjectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    if (this.config.usePathStyle) {
+      endpoint.pathname = `${basePath}/${encodeRfc3986(this.config.bucket)}/${encodedKey}`;
+    } else {
+      endpoint.hostname = `${this.config.bucket}.${endpoint.hostname}`;
+      endpoint.pathname = `${basePath}/${encodedKey}`;
+    }
+    return endpoint;
+  }
+
+  private async getSigningKey(dateStamp: string): Promise<ArrayBuffer> {
+    const dateKey = await hmac(encoder.encode(`AWS4${this.config.accessKeySecret}`), dateStamp);
+    const regionKey = await hmac(dateKey, this.getRegion());
+    const serviceKey = await hmac(regionKey, 's3');
+    return hmac(serviceKey, 'aws4_request');
+  }
+
+  // 计算签名，headers 的键必须为小写
+  private async sign(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string,
+  ): Promise<{ signature: string; credentialScope: string; signedHeaders: string }> {
+    const dateStamp = amzDate.slice(0, 8);
+    const credentialScope = `${dateStamp}/${this.getRegion()}/s3/aws4_request`;
+
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(';');
+    const canonicalHeaders = headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+    const canonicalQuery = [...url.searchParams.entries()]
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    const canonicalRequest = [method, url.pathname, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope, await sha256Hex(canonicalRequest)].join('\n');
+    const signature = toHex(await hmac(await this.getSigningKey(dateStamp), stringToSign));
+    return { signature, credentialScope, signedHeaders };
+  }
+
+  // 发送签名请求，非 2xx 响应（HEAD/GET 的 404 除外）抛出 S3RequestError
+  private async request(
+    method: string,
+    key: string,
+    options: { body?: Uint8Array; headers?: Record<string, string> } = {},
+  ): Promise<Response> {
+    const url = this.getObjectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = options.body ? await sha256Hex(options.body) : EMPTY_PAYLOAD_HASH;
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...Object.fromEntries(Object.entries(options.headers || {}).map(([name, value]) => [name.toLowerCase(), value])),
+    };
+
+    const { signature, credentialScope, signedHeaders } = await this.sign(method, url, headers, payloadHash, amzDate);
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(url.toString(), {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: options.body,
+    });
+
+    if (!response.ok && !(response.status === 404 && (method === 'GET' || method === 'HEAD'))) {
+      const text = method === 'HEAD' ? '' : await response.text().catch(() => '');
+      const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1];
+      throw new S3RequestError(`S3 ${method} ${key} failed: ${response.status}${code ? ` ${code}` : ''}`, response.status);
+    }
+    return response;
+  }
+
+  async putObject(key: string, body: Uint8Array, contentType: string): Promise<void> {
+    await this.request('PUT', key, { body, headers: { 'Content-Type': contentType } });
+  }
+
+  // 对象不存在时返回 null
+  async getObject(key: string): Promise<Response | null> {
+    const response = await this.request('GET', key);
+    return response.status === 404 ? null : response;
+  }
+
+  async headObject(key: string): Promise<{ size: number; contentType: string } | null> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return null;
+    return {
+      size: parseInt(response.headers.get('Content-Length') || '0') || 0,
+      contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+    };
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  // 生成预签名的 GET 地址，expiresIn 单位为秒（最长 7 天）
+  async presignGetObject(key: string, expiresIn: number, date = new Date()): Promise<string> {
+    const url = this.getObjectUrl(key);
+    const amzDate = toAmzDate(date);
+    const credentialScope = `${amzDate.slice(0, 8)}/${this.getRegion()}/s3/aws4_request`;
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${this.config.accessKeyId}/${credentialScope}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(Math.floor(expiresIn), 1), 7 * 24 * 60 * 60)));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+    const { signature } = await this.sign('GET', url, { host: url.host }, UNSIGNED_PAYLOAD, amzDate);
+    url.searchParams.set('X-Amz-Signature', signature);
+    return url.toString();
+  }
+}
@@ -0,0 +1,77 @@
+// 定时笔记服务：发布到期的定时笔记，为到期的提醒生成收件箱通知（由 Cron Trigger 调用）
+import { notifyMemoMentions, notifyMemoReminder } from './inbox';
+
+// 每次定时任务最多处理的笔记数，剩余的留到下一次执行
+const SCHEDULE_BATCH_SIZE = 100;
+
+export class ScheduleTimeError extends Error {}
+
+// 解析请求中的定时时间（ISO 8601 字符串），返回秒级时间戳
+// 未传入返回 undefined（不修改），传入 null 或空字符串返回 null（清除），格式无效时抛出 ScheduleTimeError
+export function parseScheduleTime(value: unknown, field: string): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw new ScheduleTimeError(`Invalid ${field}`);
+  }
+  return Math.floor(time / 1000);
+}
+
+// 发布到期的定时笔记：以计划发布时间作为创建时间，使笔记按发布时间出现在时间线中
+async function publishDueMemos(db: D1Database, now: number): Promise<void> {
+  const due = await db.prepare(`
+    SELECT id, creator_id, content, visibility, row_status, publish_ts
+    FROM memo
+    WHERE publish_ts IS NOT NULL AND publish_ts <= ?
+    ORDER BY publish_ts ASC
+    LIMIT ?
+  `).bind(now, SCHEDULE_BATCH_SIZE).all();
+
+  for (const memo of (due.results || []) as any[]) {
+    // 条件更新，避免与同时进行的编辑或重复执行的定时任务冲突
+    const result = await db.prepare(`
+      UPDATE memo SET publish_ts = NULL, created_ts = ?, updated_ts = ? WHERE id = ? AND publish_ts = ?
+    `).bind(memo.publish_ts, memo.publish_ts, memo.id, memo.publish_ts).run();
+    if (!result.meta.changes) continue;
+
+    // 定时笔记在发布时才通知被提及的用户
+    if (memo.row_status === 'NORMAL') {
+      try {
+        await notifyMemoMentions(db, memo.creator_id, memo.id, memo.content, memo.visibility);
+      } catch (error) {
+        console.error('Failed to notify memo mentions:', error);
+      }
+    }
+
+    console.log(`✅ Published scheduled memo ${memo.id}`);
+  }
+}
+
+// 为到期的提醒生成收件箱通知，提醒只触发一次；已归档的笔记在恢复后再提醒
+async function sendDueReminders(db: D1Database, now: number): Promise<void> {
+  const due = await db.prepare(`
+    SELECT id, creator_id, remind_ts
+    FROM memo
+    WHERE remind_ts IS NOT NULL AND remind_ts <= ? AND row_status = ?
+    ORDER BY remind_ts ASC
+    LIMIT ?
+  `).bind(now, 'NORMAL', SCHEDULE_BATCH_SIZE).all();
+
+  for (const memo of (due.results || []) as any[]) {
+    const result = await db.prepare(
+      'UPDATE memo SET remind_ts = NULL WHERE id = ? AND remind_ts = ?'
+    ).bind(memo.id, memo.remind_ts).run();
+    if (!result.meta.changes) continue;
+
+    await notifyMemoReminder(db, memo.creator_id, memo.id);
+  }
+}
+
+// 处理所有到期的定时发布和提醒
+export async function processScheduledMemos(db: D1Database): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  await publishDueMemos(db, now);
+  await sendDueReminders(db, now);
+}
@@ -0,0 +1,200 @@
+// 全文搜索服务：解析 content_search 关键词，生成基于 memo_fts（FTS5 trigram 分词）的查询条件和高亮摘要
+
+// trigram 分词下少于 3 个字符的关键词无法使用索引，回退为 LIKE 匹配
+const FTS_MIN_TERM_LENGTH = 3;
+// 摘要中高亮片段的标记，前端按此拆分渲染
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+const SNIPPET_ELLIPSIS = '…';
+// FTS5 snippet() 的最大词元数，以及回退摘要在命中位置前后保留的字符数
+const SNIPPET_MAX_TOKENS = 32;
+const SNIPPET_CONTEXT_CHARS = 40;
+
+// 搜索关键词
+// "-word" 表示排除，"word*" 表示前缀匹配，包含空格的关键词按短语匹配
+export interface SearchTerm {
+  text: string;
+  negated: boolean;
+  prefix: boolean;
+}
+
+// 拼接到列表查询中的搜索条件，where 以 " AND " 开头
+export interface SearchQuery {
+  join: string;
+  where: string;
+  params: string[];
+  // 有索引关键词时按 bm25 排序并由 FTS5 生成摘要，否则为 null
+  snippetColumn: string | null;
+  orderBy: string | null;
+  // 仅用于生成回退摘要的正向关键词
+  highlightTerms: string[];
+}
+
+// 单独拼接的 SQL 条件，用于嵌入 OR / NOT 等表达式中
+export interface SearchCondition {
+  sql: string;
+  params: string[];
+}
+
+// 解析单个关键词，无效时返回 null
+export function parseSearchTerm(word: string): SearchTerm | null {
+  let text = String(word).trim();
+  let negated = false;
+  let prefix = false;
+
+  if (text.startsWith('-')) {
+    negated = true;
+    text = text.slice(1);
+  }
+  if (text.endsWith('*')) {
+    prefix = true;
+    text = text.replace(/\*+$/, '');
+  }
+  text = text.replace(/"/g, '').trim();
+
+  return text ? { text, negated, prefix } : null;
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// FTS5 查询中的字符串一律加引号，避免用户输入被当作查询语法
+function quoteFTSTerm(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// 前缀匹配：trigram 索引只能按子串匹配，这里额外要求关键词出现在内容开头或空白之后
+function buildPrefixCondition(term: SearchTerm, params: string[]): string {
+  const escaped = escapeLikePattern(term.text);
+  params.push(`${escaped}%`, `% ${escaped}%`, `%\n${escaped}%`);
+  return `(m.content LIKE ? ESCAPE '\\' OR m.content LIKE ? ESCAPE '\\' OR m.content LIKE ? ESCAPE '\\')`;
+}
+
+interface SearchTermConditions {
+  conditions: string[];
+  params: string[];
+  // 需要走索引的正向关键词（已加引号）
+  matchTerms: string[];
+  highlightTerms: string[];
+}
+
+function parseSearchTerms(words: string[]): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const seen = new Set<string>();
+  for (const word of words) {
+    const term = parseSearchTerm(word);
+    if (!term) continue;
+    const key = `${term.negated ? '-' : ''}${term.text.toLowerCase()}${term.prefix ? '*' : ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    terms.push(term);
+  }
+  return terms;
+}
+
+// 生成除正向索引匹配以外的全部条件：短关键词的 LIKE、前缀约束以及排除关键词的子查询
+function buildTermConditions(words: string[]): SearchTermConditions {
+  const terms = parseSearchTerms(words);
+  const conditions: string[] = [];
+  const params: string[] = [];
+  const matchTerms: string[] = [];
+  const excludeTerms: string[] = [];
+
+  for (const term of terms) {
+    const indexed = [...term.text].length >= FTS_MIN_TERM_LENGTH;
+
+    if (term.negated) {
+      if (indexed) {
+        excludeTerms.push(quoteFTSTerm(term.text));
+      } else {
+        conditions.push(`m.content NOT LIKE ? ESCAPE '\\'`);
+        params.push(`%${escapeLikePattern(term.text)}%`);
+      }
+      continue;
+    }
+
+    if (indexed) {
+      matchTerms.push(quoteFTSTerm(term.text));
+    } else {
+      conditions.push(`m.content LIKE ? ESCAPE '\\'`);
+      params.push(`%${escapeLikePattern(term.text)}%`);
+    }
+    if (term.prefix) {
+      conditions.push(buildPrefixCondition(term, params));
+    }
+  }
+
+  if (excludeTerms.length > 0) {
+    conditions.push('m.id NOT IN (SELECT rowid FROM memo_fts WHERE memo_fts MATCH ?)');
+    params.push(excludeTerms.join(' OR '));
+  }
+
+  return {
+    conditions,
+    params,
+    matchTerms,
+    highlightTerms: terms.filter((term) => !term.negated).map((term) => term.text),
+  };
+}
+
+// 根据关键词生成列表查询条件
+// 正向关键词合并为一个 MATCH 表达式（FTS5 每次查询只能使用一个 MATCH），通过 JOIN 参与 bm25 排序和摘要生成
+export function buildSearchQuery(words: string[]): SearchQuery {
+  const { conditions, params, matchTerms, highlightTerms } = buildTermConditions(words);
+  const where = conditions.map((condition) => ` AND ${condition}`).join('');
+
+  if (matchTerms.length === 0) {
+    return {
+      join: '',
+      where,
+      params,
+      snippetColumn: null,
+      orderBy: null,
+      highlightTerms,
+    };
+  }
+
+  // MATCH 条件放在最前面，保证参数顺序与 SQL 中占位符一致
+  return {
+    join: 'JOIN memo_fts ON memo_fts.rowid = m.id',
+    where: ` AND memo_fts MATCH ?${where}`,
+    params: [matchTerms.join(' AND '), ...params],
+    snippetColumn: `snippet(memo_fts, 0, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '${SNIPPET_ELLIPSIS}', ${SNIPPET_MAX_TOKENS})`,
+    orderBy: 'bm25(memo_fts)',
+    highlightTerms: [],
+  };
+}
+
+// 根据关键词生成独立的条件（不参与排序），正向索引匹配改用子查询
+export function buildSearchCondition(words: string[]): SearchCondition {
+  const { conditions, params, matchTerms } = buildTermConditions(words);
+  if (matchTerms.length > 0) {
+    conditions.unshift('m.id IN (SELECT rowid FROM memo_fts WHERE memo_fts MATCH ?)');
+    params.unshift(matchTerms.join(' AND '));
+  }
+  return {
+    sql: conditions.length > 0 ? conditions.join(' AND ') : '1 = 1',
+    params,
+  };
+}
+
+// 在没有 FTS5 摘要时（只有短关键词）按第一个命中位置截取摘要并高亮
+export function buildHighlightedSnippet(content: string, terms: string[]): string {
+  const needles = terms.map((term) => term.toLowerCase()).filter(Boolean);
+  if (!content || needles.length === 0) return '';
+
+  const lowerContent = content.toLowerCase();
+  const firstIndex = Math.min(...needles.map((needle) => {
+    const index = lowerContent.indexOf(needle);
+    return index === -1 ? Infinity : index;
+  }));
+  if (firstIndex === Infinity) return '';
+
+  const start = Math.max(0, firstIndex - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(content.length, firstIndex + SNIPPET_CONTEXT_CHARS * 2);
+  const excerpt = content.slice(start, end);
+  const pattern = new RegExp(needles.map((needle) => needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi');
+
+  return `${start > 0 ? SNIPPET_ELLIPSIS : ''}${excerpt.replace(pattern, (match) => `${HIGHLIGHT_OPEN}${match}${HIGHLIGHT_CLOSE}`)}${end < content.length ? SNIPPET_ELLIPSIS : ''}`;
+}
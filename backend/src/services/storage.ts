@@ -0,0 +1,339 @@
+// 存储驱动：把附件文件的读写统一为 put/get/head/delete/presign，资源记录的 external_link 以前缀区分文件所在的存储：
+// r2://{key} 为 R2 绑定，database://{uid} 为 resource.blob 列，s3://{key} 为 STORAGE 设置中配置的 S3 兼容存储
+import { Env } from '../types';
+import { S3Client } from './s3';
+import { StorageSetting, UploadTooLargeError } from './upload-policy';
+
+export type StorageType = 'R2' | 'DATABASE' | 'S3';
+
+type StorageEnv = Pick<Env, 'DB' | 'R2'>;
+
+// D1 单行（含 BLOB）的大小上限约为 2MB
+export const DATABASE_MAX_BLOB_SIZE = 2 * 1000 * 1000;
+
+// 预签名下载地址的有效期（秒），跳转响应的缓存时间需要小于该值
+const PRESIGN_EXPIRES_IN = 60 * 60;
+const PRESIGN_REDIRECT_MAX_AGE = 10 * 60;
+
+const LINK_PREFIXES: Record<StorageType, string> = {
+  R2: 'r2://',
+  DATABASE: 'database://',
+  S3: 's3://',
+};
+
+export interface StorageFile {
+  uid: string;
+  filename: string;
+}
+
+export interface StorageObject {
+  body: ReadableStream<Uint8Array> | Uint8Array;
+  size: number;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  type: StorageType;
+  // 写入文件，返回保存到 resource.external_link 的链接
+  put(file: StorageFile, data: Uint8Array, contentType: string): Promise<string>;
+  // 文件不存在时返回 null
+  get(link: string): Promise<StorageObject | null>;
+  head(link: string): Promise<{ size: number; contentType: string } | null>;
+  delete(link: string): Promise<void>;
+  // 返回可直接下载的临时地址，不支持时返回 null，由 Worker 代理下载
+  presign(link: string, expiresIn: number): Promise<string | null>;
+}
+
+// 存储未配置或配置无效
+export class StorageConfigError extends Error {}
+
+function getObjectKey(file: StorageFile): string {
+  return `${file.uid}/${file.filename}`;
+}
+
+// D1 返回的 BLOB 可能是 ArrayBuffer 或数字数组
+function toUint8Array(blob: unknown): Uint8Array {
+  return blob instanceof ArrayBuffer ? new Uint8Array(blob) : new Uint8Array(blob as ArrayLike<number>);
+}
+
+function createR2Driver(bucket: R2Bucket): StorageDriver {
+  const prefix = LINK_PREFIXES.R2;
+  const toKey = (link: string) => link.slice(prefix.length);
+
+  return {
+    type: 'R2',
+    async put(file, data, contentType) {
+      const key = getObjectKey(file);
+      await bucket.put(key, data, { httpMetadata: { contentType } });
+      return `${prefix}${key}`;
+    },
+    async get(link) {
+      const object = await bucket.get(toKey(link));
+      if (!object) return null;
+      return {
+        body: object.body as ReadableStream<Uint8Array>,
+        size: object.size,
+        contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+      };
+    },
+    async head(link) {
+      const object = await bucket.head(toKey(link));
+      if (!object) return null;
+      return { size: object.size, contentType: object.httpMetadata?.contentType || 'application/octet-stream' };
+    },
+    async delete(link) {
+      await bucket.delete(toKey(link));
+    },
+    async presign() {
+      return null;
+    },
+  };
+}
+
+// 文件内容保存在资源记录的 blob 列中，写入前资源记录必须已经存在
+function createDatabaseDriver(db: D1Database): StorageDriver {
+  const prefix = LINK_PREFIXES.DATABASE;
+  const toUid = (link: string) => link.slice(prefix.length);
+
+  return {
+    type: 'DATABASE',
+    async put(file, data) {
+      if (data.length > DATABASE_MAX_BLOB_SIZE) {
+        throw new UploadTooLargeError('File too large for database storage. Maximum size is 2MB.');
+      }
+      const result = await db.prepare(
+        'UPDATE resource SET blob = ? WHERE uid = ?'
+      ).bind(data.slice().buffer, file.uid).run();
+      if (!result.meta.changes) {
+        throw new Error(`Resource ${file.uid} not found`);
+      }
+      return `${prefix}${file.uid}`;
+    },
+    async get(link) {
+      const row = await db.prepare(
+        'SELECT blob, type FROM resource WHERE uid = ? AND blob IS NOT NULL'
+      ).bind(toUid(link)).first();
+      if (!row) return null;
+      const data = toUint8Array(row.blob);
+      return { body: data, size: data.length, contentType: (row.type as string) || 'application/octet-stream' };
+    },
+    async head(link) {
+      const row = await db.prepare(
+        'SELECT length(blob) AS size, type FROM resource WHERE uid = ? AND blob IS NOT NULL'
+      ).bind(toUid(link)).first();
+      if (!row) return null;
+      return { size: row.size as number, contentType: (row.type as string) || 'application/octet-stream' };
+    },
+    async delete(link) {
+      await db.prepare('UPDATE resource SET blob = NULL WHERE uid = ?').bind(toUid(link)).run();
+    },
+    async presign() {
+      return null;
+    },
+  };
+}
+
+function createS3Driver(client: S3Client): StorageDriver {
+  const prefix = LINK_PREFIXES.S3;
+  const toKey = (link: string) => link.slice(prefix.length);
+
+  return {
+    type: 'S3',
+    async put(file, data, contentType) {
+      const key = getObjectKey(file);
+      await client.putObject(key, data, contentType);
+      return `${prefix}${key}`;
+    },
+    async get(link) {
+      const response = await client.getObject(toKey(link));
+      if (!response || !response.body) return null;
+      return {
+        body: response.body as ReadableStream<Uint8Array>,
+        size: parseInt(response.headers.get('Content-Length') || '0') || 0,
+        contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+      };
+    },
+    async head(link) {
+      return client.headObject(toKey(link));
+    },
+    async delete(link) {
+      await client.deleteObject(toKey(link));
+    },
+    async presign(link, expiresIn) {
+      return client.presignGetObject(toKey(link), expiresIn);
+    },
+  };
+}
+
+// 设置中的存储类型，LOCAL 等 Worker 不支持的类型与旧版本一样使用 R2
+export function resolveStorageType(setting: StorageSetting): StorageType {
+  return setting.storageType === 'DATABASE' || setting.storageType === 'S3' ? setting.storageType : 'R2';
+}
+
+export function getStorageTypeFromLink(link: string | null | undefined): StorageType | null {
+  if (!link) return null;
+  const entry = Object.entries(LINK_PREFIXES).find(([, prefix]) => link.startsWith(prefix));
+  return entry ? (entry[0] as StorageType) : null;
+}
+
+export function getStorageDriver(env: StorageEnv, type: StorageType, setting: StorageSetting): StorageDriver {
+  switch (type) {
+    case 'DATABASE':
+      return createDatabaseDriver(env.DB);
+    case 'S3':
+      if (!setting.s3Config) {
+        throw new StorageConfigError('S3 storage not configured');
+      }
+      return createS3Driver(new S3Client(setting.s3Config));
+    default:
+      if (!env.R2) {
+        throw new StorageConfigError('R2 bucket not configured');
+      }
+      return createR2Driver(env.R2);
+  }
+}
+
+// 按链接前缀选择驱动，无法识别的链接（例如外部链接）返回 null
+export function getStorageDriverForLink(env: StorageEnv, link: string | null | undefined, setting: StorageSetting): StorageDriver | null {
+  const type = getStorageTypeFromLink(link);
+  return type ? getStorageDriver(env, type, setting) : null;
+}
+
+// 读取文件的全部内容
+export async function readStorageObject(object: StorageObject): Promise<Uint8Array> {
+  return object.body instanceof Uint8Array ? object.body : new Uint8Array(await new Response(object.body).arrayBuffer());
+}
+
+// 创建资源记录并写入文件，文件写入失败时删除记录；返回新资源的 ID 和链接
+export async function createStoredResource(
+  env: StorageEnv,
+  setting: StorageSetting,
+  resource: { uid: string; creatorId: number; filename: string; type: string; data: Uint8Array; createdTs: number },
+): Promise<{ id: number; externalLink: string }> {
+  const driver = getStorageDriver(env, resolveStorageType(setting), setting);
+  const db = env.DB;
+
+  const inserted = await db.prepare(`
+    INSERT INTO resource (uid, creator_id, filename, type, size, external_link, created_ts, updated_ts)
+    VALUES (?, ?, ?, ?, ?, '', ?, ?)
+    RETURNING id
+  `).bind(
+    resource.uid,
+    resource.creatorId,
+    resource.filename,
+    resource.type,
+    resource.data.length,
+    resource.createdTs,
+    resource.createdTs,
+  ).first();
+  const id = inserted!.id as number;
+
+  let externalLink: string;
+  try {
+    externalLink = await driver.put(resource, resource.data, resource.type);
+  } catch (error) {
+    await db.prepare('DELETE FROM resource WHERE id = ?').bind(id).run();
+    throw error;
+  }
+
+  await db.prepare('UPDATE resource SET external_link = ? WHERE id = ?').bind(externalLink, id).run();
+  return { id, externalLink };
+}
+
+// 生成资源的下载响应：支持预签名的存储返回跳转，其余由 Worker 读取后返回；文件不存在时返回 null
+// 外部链接（http/https）的资源直接跳转到该链接，其他无法识别的链接视为文件不存在
+export async function createResourceResponse(
+  env: StorageEnv,
+  setting: StorageSetting,
+  resource: { external_link?: unknown; filename?: unknown; type?: unknown },
+): Promise<Response | null> {
+  const link = resource.external_link as string | null;
+  const driver = getStorageDriverForLink(env, link, setting);
+  if (!driver) {
+    if (link && /^https?:\/\//i.test(link)) {
+      return new Response(null, { status: 302, headers: { Location: link } });
+    }
+    return null;
+  }
+
+  const presignedUrl = await driver.presign(link!, PRESIGN_EXPIRES_IN);
+  if (presignedUrl) {
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: presignedUrl,
+        'Cache-Control': `private, max-age=${PRESIGN_REDIRECT_MAX_AGE}`,
+      },
+    });
+  }
+
+  const object = await driver.get(link!);
+  if (!object) return null;
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': (resource.type as string) || object.contentType,
+      'Content-Length': object.size.toString(),
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(resource.filename as string)}`,
+      'Cache-Control': 'public, max-age=31536000', // 1 year cache
+    },
+  });
+}
+
+export interface StorageMigrationResult {
+  migrated: number;
+  failed: { uid: string; message: string }[];
+  // 为 null 时表示已处理完全部资源
+  nextAfterId: number | null;
+}
+
+// 把不在当前存储中的资源移动到设置中的存储，按 ID 分批处理，客户端重复调用直到 nextAfterId 为 null
+// 新文件写入并更新链接后才删除旧文件，中途失败时资源仍指向原来的文件
+export async function migrateResources(
+  env: StorageEnv,
+  setting: StorageSetting,
+  afterId: number,
+  limit: number,
+): Promise<StorageMigrationResult> {
+  const db = env.DB;
+  const targetType = resolveStorageType(setting);
+  const targetDriver = getStorageDriver(env, targetType, setting);
+
+  const rows = await db.prepare(`
+    SELECT id, uid, filename, type, external_link FROM resource
+    WHERE id > ? ORDER BY id LIMIT ?
+  `).bind(afterId, limit).all();
+  const resources = (rows.results || []) as any[];
+
+  const result: StorageMigrationResult = { migrated: 0, failed: [], nextAfterId: null };
+  for (const resource of resources) {
+    const sourceType = getStorageTypeFromLink(resource.external_link);
+    if (!sourceType || sourceType === targetType) continue;
+
+    try {
+      const sourceDriver = getStorageDriver(env, sourceType, setting);
+      const object = await sourceDriver.get(resource.external_link);
+      if (!object) {
+        throw new Error('File not found');
+      }
+
+      const data = await readStorageObject(object);
+      const externalLink = await targetDriver.put(resource, data, resource.type || object.contentType);
+      const updated = await db.prepare(
+        'UPDATE resource SET external_link = ? WHERE id = ? AND external_link = ?'
+      ).bind(externalLink, resource.id, resource.external_link).run();
+
+      // 资源在迁移过程中被其他请求修改时保留原文件
+      if (updated.meta.changes) {
+        await sourceDriver.delete(resource.external_link);
+        result.migrated++;
+      }
+    } catch (error: any) {
+      console.error(`Failed to migrate resource ${resource.uid}:`, error);
+      result.failed.push({ uid: resource.uid, message: error.message || 'Unknown error' });
+    }
+  }
+
+  result.nextAfterId = resources.length === limit ? resources[resources.length - 1].id : null;
+  return result;
+}
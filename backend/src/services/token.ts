@@ -0,0 +1,319 @@
+// 令牌服务：统一的 JWT 签发/校验、短期访问令牌 + 轮换刷新令牌，以及基于 session 表的会话管理
+import { v4 as uuidv4 } from 'uuid';
+import { isAccessToken, verifyAccessToken } from './access-token';
+
+// 访问令牌有效期（秒）
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// 刷新令牌（会话）有效期（秒），每次刷新都会顺延
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+// last_active_ts 的最小更新间隔（秒），避免每个请求都写数据库
+const SESSION_ACTIVE_UPDATE_INTERVAL = 60;
+
+// 会话访问令牌的载荷，sid 对应 session.uid
+export interface TokenPayload {
+  sub: string;
+  username: string;
+  role: string;
+  sid?: string;
+  iat: number;
+  exp: number;
+}
+
+// 签发给客户端的一组令牌
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: string;
+}
+
+// 创建会话时记录的设备信息
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+async function importHmacKey(secret: string, usages: string[]): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    usages
+  );
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// HMAC-SHA256 签名（base64url 编码）
+export async function hmacSHA256(data: string, secret: string): Promise<string> {
+  const key = await importHmacKey(secret, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+// 校验 hmacSHA256 生成的签名，以常量时间比较
+export async function verifyHmacSHA256(data: string, signature: string, secret: string): Promise<boolean> {
+  try {
+    const key = await importHmacKey(secret, ['verify']);
+    return await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), encoder.encode(data));
+  } catch {
+    return false;
+  }
+}
+
+// 是否配置了 JWT 密钥
+export function isJWTSecretConfigured(env: { JWT_SECRET?: string }): boolean {
+  return !!env.JWT_SECRET && env.JWT_SECRET.trim().length > 0;
+}
+
+// 获取 JWT 密钥，未配置时直接报错，不再使用默认密钥
+export function getJWTSecret(env: { JWT_SECRET?: string }): string {
+  if (!isJWTSecretConfigured(env)) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return env.JWT_SECRET as string;
+}
+
+// JWT 签名
+export async function signJWT(payload: TokenPayload, secret: string): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const data = `${header}.${body}`;
+  return `${data}.${await hmacSHA256(data, secret)}`;
+}
+
+// JWT 校验，签名比较由 WebCrypto 以常量时间完成
+export async function verifyJWT(token: string, secret: string): Promise<TokenPayload | null> {
+  try {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+
+    const decodedHeader = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)));
+    if (decodedHeader.alg !== 'HS256') return null;
+
+    const key = await importHmacKey(secret, ['verify']);
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!isValid) return null;
+
+    const decodedPayload = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as TokenPayload;
+
+    // 检查过期时间
+    if (!decodedPayload.exp || decodedPayload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return decodedPayload;
+  } catch {
+    return null;
+  }
+}
+
+function generateRefreshToken(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function issueAccessToken(secret: string, user: any, sessionUid: string): Promise<{ accessToken: string; expiresTs: number }> {
+  const now = Math.floor(Date.now() / 1000);
+  const expiresTs = now + ACCESS_TOKEN_TTL_SECONDS;
+  const accessToken = await signJWT({
+    sub: user.uid,
+    username: user.username,
+    role: user.role,
+    sid: sessionUid,
+    iat: now,
+    exp: expiresTs,
+  }, secret);
+  return { accessToken, expiresTs };
+}
+
+// 登录成功后创建会话，返回访问令牌和刷新令牌
+export async function createSession(
+  db: D1Database,
+  secret: string,
+  user: any,
+  clientInfo: SessionClientInfo = {}
+): Promise<SessionTokens> {
+  const now = Math.floor(Date.now() / 1000);
+  const sessionUid = uuidv4();
+  const refreshToken = generateRefreshToken();
+
+  // 顺便清理该用户已过期的会话
+  await db.prepare('DELETE FROM session WHERE user_id = ? AND expires_ts < ?').bind(user.id, now).run();
+  await db.prepare(`
+    INSERT INTO session (uid, user_id, refresh_token_hash, user_agent, ip_address, created_ts, last_active_ts, expires_ts)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    sessionUid,
+    user.id,
+    await sha256Hex(refreshToken),
+    clientInfo.userAgent || null,
+    clientInfo.ipAddress || null,
+    now,
+    now,
+    now + REFRESH_TOKEN_TTL_SECONDS
+  ).run();
+
+  const { accessToken, expiresTs } = await issueAccessToken(secret, user, sessionUid);
+  return {
+    accessToken,
+    refreshToken,
+    accessTokenExpiresAt: new Date(expiresTs * 1000).toISOString(),
+  };
+}
+
+// 使用刷新令牌换取新的令牌对，刷新令牌每次使用后轮换
+// 已轮换掉的旧刷新令牌再次出现时视为泄露，直接注销整个会话
+export async function refreshSession(
+  db: D1Database,
+  secret: string,
+  refreshToken: string,
+  clientInfo: SessionClientInfo = {}
+): Promise<SessionTokens | null> {
+  const now = Math.floor(Date.now() / 1000);
+  const tokenHash = await sha256Hex(refreshToken);
+
+  const session = await db.prepare(`
+    SELECT s.*, u.uid AS user_uid, u.username, u.role, u.row_status
+    FROM session s
+    JOIN user u ON s.user_id = u.id
+    WHERE s.refresh_token_hash = ? OR s.previous_refresh_token_hash = ?
+  `).bind(tokenHash, tokenHash).first();
+
+  if (!session) return null;
+
+  if (session.refresh_token_hash !== tokenHash) {
+    console.warn('⚠️ Refresh token reuse detected, revoking session:', session.uid);
+    await db.prepare('DELETE FROM session WHERE id = ?').bind(session.id).run();
+    return null;
+  }
+
+  if ((session.expires_ts as number) < now || session.row_status !== 'NORMAL') {
+    await db.prepare('DELETE FROM session WHERE id = ?').bind(session.id).run();
+    return null;
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  const result = await db.prepare(`
+    UPDATE session
+    SET refresh_token_hash = ?, previous_refresh_token_hash = ?, user_agent = COALESCE(?, user_agent),
+        ip_address = COALESCE(?, ip_address), last_active_ts = ?, expires_ts = ?
+    WHERE id = ? AND refresh_token_hash = ?
+  `).bind(
+    await sha256Hex(nextRefreshToken),
+    tokenHash,
+    clientInfo.userAgent || null,
+    clientInfo.ipAddress || null,
+    now,
+    now + REFRESH_TOKEN_TTL_SECONDS,
+    session.id,
+    tokenHash
+  ).run();
+
+  // 并发刷新时只有一个请求能成功轮换
+  if (!result.meta.changes) return null;
+
+  const user = { uid: session.user_uid, username: session.username, role: session.role };
+  const { accessToken, expiresTs } = await issueAccessToken(secret, user, session.uid as string);
+  return {
+    accessToken,
+    refreshToken: nextRefreshToken,
+    accessTokenExpiresAt: new Date(expiresTs * 1000).toISOString(),
+  };
+}
+
+// 校验会话访问令牌：签名、过期时间，以及会话是否仍然有效（已注销的会话和已归档的用户立即失效）
+// 角色以数据库为准，角色变更后无需等待访问令牌过期
+export async function verifySessionToken(db: D1Database, secret: string, token: string): Promise<TokenPayload | null> {
+  const payload = await verifyJWT(token, secret);
+  if (!payload || !payload.sid) return null;
+
+  const session = await db.prepare(`
+    SELECT s.id, s.last_active_ts, s.expires_ts, u.role, u.row_status
+    FROM session s
+    JOIN user u ON s.user_id = u.id
+    WHERE s.uid = ?
+  `).bind(payload.sid).first();
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!session || (session.expires_ts as number) < now || session.row_status !== 'NORMAL') return null;
+
+  if (now - (session.last_active_ts as number) >= SESSION_ACTIVE_UPDATE_INTERVAL) {
+    await db.prepare(
+      'UPDATE session SET last_active_ts = ? WHERE id = ?'
+    ).bind(now, session.id).run();
+  }
+
+  return { ...payload, role: session.role as string };
+}
+
+// 校验 Bearer 令牌：个人访问令牌查库校验，其余按会话访问令牌校验
+export async function authenticateToken(
+  env: { DB: D1Database; JWT_SECRET?: string },
+  token: string
+): Promise<TokenPayload | null> {
+  if (isAccessToken(token)) {
+    return verifyAccessToken(env.DB, token);
+  }
+  return verifySessionToken(env.DB, getJWTSecret(env), token);
+}
+
+// 注销指定会话
+export async function revokeSession(db: D1Database, userId: number, sessionUid: string): Promise<boolean> {
+  const result = await db.prepare(
+    'DELETE FROM session WHERE uid = ? AND user_id = ?'
+  ).bind(sessionUid, userId).run();
+  return result.meta.changes > 0;
+}
+
+// 注销用户的全部会话（在所有设备上退出登录）
+export async function revokeAllSessions(db: D1Database, userId: number): Promise<number> {
+  const result = await db.prepare(
+    'DELETE FROM session WHERE user_id = ?'
+  ).bind(userId).run();
+  return result.meta.changes;
+}
+
+// 从请求中提取设备信息
+export function getSessionClientInfo(req: { header: (name: string) => string | undefined }): SessionClientInfo {
+  return {
+    userAgent: req.header('User-Agent')?.slice(0, 512),
+    ipAddress: req.header('CF-Connecting-IP') || req.header('X-Forwarded-For')?.split(',')[0].trim(),
+  };
+}
+
+// 转换数据库行为前端使用的 UserSession 格式
+export function formatSession(row: any, currentSessionUid?: string) {
+  return {
+    name: `users/${row.user_id}/sessions/${row.uid}`,
+    sessionId: row.uid,
+    userAgent: row.user_agent || '',
+    ipAddress: row.ip_address || '',
+    current: row.uid === currentSessionUid,
+    createTime: new Date(row.created_ts * 1000).toISOString(),
+    lastActiveTime: new Date(row.last_active_ts * 1000).toISOString(),
+    expireTime: new Date(row.expires_ts * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,111 @@
+// 回收站服务：彻底删除笔记和资源，并由 Cron Trigger 定期清理超过保留天数的回收站内容
+import { Env } from '../types';
+import { getStorageDriver, getStorageTypeFromLink } from './storage';
+import { getStorageSetting } from './upload-policy';
+
+// 未配置 trashRetentionDays 时回收站内容的保留天数，设置为 0 表示不自动清理
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 每次定时任务最多清理的笔记数和资源数，剩余的留到下一次执行
+const TRASH_PURGE_BATCH_SIZE = 100;
+
+// 读取 MEMO_RELATED 设置中的回收站保留天数
+export async function getTrashRetentionDays(db: D1Database): Promise<number> {
+  const setting = await db.prepare(
+    'SELECT setting_data FROM workspace_setting WHERE name = ?'
+  ).bind('settings/MEMO_RELATED').first();
+  if (!setting) return DEFAULT_TRASH_RETENTION_DAYS;
+
+  try {
+    const days = JSON.parse(setting.setting_data as string)?.memoRelatedSetting?.trashRetentionDays;
+    return typeof days === 'number' && days >= 0 ? Math.floor(days) : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+// 笔记及其全部评论（递归）的 ID：评论失去父笔记后不再被列表排除，会作为普通笔记出现，因此与父笔记一起彻底删除
+const MEMO_THREAD_IDS = `
+  WITH RECURSIVE thread(id) AS (
+    SELECT value FROM json_each(?)
+    UNION
+    SELECT mr.memo_id FROM memo_relation mr JOIN thread t ON mr.related_memo_id = t.id WHERE mr.type = 'COMMENT'
+  )
+  SELECT id FROM thread
+`;
+
+export async function findMemoThreadIds(db: D1Database, memoIds: number[]): Promise<number[]> {
+  if (memoIds.length === 0) return [];
+  const rows = await db.prepare(MEMO_THREAD_IDS).bind(JSON.stringify(memoIds)).all();
+  return ((rows.results || []) as any[]).map((row) => row.id as number);
+}
+
+// 彻底删除一组笔记的语句，显式清理关联表中的记录（不依赖外键级联），笔记 ID 以 JSON 数组绑定
+export function buildPurgeMemoStatements(db: D1Database, memoIds: number[]): D1PreparedStatement[] {
+  const ids = JSON.stringify(memoIds);
+  const inIds = 'SELECT value FROM json_each(?)';
+  return [
+    db.prepare(`DELETE FROM memo_resource WHERE memo_id IN (${inIds})`).bind(ids),
+    db.prepare(`DELETE FROM memo_tag WHERE memo_id IN (${inIds})`).bind(ids),
+    db.prepare(`DELETE FROM memo_relation WHERE memo_id IN (${inIds}) OR related_memo_id IN (${inIds})`).bind(ids, ids),
+    db.prepare(`DELETE FROM memo_reaction WHERE memo_id IN (${inIds})`).bind(ids),
+    db.prepare(`DELETE FROM memo_revision WHERE memo_id IN (${inIds})`).bind(ids),
+    db.prepare(`DELETE FROM memo WHERE id IN (${inIds})`).bind(ids),
+  ];
+}
+
+// 彻底删除笔记及其全部评论（包括其他用户的评论）
+export async function purgeMemo(db: D1Database, memoId: number): Promise<void> {
+  await db.batch(buildPurgeMemoStatements(db, await findMemoThreadIds(db, [memoId])));
+}
+
+// 彻底删除资源：先删除存储中的文件，失败时抛出异常并保留数据库记录，便于之后重试
+// database:// 的文件随资源记录一起删除，不需要单独处理
+export async function purgeResource(env: Pick<Env, 'DB' | 'R2'>, resource: { id: number; external_link?: string | null }): Promise<void> {
+  const storageType = getStorageTypeFromLink(resource.external_link);
+  if (storageType && storageType !== 'DATABASE') {
+    const driver = getStorageDriver(env, storageType, await getStorageSetting(env.DB));
+    await driver.delete(resource.external_link!);
+  }
+
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM memo_resource WHERE resource_id = ?').bind(resource.id),
+    env.DB.prepare('DELETE FROM resource WHERE id = ?').bind(resource.id),
+  ]);
+}
+
+// 清理在回收站中超过保留天数的笔记和资源
+export async function purgeExpiredTrash(env: Env): Promise<void> {
+  const retentionDays = await getTrashRetentionDays(env.DB);
+  if (retentionDays === 0) return;
+
+  const expiredBefore = Math.floor(Date.now() / 1000) - retentionDays * 24 * 60 * 60;
+
+  const memos = await env.DB.prepare(`
+    SELECT id FROM memo
+    WHERE row_status = ? AND deleted_ts <= ?
+    ORDER BY deleted_ts ASC
+    LIMIT ?
+  `).bind('DELETED', expiredBefore, TRASH_PURGE_BATCH_SIZE).all();
+
+  for (const memo of (memos.results || []) as any[]) {
+    await purgeMemo(env.DB, memo.id);
+    console.log(`🗑️ Purged memo ${memo.id} from trash`);
+  }
+
+  const resources = await env.DB.prepare(`
+    SELECT id, external_link FROM resource
+    WHERE row_status = ? AND deleted_ts <= ?
+    ORDER BY deleted_ts ASC
+    LIMIT ?
+  `).bind('DELETED', expiredBefore, TRASH_PURGE_BATCH_SIZE).all();
+
+  for (const resource of (resources.results || []) as any[]) {
+    try {
+      await purgeResource(env, resource);
+      console.log(`🗑️ Purged resource ${resource.id} from trash`);
+    } catch (error) {
+      console.error(`Failed to purge resource ${resource.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+// 上传策略服务：读取 STORAGE 设置中的单文件大小上限、MIME 类型允许/禁止列表和每个用户的存储配额，
+// 在写入附件前统一检查，普通上传和导入共用
+import { S3Config } from './s3';
+
+export const DEFAULT_UPLOAD_SIZE_LIMIT_MB = 32;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface StorageSetting {
+  storageType: string;
+  filepathTemplate: string;
+  uploadSizeLimitMb: number;
+  // 为空时允许所有类型，支持 image/* 这样的通配
+  allowedMimeTypes: string[];
+  deniedMimeTypes: string[];
+  // 每个用户的存储配额，0 表示不限制
+  userStorageQuotaMb: number;
+  // 存储类型为 S3 时使用，未配置 endpoint 或 bucket 时为 null
+  s3Config: S3Config | null;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  uploadSizeLimitBytes: number;
+}
+
+// 文件或存储配额超出上限，对应 413
+export class UploadTooLargeError extends Error {}
+
+// 文件类型不在允许范围内，对应 415
+export class UnsupportedMediaTypeError extends Error {}
+
+function toNonNegativeNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function toS3Config(value: unknown): S3Config | null {
+  if (!value || typeof value !== 'object') return null;
+  const config = value as Record<string, unknown>;
+  const toString = (field: unknown) => (typeof field === 'string' ? field.trim() : '');
+  if (!toString(config.endpoint) || !toString(config.bucket)) return null;
+  return {
+    endpoint: toString(config.endpoint),
+    region: toString(config.region),
+    bucket: toString(config.bucket),
+    accessKeyId: toString(config.accessKeyId),
+    accessKeySecret: toString(config.accessKeySecret),
+    usePathStyle: config.usePathStyle === true,
+  };
+}
+
+function toMimeTypeList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// 读取 STORAGE 设置，缺失或无效的字段使用默认值
+export async function getStorageSetting(db: D1Database): Promise<StorageSetting> {
+  const row = await db.prepare(
+    'SELECT setting_data FROM workspace_setting WHERE name = ?'
+  ).bind('settings/STORAGE').first();
+
+  let setting: Record<string, unknown> = {};
+  if (row) {
+    try {
+      const data = JSON.parse(row.setting_data as string);
+      setting = data?.storageSetting || {};
+    } catch (error) {
+      console.error('Error parsing storage setting:', error);
+    }
+  }
+
+  const uploadSizeLimitMb = toNonNegativeNumber(setting.uploadSizeLimitMb, DEFAULT_UPLOAD_SIZE_LIMIT_MB);
+  return {
+    storageType: typeof setting.storageType === 'string' ? setting.storageType : 'R2',
+    filepathTemplate: typeof setting.filepathTemplate === 'string' ? setting.filepathTemplate : '{{filename}}',
+    uploadSizeLimitMb: uploadSizeLimitMb > 0 ? uploadSizeLimitMb : DEFAULT_UPLOAD_SIZE_LIMIT_MB,
+    allowedMimeTypes: toMimeTypeList(setting.allowedMimeTypes),
+    deniedMimeTypes: toMimeTypeList(setting.deniedMimeTypes),
+    userStorageQuotaMb: toNonNegativeNumber(setting.userStorageQuotaMb, 0),
+    s3Config: toS3Config(setting.s3Config),
+  };
+}
+
+// 匹配 MIME 类型，pattern 支持 * 、*/* 和 image/* 形式的通配
+function matchesMimeType(type: string, pattern: string): boolean {
+  if (pattern === '*' || pattern === '*/*') return true;
+  if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+  return type === pattern;
+}
+
+export function isMimeTypeAllowed(setting: StorageSetting, mimeType: string): boolean {
+  const type = mimeType.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+  if (setting.deniedMimeTypes.some((pattern) => matchesMimeType(type, pattern))) return false;
+  if (setting.allowedMimeTypes.length === 0) return true;
+  return setting.allowedMimeTypes.some((pattern) => matchesMimeType(type, pattern));
+}
+
+// 用户已使用的存储空间，回收站中的资源在彻底删除前仍然占用配额
+export async function getUserStorageUsage(db: D1Database, userId: number): Promise<number> {
+  const row = await db.prepare(
+    'SELECT COALESCE(SUM(size), 0) AS used FROM resource WHERE creator_id = ?'
+  ).bind(userId).first();
+  return (row?.used as number) || 0;
+}
+
+export async function getStorageUsage(db: D1Database, userId: number, setting: StorageSetting): Promise<StorageUsage> {
+  return {
+    usedBytes: await getUserStorageUsage(db, userId),
+    quotaBytes: setting.userStorageQuotaMb * BYTES_PER_MB,
+    uploadSizeLimitBytes: setting.uploadSizeLimitMb * BYTES_PER_MB,
+  };
+}
+
+// 检查文件是否可以上传，不满足时抛出 UploadTooLargeError 或 UnsupportedMediaTypeError
+// 配额检查与写入之间没有加锁，并发上传时可能略微超出配额
+export async function assertUploadAllowed(
+  db: D1Database,
+  userId: number,
+  file: { size: number; type: string },
+  setting: StorageSetting,
+): Promise<void> {
+  if (file.size > setting.uploadSizeLimitMb * BYTES_PER_MB) {
+    throw new UploadTooLargeError(`File too large. Maximum size is ${setting.uploadSizeLimitMb}MB.`);
+  }
+
+  if (!isMimeTypeAllowed(setting, file.type)) {
+    throw new UnsupportedMediaTypeError(`File type ${file.type || 'unknown'} is not allowed.`);
+  }
+
+  if (setting.userStorageQuotaMb > 0) {
+    const usedBytes = await getUserStorageUsage(db, userId);
+    if (usedBytes + file.size > setting.userStorageQuotaMb * BYTES_PER_MB) {
+      throw new UploadTooLargeError(`Storage quota exceeded. Your quota is ${setting.userStorageQuotaMb}MB.`);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// 用户管理：角色层级（HOST > ADMIN > USER），以及删除用户时把内容转移给其他用户或彻底清除
+import { Env } from '../types';
+import { buildPurgeMemoStatements, findMemoThreadIds, purgeResource } from './trash';
+
+// 可以通过接口创建或分配的角色，HOST 只在首次安装时创建
+export const ASSIGNABLE_ROLES = ['ADMIN', 'USER'];
+
+// 可以通过接口设置的用户状态，ARCHIVED 的用户无法登录，其公开笔记也不再展示
+export const USER_ROW_STATUSES = ['NORMAL', 'ARCHIVED'];
+
+// HOST 和 ADMIN 可以管理成员和审核笔记
+export function isSuperUser(role: string | undefined): boolean {
+  return role === 'HOST' || role === 'ADMIN';
+}
+
+// HOST 可以管理其他所有用户，ADMIN 只能管理普通用户
+export function canManageUser(actorRole: string, targetRole: string): boolean {
+  if (actorRole === 'HOST') return targetRole !== 'HOST';
+  return actorRole === 'ADMIN' && targetRole === 'USER';
+}
+
+// 转换数据库行为前端使用的用户格式（不包括密码哈希）
+export function formatUser(row: any) {
+  return {
+    id: row.id,
+    uid: row.uid,
+    username: row.username,
+    nickname: row.nickname,
+    role: row.role,
+    email: row.email,
+    avatarUrl: row.avatar_url,
+    description: row.description,
+    rowStatus: row.row_status,
+    createdTs: row.created_ts,
+    updatedTs: row.updated_ts,
+  };
+}
+
+// 删除用户：指定 reassignTo 时把笔记、附件、标签和编辑历史转移给该用户；
+// 否则先逐个删除附件文件（失败时抛出异常、用户保留，可以重试），再删除全部笔记及其评论（包括其他用户的评论），
+// 仍被其他用户笔记使用的标签转移给 tagOwnerId，避免这些笔记丢失标签
+// 设置、会话、令牌、Webhook、表情回应和通知等随用户记录级联删除
+export async function deleteUser(
+  env: Pick<Env, 'DB' | 'R2'>,
+  userId: number,
+  options: { reassignTo?: number; tagOwnerId: number },
+): Promise<void> {
+  const db = env.DB;
+
+  if (options.reassignTo !== undefined) {
+    await db.batch([
+      db.prepare('UPDATE memo SET creator_id = ? WHERE creator_id = ?').bind(options.reassignTo, userId),
+      db.prepare('UPDATE resource SET creator_id = ? WHERE creator_id = ?').bind(options.reassignTo, userId),
+      db.prepare('UPDATE tag SET creator_id = ? WHERE creator_id = ?').bind(options.reassignTo, userId),
+      db.prepare('UPDATE memo_revision SET creator_id = ? WHERE creator_id = ?').bind(options.reassignTo, userId),
+      db.prepare('DELETE FROM user WHERE id = ?').bind(userId),
+    ]);
+    return;
+  }
+
+  const resources = await db.prepare(
+    'SELECT id, external_link FROM resource WHERE creator_id = ?'
+  ).bind(userId).all();
+  for (const resource of (resources.results || []) as any[]) {
+    await purgeResource(env, resource);
+  }
+
+  // 其他用户对这些笔记的评论一并删除，否则评论会作为普通笔记出现在列表中
+  const userMemos = await db.prepare('SELECT id FROM memo WHERE creator_id = ?').bind(userId).all();
+  const memoIds = await findMemoThreadIds(db, ((userMemos.results || []) as any[]).map((memo) => memo.id as number));
+  await db.batch([
+    db.prepare(`
+      UPDATE tag SET creator_id = ?
+      WHERE creator_id = ? AND id IN (
+        SELECT tag_id FROM memo_tag WHERE memo_id NOT IN (SELECT value FROM json_each(?))
+      )
+    `).bind(options.tagOwnerId, userId, JSON.stringify(memoIds)),
+    ...buildPurgeMemoStatements(db, memoIds),
+    db.prepare('DELETE FROM user WHERE id = ?').bind(userId),
+  ]);
+}
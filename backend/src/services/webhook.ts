@@ -0,0 +1,248 @@
+// Webhook 分发服务：在 memo 变更时向用户配置的 webhook 地址发送 POST 请求
+import { hmacSHA256 } from './token';
+
+// webhook 事件类型，与原版 Memos 保持一致
+export const WebhookActivityType = {
+  MEMO_CREATED: 'memos.memo.created',
+  MEMO_UPDATED: 'memos.memo.updated',
+  MEMO_DELETED: 'memos.memo.deleted',
+} as const;
+
+export type WebhookActivityType = typeof WebhookActivityType[keyof typeof WebhookActivityType];
+
+// 投递状态
+export const WebhookDeliveryStatus = {
+  PENDING: 'PENDING',
+  SUCCESS: 'SUCCESS',
+  RETRYING: 'RETRYING',
+  FAILED: 'FAILED',
+} as const;
+
+// 单次请求超时时间（毫秒）
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// 最大投递次数（含首次投递）
+const WEBHOOK_MAX_ATTEMPTS = 5;
+// 重试基础间隔（秒），按 2^n 指数退避：1分钟、2分钟、4分钟、8分钟
+const WEBHOOK_RETRY_BASE_SECONDS = 60;
+// 响应内容最多保存的字符数
+const RESPONSE_SNIPPET_LENGTH = 512;
+// 每次定时任务最多重试的投递数
+const RETRY_BATCH_SIZE = 50;
+
+// 生成 webhook 签名密钥
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 转换数据库行为前端使用的 Webhook 格式（对应 webhook_service.ts 中的 Webhook）
+export function formatWebhook(row: any, includeSecret = false) {
+  return {
+    id: row.id,
+    creator: `users/${row.creator_id}`,
+    name: row.name,
+    url: row.url,
+    ...(includeSecret && { secret: row.secret }),
+    createTime: new Date(row.created_ts * 1000).toISOString(),
+    updateTime: new Date(row.updated_ts * 1000).toISOString(),
+  };
+}
+
+// 转换投递记录为前端格式
+export function formatWebhookDelivery(row: any) {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    activityType: row.activity_type,
+    status: row.status,
+    attempt: row.attempt,
+    statusCode: row.status_code,
+    latencyMs: row.latency_ms,
+    responseSnippet: row.response_snippet || '',
+    error: row.error || '',
+    nextRetryTime: row.next_retry_ts ? new Date(row.next_retry_ts * 1000).toISOString() : undefined,
+    createTime: new Date(row.created_ts * 1000).toISOString(),
+    updateTime: new Date(row.updated_ts * 1000).toISOString(),
+  };
+}
+
+// 将 getMemoWithDetails 返回的 memo 转换为 protobuf Memo 格式
+function formatMemoForPayload(memo: any) {
+  return {
+    name: `memos/${memo.id}`,
+    uid: memo.uid,
+    creator: `users/${memo.creatorId}`,
+    content: memo.content || '',
+    visibility: memo.visibility,
+    // NORMAL、ARCHIVED 或 DELETED（回收站中），MEMO_DELETED 事件的笔记为 DELETED
+    state: memo.rowStatus || 'NORMAL',
+    pinned: Boolean(memo.pinned),
+    tags: memo.tags || [],
+    resources: memo.resources || [],
+    relations: memo.relations || [],
+    reactions: memo.reactions || [],
+    snippet: memo.snippet || '',
+    location: memo.location,
+    createTime: new Date(memo.createdTs * 1000).toISOString(),
+    updateTime: new Date(memo.updatedTs * 1000).toISOString(),
+    displayTime: new Date(memo.createdTs * 1000).toISOString(),
+  };
+}
+
+// 构建 webhook 请求体（对应 webhook_service.ts 中的 WebhookRequestPayload）
+export function buildWebhookPayload(webhook: any, activityType: WebhookActivityType, memo: any) {
+  return {
+    url: webhook.url,
+    activityType,
+    creator: `users/${memo.creatorId}`,
+    createTime: new Date().toISOString(),
+    memo: formatMemoForPayload(memo),
+  };
+}
+
+// 计算下一次重试时间，超过最大次数返回 null
+function getNextRetryTs(attempt: number, now: number): number | null {
+  if (attempt >= WEBHOOK_MAX_ATTEMPTS) return null;
+  return now + WEBHOOK_RETRY_BASE_SECONDS * Math.pow(2, attempt - 1);
+}
+
+// 执行一次投递并记录结果
+async function attemptDelivery(db: D1Database, webhook: any, delivery: any): Promise<boolean> {
+  const attempt = (delivery.attempt as number) + 1;
+  const body = delivery.payload as string;
+  const startedAt = Date.now();
+
+  let statusCode: number | null = null;
+  let responseSnippet = '';
+  let errorMessage = '';
+
+  try {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'memos-cloudflare-webhook',
+      'X-Memos-Event': delivery.activity_type,
+      'X-Memos-Delivery': String(delivery.id),
+    };
+    if (webhook.secret) {
+      headers['X-Memos-Signature'] = `sha256=${await hmacSHA256(body, webhook.secret)}`;
+    }
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    statusCode = response.status;
+    responseSnippet = (await response.text().catch(() => '')).slice(0, RESPONSE_SNIPPET_LENGTH);
+    if (!response.ok) {
+      errorMessage = `Webhook responded with status ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const latencyMs = Date.now() - startedAt;
+  const now = Math.floor(Date.now() / 1000);
+  const success = !errorMessage;
+  const nextRetryTs = success ? null : getNextRetryTs(attempt, now);
+  const status = success
+    ? WebhookDeliveryStatus.SUCCESS
+    : nextRetryTs ? WebhookDeliveryStatus.RETRYING : WebhookDeliveryStatus.FAILED;
+
+  await db.prepare(`
+    UPDATE webhook_delivery
+    SET status = ?, attempt = ?, status_code = ?, latency_ms = ?, response_snippet = ?, error = ?, next_retry_ts = ?, updated_ts = ?
+    WHERE id = ?
+  `).bind(status, attempt, statusCode, latencyMs, responseSnippet, errorMessage || null, nextRetryTs, now, delivery.id).run();
+
+  if (success) {
+    console.log(`✅ Webhook ${webhook.id} delivery ${delivery.id} succeeded (${latencyMs}ms)`);
+  } else {
+    console.error(`❌ Webhook ${webhook.id} delivery ${delivery.id} attempt ${attempt} failed: ${errorMessage}`);
+  }
+
+  return success;
+}
+
+// 创建投递记录并立即投递
+export async function createAndDeliver(db: D1Database, webhook: any, activityType: string, payload: string) {
+  const now = Math.floor(Date.now() / 1000);
+  const result = await db.prepare(`
+    INSERT INTO webhook_delivery (webhook_id, activity_type, payload, status, attempt, created_ts, updated_ts)
+    VALUES (?, ?, ?, ?, 0, ?, ?)
+  `).bind(webhook.id, activityType, payload, WebhookDeliveryStatus.PENDING, now, now).run();
+
+  const delivery = await db.prepare(
+    'SELECT * FROM webhook_delivery WHERE id = ?'
+  ).bind(result.meta.last_row_id).first();
+
+  await attemptDelivery(db, webhook, delivery);
+
+  return db.prepare('SELECT * FROM webhook_delivery WHERE id = ?').bind(result.meta.last_row_id).first();
+}
+
+// 分发 memo 事件到 memo 创建者的所有 webhook
+export async function dispatchMemoWebhooks(db: D1Database, activityType: WebhookActivityType, memo: any): Promise<void> {
+  if (!memo) return;
+
+  const webhooks = await db.prepare(
+    'SELECT * FROM webhook WHERE creator_id = ?'
+  ).bind(memo.creatorId).all();
+
+  const list = webhooks.results || [];
+  if (list.length === 0) return;
+
+  console.log(`🪝 Dispatching ${activityType} for memo ${memo.id} to ${list.length} webhook(s)`);
+
+  await Promise.all(list.map(async (webhook: any) => {
+    try {
+      const payload = JSON.stringify(buildWebhookPayload(webhook, activityType, memo));
+      await createAndDeliver(db, webhook, activityType, payload);
+    } catch (error) {
+      // 单个 webhook 失败不影响其他 webhook
+      console.error(`❌ Webhook ${webhook.id} dispatch error:`, error);
+    }
+  }));
+}
+
+// 在后台执行 webhook 分发，不阻塞 memo 写入的响应
+export function scheduleMemoWebhooks(c: any, activityType: WebhookActivityType, memo: any): void {
+  const task = dispatchMemoWebhooks(c.env.DB, activityType, memo).catch((error) => {
+    console.error('Dispatch webhooks error:', error);
+  });
+
+  try {
+    c.executionCtx.waitUntil(task);
+  } catch {
+    // 没有 ExecutionContext（如本地测试环境）时直接在后台运行
+  }
+}
+
+// 重试到期的失败投递（由 Cron Trigger 调用）
+export async function retryDueWebhookDeliveries(db: D1Database): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const due = await db.prepare(`
+    SELECT d.*, w.url as webhook_url, w.secret as webhook_secret
+    FROM webhook_delivery d
+    JOIN webhook w ON d.webhook_id = w.id
+    WHERE d.status = ? AND d.next_retry_ts <= ?
+    ORDER BY d.next_retry_ts ASC
+    LIMIT ?
+  `).bind(WebhookDeliveryStatus.RETRYING, now, RETRY_BATCH_SIZE).all();
+
+  const list = due.results || [];
+  if (list.length === 0) return;
+
+  console.log(`🔁 Retrying ${list.length} webhook deliveries`);
+
+  for (const delivery of list as any[]) {
+    try {
+      const webhook = { id: delivery.webhook_id, url: delivery.webhook_url, secret: delivery.webhook_secret };
+      await attemptDelivery(db, webhook, delivery);
+    } catch (error) {
+      console.error(`❌ Retry webhook delivery ${delivery.id} error:`, error);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// 工作区 GENERAL 设置中后端需要遵守的选项，缺失或无效的字段使用默认值
+// 设置在每个 Worker 实例内缓存 GENERAL_SETTING_CACHE_TTL_MS，登录和修改资料时不必每次查询；
+// 本实例保存设置时立即失效，其他实例最迟在缓存过期后生效
+export interface GeneralSetting {
+  disallowUserRegistration: boolean;
+  disallowPasswordAuth: boolean;
+  disallowChangeUsername: boolean;
+  disallowChangeNickname: boolean;
+}
+
+const GENERAL_SETTING_CACHE_TTL_MS = 30 * 1000;
+
+let cachedGeneralSetting: { setting: GeneralSetting; expiresAt: number } | null = null;
+
+async function loadGeneralSetting(db: D1Database): Promise<GeneralSetting> {
+  const row = await db.prepare(
+    'SELECT setting_data FROM workspace_setting WHERE name = ?'
+  ).bind('settings/GENERAL').first();
+
+  let setting: Record<string, unknown> = {};
+  if (row) {
+    try {
+      setting = JSON.parse(row.setting_data as string)?.generalSetting || {};
+    } catch (error) {
+      console.error('Error parsing general setting:', error);
+    }
+  }
+
+  return {
+    disallowUserRegistration: setting.disallowUserRegistration === true,
+    disallowPasswordAuth: setting.disallowPasswordAuth === true,
+    disallowChangeUsername: setting.disallowChangeUsername === true,
+    disallowChangeNickname: setting.disallowChangeNickname === true,
+  };
+}
+
+export async function getGeneralSetting(db: D1Database): Promise<GeneralSetting> {
+  const now = Date.now();
+  if (cachedGeneralSetting && cachedGeneralSetting.expiresAt > now) {
+    return cachedGeneralSetting.setting;
+  }
+
+  const setting = await loadGeneralSetting(db);
+  cachedGeneralSetting = { setting, expiresAt: now + GENERAL_SETTING_CACHE_TTL_MS };
+  return setting;
+}
+
+export function invalidateGeneralSettingCache(): void {
+  cachedGeneralSetting = null;
+}
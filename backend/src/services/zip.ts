@@ -0,0 +1,268 @@
+// ZIP 服务：以流的方式生成不压缩（STORED）的 ZIP 文件，以及读取导入时上传的 ZIP 文件
+// 生成时每个文件先写本地文件头，再写内容，最后用数据描述符（data descriptor）补充 CRC 和大小，
+// 因此可以直接把 R2 的文件流写入压缩包。不支持 ZIP64，单个压缩包不能超过 4GB 或 65535 个文件。
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | ReadableStream<Uint8Array>;
+  modifiedAt?: Date;
+}
+
+interface CentralDirectoryRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const ZIP_MAX_SIZE = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+// 通用标志位：bit 3 表示使用数据描述符，bit 11 表示文件名为 UTF-8 编码
+const ZIP_FLAGS = 0x0808;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i;
+    for (let j = 0; j < 8; j++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+// 转换为 ZIP 使用的 MS-DOS 日期和时间格式
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+async function* readChunks(data: Uint8Array | ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  if (data instanceof Uint8Array) {
+    yield data;
+    return;
+  }
+
+  const reader = data.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* writeZip(entries: AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const { time, date } = toDosDateTime(entry.modifiedAt || new Date());
+
+    const header = new Uint8Array(30 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x04034b50, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, ZIP_FLAGS, true);
+    headerView.setUint16(8, 0, true);
+    headerView.setUint16(10, time, true);
+    headerView.setUint16(12, date, true);
+    // CRC 和大小写在数据描述符中，这里保持为 0
+    headerView.setUint16(26, name.length, true);
+    header.set(name, 30);
+    yield header;
+
+    let crc = 0xffffffff;
+    let size = 0;
+    for await (const chunk of readChunks(entry.data)) {
+      crc = updateCrc32(crc, chunk);
+      size += chunk.length;
+      yield chunk;
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+
+    const descriptor = new Uint8Array(16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, 0x08074b50, true);
+    descriptorView.setUint32(4, crc, true);
+    descriptorView.setUint32(8, size, true);
+    descriptorView.setUint32(12, size, true);
+    yield descriptor;
+
+    records.push({ name, crc, size, offset, time, date });
+    offset += header.length + size + descriptor.length;
+    if (offset > ZIP_MAX_SIZE || records.length > ZIP_MAX_ENTRIES) {
+      throw new Error('Archive exceeds the ZIP size or entry limit');
+    }
+  }
+
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+  for (const record of records) {
+    const entry = new Uint8Array(46 + record.name.length);
+    const view = new DataView(entry.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, 20, true);
+    view.setUint16(8, ZIP_FLAGS, true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, record.time, true);
+    view.setUint16(14, record.date, true);
+    view.setUint32(16, record.crc, true);
+    view.setUint32(20, record.size, true);
+    view.setUint32(24, record.size, true);
+    view.setUint16(28, record.name.length, true);
+    view.setUint32(42, record.offset, true);
+    entry.set(record.name, 46);
+    centralDirectorySize += entry.length;
+    yield entry;
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, records.length, true);
+  endView.setUint16(10, records.length, true);
+  endView.setUint32(12, centralDirectorySize, true);
+  endView.setUint32(16, centralDirectoryOffset, true);
+  yield end;
+}
+
+// 把文件列表打包为 ZIP 文件流，文件按需读取，读取失败时流会以错误结束
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = writeZip(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+// ZIP 中央目录里的一个文件
+export interface ZipDirectoryEntry {
+  name: string;
+  // 本地文件头在压缩包中的偏移
+  offset: number;
+  compressedSize: number;
+  size: number;
+  // 0 为 STORED，8 为 DEFLATE
+  method: number;
+  modifiedAt: Date;
+}
+
+// 读取单个文件所需的信息，导入任务中保存这部分以便之后按范围读取 R2 中的压缩包
+export type ZipEntryLocation = Pick<ZipDirectoryEntry, 'offset' | 'compressedSize' | 'method'>;
+
+// 本地文件头的固定部分长度，之后是文件名和扩展字段
+export const ZIP_LOCAL_HEADER_SIZE = 30;
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(Date.UTC(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ));
+}
+
+// 读取中央目录，返回压缩包中的文件列表（不含目录）
+export function readZipDirectory(archive: Uint8Array): ZipDirectoryEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+
+  // 中央目录结束记录位于文件末尾，之后最多跟 65535 字节的注释
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Invalid ZIP archive');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipDirectoryEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Invalid ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        offset: view.getUint32(offset + 42, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        size: view.getUint32(offset + 24, true),
+        method: view.getUint16(offset + 10, true),
+        modifiedAt: fromDosDateTime(view.getUint16(offset + 12, true), view.getUint16(offset + 14, true)),
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// 根据本地文件头计算文件内容的起始位置（相对本地文件头）
+export function getZipEntryDataOffset(localHeader: Uint8Array): number {
+  const view = new DataView(localHeader.buffer, localHeader.byteOffset, localHeader.byteLength);
+  if (view.getUint32(0, true) !== 0x04034b50) {
+    throw new Error('Invalid ZIP local file header');
+  }
+  return ZIP_LOCAL_HEADER_SIZE + view.getUint16(26, true) + view.getUint16(28, true);
+}
+
+// 解压单个文件的内容
+export async function inflateZipEntry(entry: ZipEntryLocation, compressed: Uint8Array): Promise<Uint8Array> {
+  if (entry.method === 0) {
+    return compressed;
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  }
+
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// 从内存中的压缩包读取单个文件
+export async function readZipEntry(archive: Uint8Array, entry: ZipEntryLocation): Promise<Uint8Array> {
+  const dataOffset = entry.offset + getZipEntryDataOffset(archive.subarray(entry.offset, entry.offset + ZIP_LOCAL_HEADER_SIZE));
+  return inflateZipEntry(entry, archive.subarray(dataOffset, dataOffset + entry.compressedSize));
+}
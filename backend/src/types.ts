@@ -11,6 +11,7 @@ export interface Env {
   R2?: R2Bucket;
   BASE_URL: string;
   LOG_LEVEL?: string;
+  PASSWORD_HASH_ITERATIONS?: string;  // PBKDF2 迭代次数，默认 100000（Workers 上限）
 }
 
 // 用户JWT载荷类型
@@ -30,13 +31,15 @@ export interface Variables {
 // 用户角色枚举
 export enum UserRole {
   HOST = 'HOST',
+  ADMIN = 'ADMIN',
   USER = 'USER'
 }
 
 // 行状态枚举
 export enum RowStatus {
   NORMAL = 'NORMAL',
-  ARCHIVED = 'ARCHIVED'
+  ARCHIVED = 'ARCHIVED',
+  DELETED = 'DELETED'
 }
 
 // 笔记可见性枚举
@@ -1,88 +1,123 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { JWTPayload, UserRole } from './types';
+import {
+  extractTagsFromNodes,
+  getChildNodes,
+  getMemoPropertyFromNodes,
+  Node,
+  NodeType,
+  parseMarkdown,
+  restoreMarkdownNodes,
+  stringifyMarkdownNodes,
+} from '../../shared/markdown';
 
-// JWT 相关工具函数
-export class JWT {
+// 密码哈希工具
+// 存储格式：pbkdf2_sha256$<迭代次数>$<盐 base64>$<哈希 base64>
+// 旧版本存储的是无盐 SHA-256 的 hex 摘要，仍可校验，登录成功后自动升级
+export class Password {
   private static encoder = new TextEncoder();
+  private static readonly ALGORITHM = 'pbkdf2_sha256';
+  private static readonly SALT_BYTES = 16;
+  private static readonly KEY_BYTES = 32;
+  // Cloudflare Workers 的 PBKDF2 最多支持 100000 次迭代
+  static readonly MAX_ITERATIONS = 100000;
+  static readonly DEFAULT_ITERATIONS = 100000;
 
-  // 生成 JWT Token
-  static async sign(payload: JWTPayload, secret: string): Promise<string> {
-    const header = {
-      alg: 'HS256',
-      typ: 'JWT'
-    };
-
-    const encodedHeader = btoa(JSON.stringify(header)).replace(/[=]/g, '');
-    const encodedPayload = btoa(JSON.stringify(payload)).replace(/[=]/g, '');
-    
-    const data = `${encodedHeader}.${encodedPayload}`;
-    const signature = await this.hmacSHA256(data, secret);
-    
-    return `${data}.${signature}`;
+  // 从环境变量读取迭代次数，非法值使用默认值
+  static getIterations(env?: { PASSWORD_HASH_ITERATIONS?: string }): number {
+    const iterations = parseInt(env?.PASSWORD_HASH_ITERATIONS || '');
+    if (isNaN(iterations) || iterations < 1) {
+      return this.DEFAULT_ITERATIONS;
+    }
+    return Math.min(iterations, this.MAX_ITERATIONS);
   }
 
-  // 验证并解析 JWT Token
-  static async verify(token: string, secret: string): Promise<JWTPayload | null> {
+  // 生成密码哈希
+  static async hash(password: string, iterations: number = this.DEFAULT_ITERATIONS): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(this.SALT_BYTES));
+    const derived = await this.pbkdf2(password, salt, iterations);
+    return `${this.ALGORITHM}$${iterations}$${this.toBase64(salt)}$${this.toBase64(derived)}`;
+  }
+
+  // 验证密码
+  static async verify(password: string, hash: string): Promise<boolean> {
+    if (!hash) return false;
+
+    if (this.isLegacyHash(hash)) {
+      const digest = await crypto.subtle.digest('SHA-256', this.encoder.encode(password));
+      return this.timingSafeEqual(new Uint8Array(digest), this.fromHex(hash.toLowerCase()));
+    }
+
+    const parts = hash.split('$');
+    if (parts.length !== 4 || parts[0] !== this.ALGORITHM) return false;
+
+    const iterations = parseInt(parts[1]);
+    if (isNaN(iterations) || iterations < 1 || iterations > this.MAX_ITERATIONS) return false;
+
     try {
-      const [header, payload, signature] = token.split('.');
-      if (!header || !payload || !signature) return null;
-
-      const data = `${header}.${payload}`;
-      const expectedSignature = await this.hmacSHA256(data, secret);
-      
-      if (signature !== expectedSignature) return null;
-
-      const decoded = JSON.parse(atob(payload)) as JWTPayload;
-      
-      // 检查过期时间
-      if (decoded.exp && decoded.exp < Math.floor(Date.now() / 1000)) {
-        return null;
-      }
-      
-      return decoded;
+      const salt = this.fromBase64(parts[2]);
+      const expected = this.fromBase64(parts[3]);
+      const derived = await this.pbkdf2(password, salt, iterations, expected.length * 8);
+      return this.timingSafeEqual(derived, expected);
     } catch {
-      return null;
+      return false;
     }
   }
 
-  // HMAC-SHA256 签名
-  private static async hmacSHA256(data: string, secret: string): Promise<string> {
+  // 判断哈希是否需要升级（旧格式或迭代次数与当前配置不同）
+  static needsRehash(hash: string, iterations: number = this.DEFAULT_ITERATIONS): boolean {
+    if (this.isLegacyHash(hash)) return true;
+    const parts = hash.split('$');
+    return parts[0] !== this.ALGORITHM || parseInt(parts[1]) !== iterations;
+  }
+
+  private static isLegacyHash(hash: string): boolean {
+    return /^[0-9a-f]{64}$/i.test(hash);
+  }
+
+  private static async pbkdf2(
+    password: string,
+    salt: Uint8Array,
+    iterations: number,
+    bits: number = this.KEY_BYTES * 8
+  ): Promise<Uint8Array> {
     const key = await crypto.subtle.importKey(
       'raw',
-      this.encoder.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
+      this.encoder.encode(password),
+      'PBKDF2',
       false,
-      ['sign']
+      ['deriveBits']
     );
-    
-    const signature = await crypto.subtle.sign(
-      'HMAC',
+
+    const derived = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
       key,
-      this.encoder.encode(data)
+      bits
     );
-    
-    return btoa(String.fromCharCode(...new Uint8Array(signature)))
-      .replace(/[=]/g, '');
+
+    return new Uint8Array(derived);
   }
-}
 
-// 密码哈希工具
-export class Password {
-  // 生成密码哈希
-  static async hash(password: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  // 常量时间比较，避免通过响应时间推测哈希
+  private static timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
   }
 
-  // 验证密码
-  static async verify(password: string, hash: string): Promise<boolean> {
-    const hashedPassword = await this.hash(password);
-    return hashedPassword === hash;
+  private static toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+  }
+
+  private static fromBase64(value: string): Uint8Array {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  }
+
+  private static fromHex(value: string): Uint8Array {
+    return Uint8Array.from(value.match(/.{2}/g) || [], (byte) => parseInt(byte, 16));
   }
 }
 
@@ -186,70 +221,83 @@ export function log(level: string, message: string, data?: any): void {
   console.log(`[${timestamp}] ${level.toUpperCase()}: ${message}${logData}`);
 }
 
-// 标签提取工具
+// 标签提取工具：只提取 Markdown 中的标签节点，代码块和行内代码中的 #xxx 不算标签
 export function extractTagsFromContent(content: string): string[] {
-  // 匹配 #标签 格式，支持中文、英文、数字、下划线、连字符
-  const tagRegex = /#([^\s#]+)/g;
-  const tags = new Set<string>();
-  
-  let match;
-  while ((match = tagRegex.exec(content)) !== null) {
-    const tag = match[1];
-    // 过滤掉纯数字或过短的标签
-    if (tag.length >= 2 && !/^\d+$/.test(tag)) {
-      tags.add(tag);
+  // 过滤掉纯数字或过短的标签
+  return extractTagsFromNodes(parseMarkdown(content)).filter((tag) => tag.length >= 2 && !/^\d+$/.test(tag));
+}
+
+// 笔记摘要的最大字符数
+const MEMO_SNIPPET_LENGTH = 100;
+
+// 生成笔记摘要：去掉 Markdown 标记后截取开头部分
+export function buildMemoSnippet(content: string): string {
+  if (!content) return '';
+  return stringifyMarkdownNodes(parseMarkdown(content)).trim().slice(0, MEMO_SNIPPET_LENGTH);
+}
+
+// memo 表中的内容属性列，顺序与 computeMemoPropertyValues 的返回值一致
+export const MEMO_PROPERTY_COLUMNS = ['has_link', 'has_task_list', 'has_code', 'has_incomplete_tasks', 'has_image'] as const;
+
+// 根据内容计算属性列的值（0/1），在创建或修改内容时一并写入
+export function computeMemoPropertyValues(content: string): number[] {
+  const property = getMemoPropertyFromNodes(parseMarkdown(content || ''));
+  return [
+    property.hasLink,
+    property.hasTaskList,
+    property.hasCode,
+    property.hasIncompleteTasks,
+    property.hasImage,
+  ].map((value) => (value ? 1 : 0));
+}
+
+// 替换内容中的标签：oldTag 本身及其子标签（#oldTag/child）都会被处理，newTag 为 null 时删除标签
+// 基于语法树修改标签节点后还原，代码块、行内代码和链接中的内容不受影响
+export function replaceTagInContent(content: string, oldTag: string, newTag: string | null): string {
+  let changed = false;
+  const replaceInNodes = (nodes: Node[]) => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const node = nodes[i];
+      const tag = node.type === NodeType.TAG ? node.tagNode!.content : null;
+      if (tag !== null && (tag === oldTag || tag.startsWith(`${oldTag}/`))) {
+        if (newTag === null) {
+          nodes.splice(i, 1);
+        } else {
+          node.tagNode!.content = `${newTag}${tag.slice(oldTag.length)}`;
+        }
+        changed = true;
+      } else {
+        replaceInNodes(getChildNodes(node));
+      }
     }
-  }
-  
-  return Array.from(tags);
-}
-
-// 创建标签（如果不存在）
-export async function createTagIfNotExists(db: any, creatorId: number, tagName: string): Promise<number> {
-  // 检查标签是否已存在
-  const existingTag = await db.prepare(
-    'SELECT id FROM tag WHERE name = ? AND creator_id = ?'
-  ).bind(tagName, creatorId).first();
-  
-  if (existingTag) {
-    return existingTag.id;
-  }
-  
-  // 创建新标签
+  };
+
+  const nodes = parseMarkdown(content);
+  replaceInNodes(nodes);
+  return changed ? restoreMarkdownNodes(nodes) : content;
+}
+
+// 生成同步 memo 标签关联的语句，便于与其他写操作放入同一个 D1 batch
+export function buildMemoTagStatements(db: D1Database, memoId: number, creatorId: number, content: string): D1PreparedStatement[] {
   const now = getCurrentTimestamp();
-  const result = await db.prepare(`
-    INSERT INTO tag (creator_id, name, created_ts) 
-    VALUES (?, ?, ?)
-  `).bind(creatorId, tagName, now).run();
-  
-  if (!result.success) {
-    throw new Error(`Failed to create tag: ${tagName}`);
+  const statements = [
+    db.prepare('DELETE FROM memo_tag WHERE memo_id = ?').bind(memoId),
+  ];
+
+  for (const tagName of extractTagsFromContent(content)) {
+    statements.push(
+      db.prepare('INSERT OR IGNORE INTO tag (creator_id, name, created_ts) VALUES (?, ?, ?)').bind(creatorId, tagName, now),
+      db.prepare(`
+        INSERT OR IGNORE INTO memo_tag (memo_id, tag_id)
+        SELECT ?, id FROM tag WHERE name = ? AND creator_id = ?
+      `).bind(memoId, tagName, creatorId)
+    );
   }
-  
-  return result.meta.last_row_id;
+
+  return statements;
 }
 
 // 更新memo的标签关联
-export async function updateMemoTags(db: any, memoId: number, creatorId: number, content: string): Promise<void> {
-  // 提取内容中的标签
-  const tags = extractTagsFromContent(content);
-  
-  // 删除现有的标签关联
-  await db.prepare('DELETE FROM memo_tag WHERE memo_id = ?').bind(memoId).run();
-  
-  // 为每个标签创建关联
-  for (const tagName of tags) {
-    try {
-      const tagId = await createTagIfNotExists(db, creatorId, tagName);
-      
-      // 创建memo-tag关联
-      await db.prepare(`
-        INSERT INTO memo_tag (memo_id, tag_id) 
-        VALUES (?, ?)
-      `).bind(memoId, tagId).run();
-    } catch (error) {
-      console.error(`Error creating tag ${tagName}:`, error);
-      // 继续处理其他标签，不中断整个流程
-    }
-  }
-} 
\ No newline at end of file
+export async function updateMemoTags(db: D1Database, memoId: number, creatorId: number, content: string): Promise<void> {
+  await db.batch(buildMemoTagStatements(db, memoId, creatorId, content));
+}
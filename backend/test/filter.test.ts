@@ -0,0 +1,208 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { compileMemoFilter, FilterError } from '../src/services/filter';
+import { memoRoutes } from '../src/routes/memo';
+import { createTestEnv, TestEnv } from './helpers/d1';
+
+let env: TestEnv;
+
+// 每条笔记的标签、置顶、可见性和创建时间，用于在本地 D1 上执行编译后的条件
+const SEEDED_MEMOS: Record<string, { tags: string[]; pinned: boolean; visibility: string; createdTs: number }> = {
+  a: { tags: ['work', 'work/project'], pinned: true, visibility: 'PUBLIC', createdTs: 1000 },
+  b: { tags: ['work-log'], pinned: false, visibility: 'PRIVATE', createdTs: 2000 },
+  c: { tags: ['home'], pinned: false, visibility: 'PROTECTED', createdTs: 3000 },
+  d: { tags: ['50%_off'], pinned: false, visibility: 'PUBLIC', createdTs: 4000 },
+  e: { tags: ['500'], pinned: false, visibility: 'PUBLIC', createdTs: 5000 },
+};
+
+async function seedMemos(db: D1Database): Promise<void> {
+  const tagNames = [...new Set(Object.values(SEEDED_MEMOS).flatMap((memo) => memo.tags))];
+  await db.batch([
+    ...Object.entries(SEEDED_MEMOS).map(([key, memo]) => db.prepare(`
+      INSERT INTO memo (uid, creator_id, content, visibility, pinned, created_ts, updated_ts)
+      VALUES (?, 1, ?, ?, ?, ?, ?)
+    `).bind(`filter-${key}`, `memo ${key}`, memo.visibility, memo.pinned ? 1 : 0, memo.createdTs, memo.createdTs)),
+    ...tagNames.map((name) => db.prepare('INSERT INTO tag (name, creator_id) VALUES (?, 1)').bind(name)),
+    ...Object.entries(SEEDED_MEMOS).flatMap(([key, memo]) => memo.tags.map((name) => db.prepare(`
+      INSERT INTO memo_tag (memo_id, tag_id)
+      SELECT m.id, t.id FROM memo m, tag t WHERE m.uid = ? AND t.name = ? AND t.creator_id = 1
+    `).bind(`filter-${key}`, name))),
+  ]);
+}
+
+// 在种子笔记上执行筛选条件，返回匹配的笔记
+async function matchMemos(filter: string): Promise<string[]> {
+  const compiled = compileMemoFilter(filter);
+  const result = await env.DB.prepare(`
+    SELECT m.uid FROM memo m WHERE m.uid LIKE 'filter-%' AND (${compiled.sql}) ORDER BY m.uid
+  `).bind(...compiled.params).all();
+  return (result.results || []).map((row: any) => row.uid.slice('filter-'.length));
+}
+
+function countPlaceholders(sql: string): number {
+  return (sql.match(/\?/g) || []).length;
+}
+
+beforeAll(async () => {
+  env = await createTestEnv();
+  await seedMemos(env.DB);
+});
+
+afterAll(async () => {
+  await env.dispose();
+});
+
+describe('compileMemoFilter', () => {
+  it('returns an empty condition for a blank filter', () => {
+    expect(compileMemoFilter('   ')).toEqual({ sql: '', params: [], searchWords: [] });
+    expect(compileMemoFilter(undefined)).toEqual({ sql: '', params: [], searchWords: [] });
+  });
+
+  it('binds && tighter than ||', async () => {
+    const { sql, params } = compileMemoFilter('pinned || visibility == "PRIVATE" && tag == "home"');
+    expect(sql).toMatch(/^\(m\.pinned = 1\) OR \(\(m\.visibility = \?\) AND \(EXISTS .*\)\)$/);
+    expect(params).toEqual(['PRIVATE', 'home']);
+
+    expect(await matchMemos('pinned || visibility == "PRIVATE" && tag == "home"')).toEqual(['a']);
+    expect(await matchMemos('visibility == "PRIVATE" && tag == "home" || pinned')).toEqual(['a']);
+    expect(await matchMemos('(pinned || visibility == "PRIVATE") && tag == "work-log"')).toEqual(['b']);
+  });
+
+  it('binds ! tighter than && and supports nested negation', async () => {
+    expect(await matchMemos('!pinned && visibility == "PUBLIC"')).toEqual(['d', 'e']);
+    expect(await matchMemos('!(pinned || visibility == "PUBLIC")')).toEqual(['b', 'c']);
+    expect(await matchMemos('!!pinned')).toEqual(['a']);
+    expect(await matchMemos('!(tag in ["home", "work"])')).toEqual(['b', 'd', 'e']);
+  });
+
+  it('compiles boolean comparisons without parameters', async () => {
+    expect(compileMemoFilter('pinned == false')).toEqual({ sql: 'NOT (m.pinned = 1)', params: [], searchWords: [] });
+    expect(compileMemoFilter('pinned != false')).toEqual({ sql: 'm.pinned = 1', params: [], searchWords: [] });
+    expect(await matchMemos('pinned == false')).toEqual(['b', 'c', 'd', 'e']);
+  });
+
+  it('matches any value of an in [...] list', async () => {
+    expect(await matchMemos('visibility in ["PRIVATE", "PROTECTED"]')).toEqual(['b', 'c']);
+    expect(await matchMemos('tag in ["home", "work-log"]')).toEqual(['b', 'c']);
+    expect(await matchMemos('creator_id in [1, 2]')).toHaveLength(5);
+    expect(await matchMemos('creator in ["users/2"]')).toEqual([]);
+  });
+
+  it('compiles an empty in [...] list to a condition that matches nothing', async () => {
+    expect(compileMemoFilter('tag in []')).toEqual({ sql: '0 = 1', params: [], searchWords: [] });
+    expect(await matchMemos('visibility in [] || pinned')).toEqual(['a']);
+  });
+
+  it('matches tags by prefix with LIKE wildcards escaped', async () => {
+    expect(await matchMemos('tag.startsWith("work")')).toEqual(['a', 'b']);
+    expect(await matchMemos('tag.startsWith("work/")')).toEqual(['a']);
+    expect(await matchMemos('tag.startsWith("50%")')).toEqual(['d']);
+    expect(await matchMemos('tag.startsWith("50_")')).toEqual([]);
+    expect(await matchMemos('tag.contains("%_")')).toEqual(['d']);
+    expect(compileMemoFilter('tag.startsWith("50%_")').params).toEqual(['50\\%\\_%']);
+  });
+
+  it('requires every tag for the legacy tag_search syntax', async () => {
+    expect(await matchMemos('tag_search == ["work", "work/project"]')).toEqual(['a']);
+    expect(await matchMemos('tag_search == ["work", "home"]')).toEqual([]);
+  });
+
+  it('compares time fields as unix timestamps', async () => {
+    expect(await matchMemos('create_time >= 2000 && create_time < 4000')).toEqual(['b', 'c']);
+    expect(await matchMemos('display_time_after == 4000')).toEqual(['d', 'e']);
+    expect(await matchMemos('display_time_before == 2000')).toEqual(['a']);
+  });
+
+  it('binds every literal as a parameter', () => {
+    const injection = `x') OR 1=1 --`;
+    const filter = [
+      `tag == "${injection}"`,
+      `tag != 'single x" OR "1"="1'`,
+      `tag in ["${injection}-1", "${injection}-2"]`,
+      `tag.startsWith("${injection}-prefix")`,
+      `tag.contains("${injection}-infix")`,
+      'visibility in ["PUBLIC", "PRIVATE"]',
+      'creator == "users/1"',
+      'creator_id != 7',
+      'update_time > 1234567',
+      `content.contains("${injection}-content")`,
+    ].join(' && ');
+    const { sql, params } = compileMemoFilter(filter);
+
+    expect(sql).not.toContain(injection);
+    expect(sql).not.toContain('"1"="1');
+    expect(sql).not.toContain('PUBLIC');
+    expect(sql).not.toContain('1234567');
+    expect(sql).not.toMatch(/\b7\b/);
+    expect(countPlaceholders(sql)).toBe(params.length);
+    expect(params).toEqual(expect.arrayContaining([
+      injection,
+      'single x" OR "1"="1',
+      `${injection}-1`,
+      `${injection}-2`,
+      'PUBLIC',
+      'PRIVATE',
+      1,
+      7,
+      1234567,
+    ]));
+  });
+
+  it('keeps quotes and escapes inside string literals out of the SQL', async () => {
+    const { sql, params } = compileMemoFilter(`tag == "say \\"hi\\"" || tag == 'it\\'s'`);
+    expect(sql).not.toContain('hi');
+    expect(params).toEqual(['say "hi"', "it's"]);
+    expect(await matchMemos(`tag == "home\\" OR 1=1"`)).toEqual([]);
+  });
+
+  it('extracts top-level content search words when requested', () => {
+    const extracted = compileMemoFilter('content.contains("hello") && pinned', { extractSearch: true });
+    expect(extracted.searchWords).toEqual(['hello']);
+    expect(extracted.sql).toBe('(m.pinned = 1)');
+
+    // 在 || 或 ! 之下的搜索关键词不能提取，只能编译为条件
+    const nested = compileMemoFilter('content.contains("hello") || pinned', { extractSearch: true });
+    expect(nested.searchWords).toEqual([]);
+    expect(nested.params.join(' ')).toContain('hello');
+  });
+});
+
+describe('FilterError', () => {
+  const INVALID_FILTERS: [string, RegExp][] = [
+    ['tag == "unterminated', /Unterminated string at position 7/],
+    ['tag == "a" $', /Unexpected character "\$" at position 11/],
+    ['pinned pinned', /Unexpected "pinned" at position 7/],
+    ['(pinned', /Expected "\)" but found "end of filter"/],
+    ['&& pinned', /Expected a field but found "&&" at position 0/],
+    ['tag.endsWith("a")', /Unsupported method "endsWith"/],
+    ['tag in "a"', /Expected a list after "in"/],
+    ['tag ==', /Expected a value but found "end of filter"/],
+    ['unknown == 1', /Unknown field "unknown"/],
+    ['tag > "a"', /Operator ">" is not supported for field "tag"/],
+    ['content == "a"', /Operator "==" is not supported for field "content"/],
+    ['tag == 1', /Field "tag" expects a string value/],
+    ['create_time > "yesterday"', /Field "create_time" expects a number value/],
+    ['pinned == "yes"', /Field "pinned" expects true or false/],
+    ['visibility == "SECRET"', /Invalid visibility "SECRET"/],
+    ['creator == "bob"', /Field "creator" expects a value like "users\/1"/],
+  ];
+
+  it.each(INVALID_FILTERS)('rejects %s', (filter, message) => {
+    expect(() => compileMemoFilter(filter)).toThrow(FilterError);
+    expect(() => compileMemoFilter(filter)).toThrow(message);
+  });
+
+  it('rejects filters longer than the limit', () => {
+    expect(() => compileMemoFilter(`tag == "${'a'.repeat(5000)}"`)).toThrow('Filter is too long');
+  });
+
+  it('is returned as a 400 by the routes that accept a filter', async () => {
+    for (const [filter, message] of INVALID_FILTERS) {
+      const response = await memoRoutes.request(`/stats?filter=${encodeURIComponent(filter)}`, {}, { DB: env.DB });
+      expect(response.status).toBe(400);
+      expect(((await response.json()) as any).message).toMatch(message);
+    }
+
+    const response = await memoRoutes.request(`/stats?filter=${encodeURIComponent('tag.startsWith("work")')}`, {}, { DB: env.DB });
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,97 @@
+// 测试用的本地 D1 和 R2：由 Miniflare 在内存中创建，D1 导入 schema.sql（包括其中的示例数据）
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Miniflare } from 'miniflare';
+
+export interface TestEnv {
+  DB: D1Database;
+  R2: R2Bucket;
+  dispose: () => Promise<void>;
+}
+
+// 按语句拆分 schema.sql：D1 的 exec 按行执行，触发器中 BEGIN ... END 之间的分号不结束语句
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+  for (const line of sql.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('--')) continue;
+    if (/^CREATE TRIGGER/i.test(trimmed)) inTrigger = true;
+    current.push(line);
+    if (trimmed.endsWith(';') && (!inTrigger || /^END;$/i.test(trimmed))) {
+      statements.push(current.join('\n'));
+      current = [];
+      inTrigger = false;
+    }
+  }
+  return statements;
+}
+
+export async function createTestEnv(): Promise<TestEnv> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+    d1Databases: ['DB'],
+    r2Buckets: ['R2'],
+  });
+  const db = (await mf.getD1Database('DB')) as unknown as D1Database;
+  const schema = readFileSync(join(__dirname, '../../schema.sql'), 'utf8');
+  for (const statement of splitStatements(schema)) {
+    await db.prepare(statement).run();
+  }
+  const r2 = (await mf.getR2Bucket('R2')) as unknown as R2Bucket;
+  return { DB: db, R2: r2, dispose: () => mf.dispose() };
+}
+
+export interface QueryStats {
+  // 与数据库的往返次数：每次 first/all/run/raw 或 batch 计一次
+  roundTrips: number;
+  statements: number;
+}
+
+// 包装 D1Database 并统计查询次数，batch 时把包装过的语句还原为原始语句
+export function countQueries(db: D1Database): { db: D1Database; stats: QueryStats } {
+  const stats: QueryStats = { roundTrips: 0, statements: 0 };
+  const originals = new WeakMap<object, D1PreparedStatement>();
+
+  const wrap = (statement: D1PreparedStatement): D1PreparedStatement => {
+    const proxy = new Proxy(statement, {
+      get(target, prop) {
+        if (prop === 'bind') {
+          return (...values: unknown[]) => wrap(target.bind(...values));
+        }
+        if (prop === 'first' || prop === 'all' || prop === 'run' || prop === 'raw') {
+          return (...args: unknown[]) => {
+            stats.roundTrips++;
+            stats.statements++;
+            return (target[prop] as (...args: unknown[]) => unknown).apply(target, args);
+          };
+        }
+        const value = Reflect.get(target, prop);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+    originals.set(proxy, statement);
+    return proxy;
+  };
+
+  const counted = new Proxy(db, {
+    get(target, prop) {
+      if (prop === 'prepare') {
+        return (query: string) => wrap(target.prepare(query));
+      }
+      if (prop === 'batch') {
+        return (statements: D1PreparedStatement[]) => {
+          stats.roundTrips++;
+          stats.statements += statements.length;
+          return target.batch(statements.map((statement) => originals.get(statement) ?? statement));
+        };
+      }
+      const value = Reflect.get(target, prop);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+  return { db: counted, stats };
+}
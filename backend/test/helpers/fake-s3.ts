@@ -0,0 +1,74 @@
+// 内存中的 S3 兼容服务（相当于本地的 MinIO），替换全局 fetch 后接收 S3Client 发出的请求
+// 只支持路径风格的地址 {endpoint}/{bucket}/{key}，会检查签名头和请求体的 SHA-256
+import { vi } from 'vitest';
+
+export const FAKE_S3_ENDPOINT = 'http://minio.test:9000';
+export const FAKE_S3_BUCKET = 'memos';
+
+export interface FakeS3 {
+  objects: Map<string, { body: Uint8Array; contentType: string }>;
+  requests: { method: string; key: string }[];
+  // 在 PUT 保存对象之前调用，返回 Response 时直接作为响应（用于模拟失败）
+  beforePut?: (key: string) => Promise<Response | void> | Response | void;
+  restore: () => void;
+}
+
+function errorResponse(status: number, code: string): Response {
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`, { status });
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function installFakeS3(): FakeS3 {
+  const fake: FakeS3 = {
+    objects: new Map(),
+    requests: [],
+    restore: () => vi.unstubAllGlobals(),
+  };
+
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const prefix = `/${FAKE_S3_BUCKET}/`;
+    if (url.origin !== FAKE_S3_ENDPOINT || !url.pathname.startsWith(prefix)) {
+      return errorResponse(404, 'NoSuchBucket');
+    }
+    const key = url.pathname.slice(prefix.length).split('/').map(decodeURIComponent).join('/');
+    fake.requests.push({ method: request.method, key });
+
+    if (!request.headers.get('Authorization')?.startsWith('AWS4-HMAC-SHA256 Credential=')) {
+      return errorResponse(403, 'AccessDenied');
+    }
+
+    switch (request.method) {
+      case 'PUT': {
+        const body = new Uint8Array(await request.arrayBuffer());
+        if (request.headers.get('x-amz-content-sha256') !== (await sha256Hex(body))) {
+          return errorResponse(400, 'XAmzContentSHA256Mismatch');
+        }
+        const override = await fake.beforePut?.(key);
+        if (override) return override;
+        fake.objects.set(key, { body, contentType: request.headers.get('Content-Type') || 'application/octet-stream' });
+        return new Response(null, { status: 200 });
+      }
+      case 'GET':
+      case 'HEAD': {
+        const object = fake.objects.get(key);
+        if (!object) return errorResponse(404, 'NoSuchKey');
+        return new Response(request.method === 'GET' ? object.body : null, {
+          headers: { 'Content-Type': object.contentType, 'Content-Length': String(object.body.length) },
+        });
+      }
+      case 'DELETE':
+        fake.objects.delete(key);
+        return new Response(null, { status: 204 });
+      default:
+        return errorResponse(405, 'MethodNotAllowed');
+    }
+  });
+
+  return fake;
+}
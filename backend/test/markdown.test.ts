@@ -0,0 +1,75 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown, restoreMarkdownNodes } from '../../shared/markdown';
+
+// 每个 fixtures/markdown/<name>.md 对应一个 <name>.json，为期望的语法树
+const FIXTURE_DIR = join(__dirname, 'fixtures/markdown');
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter((file) => file.endsWith('.md'))
+  .map((file) => file.slice(0, -'.md'.length));
+
+// 只检查还原结果的输入，覆盖换行、空行和各种未闭合的语法
+const ROUND_TRIP_CASES = [
+  '',
+  '\n',
+  '\n\n\n',
+  'trailing newline\n',
+  'windows\r\nline endings\r\n',
+  '  leading spaces and trailing spaces  ',
+  '- a\n\n- b\n  - c\n\n\ntext',
+  '1. a\n   2. b\n10. c',
+  '> > nested quote\n> back',
+  '```\n```',
+  '```go\nfunc main() {}\n```\nafter',
+  '|a|b|\n|-|-|\n|1|2|\n\n|not|a table|',
+  '**a *b***',
+  '***',
+  '__a__b _a_b',
+  '[a](b)(c) [[x]] ![[y?z]] ![a](b c)',
+  'http://example.com/a_(b)_c). https://',
+  '<br><p>html</p>',
+  '\\\\ \\a \\* \\',
+  '#tag#tag2 # not tag',
+  '$$\n$$\n$$',
+  '~~a~~~b~ ^c^ ==d== ||e||',
+  '中文**加粗**和#标签 😀',
+];
+
+describe('parseMarkdown golden files', () => {
+  it.each(fixtures)('%s', (name) => {
+    const markdown = readFileSync(join(FIXTURE_DIR, `${name}.md`), 'utf8');
+    const expected = JSON.parse(readFileSync(join(FIXTURE_DIR, `${name}.json`), 'utf8'));
+    expect(parseMarkdown(markdown)).toEqual(expected);
+  });
+});
+
+describe('restoreMarkdownNodes', () => {
+  it.each(fixtures)('round-trips %s', (name) => {
+    const markdown = readFileSync(join(FIXTURE_DIR, `${name}.md`), 'utf8');
+    expect(restoreMarkdownNodes(parseMarkdown(markdown))).toBe(markdown);
+  });
+
+  it.each(ROUND_TRIP_CASES)('round-trips %j', (markdown) => {
+    expect(restoreMarkdownNodes(parseMarkdown(markdown))).toBe(markdown);
+  });
+});
+
+// 未闭合的标记不能让解析退化为二次方复杂度，按二次方计算这些输入都需要数十秒
+const PATHOLOGICAL_CASES: Record<string, string> = {
+  'unclosed brackets': '['.repeat(100000),
+  'unclosed bold': '**a '.repeat(25000),
+  'unclosed underscore bold': '__a '.repeat(25000),
+  'unclosed images': '!['.repeat(50000),
+  'unclosed references': '[['.repeat(50000),
+  'url with trailing parens': 'https://a' + ')'.repeat(100000),
+  'unclosed code fences': '```js\n'.repeat(20000),
+};
+
+describe('parseMarkdown on pathological input', () => {
+  it.each(Object.keys(PATHOLOGICAL_CASES))('%s', (name) => {
+    const start = performance.now();
+    parseMarkdown(PATHOLOGICAL_CASES[name]);
+    expect(performance.now() - start).toBeLessThan(2000);
+  });
+});
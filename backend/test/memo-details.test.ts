@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadMemoChildren, loadMemosWithDetails } from '../src/services/memo-details';
+import { countQueries, createTestEnv, TestEnv } from './helpers/d1';
+
+const SEEDED_MEMOS = 200;
+
+let env: TestEnv;
+let memoIds: number[];
+
+// 每条笔记两个附件、两个标签、一条指向上一条笔记的评论关系和一个表情回应
+async function seedMemos(db: D1Database): Promise<number[]> {
+  await db.batch([
+    db.prepare(`
+      INSERT INTO memo (uid, creator_id, content, visibility)
+      WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+      SELECT 'bench-' || i, 1, 'memo #tag' || (i % 10) || ' content ' || i, 'PUBLIC' FROM n
+    `).bind(SEEDED_MEMOS),
+    db.prepare(`
+      INSERT INTO resource (uid, filename, type, size, external_link, creator_id)
+      SELECT 'bench-' || m.id || '-' || k.value, 'file' || k.value || '.png', 'image/png', 100, 'r2://bench/' || m.id || '/' || k.value, 1
+      FROM memo m, json_each('[1, 2]') k WHERE m.uid LIKE 'bench-%'
+    `),
+    db.prepare(`
+      INSERT INTO memo_resource (memo_id, resource_id)
+      SELECT m.id, r.id FROM memo m JOIN resource r ON r.uid LIKE m.uid || '-%' WHERE m.uid LIKE 'bench-%'
+    `),
+    db.prepare(`
+      INSERT INTO tag (name, creator_id)
+      WITH RECURSIVE n(i) AS (SELECT 0 UNION ALL SELECT i + 1 FROM n WHERE i < 9)
+      SELECT 'bench-tag' || i, 1 FROM n
+    `),
+    db.prepare(`
+      INSERT INTO memo_tag (memo_id, tag_id)
+      SELECT m.id, t.id FROM memo m JOIN tag t ON t.name IN ('bench-tag' || (m.id % 10), 'bench-tag' || ((m.id + 1) % 10))
+      WHERE m.uid LIKE 'bench-%'
+    `),
+    db.prepare(`
+      INSERT INTO memo_relation (memo_id, related_memo_id, type)
+      SELECT m.id, p.id, 'COMMENT' FROM memo m JOIN memo p ON p.uid = 'bench-' || (CAST(substr(m.uid, 7) AS INTEGER) - 1)
+      WHERE m.uid LIKE 'bench-%'
+    `),
+    db.prepare(`
+      INSERT INTO memo_reaction (memo_id, creator_id, reaction_type)
+      SELECT id, 1, '👍' FROM memo WHERE uid LIKE 'bench-%'
+    `),
+  ]);
+
+  const memos = await db.prepare("SELECT id FROM memo WHERE uid LIKE 'bench-%' ORDER BY id").all();
+  return ((memos.results || []) as any[]).map((memo) => memo.id as number);
+}
+
+beforeAll(async () => {
+  env = await createTestEnv();
+  memoIds = await seedMemos(env.DB);
+}, 60000);
+
+afterAll(async () => {
+  await env?.dispose();
+});
+
+describe('loadMemosWithDetails', () => {
+  it('seeds the expected number of memos', () => {
+    expect(memoIds).toHaveLength(SEEDED_MEMOS);
+  });
+
+  // 一页笔记的详情始终是一次往返、6 条语句，与每页数量无关
+  it.each([1, 10, 50, SEEDED_MEMOS])('uses one round trip for a page of %i memos', async (pageSize) => {
+    const { db, stats } = countQueries(env.DB);
+    const memos = await loadMemosWithDetails(db, memoIds.slice(0, pageSize));
+
+    expect(memos.size).toBe(pageSize);
+    expect(stats).toEqual({ roundTrips: 1, statements: 6 });
+  });
+
+  it('does not query the database for an empty page', async () => {
+    const { db, stats } = countQueries(env.DB);
+    expect((await loadMemosWithDetails(db, [])).size).toBe(0);
+    expect(stats).toEqual({ roundTrips: 0, statements: 0 });
+  });
+
+  it('groups children by memo', async () => {
+    const [first, second, third] = memoIds;
+    const memos = await loadMemosWithDetails(env.DB, [second]);
+    const memo = memos.get(second)!;
+
+    expect(memo.uid).toBe('bench-2');
+    expect(memo.resources.map((resource) => resource.filename)).toEqual(['file1.png', 'file2.png']);
+    expect(memo.resourceIdList).toHaveLength(2);
+    expect(memo.tags).toHaveLength(2);
+    expect(memo.reactions).toEqual([expect.objectContaining({ reactionType: '👍', creator: 'users/1' })]);
+    expect(memo.relations.map((relation) => [relation.memo.id, relation.relatedMemo.id, relation.type])).toEqual([
+      [second, first, 'COMMENT'],
+      [third, second, 'COMMENT'],
+    ]);
+  });
+
+  it('skips memos that do not exist', async () => {
+    const memos = await loadMemosWithDetails(env.DB, [memoIds[0], -1]);
+    expect([...memos.keys()]).toEqual([memoIds[0]]);
+  });
+});
+
+describe('loadMemoChildren', () => {
+  it.each([1, SEEDED_MEMOS])('uses one round trip for %i memos', async (count) => {
+    const { db, stats } = countQueries(env.DB);
+    const children = await loadMemoChildren(db, memoIds.slice(0, count));
+
+    expect(children.size).toBe(count);
+    expect(stats).toEqual({ roundTrips: 1, statements: 5 });
+  });
+});
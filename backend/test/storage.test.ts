@@ -0,0 +1,233 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { S3RequestError } from '../src/services/s3';
+import {
+  createResourceResponse,
+  createStoredResource,
+  getStorageDriver,
+  migrateResources,
+  readStorageObject,
+  StorageType,
+} from '../src/services/storage';
+import { StorageSetting, UploadTooLargeError } from '../src/services/upload-policy';
+import { createTestEnv, TestEnv } from './helpers/d1';
+import { FAKE_S3_BUCKET, FAKE_S3_ENDPOINT, FakeS3, installFakeS3 } from './helpers/fake-s3';
+
+const encoder = new TextEncoder();
+
+function createSetting(storageType: StorageType): StorageSetting {
+  return {
+    storageType,
+    filepathTemplate: '{{filename}}',
+    uploadSizeLimitMb: 32,
+    allowedMimeTypes: [],
+    deniedMimeTypes: [],
+    userStorageQuotaMb: 0,
+    s3Config: {
+      endpoint: FAKE_S3_ENDPOINT,
+      region: 'us-east-1',
+      bucket: FAKE_S3_BUCKET,
+      accessKeyId: 'minio',
+      accessKeySecret: 'minio-secret',
+      usePathStyle: true,
+    },
+  };
+}
+
+let env: TestEnv;
+let s3: FakeS3;
+let uidCounter = 0;
+
+const nextUid = () => `storage-test-${++uidCounter}`;
+
+// DATABASE 驱动写入前资源记录必须已经存在
+async function insertResource(uid: string, externalLink = ''): Promise<number> {
+  const row = await env.DB.prepare(`
+    INSERT INTO resource (uid, creator_id, filename, type, size, external_link)
+    VALUES (?, 1, 'hello.txt', 'text/plain', 5, ?)
+    RETURNING id
+  `).bind(uid, externalLink).first();
+  return row!.id as number;
+}
+
+async function getResource(id: number) {
+  return env.DB.prepare('SELECT external_link, blob IS NOT NULL AS has_blob FROM resource WHERE id = ?').bind(id).first();
+}
+
+beforeAll(async () => {
+  env = await createTestEnv();
+}, 60000);
+
+afterAll(async () => {
+  await env?.dispose();
+});
+
+beforeEach(() => {
+  s3 = installFakeS3();
+});
+
+afterEach(() => {
+  s3.restore();
+});
+
+describe('storage drivers', () => {
+  it.each<StorageType>(['R2', 'DATABASE', 'S3'])('%s stores, reads and deletes files', async (type) => {
+    const uid = nextUid();
+    await insertResource(uid);
+    const driver = getStorageDriver(env, type, createSetting(type));
+
+    const link = await driver.put({ uid, filename: 'hello.txt' }, encoder.encode('hello'), 'text/plain');
+    expect(link.startsWith(`${type.toLowerCase()}://`)).toBe(true);
+
+    const object = await driver.get(link);
+    expect(object).not.toBeNull();
+    expect(new TextDecoder().decode(await readStorageObject(object!))).toBe('hello');
+    expect(await driver.head(link)).toEqual({ size: 5, contentType: 'text/plain' });
+
+    await driver.delete(link);
+    expect(await driver.get(link)).toBeNull();
+    expect(await driver.head(link)).toBeNull();
+  });
+
+  it('stores S3 objects under {uid}/{filename}', async () => {
+    const uid = nextUid();
+    const driver = getStorageDriver(env, 'S3', createSetting('S3'));
+
+    expect(await driver.put({ uid, filename: 'a b.txt' }, encoder.encode('hi'), 'text/plain')).toBe(`s3://${uid}/a b.txt`);
+    expect(s3.objects.get(`${uid}/a b.txt`)?.contentType).toBe('text/plain');
+  });
+
+  it('only presigns S3 links', async () => {
+    const s3Url = await getStorageDriver(env, 'S3', createSetting('S3')).presign('s3://uid/file.txt', 60);
+    expect(s3Url).toMatch(new RegExp(`^${FAKE_S3_ENDPOINT}/${FAKE_S3_BUCKET}/uid/file\\.txt\\?X-Amz-Algorithm=AWS4-HMAC-SHA256&`));
+    expect(await getStorageDriver(env, 'R2', createSetting('R2')).presign('r2://uid/file.txt', 60)).toBeNull();
+    expect(await getStorageDriver(env, 'DATABASE', createSetting('DATABASE')).presign('database://uid', 60)).toBeNull();
+  });
+});
+
+describe('createResourceResponse', () => {
+  const setting = createSetting('R2');
+
+  it('redirects S3 resources to a presigned URL', async () => {
+    const response = await createResourceResponse(env, setting, { external_link: 's3://uid/file.txt', filename: 'file.txt' });
+    expect(response?.status).toBe(302);
+    expect(response?.headers.get('Location')).toContain('X-Amz-Signature=');
+  });
+
+  it('serves database resources from the Worker', async () => {
+    const uid = nextUid();
+    await insertResource(uid);
+    const link = await getStorageDriver(env, 'DATABASE', setting).put({ uid, filename: 'hello.txt' }, encoder.encode('hello'), 'text/plain');
+
+    const response = await createResourceResponse(env, setting, { external_link: link, filename: 'hello.txt', type: 'text/plain' });
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get('Content-Type')).toBe('text/plain');
+    expect(await response?.text()).toBe('hello');
+  });
+
+  it('redirects external links', async () => {
+    const response = await createResourceResponse(env, setting, { external_link: 'https://example.com/a.png' });
+    expect(response?.status).toBe(302);
+    expect(response?.headers.get('Location')).toBe('https://example.com/a.png');
+  });
+
+  it.each(['', 'ftp://example.com/a.png', 'local/a.png'])('treats %j as a missing file', async (link) => {
+    expect(await createResourceResponse(env, setting, { external_link: link })).toBeNull();
+  });
+
+  it('returns null when the file is missing from storage', async () => {
+    expect(await createResourceResponse(env, setting, { external_link: 'r2://missing/file.txt' })).toBeNull();
+  });
+});
+
+describe('createStoredResource', () => {
+  const newResource = (uid: string, data: Uint8Array) => ({
+    uid,
+    creatorId: 1,
+    filename: 'hello.txt',
+    type: 'text/plain',
+    data,
+    createdTs: 1700000000,
+  });
+
+  it('creates the resource and saves the link', async () => {
+    const uid = nextUid();
+    const { id, externalLink } = await createStoredResource(env, createSetting('S3'), newResource(uid, encoder.encode('hello')));
+
+    expect(externalLink).toBe(`s3://${uid}/hello.txt`);
+    expect(await getResource(id)).toEqual({ external_link: externalLink, has_blob: 0 });
+    expect(s3.objects.has(`${uid}/hello.txt`)).toBe(true);
+  });
+
+  it('deletes the resource when the upload fails', async () => {
+    const uid = nextUid();
+    s3.beforePut = () => new Response('<Error><Code>InternalError</Code></Error>', { status: 500 });
+
+    await expect(createStoredResource(env, createSetting('S3'), newResource(uid, encoder.encode('hello')))).rejects.toBeInstanceOf(
+      S3RequestError,
+    );
+    expect(await env.DB.prepare('SELECT id FROM resource WHERE uid = ?').bind(uid).first()).toBeNull();
+  });
+
+  it('deletes the resource when the file is too large for database storage', async () => {
+    const uid = nextUid();
+
+    await expect(
+      createStoredResource(env, createSetting('DATABASE'), newResource(uid, new Uint8Array(2 * 1000 * 1000 + 1))),
+    ).rejects.toBeInstanceOf(UploadTooLargeError);
+    expect(await env.DB.prepare('SELECT id FROM resource WHERE uid = ?').bind(uid).first()).toBeNull();
+  });
+});
+
+describe('migrateResources', () => {
+  // 每个用例只迁移自己创建的资源
+  async function createDatabaseResource(): Promise<{ id: number; uid: string; link: string }> {
+    const uid = nextUid();
+    const id = await insertResource(uid);
+    const link = await getStorageDriver(env, 'DATABASE', createSetting('DATABASE')).put(
+      { uid, filename: 'hello.txt' },
+      encoder.encode('hello'),
+      'text/plain',
+    );
+    await env.DB.prepare('UPDATE resource SET external_link = ? WHERE id = ?').bind(link, id).run();
+    return { id, uid, link };
+  }
+
+  it('moves files to the configured storage and removes the source', async () => {
+    const first = await createDatabaseResource();
+    const second = await createDatabaseResource();
+
+    const result = await migrateResources(env, createSetting('S3'), first.id - 1, 2);
+
+    expect(result).toEqual({ migrated: 2, failed: [], nextAfterId: second.id });
+    for (const resource of [first, second]) {
+      expect(await getResource(resource.id)).toEqual({ external_link: `s3://${resource.uid}/hello.txt`, has_blob: 0 });
+      expect(new TextDecoder().decode(s3.objects.get(`${resource.uid}/hello.txt`)!.body)).toBe('hello');
+    }
+  });
+
+  it('keeps the source file when the resource changes during migration', async () => {
+    const resource = await createDatabaseResource();
+    // 写入新存储期间资源被其他请求改为指向别处，条件更新不会生效
+    s3.beforePut = async () => {
+      await env.DB.prepare('UPDATE resource SET external_link = ? WHERE id = ?').bind('r2://elsewhere', resource.id).run();
+    };
+
+    const result = await migrateResources(env, createSetting('S3'), resource.id - 1, 1);
+
+    expect(result.migrated).toBe(0);
+    expect(result.failed).toEqual([]);
+    expect(await getResource(resource.id)).toEqual({ external_link: 'r2://elsewhere', has_blob: 1 });
+    expect(await getStorageDriver(env, 'DATABASE', createSetting('DATABASE')).get(resource.link)).not.toBeNull();
+  });
+
+  it('reports failures and keeps the resource in its original storage', async () => {
+    const resource = await createDatabaseResource();
+    s3.beforePut = () => new Response('<Error><Code>SlowDown</Code></Error>', { status: 503 });
+
+    const result = await migrateResources(env, createSetting('S3'), resource.id - 1, 1);
+
+    expect(result.migrated).toBe(0);
+    expect(result.failed).toEqual([{ uid: resource.uid, message: `S3 PUT ${resource.uid}/hello.txt failed: 503 SlowDown` }]);
+    expect(await getResource(resource.id)).toEqual({ external_link: resource.link, has_blob: 1 });
+  });
+});
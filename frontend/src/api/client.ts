@@ -1,6 +1,6 @@
 // REST API Client for Cloudflare Workers Backend
 
-import { NodeType } from '@/types/proto/api/v1/markdown_service';
+import { getMemoPropertyFromNodes, parseMarkdown } from '@shared/markdown';
 
 // 获取 API 基础 URL，优先级：环境变量 > 同域名下的 /api > 默认后端地址
 const getApiBaseUrl = () => {
@@ -25,6 +25,42 @@ const getApiBaseUrl = () => {
 
 const API_BASE_URL = getApiBaseUrl();
 
+// 访问令牌在过期前多久主动刷新（毫秒）
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface ImportJob {
+  uid: string;
+  name: string;
+  source: string;
+  filename: string;
+  status: 'RUNNING' | 'COMPLETED';
+  total: number;
+  imported: number;
+  failed: number;
+  errors: { title: string, failed: boolean, message: string }[];
+  createTime: string;
+  updateTime: string;
+}
+
+// 邀请码，maxUses 为 0 表示不限次数，expiresAt 为空表示永不过期
+export interface Invite {
+  id: number;
+  name: string;
+  code: string;
+  role: string;
+  maxUses: number;
+  usedCount: number;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+// 存储用量，单位为字节，quotaBytes 为 0 表示不限制
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  uploadSizeLimitBytes: number;
+}
+
 interface ApiResponse<T = any> {
   data?: T;
   error?: string;
@@ -33,15 +69,83 @@ interface ApiResponse<T = any> {
 
 class ApiClient {
   private baseUrl: string;
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
     console.log('🔗 API Client initialized with base URL:', this.baseUrl);
   }
 
+  // 保存登录/刷新接口返回的令牌
+  private saveTokens(response: { accessToken?: string, refreshToken?: string, accessTokenExpiresAt?: string }) {
+    if (response.accessToken) {
+      localStorage.setItem('accessToken', response.accessToken);
+    }
+    if (response.refreshToken) {
+      localStorage.setItem('refreshToken', response.refreshToken);
+    }
+    if (response.accessTokenExpiresAt) {
+      localStorage.setItem('accessTokenExpiresAt', response.accessTokenExpiresAt);
+    }
+  }
+
+  private clearTokens() {
+    localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('accessTokenExpiresAt');
+  }
+
+  // 用刷新令牌换取新的访问令牌，并发调用共享同一个刷新请求
+  private refreshAccessToken(): Promise<boolean> {
+    if (!localStorage.getItem('refreshToken')) {
+      return Promise.resolve(false);
+    }
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ refreshToken: localStorage.getItem('refreshToken') }),
+          });
+
+          if (!response.ok) {
+            // 刷新令牌失效（会话已注销或过期），需要重新登录
+            if (response.status === 401) {
+              this.clearTokens();
+            }
+            return false;
+          }
+
+          this.saveTokens(await response.json());
+          return true;
+        } catch (error) {
+          console.error('💥 Failed to refresh access token', error);
+          return false;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+
+    return this.refreshPromise;
+  }
+
+  // 获取可用的访问令牌，即将过期时先刷新
+  async getAccessToken(): Promise<string | null> {
+    const expiresAt = localStorage.getItem('accessTokenExpiresAt');
+    if (expiresAt && new Date(expiresAt).getTime() - Date.now() < ACCESS_TOKEN_REFRESH_MARGIN_MS) {
+      await this.refreshAccessToken();
+    }
+    return localStorage.getItem('accessToken');
+  }
+
   private async request<T>(
     endpoint: string, 
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retryOnUnauthorized = true
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     
@@ -53,7 +157,7 @@ class ApiClient {
     }
 
     // Add auth token if available
-    const token = localStorage.getItem('accessToken');
+    const token = await this.getAccessToken();
     if (token) {
       defaultHeaders['Authorization'] = `Bearer ${token}`;
     }
@@ -68,6 +172,11 @@ class ApiClient {
       console.log(`📡 API Request: ${options.method || 'GET'} ${url}`);
       const response = await fetch(url, config);
       
+      // 访问令牌过期或失效时刷新一次后重试
+      if (response.status === 401 && retryOnUnauthorized && !endpoint.startsWith('/api/auth/') && await this.refreshAccessToken()) {
+        return this.request<T>(endpoint, options, false);
+      }
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         console.error(`❌ API Error: ${response.status}`, errorData);
@@ -85,30 +194,62 @@ class ApiClient {
 
   // Auth Services
   async signIn(username: string, password: string) {
-    const response = await this.request<{ accessToken?: string, user?: any }>('/api/auth/signin', {
+    const response = await this.request<{ accessToken?: string, refreshToken?: string, accessTokenExpiresAt?: string, user?: any }>('/api/auth/signin', {
       method: 'POST',
       body: JSON.stringify({ username, password }),
     });
     
     // 保存 token 到 localStorage
-    if (response.accessToken) {
-      localStorage.setItem('accessToken', response.accessToken);
-    }
+    this.saveTokens(response);
     
     return response;
   }
 
-  async signUp(username: string, password: string, email?: string) {
-    return this.request('/api/auth/signup', {
+  async signUp(username: string, password: string, email?: string, inviteCode?: string) {
+    const response = await this.request<{ accessToken?: string, refreshToken?: string, accessTokenExpiresAt?: string, user?: any }>('/api/auth/signup', {
+      method: 'POST',
+      body: JSON.stringify({ username, password, email, inviteCode }),
+    });
+
+    // 保存 token 到 localStorage
+    this.saveTokens(response);
+
+    return response;
+  }
+
+  // 注销当前会话，无论请求是否成功都清除本地令牌
+  async signOut() {
+    try {
+      await this.request('/api/auth/signout', { method: 'POST' });
+    } catch (error) {
+      console.error('💥 Failed to sign out on server', error);
+    } finally {
+      this.clearTokens();
+    }
+  }
+
+  async getSSOAuthorizeUrl(idpId: number, redirectUri: string) {
+    return this.request<{ authUrl: string }>('/api/auth/sso/authorize', {
       method: 'POST',
-      body: JSON.stringify({ username, password, email }),
+      body: JSON.stringify({ idpId, redirectUri }),
     });
   }
 
+  async signInWithSSO(idpId: number, code: string, state: string, redirectUri: string) {
+    const response = await this.request<{ accessToken?: string, refreshToken?: string, accessTokenExpiresAt?: string, user?: any }>('/api/auth/signin/sso', {
+      method: 'POST',
+      body: JSON.stringify({ idpId, code, state, redirectUri }),
+    });
+
+    // 保存 token 到 localStorage
+    this.saveTokens(response);
+
+    return response;
+  }
+
   // User Services
-  async getCurrentUser() {
-    const user = await this.request<any>('/api/user/me');
-    // 转换为前端期望的protobuf格式
+  // 转换为前端期望的protobuf格式
+  private formatUser(user: any) {
     return {
       name: `users/${user.id}`,
       username: user.username || '',
@@ -117,35 +258,40 @@ class ApiClient {
       avatarUrl: user.avatarUrl || '',
       description: user.description || '',
       role: user.role || 'USER',
-      state: user.rowStatus === 'NORMAL' ? 'ACTIVE' : 'ARCHIVED',
+      state: user.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
       createTime: user.createdTs ? new Date(user.createdTs * 1000) : new Date(),
       updateTime: user.updatedTs ? new Date(user.updatedTs * 1000) : new Date(),
     };
   }
 
+  async getCurrentUser() {
+    const user = await this.request<any>('/api/user/me');
+    return this.formatUser(user);
+  }
+
   async getUser(id: number) {
     const user = await this.request<any>(`/api/user/${id}`);
-    // 转换为前端期望的protobuf格式
-    return {
-      name: `users/${user.id}`,
-      username: user.username || '',
-      nickname: user.nickname || '',
-      email: user.email || '',
-      avatarUrl: user.avatarUrl || '',
-      description: user.description || '',
-      role: user.role || 'USER',
-      state: user.rowStatus === 'NORMAL' ? 'ACTIVE' : 'ARCHIVED',
-      createTime: user.createdTs ? new Date(user.createdTs * 1000) : new Date(),
-      updateTime: user.updatedTs ? new Date(user.updatedTs * 1000) : new Date(),
-    };
+    return this.formatUser(user);
   }
 
   async getUserByUsername(username: string) {
     return this.request(`/api/user/username/${username}`);
   }
 
-  async listUsers() {
-    return this.request('/api/user');
+  async listUsers(pageToken = '') {
+    const response = await this.request<{ users: any[], nextPageToken: string }>(`/api/user?pageToken=${encodeURIComponent(pageToken)}`);
+    return {
+      users: (response.users || []).map(user => this.formatUser(user)),
+      nextPageToken: response.nextPageToken || '',
+    };
+  }
+
+  async createUser(data: { username: string, password: string, role?: string, email?: string, nickname?: string }) {
+    const user = await this.request<any>('/api/user', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    return this.formatUser(user);
   }
 
   async updateUser(id: number, data: any) {
@@ -153,263 +299,96 @@ class ApiClient {
       method: 'PATCH',
       body: JSON.stringify(data),
     });
-    // 转换为前端期望的protobuf格式
+    return this.formatUser(user);
+  }
+
+  // reassignTo 为接收其内容的用户 ID，未指定时彻底删除该用户的全部内容
+  async deleteUser(id: number, reassignTo?: number) {
+    const query = reassignTo !== undefined ? `?reassignTo=${reassignTo}` : '';
+    return this.request(`/api/user/${id}${query}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Access Token Services
+  private formatAccessToken(accessToken: any) {
     return {
-      name: `users/${user.id}`,
-      username: user.username || '',
-      nickname: user.nickname || '',
-      email: user.email || '',
-      avatarUrl: user.avatarUrl || '',
-      description: user.description || '',
-      role: user.role || 'USER',
-      state: user.rowStatus === 'NORMAL' ? 'ACTIVE' : 'ARCHIVED',
-      createTime: user.createdTs ? new Date(user.createdTs * 1000) : new Date(),
-      updateTime: user.updatedTs ? new Date(user.updatedTs * 1000) : new Date(),
+      ...accessToken,
+      issuedAt: accessToken.issuedAt ? new Date(accessToken.issuedAt) : undefined,
+      expiresAt: accessToken.expiresAt ? new Date(accessToken.expiresAt) : undefined,
+      lastUsedAt: accessToken.lastUsedAt ? new Date(accessToken.lastUsedAt) : undefined,
+    };
+  }
+
+  async listUserAccessTokens(userId: number) {
+    const response = await this.request<{ accessTokens: any[] }>(`/api/user/${userId}/access-tokens`);
+    return {
+      accessTokens: (response.accessTokens || []).map(accessToken => this.formatAccessToken(accessToken)),
     };
   }
 
-  async deleteUser(id: number) {
-    return this.request(`/api/user/${id}`, {
+  async createUserAccessToken(userId: number, description: string, expiresAt?: Date) {
+    const response = await this.request<{ accessToken: any }>(`/api/user/${userId}/access-tokens`, {
+      method: 'POST',
+      body: JSON.stringify({ description, expiresAt: expiresAt?.toISOString() }),
+    });
+    return this.formatAccessToken(response.accessToken);
+  }
+
+  async deleteUserAccessToken(userId: number, tokenId: number) {
+    return this.request(`/api/user/${userId}/access-tokens/${tokenId}`, {
       method: 'DELETE',
     });
   }
 
-  // Helper function to calculate memo properties
-  private calculateMemoProperties(content: string) {
-    const hasLink = /https?:\/\/[^\s]+/.test(content);
-    const hasTaskList = /- \[[ xX]\]/.test(content);
-    const hasCode = /```|`/.test(content);
-    const hasIncompleteTasks = /- \[ \]/.test(content);
-    
+  private formatSession(session: any) {
     return {
-      hasLink,
-      hasTaskList,
-      hasCode,
-      hasIncompleteTasks
+      ...session,
+      createTime: session.createTime ? new Date(session.createTime) : undefined,
+      lastActiveTime: session.lastActiveTime ? new Date(session.lastActiveTime) : undefined,
+      expireTime: session.expireTime ? new Date(session.expireTime) : undefined,
     };
   }
 
-  // Helper function to convert plain text to nodes structure
-  private convertContentToNodes(content: string) {
-    if (!content || content.trim() === '') {
-      return [];
-    }
+  async listUserSessions(userId: number) {
+    const response = await this.request<{ sessions: any[] }>(`/api/user/${userId}/sessions`);
+    return {
+      sessions: (response.sessions || []).map(session => this.formatSession(session)),
+    };
+  }
 
-    const nodes = [];
-    const lines = content.split('\n');
-    let i = 0;
-    
-    while (i < lines.length) {
-      const line = lines[i];
-      
-      // Check for code block start (```language or ```)
-      if (line.trim().startsWith('```')) {
-        const languageMatch = line.trim().match(/^```(\w*)/);
-        const language = languageMatch ? languageMatch[1] : '';
-        
-        // Find the end of the code block
-        let codeContent = '';
-        i++; // Skip the opening ```
-        
-        while (i < lines.length && !lines[i].trim().startsWith('```')) {
-          if (codeContent) codeContent += '\n';
-          codeContent += lines[i];
-          i++;
-        }
-        
-        // Skip the closing ```
-        if (i < lines.length) i++;
-        
-        // Create code block node
-        nodes.push({
-          type: NodeType.CODE_BLOCK,
-          codeBlockNode: {
-            language: language,
-            content: codeContent
-          }
-        });
-      } else if (line.trim() === '') {
-        // Empty line - skip
-        i++;
-      } else if (line.trim().match(/^!\[\[([^\]]+)\]\]$/)) {
-        // Standalone embed syntax - create embedded content node directly
-        const embedMatch = line.trim().match(/^!\[\[([^\]]+)\]\]$/);
-        if (embedMatch) {
-          const embedContent = embedMatch[1];
-          const [resourceName, paramsStr] = embedContent.split('?');
-          const params = paramsStr || '';
-          
-          nodes.push({
-            type: NodeType.EMBEDDED_CONTENT,
-            embeddedContentNode: {
-              resourceName: resourceName,
-              params: params
-            }
-          });
-        }
-        i++;
-      } else {
-        // Regular paragraph - collect consecutive non-empty lines
-        const paragraphLines = [];
-        while (i < lines.length && lines[i].trim() !== '' && !lines[i].trim().startsWith('```') && !lines[i].trim().match(/^!\[\[([^\]]+)\]\]$/)) {
-          paragraphLines.push(lines[i]);
-          i++;
-        }
-        
-        if (paragraphLines.length > 0) {
-          const children = [];
-          
-          for (let j = 0; j < paragraphLines.length; j++) {
-            const line = paragraphLines[j];
-            // Parse line content to identify tags, links, etc.
-            const parsedChildren = this.parseLineContent(line);
-            children.push(...parsedChildren);
-            
-            // Add line break if not the last line
-            if (j < paragraphLines.length - 1) {
-              children.push({
-                type: NodeType.LINE_BREAK,
-                lineBreakNode: {}
-              });
-            }
-          }
-          
-          // Create a paragraph node
-          if (children.length > 0) {
-            nodes.push({
-              type: NodeType.PARAGRAPH,
-              paragraphNode: {
-                children: children
-              }
-            });
-          }
-        }
-      }
-    }
+  async revokeUserSession(userId: number, sessionId: string) {
+    return this.request(`/api/user/${userId}/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
 
-    return nodes;
+  async revokeAllUserSessions(userId: number) {
+    return this.request(`/api/user/${userId}/sessions`, {
+      method: 'DELETE',
+    });
   }
 
-  // Helper function to parse line content and identify special elements
-  private parseLineContent(line: string) {
-    const children = [];
-    const tagRegex = /#([a-zA-Z0-9\u4e00-\u9fa5_-]+)/g;
-    const linkRegex = /(https?:\/\/[^\s]+)/g;
-    const embedRegex = /!\[\[([^\]]+)\]\]/g;
-    
-    let lastIndex = 0;
-    let match;
-    
-    // Find all tags, links, and embeds
-    const matches = [];
-    
-    // Find tags
-    while ((match = tagRegex.exec(line)) !== null) {
-      matches.push({
-        type: 'tag',
-        start: match.index,
-        end: match.index + match[0].length,
-        content: match[1]
-      });
-    }
-    
-    // Find links
-    tagRegex.lastIndex = 0; // Reset regex
-    while ((match = linkRegex.exec(line)) !== null) {
-      matches.push({
-        type: 'link',
-        start: match.index,
-        end: match.index + match[0].length,
-        content: match[0]
-      });
-    }
-    
-    // Find embeds
-    linkRegex.lastIndex = 0; // Reset regex
-    while ((match = embedRegex.exec(line)) !== null) {
-      matches.push({
-        type: 'embed',
-        start: match.index,
-        end: match.index + match[0].length,
-        content: match[1]
-      });
-    }
-    
-    // Sort matches by start position
-    matches.sort((a, b) => a.start - b.start);
-    
-    // Build children array
-    for (const match of matches) {
-      // Add text before match
-      if (match.start > lastIndex) {
-        const textContent = line.substring(lastIndex, match.start);
-        if (textContent) {
-          children.push({
-            type: NodeType.TEXT,
-            textNode: {
-              content: textContent
-            }
-          });
-        }
-      }
-      
-      // Add match
-      if (match.type === 'tag') {
-        children.push({
-          type: NodeType.TAG,
-          tagNode: {
-            content: match.content
-          }
-        });
-      } else if (match.type === 'link') {
-        children.push({
-          type: NodeType.AUTO_LINK,
-          autoLinkNode: {
-            url: match.content
-          }
-        });
-      } else if (match.type === 'embed') {
-        // Parse embed content to extract resource name and params
-        const embedContent = match.content;
-        const [resourceName, paramsStr] = embedContent.split('?');
-        const params = paramsStr || '';
-        
-        children.push({
-          type: NodeType.EMBEDDED_CONTENT,
-          embeddedContentNode: {
-            resourceName: resourceName,
-            params: params
-          }
-        });
-      }
-      
-      lastIndex = match.end;
-    }
-    
-    // Add remaining text
-    if (lastIndex < line.length) {
-      const textContent = line.substring(lastIndex);
-      if (textContent) {
-        children.push({
-          type: NodeType.TEXT,
-          textNode: {
-            content: textContent
-          }
-        });
-      }
+  // 导出当前用户的全部笔记和附件，返回 ZIP 文件及服务端给出的文件名
+  async exportCurrentUser(retryOnUnauthorized = true): Promise<{ blob: Blob, filename: string }> {
+    const token = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}/api/user/me/export`, {
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      credentials: 'include',
+    });
+
+    if (response.status === 401 && retryOnUnauthorized && await this.refreshAccessToken()) {
+      return this.exportCurrentUser(false);
     }
-    
-    // If no matches found, add the whole line as text
-    if (children.length === 0) {
-      children.push({
-        type: NodeType.TEXT,
-        textNode: {
-          content: line
-        }
-      });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `HTTP ${response.status}`);
     }
-    
-    return children;
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = decodeURIComponent(disposition.match(/filename="([^"]+)"/)?.[1] || 'memos-export.zip');
+    return { blob: await response.blob(), filename };
   }
 
   // Memo Services
@@ -427,19 +406,20 @@ class ApiClient {
       }
     }
     const queryString = searchParams.toString().replace(/%20/g, '+');
-    const memos = await this.request<any[]>(`/api/memo?${queryString}`);
+    const response = await this.request<{ memos: any[], nextPageToken: string }>(`/api/memo?${queryString}`);
+    const memos = response.memos;
 
-    
     // 转换为前端期望的protobuf格式
     const formattedMemos = Array.isArray(memos) ? memos.map(memo => {
-      const properties = this.calculateMemoProperties(memo.content || '');
+      const nodes = parseMarkdown(memo.content || '');
+      const properties = getMemoPropertyFromNodes(nodes);
       return {
         id: memo.id, // 添加id字段
         name: `memos/${memo.id}`,
         uid: memo.uid || `memo-uid-${memo.id}`,
         creator: `users/${memo.creatorId}`,
         content: memo.content || '',
-        nodes: this.convertContentToNodes(memo.content || ''),
+        nodes,
         visibility: memo.visibility || 'PRIVATE',
         tags: memo.tags || [],
         pinned: memo.pinned || false,
@@ -447,19 +427,23 @@ class ApiClient {
         relations: memo.relations || [],
         reactions: memo.reactions || [],
         snippet: memo.snippet || (memo.content ? memo.content.slice(0, 100) : ''),
+        searchSnippet: memo.searchSnippet || undefined,
         parent: memo.parent || '',
         createTime: memo.createdTs ? new Date(memo.createdTs * 1000) : new Date(),
         updateTime: memo.updatedTs ? new Date(memo.updatedTs * 1000) : new Date(),
-        displayTime: memo.createdTs ? new Date(memo.createdTs * 1000) : new Date(),
+        // 列表按 displayTs 排序（创建时间，或开启「显示更新时间」时的更新时间）
+        displayTime: memo.displayTs || memo.createdTs ? new Date((memo.displayTs || memo.createdTs) * 1000) : new Date(),
         state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
         location: memo.location || undefined,
+        publishTime: memo.publishTs ? new Date(memo.publishTs * 1000) : undefined,
+        remindTime: memo.remindTs ? new Date(memo.remindTs * 1000) : undefined,
         property: properties,
       };
     }) : [];
-    
-    const result = { 
-      memos: formattedMemos, 
-      nextPageToken: '' // 暂时返回空字符串，表示没有更多页面
+
+    const result = {
+      memos: formattedMemos,
+      nextPageToken: response.nextPageToken || '',
     };
     
     console.log('🔄 Transformed memo response:', result);
@@ -468,7 +452,8 @@ class ApiClient {
 
   async getMemo(id: number) {
     const memo = await this.request<any>(`/api/memo/${id}`);
-    const properties = this.calculateMemoProperties(memo.content || '');
+    const nodes = parseMarkdown(memo.content || '');
+    const properties = getMemoPropertyFromNodes(nodes);
     
     // 转换为前端期望的protobuf格式
     return {
@@ -477,7 +462,7 @@ class ApiClient {
       uid: memo.uid || `memo-uid-${memo.id}`,
       creator: `users/${memo.creatorId}`,
       content: memo.content || '',
-      nodes: this.convertContentToNodes(memo.content || ''),
+      nodes,
       visibility: memo.visibility || 'PRIVATE',
       tags: memo.tags || [],
       pinned: memo.pinned || false,
@@ -491,6 +476,8 @@ class ApiClient {
       displayTime: memo.createdTs ? new Date(memo.createdTs * 1000) : new Date(),
       state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
       location: memo.location || undefined,
+      publishTime: memo.publishTs ? new Date(memo.publishTs * 1000) : undefined,
+      remindTime: memo.remindTs ? new Date(memo.remindTs * 1000) : undefined,
       property: properties,
     };
   }
@@ -507,6 +494,8 @@ class ApiClient {
       reactions: data.reactions || [],
       parent: data.parent || '',
       location: data.location || undefined,
+      publishTime: data.publishTime || undefined,
+      remindTime: data.remindTime || undefined,
     };
     
     console.log('📝 Creating memo with clean data:', cleanData);
@@ -515,7 +504,8 @@ class ApiClient {
       method: 'POST',
       body: JSON.stringify(cleanData),
     });
-    const properties = this.calculateMemoProperties(memo.content || '');
+    const nodes = parseMarkdown(memo.content || '');
+    const properties = getMemoPropertyFromNodes(nodes);
     
     // 转换为前端期望的protobuf格式
     return {
@@ -524,7 +514,7 @@ class ApiClient {
       uid: memo.uid || `memo-uid-${memo.id}`,
       creator: `users/${memo.creatorId}`,
       content: memo.content || '',
-      nodes: this.convertContentToNodes(memo.content || ''),
+      nodes,
       visibility: memo.visibility || 'PRIVATE',
       tags: memo.tags || [],
       pinned: memo.pinned || false,
@@ -538,11 +528,13 @@ class ApiClient {
       displayTime: memo.createdTs ? new Date(memo.createdTs * 1000) : new Date(),
       state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
       location: memo.location || undefined,
+      publishTime: memo.publishTs ? new Date(memo.publishTs * 1000) : undefined,
+      remindTime: memo.remindTs ? new Date(memo.remindTs * 1000) : undefined,
       property: properties,
     };
   }
 
-  async updateMemo(id: number, data: any) {
+  async updateMemo(id: number, data: any, updateMask: string[] = []) {
     // 清理数据，只保留后端需要的字段
     const cleanData: any = {};
     if (data.content !== undefined) cleanData.content = data.content;
@@ -555,6 +547,9 @@ class ApiClient {
     if (data.reactions !== undefined) cleanData.reactions = data.reactions;
     if (data.parent !== undefined) cleanData.parent = data.parent;
     if (data.location !== undefined) cleanData.location = data.location;
+    // 定时发布和提醒时间在更新掩码中但没有值时表示清除
+    if (data.publishTime !== undefined || updateMask.includes('publish_time')) cleanData.publishTime = data.publishTime ?? null;
+    if (data.remindTime !== undefined || updateMask.includes('remind_time')) cleanData.remindTime = data.remindTime ?? null;
     
     console.log('📝 Updating memo with clean data:', cleanData);
     
@@ -562,7 +557,8 @@ class ApiClient {
       method: 'PATCH',
       body: JSON.stringify(cleanData),
     });
-    const properties = this.calculateMemoProperties(memo.content || '');
+    const nodes = parseMarkdown(memo.content || '');
+    const properties = getMemoPropertyFromNodes(nodes);
     
     // 转换为前端期望的protobuf格式
     return {
@@ -571,7 +567,7 @@ class ApiClient {
       uid: memo.uid || `memo-uid-${memo.id}`,
       creator: `users/${memo.creatorId}`,
       content: memo.content || '',
-      nodes: this.convertContentToNodes(memo.content || ''),
+      nodes,
       visibility: memo.visibility || 'PRIVATE',
       tags: memo.tags || [],
       pinned: memo.pinned || false,
@@ -585,6 +581,8 @@ class ApiClient {
       displayTime: memo.createdTs ? new Date(memo.createdTs * 1000) : new Date(),
       state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
       location: memo.location || undefined,
+      publishTime: memo.publishTs ? new Date(memo.publishTs * 1000) : undefined,
+      remindTime: memo.remindTs ? new Date(memo.remindTs * 1000) : undefined,
       property: properties,
     };
   }
@@ -603,7 +601,8 @@ class ApiClient {
       body: JSON.stringify(data),
     });
 
-    const properties = this.calculateMemoProperties(memo.content || '');
+    const nodes = parseMarkdown(memo.content || '');
+    const properties = getMemoPropertyFromNodes(nodes);
 
     // 转换为前端期望的protobuf格式
     return {
@@ -612,7 +611,7 @@ class ApiClient {
       uid: memo.uid || `memo-uid-${memo.id}`,
       creator: `users/${memo.creatorId}`,
       content: memo.content || '',
-      nodes: this.convertContentToNodes(memo.content || ''),
+      nodes,
       visibility: memo.visibility || 'PRIVATE',
       tags: memo.tags || [],
       pinned: memo.pinned || false,
@@ -626,6 +625,8 @@ class ApiClient {
       displayTime: memo.createdTs ? new Date(memo.createdTs * 1000) : new Date(),
       state: memo.rowStatus === 'ARCHIVED' ? 'ARCHIVED' : 'NORMAL',
       location: memo.location || undefined,
+      publishTime: memo.publishTs ? new Date(memo.publishTs * 1000) : undefined,
+      remindTime: memo.remindTs ? new Date(memo.remindTs * 1000) : undefined,
       property: properties,
     };
   }
@@ -657,6 +658,86 @@ class ApiClient {
     return {};
   }
 
+  async listMemoRevisions(memoId: number) {
+    const revisions = await this.request<any[]>(`/api/memo/${memoId}/revisions`);
+    return {
+      revisions: (revisions || []).map(revision => ({
+        id: revision.id,
+        name: `memos/${memoId}/revisions/${revision.id}`,
+        creator: `users/${revision.creatorId}`,
+        creatorUsername: revision.creatorUsername || '',
+        content: revision.content || '',
+        visibility: revision.visibility || 'PRIVATE',
+        createTime: new Date(revision.createdTs * 1000),
+      })),
+    };
+  }
+
+  async restoreMemoRevision(memoId: number, revisionId: number) {
+    return this.request(`/api/memo/${memoId}/revisions/${revisionId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  // Resource Services
+  async listResources(pageToken = '') {
+    const response = await this.request<{ resources: any[], nextPageToken: string }>(`/api/resource?pageToken=${encodeURIComponent(pageToken)}`);
+    return {
+      resources: response.resources || [],
+      nextPageToken: response.nextPageToken || '',
+    };
+  }
+
+  async deleteResource(uid: string) {
+    return this.request(`/api/resource/${uid}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Trash Services
+  async listTrash() {
+    const response = await this.request<any>('/api/trash');
+    return {
+      memos: (response.memos || []).map((memo: any) => ({
+        ...memo,
+        name: `memos/${memo.id}`,
+        createTime: new Date(memo.createdTs * 1000),
+        deleteTime: new Date(memo.deletedTs * 1000),
+      })),
+      resources: (response.resources || []).map((resource: any) => ({
+        ...resource,
+        name: `resources/${resource.uid}`,
+        createTime: new Date(resource.createdTs * 1000),
+        deleteTime: new Date(resource.deletedTs * 1000),
+      })),
+      retentionDays: response.retentionDays ?? 0,
+    };
+  }
+
+  async restoreTrashMemo(memoId: number) {
+    return this.request(`/api/trash/memos/${memoId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteTrashMemo(memoId: number) {
+    return this.request(`/api/trash/memos/${memoId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async restoreTrashResource(uid: string) {
+    return this.request(`/api/trash/resources/${uid}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteTrashResource(uid: string) {
+    return this.request(`/api/trash/resources/${uid}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Tag Services
   async getTags() {
     return this.request('/api/tag');
@@ -675,6 +756,54 @@ class ApiClient {
     });
   }
 
+  // Import Services
+  // 上传导入文件并创建导入任务，附带浏览器时区用于解析不带时区的时间
+  async createImportJob(file: File) {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('timezoneOffset', String(new Date().getTimezoneOffset()));
+
+    return this.request<ImportJob>('/api/import', {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async getImportJob(uid: string) {
+    return this.request<ImportJob>(`/api/import/${uid}`);
+  }
+
+  // 导入下一批笔记
+  async runImportJob(uid: string) {
+    return this.request<ImportJob>(`/api/import/${uid}/run`, {
+      method: 'POST',
+    });
+  }
+
+  // Invite Services
+  // 注册页面查询邀请码是否可用，不可用时返回 404
+  async getInvite(code: string) {
+    return this.request<{ role: string, expiresAt?: string }>(`/api/auth/invite/${encodeURIComponent(code)}`);
+  }
+
+  async listInvites() {
+    const response = await this.request<{ invites: Invite[] }>('/api/invite');
+    return response.invites || [];
+  }
+
+  async createInvite(data: { role: string, maxUses: number, expiresAt?: Date }) {
+    return this.request<Invite>('/api/invite', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteInvite(id: number) {
+    return this.request(`/api/invite/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Resource Services
   async uploadResource(file: File) {
     const formData = new FormData();
@@ -686,6 +815,169 @@ class ApiClient {
     });
   }
 
+  async getStorageUsage() {
+    return this.request<StorageUsage>('/api/resource/usage');
+  }
+
+  // 把已有资源迁移到当前设置的存储，分批处理，nextAfterId 为 null 时表示已完成
+  async migrateResources(afterId = 0) {
+    return this.request<{ migrated: number, failed: { uid: string, message: string }[], nextAfterId: number | null }>(`/api/resource/migrate?afterId=${afterId}`, {
+      method: 'POST',
+    });
+  }
+
+  // Webhook Services
+  private formatWebhook(webhook: any) {
+    return {
+      id: webhook.id,
+      creator: webhook.creator || '',
+      name: webhook.name || '',
+      url: webhook.url || '',
+      secret: webhook.secret || '',
+      createTime: webhook.createTime ? new Date(webhook.createTime) : undefined,
+      updateTime: webhook.updateTime ? new Date(webhook.updateTime) : undefined,
+    };
+  }
+
+  async listWebhooks() {
+    const response = await this.request<{ webhooks: any[] }>('/api/webhook');
+    return {
+      webhooks: (response.webhooks || []).map(webhook => this.formatWebhook(webhook)),
+    };
+  }
+
+  async getWebhook(id: number) {
+    const webhook = await this.request<any>(`/api/webhook/${id}`);
+    return this.formatWebhook(webhook);
+  }
+
+  async createWebhook(name: string, url: string) {
+    const response = await this.request<{ webhook: any }>('/api/webhook', {
+      method: 'POST',
+      body: JSON.stringify({ name, url }),
+    });
+    return this.formatWebhook(response.webhook);
+  }
+
+  async updateWebhook(id: number, data: { name?: string; url?: string }) {
+    const response = await this.request<{ webhook: any }>(`/api/webhook/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+    return this.formatWebhook(response.webhook);
+  }
+
+  async deleteWebhook(id: number) {
+    return this.request(`/api/webhook/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  private formatWebhookDelivery(delivery: any) {
+    return {
+      ...delivery,
+      nextRetryTime: delivery.nextRetryTime ? new Date(delivery.nextRetryTime) : undefined,
+      createTime: delivery.createTime ? new Date(delivery.createTime) : undefined,
+      updateTime: delivery.updateTime ? new Date(delivery.updateTime) : undefined,
+    };
+  }
+
+  async listWebhookDeliveries(webhookId: number) {
+    const response = await this.request<{ deliveries: any[] }>(`/api/webhook/${webhookId}/deliveries`);
+    return {
+      deliveries: (response.deliveries || []).map(delivery => this.formatWebhookDelivery(delivery)),
+    };
+  }
+
+  async redeliverWebhook(webhookId: number, deliveryId: number) {
+    const response = await this.request<{ delivery: any }>(`/api/webhook/${webhookId}/deliveries/${deliveryId}/redeliver`, {
+      method: 'POST',
+    });
+    return this.formatWebhookDelivery(response.delivery);
+  }
+
+  // Inbox Services
+  private formatInbox(inbox: any) {
+    return {
+      ...inbox,
+      createTime: inbox.createTime ? new Date(inbox.createTime) : undefined,
+    };
+  }
+
+  async listInboxes(pageToken = '') {
+    const response = await this.request<{ inboxes: any[], nextPageToken: string }>(`/api/inbox?pageToken=${encodeURIComponent(pageToken)}`);
+    return {
+      inboxes: (response.inboxes || []).map(inbox => this.formatInbox(inbox)),
+      nextPageToken: response.nextPageToken || '',
+    };
+  }
+
+  async updateInbox(id: number, data: { status: string }) {
+    const response = await this.request<{ inbox: any }>(`/api/inbox/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+    return this.formatInbox(response.inbox);
+  }
+
+  async deleteInbox(id: number) {
+    return this.request(`/api/inbox/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getActivity(id: number) {
+    const activity = await this.request<any>(`/api/activity/${id}`);
+    return {
+      ...activity,
+      createTime: activity.createTime ? new Date(activity.createTime) : undefined,
+    };
+  }
+
+  // Tag Services
+  async renameTag(oldTag: string, newTag: string) {
+    return this.request<{ affectedMemoCount: number }>('/api/tag/rename', {
+      method: 'PATCH',
+      body: JSON.stringify({ oldTag, newTag }),
+    });
+  }
+
+  async deleteTagByName(tag: string, deleteRelatedMemos = false) {
+    const params = new URLSearchParams({ tag, deleteRelatedMemos: String(deleteRelatedMemos) });
+    return this.request<{ affectedMemoCount: number }>(`/api/tag?${params.toString()}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Identity Provider Services
+  async listIdentityProviders() {
+    return this.request<{ identityProviders: any[] }>('/api/idp');
+  }
+
+  async getIdentityProvider(id: number) {
+    return this.request<any>(`/api/idp/${id}`);
+  }
+
+  async createIdentityProvider(data: any) {
+    return this.request<any>('/api/idp', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateIdentityProvider(id: number, data: any) {
+    return this.request<any>(`/api/idp/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteIdentityProvider(id: number) {
+    return this.request(`/api/idp/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Workspace Services
   async getWorkspaceProfile() {
     return this.request('/api/workspace/profile');
@@ -736,6 +1028,19 @@ class ApiClient {
     return defaults[key] || {};
   }
 
+  // Link Preview Services
+  async getLinkMetadata(link: string) {
+    const metadata = await this.request<{ title: string; description: string; image: string }>(
+      `/api/link/metadata?url=${encodeURIComponent(link)}`
+    );
+    return {
+      title: metadata.title || link,
+      description: metadata.description || '',
+      // 图片为后端代理地址（相对路径），需要拼接后端地址
+      image: metadata.image ? `${this.baseUrl}${metadata.image}` : '',
+    };
+  }
+
   // Health check
   async getHealth() {
     return this.request('/health');
@@ -766,8 +1071,9 @@ class ApiClient {
   }
 
   // User Stats Services
-  async getUserStats(userId: number) {
-    const stats = await this.request<any>(`/api/user/${userId}/stats`);
+  async getUserStats(userId: number, filter?: string) {
+    const query = filter ? `?filter=${encodeURIComponent(filter)}` : '';
+    const stats = await this.request<any>(`/api/user/${userId}/stats${query}`);
     console.log('📊 getUserStats - raw response:', stats);
     const result = {
       name: stats.name,
@@ -777,6 +1083,7 @@ class ApiClient {
         codeCount: 0,
         todoCount: 0,
         undoCount: 0,
+        imageCount: 0,
       },
       tagCount: stats.tagCount || {},
       pinnedMemos: stats.pinnedMemos || [],
@@ -799,6 +1106,7 @@ class ApiClient {
           codeCount: 0,
           todoCount: 0,
           undoCount: 0,
+          imageCount: 0,
         },
         tagCount: stats.tagCount || {},
         pinnedMemos: stats.pinnedMemos || [],
@@ -1,6 +1,7 @@
 import { Radio, RadioGroup } from "@mui/joy";
 import { Button, Input } from "@usememos/mui";
-import { XIcon } from "lucide-react";
+import copy from "copy-to-clipboard";
+import { ClipboardIcon, XIcon } from "lucide-react";
 import React, { useState } from "react";
 import { toast } from "react-hot-toast";
 import { userServiceClient } from "@/grpcweb";
@@ -27,6 +28,8 @@ const CreateAccessTokenDialog: React.FC<Props> = (props: Props) => {
     expiration: 3600 * 8,
   });
   const requestState = useLoading(false);
+  // 创建成功后的令牌明文，只在此处展示一次
+  const [createdAccessToken, setCreatedAccessToken] = useState<string>("");
 
   const expirationOptions = [
     {
@@ -69,20 +72,25 @@ const CreateAccessTokenDialog: React.FC<Props> = (props: Props) => {
     }
 
     try {
-      await userServiceClient.createUserAccessToken({
+      const userAccessToken = await userServiceClient.createUserAccessToken({
         name: currentUser.name,
         description: state.description,
         expiresAt: state.expiration ? new Date(Date.now() + state.expiration * 1000) : undefined,
       });
 
       onConfirm();
-      destroy();
+      setCreatedAccessToken(userAccessToken.accessToken);
     } catch (error: any) {
-      toast.error(error.details);
+      toast.error(error.details ?? error.message);
       console.error(error);
     }
   };
 
+  const handleCopyAccessToken = () => {
+    copy(createdAccessToken);
+    toast.success(t("setting.access-token-section.access-token-copied-to-clipboard"));
+  };
+
   return (
     <div className="max-w-full shadow flex flex-col justify-start items-start bg-white dark:bg-zinc-800 dark:text-gray-300 p-4 rounded-lg">
       <div className="flex flex-row justify-between items-center w-full mb-4 gap-2">
@@ -91,42 +99,59 @@ const CreateAccessTokenDialog: React.FC<Props> = (props: Props) => {
           <XIcon className="w-5 h-auto" />
         </Button>
       </div>
-      <div className="flex flex-col justify-start items-start w-80!">
-        <div className="w-full flex flex-col justify-start items-start mb-3">
-          <span className="mb-2">
-            {t("setting.access-token-section.create-dialog.description")} <span className="text-red-600">*</span>
-          </span>
-          <div className="relative w-full">
-            <Input
-              className="w-full"
-              type="text"
-              placeholder={t("setting.access-token-section.create-dialog.some-description")}
-              value={state.description}
-              onChange={handleDescriptionInputChange}
-            />
+      {createdAccessToken ? (
+        <div className="flex flex-col justify-start items-start w-80!">
+          <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">{t("setting.access-token-section.create-dialog.copy-token-hint")}</p>
+          <div className="w-full flex flex-row justify-start items-center gap-x-1">
+            <Input className="w-full font-mono" type="text" readOnly value={createdAccessToken} />
+            <Button variant="plain" onClick={handleCopyAccessToken}>
+              <ClipboardIcon className="w-4 h-auto text-gray-400 dark:text-gray-500" />
+            </Button>
           </div>
-        </div>
-        <div className="w-full flex flex-col justify-start items-start mb-3">
-          <span className="mb-2">
-            {t("setting.access-token-section.create-dialog.expiration")} <span className="text-red-600">*</span>
-          </span>
-          <div className="w-full flex flex-row justify-start items-center text-base">
-            <RadioGroup orientation="horizontal" value={state.expiration} onChange={handleRoleInputChange}>
-              {expirationOptions.map((option) => (
-                <Radio key={option.value} value={option.value} checked={state.expiration === option.value} label={option.label} />
-              ))}
-            </RadioGroup>
+          <div className="w-full flex flex-row justify-end items-center mt-4">
+            <Button color="primary" onClick={destroy}>
+              {t("common.close")}
+            </Button>
           </div>
         </div>
-        <div className="w-full flex flex-row justify-end items-center mt-4 space-x-2">
-          <Button variant="plain" className="text-gray-700 dark:text-gray-300" disabled={requestState.isLoading} onClick={destroy}>
-            {t("common.cancel")}
-          </Button>
-          <Button color="primary" disabled={requestState.isLoading} onClick={handleSaveBtnClick}>
-            {t("common.create")}
-          </Button>
+      ) : (
+        <div className="flex flex-col justify-start items-start w-80!">
+          <div className="w-full flex flex-col justify-start items-start mb-3">
+            <span className="mb-2">
+              {t("setting.access-token-section.create-dialog.description")} <span className="text-red-600">*</span>
+            </span>
+            <div className="relative w-full">
+              <Input
+                className="w-full"
+                type="text"
+                placeholder={t("setting.access-token-section.create-dialog.some-description")}
+                value={state.description}
+                onChange={handleDescriptionInputChange}
+              />
+            </div>
+          </div>
+          <div className="w-full flex flex-col justify-start items-start mb-3">
+            <span className="mb-2">
+              {t("setting.access-token-section.create-dialog.expiration")} <span className="text-red-600">*</span>
+            </span>
+            <div className="w-full flex flex-row justify-start items-center text-base">
+              <RadioGroup orientation="horizontal" value={state.expiration} onChange={handleRoleInputChange}>
+                {expirationOptions.map((option) => (
+                  <Radio key={option.value} value={option.value} checked={state.expiration === option.value} label={option.label} />
+                ))}
+              </RadioGroup>
+            </div>
+          </div>
+          <div className="w-full flex flex-row justify-end items-center mt-4 space-x-2">
+            <Button variant="plain" className="text-gray-700 dark:text-gray-300" disabled={requestState.isLoading} onClick={destroy}>
+              {t("common.cancel")}
+            </Button>
+            <Button color="primary" disabled={requestState.isLoading} onClick={handleSaveBtnClick}>
+              {t("common.create")}
+            </Button>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
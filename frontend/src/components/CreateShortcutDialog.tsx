@@ -1,5 +1,5 @@
 import { Input, Textarea, Button } from "@usememos/mui";
-import { XIcon, InfoIcon, TagIcon, CalendarIcon, PinIcon, LinkIcon, CodeIcon, ListIcon } from "lucide-react";
+import { XIcon, InfoIcon, TagIcon, CalendarIcon, PinIcon, LinkIcon, CodeIcon, ListIcon, ListTodoIcon, ImageIcon } from "lucide-react";
 import React, { useState } from "react";
 import { toast } from "react-hot-toast";
 import { shortcutServiceClient } from "@/grpcweb";
@@ -22,6 +22,8 @@ const filterPresets = [
   { name: "🔗 包含链接", filter: "has_link == true", icon: LinkIcon },
   { name: "💻 包含代码", filter: "has_code == true", icon: CodeIcon },
   { name: "📋 包含任务列表", filter: "has_task_list == true", icon: ListIcon },
+  { name: "⏳ 包含未完成任务", filter: "has_incomplete_tasks == true", icon: ListTodoIcon },
+  { name: "🖼️ 包含图片", filter: "has_image == true", icon: ImageIcon },
   { name: "📅 今天创建", filter: `display_time_after == ${Math.floor(Date.now() / 1000) - 24 * 60 * 60}`, icon: CalendarIcon },
   { name: "📅 本周创建", filter: `display_time_after == ${Math.floor(Date.now() / 1000) - 7 * 24 * 60 * 60}`, icon: CalendarIcon },
 ];
@@ -72,9 +74,9 @@ const CreateShortcutDialog: React.FC<Props> = (props: Props) => {
     
     for (const filter of currentFilter) {
       if (filter.factor === "contentSearch") {
-        contentSearch.push(`"${filter.value}"`);
+        contentSearch.push(JSON.stringify(filter.value));
       } else if (filter.factor === "tagSearch") {
-        tagSearch.push(`"${filter.value}"`);
+        tagSearch.push(JSON.stringify(filter.value));
       } else if (filter.factor === "pinned") {
         conditions.push(`pinned == true`);
       } else if (filter.factor === "property.hasLink") {
@@ -83,6 +85,10 @@ const CreateShortcutDialog: React.FC<Props> = (props: Props) => {
         conditions.push(`has_task_list == true`);
       } else if (filter.factor === "property.hasCode") {
         conditions.push(`has_code == true`);
+      } else if (filter.factor === "property.hasIncompleteTasks") {
+        conditions.push(`has_incomplete_tasks == true`);
+      } else if (filter.factor === "property.hasImage") {
+        conditions.push(`has_image == true`);
       } else if (filter.factor === "displayTime") {
         const filterDate = new Date(filter.value);
         const filterUtcTimestamp = filterDate.getTime() + filterDate.getTimezoneOffset() * 60 * 1000;
@@ -121,29 +127,31 @@ const CreateShortcutDialog: React.FC<Props> = (props: Props) => {
       return { isValid: false, error: "筛选条件不能为空" };
     }
 
-    // 基本语法检查
-    const validOperators = ['==', '!=', '>', '<', '>=', '<='];
-    const validFields = ['tag', 'pinned', 'has_link', 'has_code', 'has_task_list', 'display_time_after', 'display_time_before', 'content_search', 'tag_search'];
-    
-    // 检查是否包含有效的操作符
-    const hasValidOperator = validOperators.some(op => filter.includes(op));
-    if (!hasValidOperator) {
-      return { isValid: false, error: "必须包含有效的操作符 (==, !=, >, <, >=, <=)" };
-    }
-
-    // 检查括号匹配
-    const openParens = (filter.match(/\(/g) || []).length;
-    const closeParens = (filter.match(/\)/g) || []).length;
-    if (openParens !== closeParens) {
-      return { isValid: false, error: "括号不匹配" };
+    // 基本语法检查：跳过字符串内容，检查引号和括号是否匹配，完整的校验由服务端完成
+    let quote = "";
+    let depth = 0;
+    for (let i = 0; i < filter.length; i++) {
+      const char = filter[i];
+      if (quote) {
+        if (char === "\\") {
+          i++;
+        } else if (char === quote) {
+          quote = "";
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "(") {
+        depth++;
+      } else if (char === ")" && --depth < 0) {
+        break;
+      }
     }
-
-    // 检查引号匹配
-    const singleQuotes = (filter.match(/'/g) || []).length;
-    const doubleQuotes = (filter.match(/"/g) || []).length;
-    if (singleQuotes % 2 !== 0 || doubleQuotes % 2 !== 0) {
+    if (quote) {
       return { isValid: false, error: "引号不匹配" };
     }
+    if (depth !== 0) {
+      return { isValid: false, error: "括号不匹配" };
+    }
 
     return { isValid: true };
   };
@@ -180,7 +188,11 @@ const CreateShortcutDialog: React.FC<Props> = (props: Props) => {
       destroy();
     } catch (error: any) {
       console.error(error);
-      toast.error(error.details);
+      // 服务端返回的筛选表达式错误直接显示在输入框下方
+      if (error.message?.startsWith("Invalid filter")) {
+        setFilterError(error.message);
+      }
+      toast.error(error.message);
     }
   };
 
@@ -269,7 +281,13 @@ const CreateShortcutDialog: React.FC<Props> = (props: Props) => {
             <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">has_link == true</code> - 包含链接</div>
             <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">has_code == true</code> - 包含代码</div>
             <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">has_task_list == true</code> - 包含任务列表</div>
+            <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">has_incomplete_tasks == true</code> - 包含未完成任务</div>
+            <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">has_image == true</code> - 包含图片（含图片附件）</div>
             <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">display_time_after == 时间戳</code> - 时间范围</div>
+            <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">visibility in ["PUBLIC", "PROTECTED"]</code> - 按可见性筛选</div>
+            <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">creator == "users/2"</code> - 按创建者筛选</div>
+            <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">tag.startsWith("工作")</code> - 标签前缀匹配</div>
+            <div><code className="bg-gray-100 dark:bg-gray-700 px-1 rounded">(pinned || has_code) &amp;&amp; !tag_search == ["草稿"]</code> - 使用 &amp;&amp;、||、! 和括号组合条件</div>
             <div className="text-blue-600 hover:underline cursor-pointer" onClick={() => window.open('https://www.usememos.com/docs/guides/shortcuts', '_blank')}>
               查看完整文档 →
             </div>
@@ -4,6 +4,7 @@ import { XIcon } from "lucide-react";
 import { useState } from "react";
 import { toast } from "react-hot-toast";
 import { userServiceClient } from "@/grpcweb";
+import useCurrentUser from "@/hooks/useCurrentUser";
 import useLoading from "@/hooks/useLoading";
 import { User, User_Role } from "@/types/proto/api/v1/user_service";
 import { useTranslate } from "@/utils/i18n";
@@ -17,9 +18,12 @@ interface Props extends DialogProps {
 const CreateUserDialog: React.FC<Props> = (props: Props) => {
   const { confirmCallback, destroy } = props;
   const t = useTranslate();
-  const [user, setUser] = useState(User.fromPartial({ ...props.user }));
+  const currentUser = useCurrentUser();
+  const [user, setUser] = useState(User.fromPartial({ role: User_Role.USER, ...props.user }));
   const requestState = useLoading(false);
   const isCreating = !props.user;
+  // 只有 HOST 可以分配 ADMIN 角色
+  const canChangeRole = currentUser?.role === User_Role.HOST;
 
   const setPartialUser = (state: Partial<User>) => {
     setUser({
@@ -54,7 +58,8 @@ const CreateUserDialog: React.FC<Props> = (props: Props) => {
       }
     } catch (error: any) {
       console.error(error);
-      toast.error(error.details);
+      toast.error(error.message);
+      return;
     }
     if (confirmCallback) {
       confirmCallback();
@@ -97,15 +102,19 @@ const CreateUserDialog: React.FC<Props> = (props: Props) => {
               })
             }
           />
-          <span className="text-sm whitespace-nowrap mt-3 mb-1">{t("common.role")}</span>
-          <RadioGroup
-            orientation="horizontal"
-            defaultValue={user.role}
-            onChange={(e) => setPartialUser({ role: e.target.value as User_Role })}
-          >
-            <Radio value={User_Role.USER} label={t("setting.member-section.user")} />
-            <Radio value={User_Role.ADMIN} label={t("setting.member-section.admin")} />
-          </RadioGroup>
+          {canChangeRole && (
+            <>
+              <span className="text-sm whitespace-nowrap mt-3 mb-1">{t("common.role")}</span>
+              <RadioGroup
+                orientation="horizontal"
+                defaultValue={user.role}
+                onChange={(e) => setPartialUser({ role: e.target.value as User_Role })}
+              >
+                <Radio value={User_Role.USER} label={t("setting.member-section.user")} />
+                <Radio value={User_Role.ADMIN} label={t("setting.member-section.admin")} />
+              </RadioGroup>
+            </>
+          )}
         </div>
         <div className="w-full flex flex-row justify-end items-center space-x-2 mt-2">
           <Button variant="plain" className="text-gray-700 dark:text-gray-300" disabled={requestState.isLoading} onClick={destroy}>
@@ -0,0 +1,144 @@
+import { Option, Radio, RadioGroup, Select } from "@mui/joy";
+import { Button } from "@usememos/mui";
+import { XIcon } from "lucide-react";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import useLoading from "@/hooks/useLoading";
+import { userStore } from "@/store/v2";
+import { User } from "@/types/proto/api/v1/user_service";
+import { useTranslate } from "@/utils/i18n";
+import { generateDialog } from "./Dialog";
+
+interface Props extends DialogProps {
+  user: User;
+  // 可以接收被删除用户内容的成员
+  candidates: User[];
+  confirmCallback?: () => void;
+}
+
+type DeleteMode = "reassign" | "purge";
+
+const DeleteUserDialog: React.FC<Props> = (props: Props) => {
+  const { user, candidates, confirmCallback, destroy } = props;
+  const t = useTranslate();
+  const [mode, setMode] = useState<DeleteMode>(
+    candidates.length > 0 ? "reassign" : "purge",
+  );
+  const [reassignTo, setReassignTo] = useState(candidates[0]?.name ?? "");
+  const requestState = useLoading(false);
+
+  const handleConfirm = async () => {
+    if (mode === "reassign" && !reassignTo) {
+      toast.error(t("setting.member-section.select-reassign-member"));
+      return;
+    }
+
+    requestState.setLoading();
+    try {
+      await userStore.deleteUser(
+        user.name,
+        mode === "reassign" ? reassignTo : undefined,
+      );
+      requestState.setFinish();
+      toast.success(
+        t("setting.member-section.delete-success", { username: user.username }),
+      );
+    } catch (error: any) {
+      console.error(error);
+      requestState.setError();
+      toast.error(error.message);
+      return;
+    }
+    if (confirmCallback) {
+      confirmCallback();
+    }
+    destroy();
+  };
+
+  return (
+    <div className="max-w-full shadow flex flex-col justify-start items-start bg-white dark:bg-zinc-800 dark:text-gray-300 p-4 rounded-lg">
+      <div className="flex flex-row justify-between items-center mb-4 gap-2 w-full">
+        <p className="title-text">
+          {t("setting.member-section.delete-member")}
+        </p>
+        <Button
+          variant="plain"
+          className="text-gray-700 dark:text-gray-300"
+          onClick={() => destroy()}
+        >
+          <XIcon className="w-5 h-auto" />
+        </Button>
+      </div>
+      <div className="flex flex-col justify-start items-start max-w-md min-w-72">
+        <p className="text-sm mb-3">
+          {t("setting.member-section.delete-warning", {
+            username: user.username,
+          })}
+        </p>
+        <RadioGroup
+          value={mode}
+          onChange={(event) => setMode(event.target.value as DeleteMode)}
+        >
+          <Radio
+            value="reassign"
+            label={t("setting.member-section.reassign-content")}
+            disabled={candidates.length === 0}
+          />
+          {mode === "reassign" && (
+            <Select
+              className="w-full ml-6!"
+              value={reassignTo}
+              onChange={(_, value) => setReassignTo(value ?? reassignTo)}
+            >
+              {candidates.map((candidate) => (
+                <Option key={candidate.name} value={candidate.name}>
+                  {candidate.nickname
+                    ? `${candidate.nickname} (${candidate.username})`
+                    : candidate.username}
+                </Option>
+              ))}
+            </Select>
+          )}
+          <Radio
+            value="purge"
+            label={t("setting.member-section.purge-content")}
+          />
+        </RadioGroup>
+        <div className="w-full flex flex-row justify-end items-center space-x-2 mt-4">
+          <Button
+            variant="plain"
+            className="text-gray-700 dark:text-gray-300"
+            disabled={requestState.isLoading}
+            onClick={destroy}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            color="primary"
+            disabled={requestState.isLoading}
+            onClick={handleConfirm}
+          >
+            {t("common.delete")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function showDeleteUserDialog(
+  user: User,
+  candidates: User[],
+  confirmCallback?: () => void,
+) {
+  generateDialog(
+    {
+      className: "delete-user-dialog",
+      dialogName: "delete-user-dialog",
+    },
+    DeleteUserDialog,
+    { user, candidates, confirmCallback },
+  );
+}
+
+export default showDeleteUserDialog;
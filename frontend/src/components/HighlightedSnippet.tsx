@@ -0,0 +1,31 @@
+import { cn } from "@/utils";
+
+interface Props {
+  // Snippet text returned by the search API, with matches wrapped in <mark></mark>.
+  snippet: string;
+  className?: string;
+}
+
+// Renders search highlights as text nodes, so memo content is never injected as HTML.
+const HighlightedSnippet = ({ snippet, className }: Props) => {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <p className={cn("break-words whitespace-pre-wrap", className)}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-amber-200 text-inherit dark:bg-amber-700"
+          >
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </p>
+  );
+};
+
+export default HighlightedSnippet;
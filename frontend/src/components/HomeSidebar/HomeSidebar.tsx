@@ -6,7 +6,7 @@ import SearchBar from "@/components/SearchBar";
 import useCurrentUser from "@/hooks/useCurrentUser";
 import { Routes } from "@/router";
 import { useEffect } from "react";
-import { memoStore, userStore } from "@/store/v2";
+import { memoFilterStore, memoStore, userStore } from "@/store/v2";
 import { cn } from "@/utils";
 import MemoFilters from "../MemoFilters";
 import StatisticsView from "../StatisticsView";
@@ -29,18 +29,21 @@ const HomeSidebar = observer((props: Props) => {
   useDebounce(
     async () => {
       let parent: string | undefined = undefined;
+      let filter: string | undefined = undefined;
       if (location.pathname === Routes.ROOT && currentUser) {
         parent = currentUser.name;
+        // Scope the statistics to the selected shortcut.
+        filter = userStore.state.shortcuts.find((shortcut) => shortcut.id === memoFilterStore.shortcut)?.filter;
       }
       if (matchPath("/u/:username", location.pathname) !== null) {
         const username = last(location.pathname.split("/"));
         const user = await userStore.getOrFetchUserByUsername(username || "");
         parent = user.name;
       }
-      await userStore.fetchUserStats(parent);
+      await userStore.fetchUserStats(parent, filter);
     },
     300,
-    [memoStore.state.memos.length, userStore.state.statsStateId, location.pathname],
+    [memoStore.state.memos.length, userStore.state.statsStateId, location.pathname, memoFilterStore.shortcut],
   );
 
   return (
@@ -3,8 +3,7 @@ import { Edit3Icon, HashIcon, MoreVerticalIcon, TagsIcon, TrashIcon } from "luci
 import { observer } from "mobx-react-lite";
 import toast from "react-hot-toast";
 import useLocalStorage from "react-use/lib/useLocalStorage";
-import { memoServiceClient } from "@/grpcweb";
-import { userStore } from "@/store/v2";
+import { memoStore, userStore } from "@/store/v2";
 import memoFilterStore, { MemoFilter } from "@/store/v2/memoFilter";
 import { cn } from "@/utils";
 import { useTranslate } from "@/utils/i18n";
@@ -38,10 +37,7 @@ const TagsSection = observer((props: Props) => {
   const handleDeleteTag = async (tag: string) => {
     const confirmed = window.confirm(t("tag.delete-confirm"));
     if (confirmed) {
-      await memoServiceClient.deleteMemoTag({
-        parent: "memos/-",
-        tag: tag,
-      });
+      await memoStore.deleteTag(tag);
       toast.success(t("message.deleted-successfully"));
     }
   };
@@ -0,0 +1,205 @@
+import { Button } from "@usememos/mui";
+import { FileUpIcon, XIcon } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import { ImportJob } from "@/api/client";
+import { importServiceClient } from "@/grpcweb";
+import { userStore } from "@/store/v2";
+import { cn } from "@/utils";
+import { useTranslate } from "@/utils/i18n";
+import { generateDialog } from "./Dialog";
+
+type Props = DialogProps;
+
+const ImportDataDialog: React.FC<Props> = (props: Props) => {
+  const { destroy } = props;
+  const t = useTranslate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File>();
+  const [job, setJob] = useState<ImportJob>();
+  const [isRunning, setIsRunning] = useState(false);
+  // Stops the import loop when the dialog is closed, the job can be resumed later.
+  const stoppedRef = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      stoppedRef.current = true;
+    };
+  }, []);
+
+  const runJob = async (initialJob: ImportJob) => {
+    setIsRunning(true);
+    try {
+      let current = initialJob;
+      while (current.status === "RUNNING" && !stoppedRef.current) {
+        current = await importServiceClient.runImportJob({
+          name: current.name,
+        });
+        setJob(current);
+      }
+      if (current.status === "COMPLETED") {
+        userStore.setStatsStateId();
+        toast.success(t("setting.import-section.completed"));
+      }
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!file) {
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const createdJob = await importServiceClient.createImportJob({ file });
+      setJob(createdJob);
+      await runJob(createdJob);
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+      setIsRunning(false);
+    }
+  };
+
+  const progress =
+    job && job.total > 0
+      ? Math.round(((job.imported + job.failed) / job.total) * 100)
+      : 0;
+
+  return (
+    <div className="max-w-full shadow flex flex-col justify-start items-start bg-white dark:bg-zinc-800 dark:text-gray-300 p-4 rounded-lg">
+      <div className="flex flex-row justify-between items-center w-full mb-4 gap-2">
+        <p>{t("setting.import-section.title")}</p>
+        <Button
+          variant="plain"
+          className="text-gray-700 dark:text-gray-300"
+          onClick={() => destroy()}
+        >
+          <XIcon className="w-5 h-auto" />
+        </Button>
+      </div>
+      <div className="flex flex-col justify-start items-start w-96! max-w-full gap-3">
+        {!job ? (
+          <>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t("setting.import-section.description")}
+            </p>
+            <ul className="text-sm text-gray-500 dark:text-gray-400 list-disc pl-5">
+              <li>{t("setting.import-section.source-memos")}</li>
+              <li>{t("setting.import-section.source-flomo")}</li>
+              <li>{t("setting.import-section.source-markdown")}</li>
+            </ul>
+            <input
+              ref={fileInputRef}
+              className="hidden"
+              type="file"
+              accept=".sql,.json,.html,.htm,.md,.markdown,.zip"
+              onChange={(e) => setFile(e.target.files?.[0])}
+            />
+            <Button
+              variant="outlined"
+              className="w-full"
+              disabled={isRunning}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileUpIcon className="w-4 h-auto mr-1 shrink-0" />
+              <span className="truncate">
+                {file ? file.name : t("setting.import-section.select-file")}
+              </span>
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="w-full flex flex-row justify-between items-center text-sm">
+              <span className="truncate">{job.filename}</span>
+              <span className="shrink-0 text-gray-500 dark:text-gray-400">
+                {job.imported + job.failed} / {job.total}
+              </span>
+            </div>
+            <div className="w-full h-2 rounded-full bg-zinc-100 dark:bg-zinc-700 overflow-hidden">
+              <div
+                className={cn(
+                  "h-full rounded-full transition-all",
+                  job.status === "COMPLETED" ? "bg-green-500" : "bg-blue-500",
+                )}
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {job.status === "COMPLETED"
+                ? t("setting.import-section.summary", {
+                    imported: job.imported,
+                    failed: job.failed,
+                  })
+                : t("setting.import-section.importing")}
+            </p>
+            {job.errors.length > 0 && (
+              <div className="w-full max-h-48 overflow-auto border border-zinc-200 dark:border-zinc-700 rounded-md text-xs">
+                {job.errors.map((error, index) => (
+                  <div
+                    key={index}
+                    className="px-2 py-1 border-b last:border-b-0 border-zinc-100 dark:border-zinc-700"
+                  >
+                    <p
+                      className={cn(
+                        "truncate font-medium",
+                        error.failed ? "text-red-600" : "text-amber-600",
+                      )}
+                    >
+                      {error.title}
+                    </p>
+                    <p className="whitespace-pre-wrap break-all text-gray-500 dark:text-gray-400">
+                      {error.message}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+        <div className="w-full flex flex-row justify-end items-center mt-2 space-x-2">
+          <Button
+            variant="plain"
+            className="text-gray-700 dark:text-gray-300"
+            onClick={destroy}
+          >
+            {job?.status === "COMPLETED"
+              ? t("common.close")
+              : t("common.cancel")}
+          </Button>
+          {!job && (
+            <Button
+              color="primary"
+              disabled={!file || isRunning}
+              onClick={handleStart}
+            >
+              {t("setting.import-section.start")}
+            </Button>
+          )}
+          {job?.status === "RUNNING" && !isRunning && (
+            <Button color="primary" onClick={() => runJob(job)}>
+              {t("setting.import-section.resume")}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function showImportDataDialog() {
+  generateDialog(
+    {
+      className: "import-data-dialog",
+      dialogName: "import-data-dialog",
+    },
+    ImportDataDialog,
+  );
+}
+
+export default showImportDataDialog;
@@ -1,4 +1,5 @@
 import { Link as MLink, Tooltip } from "@mui/joy";
+import { GlobeIcon } from "lucide-react";
 import { useState } from "react";
 import { markdownServiceClient } from "@/grpcweb";
 import { workspaceStore } from "@/store/v2";
@@ -10,15 +11,6 @@ interface Props {
   content?: Node[];
 }
 
-const getFaviconWithGoogleS2 = (url: string) => {
-  try {
-    const urlObject = new URL(url);
-    return `https://www.google.com/s2/favicons?sz=128&domain=${urlObject.hostname}`;
-  } catch {
-    return undefined;
-  }
-};
-
 const Link: React.FC<Props> = ({ content, url }: Props) => {
   const workspaceMemoRelatedSetting = workspaceStore.state.memoRelatedSetting;
   const [initialized, setInitialized] = useState<boolean>(false);
@@ -49,7 +41,7 @@ const Link: React.FC<Props> = ({ content, url }: Props) => {
         linkMetadata && (
           <div className="w-full max-w-64 sm:max-w-96 p-1 flex flex-col">
             <div className="w-full flex flex-row justify-start items-center gap-1">
-              <img className="w-5 h-5 rounded" src={getFaviconWithGoogleS2(url)} alt={linkMetadata?.title} />
+              <GlobeIcon className="w-4 h-auto shrink-0 opacity-60" />
               <h3 className="text-base truncate dark:opacity-90">{linkMetadata?.title}</h3>
             </div>
             {linkMetadata.description && (
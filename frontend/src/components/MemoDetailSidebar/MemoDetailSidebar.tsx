@@ -1,9 +1,12 @@
 import { isEqual } from "lodash-es";
 import { CheckCircleIcon, Code2Icon, HashIcon, LinkIcon } from "lucide-react";
+import useCurrentUser from "@/hooks/useCurrentUser";
 import { Memo, MemoRelation_Type, Memo_Property } from "@/types/proto/api/v1/memo_service";
 import { cn } from "@/utils";
 import { useTranslate } from "@/utils/i18n";
+import { isSuperUser } from "@/utils/user";
 import MemoRelationForceGraph from "../MemoRelationForceGraph";
+import MemoRevisionHistory from "./MemoRevisionHistory";
 
 interface Props {
   memo: Memo;
@@ -13,9 +16,11 @@ interface Props {
 
 const MemoDetailSidebar = ({ memo, className, parentPage }: Props) => {
   const t = useTranslate();
+  const currentUser = useCurrentUser();
   const property = Memo_Property.fromPartial(memo.property || {});
   const hasSpecialProperty = property.hasLink || property.hasTaskList || property.hasCode || property.hasIncompleteTasks;
   const shouldShowRelationGraph = memo.relations.filter((r) => r.type === MemoRelation_Type.REFERENCE).length > 0;
+  const canViewHistory = memo.creator === currentUser?.name || isSuperUser(currentUser);
 
   return (
     <aside
@@ -45,6 +50,14 @@ const MemoDetailSidebar = ({ memo, className, parentPage }: Props) => {
             <p className="text-sm text-gray-500 dark:text-gray-400">{memo.updateTime?.toLocaleString()}</p>
           </div>
         )}
+        {canViewHistory && (
+          <div className="w-full flex flex-col">
+            <p className="flex flex-row justify-start items-center w-full gap-1 mb-1 text-sm leading-6 text-gray-400 dark:text-gray-500 select-none">
+              <span>{t("memo.history.title")}</span>
+            </p>
+            <MemoRevisionHistory memo={memo} />
+          </div>
+        )}
         {hasSpecialProperty && (
           <div className="w-full flex flex-col">
             <p className="flex flex-row justify-start items-center w-full gap-1 mb-1 text-sm leading-6 text-gray-400 dark:text-gray-500 select-none">
@@ -0,0 +1,198 @@
+import { Drawer, Option, Select } from "@mui/joy";
+import { Button } from "@usememos/mui";
+import { HistoryIcon } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import { memoServiceClient } from "@/grpcweb";
+import { memoStore } from "@/store/v2";
+import { Memo } from "@/types/proto/api/v1/memo_service";
+import { cn } from "@/utils";
+import { diffLines } from "@/utils/diff";
+import { useTranslate } from "@/utils/i18n";
+
+interface MemoRevision {
+  id: number;
+  name: string;
+  creatorUsername: string;
+  content: string;
+  visibility: string;
+  createTime: Date;
+}
+
+interface Props {
+  memo: Memo;
+}
+
+const diffLineClassNames = {
+  equal: "text-gray-500 dark:text-gray-400",
+  added: "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400",
+  removed: "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-400",
+};
+
+const diffLinePrefixes = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+const MemoRevisionHistory = ({ memo }: Props) => {
+  const t = useTranslate();
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<MemoRevision[]>([]);
+  // Revisions are ordered from newest to oldest, the first one matches the current memo.
+  const [fromRevisionId, setFromRevisionId] = useState<number>();
+  const [toRevisionId, setToRevisionId] = useState<number>();
+  const [isRestoring, setIsRestoring] = useState(false);
+  const fromRevision = revisions.find(
+    (revision) => revision.id === fromRevisionId,
+  );
+  const toRevision = revisions.find((revision) => revision.id === toRevisionId);
+
+  const fetchRevisions = async () => {
+    const { revisions } = await memoServiceClient.listMemoRevisions({
+      name: memo.name,
+    });
+    setRevisions(revisions);
+    setToRevisionId(revisions[0]?.id);
+    setFromRevisionId(revisions[1]?.id ?? revisions[0]?.id);
+  };
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions().catch((error) => {
+        console.error(error);
+        toast.error(error.message);
+      });
+    }
+  }, [open, memo.updateTime]);
+
+  const diff = useMemo(() => {
+    if (!fromRevision || !toRevision) {
+      return [];
+    }
+    return diffLines(fromRevision.content, toRevision.content);
+  }, [fromRevision, toRevision]);
+
+  const formatRevisionLabel = (revision: MemoRevision) =>
+    `${revision.createTime.toLocaleString()} · ${revision.creatorUsername}`;
+
+  const handleRestore = async () => {
+    if (!toRevision || !window.confirm(t("memo.history.restore-confirm"))) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      await memoServiceClient.restoreMemoRevision({ name: toRevision.name });
+      await memoStore.getOrFetchMemoByName(memo.name, { skipCache: true });
+      toast.success(t("memo.history.restored"));
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderRevisionSelect = (
+    label: string,
+    value: number | undefined,
+    onChange: (value: number) => void,
+  ) => (
+    <div className="w-full flex flex-row justify-between items-center gap-2">
+      <span className="text-sm shrink-0 dark:text-zinc-400">{label}</span>
+      <Select
+        className="w-full max-w-72"
+        size="sm"
+        value={value ?? null}
+        onChange={(_, value) => value && onChange(value)}
+      >
+        {revisions.map((revision) => (
+          <Option key={revision.id} value={revision.id}>
+            {formatRevisionLabel(revision)}
+          </Option>
+        ))}
+      </Select>
+    </div>
+  );
+
+  return (
+    <>
+      <Button
+        variant="plain"
+        size="sm"
+        className="px-1! text-gray-500 dark:text-gray-400"
+        onClick={() => setOpen(true)}
+      >
+        <HistoryIcon className="w-4 h-auto mr-1" />
+        {t("memo.history.view")}
+      </Button>
+      <Drawer
+        anchor="right"
+        size="md"
+        open={open}
+        onClose={() => setOpen(false)}
+      >
+        <div className="w-full h-full flex flex-col justify-start items-start gap-3 p-4 bg-zinc-100 dark:bg-zinc-900 overflow-auto custom-scrollbar">
+          <p className="text-lg font-medium text-gray-700 dark:text-gray-300">
+            {t("memo.history.title")}
+          </p>
+          {revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t("memo.history.no-revisions")}
+            </p>
+          ) : (
+            <>
+              {renderRevisionSelect(
+                t("memo.history.from"),
+                fromRevisionId,
+                setFromRevisionId,
+              )}
+              {renderRevisionSelect(
+                t("memo.history.to"),
+                toRevisionId,
+                setToRevisionId,
+              )}
+              {fromRevision &&
+                toRevision &&
+                fromRevision.visibility !== toRevision.visibility && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t("common.visibility")}: {fromRevision.visibility} →{" "}
+                    {toRevision.visibility}
+                  </p>
+                )}
+              <div className="w-full border border-zinc-200 dark:border-zinc-800 rounded-md bg-white dark:bg-zinc-800 py-1 font-mono text-xs overflow-x-auto">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "px-2 whitespace-pre-wrap break-all",
+                      diffLineClassNames[line.type],
+                    )}
+                  >
+                    {diffLinePrefixes[line.type]} {line.content}
+                  </div>
+                ))}
+              </div>
+              <div className="w-full flex flex-row justify-end items-center">
+                <Button
+                  color="primary"
+                  disabled={
+                    !toRevision ||
+                    toRevision.id === revisions[0].id ||
+                    isRestoring
+                  }
+                  onClick={handleRestore}
+                >
+                  {t("memo.history.restore-to")}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </Drawer>
+    </>
+  );
+};
+
+export default MemoRevisionHistory;
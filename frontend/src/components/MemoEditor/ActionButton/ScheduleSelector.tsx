@@ -0,0 +1,110 @@
+import { Button } from "@usememos/mui";
+import dayjs from "dayjs";
+import { CalendarClockIcon, XIcon } from "lucide-react";
+import { useState } from "react";
+import DateTimeInput from "@/components/DateTimeInput";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/Popover";
+import { useTranslate } from "@/utils/i18n";
+
+interface Props {
+  publishTime?: Date;
+  remindTime?: Date;
+  onPublishTimeChange: (publishTime?: Date) => void;
+  onRemindTimeChange: (remindTime?: Date) => void;
+}
+
+// New schedules default to the start of the next hour.
+const getDefaultTime = () => dayjs().add(1, "hour").startOf("hour").toDate();
+
+const ScheduleSelector = (props: Props) => {
+  const t = useTranslate();
+  const [popoverOpen, setPopoverOpen] = useState<boolean>(false);
+  const hasSchedule = Boolean(props.publishTime || props.remindTime);
+
+  const removeSchedule = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    props.onPublishTimeChange(undefined);
+    props.onRemindTimeChange(undefined);
+  };
+
+  const renderTimeField = (
+    label: string,
+    value: Date | undefined,
+    onChange: (date?: Date) => void,
+  ) => (
+    <div className="w-full flex flex-row justify-between items-center gap-2">
+      <span className="text-sm shrink-0">{label}</span>
+      {value ? (
+        <div className="flex flex-row justify-end items-center gap-1">
+          {/* DateTimeInput is uncontrolled, remount it when the value changes. */}
+          <DateTimeInput
+            key={value.getTime()}
+            value={value}
+            onChange={onChange}
+          />
+          <XIcon
+            className="w-4 h-auto shrink-0 cursor-pointer opacity-60 hover:opacity-80"
+            onClick={() => onChange(undefined)}
+          />
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          variant="plain"
+          onClick={() => onChange(getDefaultTime())}
+        >
+          {t("editor.schedule.set-time")}
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Popover open={popoverOpen} onOpenChange={setPopoverOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          className="flex items-center justify-center p-0"
+          size="sm"
+          variant="plain"
+        >
+          <CalendarClockIcon className="w-5 h-5 mx-auto shrink-0 text-gray-600 dark:text-gray-300" />
+          {hasSchedule && (
+            <>
+              <span className="ml-0.5 text-sm text-ellipsis whitespace-nowrap overflow-hidden max-w-32">
+                {dayjs(props.publishTime || props.remindTime).format(
+                  "M/D H:mm",
+                )}
+              </span>
+              <XIcon
+                className="w-5 h-5 mx-auto shrink-0 hidden group-hover:block opacity-60 hover:opacity-80"
+                onClick={removeSchedule}
+              />
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="center">
+        <div className="w-72 flex flex-col justify-start items-start gap-2">
+          {renderTimeField(
+            t("editor.schedule.publish-at"),
+            props.publishTime,
+            props.onPublishTimeChange,
+          )}
+          {renderTimeField(
+            t("editor.schedule.remind-at"),
+            props.remindTime,
+            props.onRemindTimeChange,
+          )}
+          <p className="text-xs opacity-60">{t("editor.schedule.hint")}</p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ScheduleSelector;
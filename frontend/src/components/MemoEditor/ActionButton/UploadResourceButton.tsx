@@ -45,19 +45,25 @@ const UploadResourceButton = observer((props: Props) => {
       for (const file of fileInputRef.current.files) {
         const { name: filename, size, type } = file;
         const buffer = new Uint8Array(await file.arrayBuffer());
-        const resource = await resourceStore.createResource({
-          resource: Resource.fromPartial({
-            filename,
-            size,
-            type,
-            content: buffer,
-          }),
-        });
-        createdResourceList.push(resource);
+        try {
+          const resource = await resourceStore.createResource({
+            resource: Resource.fromPartial({
+              filename,
+              size,
+              type,
+              content: buffer,
+            }),
+          });
+          createdResourceList.push(resource);
+        } catch (error: any) {
+          // Rejected files (e.g. too large, not allowed type or quota exceeded) are skipped, the others are still uploaded.
+          console.error(error);
+          toast.error(`${filename}: ${error.message}`);
+        }
       }
     } catch (error: any) {
       console.error(error);
-      toast.error(error.details);
+      toast.error(error.message);
     }
 
     context.setResourceList([...context.resourceList, ...createdResourceList]);
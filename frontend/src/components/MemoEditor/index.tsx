@@ -24,6 +24,7 @@ import DateTimeInput from "../DateTimeInput";
 import AddMemoRelationPopover from "./ActionButton/AddMemoRelationPopover";
 import LocationSelector from "./ActionButton/LocationSelector";
 import MarkdownMenu from "./ActionButton/MarkdownMenu";
+import ScheduleSelector from "./ActionButton/ScheduleSelector";
 import TagSelector from "./ActionButton/TagSelector";
 import UploadResourceButton from "./ActionButton/UploadResourceButton";
 import VisibilitySelector from "./ActionButton/VisibilitySelector";
@@ -51,6 +52,8 @@ interface State {
   resourceList: Resource[];
   relationList: MemoRelation[];
   location: Location | undefined;
+  publishTime: Date | undefined;
+  remindTime: Date | undefined;
   isUploadingResource: boolean;
   isRequesting: boolean;
   isComposing: boolean;
@@ -70,6 +73,8 @@ const MemoEditor = observer((props: Props) => {
     resourceList: [],
     relationList: [],
     location: undefined,
+    publishTime: undefined,
+    remindTime: undefined,
     isUploadingResource: false,
     isRequesting: false,
     isComposing: false,
@@ -132,6 +137,8 @@ const MemoEditor = observer((props: Props) => {
         resourceList: memo.resources,
         relationList: memo.relations,
         location: memo.location,
+        publishTime: memo.publishTime,
+        remindTime: memo.remindTime,
       }));
       if (!contentCache) {
         editorRef.current?.setContent(memo.content ?? "");
@@ -231,7 +238,7 @@ const MemoEditor = observer((props: Props) => {
       return resource;
     } catch (error: any) {
       console.error(error);
-      toast.error(error.details);
+      toast.error(`${filename}: ${error.message}`);
       setState((state) => {
         return {
           ...state,
@@ -364,6 +371,14 @@ const MemoEditor = observer((props: Props) => {
             updateMask.add("location");
             memoPatch.location = state.location;
           }
+          if (!isEqual(state.publishTime, prevMemo.publishTime)) {
+            updateMask.add("publish_time");
+            memoPatch.publishTime = state.publishTime;
+          }
+          if (!isEqual(state.remindTime, prevMemo.remindTime)) {
+            updateMask.add("remind_time");
+            memoPatch.remindTime = state.remindTime;
+          }
           if (["content", "resources", "relations", "location"].some((key) => updateMask.has(key))) {
             updateMask.add("update_time");
           }
@@ -397,6 +412,8 @@ const MemoEditor = observer((props: Props) => {
                 resources: state.resourceList,
                 relations: state.relationList,
                 location: state.location,
+                publishTime: state.publishTime,
+                remindTime: state.remindTime,
               }),
             })
           : memoServiceClient
@@ -430,6 +447,8 @@ const MemoEditor = observer((props: Props) => {
         resourceList: [],
         relationList: [],
         location: undefined,
+        publishTime: undefined,
+        remindTime: undefined,
         isDraggingFile: false,
       };
     });
@@ -515,6 +534,14 @@ const MemoEditor = observer((props: Props) => {
                 }))
               }
             />
+            {!parentMemoName && (
+              <ScheduleSelector
+                publishTime={state.publishTime}
+                remindTime={state.remindTime}
+                onPublishTimeChange={(publishTime) => setState((prevState) => ({ ...prevState, publishTime }))}
+                onRemindTimeChange={(remindTime) => setState((prevState) => ({ ...prevState, remindTime }))}
+              />
+            )}
           </div>
           <div className="shrink-0 -mr-1 flex flex-row justify-end items-center">
             {props.onCancel && (
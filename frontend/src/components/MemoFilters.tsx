@@ -1,5 +1,17 @@
 import { isEqual } from "lodash-es";
-import { CalendarIcon, CheckCircleIcon, CodeIcon, EyeIcon, HashIcon, LinkIcon, BookmarkIcon, SearchIcon, XIcon } from "lucide-react";
+import {
+  CalendarIcon,
+  CheckCircleIcon,
+  CodeIcon,
+  EyeIcon,
+  HashIcon,
+  LinkIcon,
+  BookmarkIcon,
+  SearchIcon,
+  XIcon,
+  ListTodoIcon,
+  ImageIcon,
+} from "lucide-react";
 import { observer } from "mobx-react-lite";
 import { useEffect } from "react";
 import { useSearchParams } from "react-router-dom";
@@ -33,6 +45,10 @@ const MemoFilters = observer(() => {
           return t("filters.has-code");
         case "hasTaskList":
           return t("filters.has-task-list");
+        case "hasIncompleteTasks":
+          return t("filters.has-incomplete-tasks");
+        case "hasImage":
+          return t("filters.has-image");
         default:
           return factorLabel;
       }
@@ -73,6 +89,8 @@ const FactorIcon = ({ factor, className }: { factor: FilterFactor; className?: s
     "property.hasLink": <LinkIcon className={className} />,
     "property.hasTaskList": <CheckCircleIcon className={className} />,
     "property.hasCode": <CodeIcon className={className} />,
+    "property.hasIncompleteTasks": <ListTodoIcon className={className} />,
+    "property.hasImage": <ImageIcon className={className} />,
   };
   return iconMap[factor as keyof typeof iconMap] || <></>;
 };
@@ -1,5 +1,5 @@
 import { Tooltip } from "@mui/joy";
-import { BookmarkIcon, EyeOffIcon, MessageCircleMoreIcon } from "lucide-react";
+import { AlarmClockIcon, BookmarkIcon, CalendarClockIcon, EyeOffIcon, MessageCircleMoreIcon, SearchIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import { memo, useCallback, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
@@ -13,6 +13,7 @@ import { cn } from "@/utils";
 import { useTranslate } from "@/utils/i18n";
 import { convertVisibilityToString } from "@/utils/memo";
 import { isSuperUser } from "@/utils/user";
+import HighlightedSnippet from "./HighlightedSnippet";
 import MemoActionMenu from "./MemoActionMenu";
 import MemoContent from "./MemoContent";
 import MemoEditor from "./MemoEditor";
@@ -194,6 +195,20 @@ const MemoView: React.FC<Props> = observer((props: Props) => {
               {commentAmount > 0 && <span className="text-xs text-gray-500 dark:text-gray-400">{commentAmount}</span>}
             </Link>
           )}
+          {memo.publishTime && (
+            <Tooltip title={t("memo.scheduled-for", { time: memo.publishTime.toLocaleString() })} placement="top">
+              <span>
+                <CalendarClockIcon className="w-4 h-auto text-blue-500" />
+              </span>
+            </Tooltip>
+          )}
+          {memo.remindTime && (
+            <Tooltip title={t("memo.remind-at", { time: memo.remindTime.toLocaleString() })} placement="top">
+              <span>
+                <AlarmClockIcon className="w-4 h-auto text-gray-500 dark:text-gray-400" />
+              </span>
+            </Tooltip>
+          )}
           {props.showPinned && memo.pinned && (
             <Tooltip title={t("common.unpin")} placement="top">
               <span className="cursor-pointer">
@@ -215,6 +230,12 @@ const MemoView: React.FC<Props> = observer((props: Props) => {
           nsfw && !showNSFWContent && "blur-lg transition-all duration-200",
         )}
       >
+        {memo.searchSnippet && (
+          <div className="w-full flex flex-row justify-start items-start gap-1.5 text-sm text-gray-500 dark:text-gray-400">
+            <SearchIcon className="w-4 h-auto mt-0.5 shrink-0 opacity-60" />
+            <HighlightedSnippet className="line-clamp-2" snippet={memo.searchSnippet} />
+          </div>
+        )}
         <MemoContent
           key={`${memo.name}-${memo.updateTime}`}
           memoName={memo.name}
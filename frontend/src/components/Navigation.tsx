@@ -1,11 +1,12 @@
 import { Tooltip } from "@mui/joy";
-import { EarthIcon, LibraryIcon, PaperclipIcon, UserCircleIcon } from "lucide-react";
+import { BellIcon, EarthIcon, LibraryIcon, PaperclipIcon, UserCircleIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import { useEffect } from "react";
 import { NavLink } from "react-router-dom";
 import useCurrentUser from "@/hooks/useCurrentUser";
 import { Routes } from "@/router";
 import { userStore } from "@/store/v2";
+import { Inbox_Status } from "@/types/proto/api/v1/inbox_service";
 import { cn } from "@/utils";
 import { useTranslate } from "@/utils/i18n";
 import BrandBanner from "./BrandBanner";
@@ -27,6 +28,7 @@ const Navigation = observer((props: Props) => {
   const { collapsed, className } = props;
   const t = useTranslate();
   const currentUser = useCurrentUser();
+  const unreadInboxCount = userStore.state.inboxes.filter((inbox) => inbox.status === Inbox_Status.UNREAD).length;
 
   useEffect(() => {
     if (!currentUser) {
@@ -54,6 +56,21 @@ const Navigation = observer((props: Props) => {
     title: t("common.resources"),
     icon: <PaperclipIcon className="w-6 h-auto opacity-70 shrink-0" />,
   };
+  const inboxNavLink: NavLinkItem = {
+    id: "header-inbox",
+    path: Routes.INBOX,
+    title: t("common.inbox"),
+    icon: (
+      <div className="relative">
+        <BellIcon className="w-6 h-auto opacity-70 shrink-0" />
+        {unreadInboxCount > 0 && (
+          <div className="absolute -top-2 -right-2 min-w-4 h-4 px-1 rounded-full bg-blue-600 text-white text-xs leading-4 text-center">
+            {unreadInboxCount > 99 ? "99+" : unreadInboxCount}
+          </div>
+        )}
+      </div>
+    ),
+  };
   const signInNavLink: NavLinkItem = {
     id: "header-auth",
     path: Routes.AUTH,
@@ -61,7 +78,9 @@ const Navigation = observer((props: Props) => {
     icon: <UserCircleIcon className="w-6 h-auto opacity-70 shrink-0" />,
   };
 
-  const navLinks: NavLinkItem[] = currentUser ? [homeNavLink, exploreNavLink, resourcesNavLink] : [exploreNavLink, signInNavLink];
+  const navLinks: NavLinkItem[] = currentUser
+    ? [homeNavLink, exploreNavLink, resourcesNavLink, inboxNavLink]
+    : [exploreNavLink, signInNavLink];
 
   return (
     <header
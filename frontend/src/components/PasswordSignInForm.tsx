@@ -1,7 +1,6 @@
 import { Button, Checkbox, Input } from "@usememos/mui";
 import { LoaderIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
-import { ClientError } from "nice-grpc-web";
 import { useState } from "react";
 import { toast } from "react-hot-toast";
 import { authServiceClient } from "@/grpcweb";
@@ -9,7 +8,7 @@ import useLoading from "@/hooks/useLoading";
 import useNavigateTo from "@/hooks/useNavigateTo";
 import { workspaceStore } from "@/store/v2";
 import { initialUserStore } from "@/store/v2/user";
-import { useTranslate } from "@/utils/i18n";
+import { translateError, useTranslate } from "@/utils/i18n";
 
 const PasswordSignInForm = observer(() => {
   const t = useTranslate();
@@ -50,7 +49,7 @@ const PasswordSignInForm = observer(() => {
       navigateTo("/");
     } catch (error: any) {
       console.error(error);
-      toast.error((error as ClientError).details || "Failed to sign in.");
+      toast.error(translateError(t, error, "Failed to sign in."));
     }
     actionBtnLoadingState.setFinish();
   };
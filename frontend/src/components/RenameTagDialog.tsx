@@ -3,8 +3,8 @@ import { Button, Input } from "@usememos/mui";
 import { XIcon } from "lucide-react";
 import React, { useState } from "react";
 import { toast } from "react-hot-toast";
-import { memoServiceClient } from "@/grpcweb";
 import useLoading from "@/hooks/useLoading";
+import { memoStore } from "@/store/v2";
 import { useTranslate } from "@/utils/i18n";
 import { generateDialog } from "./Dialog";
 
@@ -33,15 +33,11 @@ const RenameTagDialog: React.FC<Props> = (props: Props) => {
     }
 
     try {
-      await memoServiceClient.renameMemoTag({
-        parent: "memos/-",
-        oldTag: tag,
-        newTag: newName,
-      });
+      await memoStore.renameTag(tag, newName);
       toast.success(t("tag.rename-success"));
     } catch (error: any) {
       console.error(error);
-      toast.error(error.details);
+      toast.error(error.details || error.message);
     }
     destroy();
   };
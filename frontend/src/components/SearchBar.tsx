@@ -1,36 +1,106 @@
 import { SearchIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import { useState } from "react";
+import useDebounce from "react-use/lib/useDebounce";
+import { memoServiceClient } from "@/grpcweb";
+import useCurrentUser from "@/hooks/useCurrentUser";
+import useNavigateTo from "@/hooks/useNavigateTo";
 import { memoFilterStore } from "@/store/v2";
+import { Memo } from "@/types/proto/api/v1/memo_service";
 import { cn } from "@/utils";
 import { useTranslate } from "@/utils/i18n";
+import HighlightedSnippet from "./HighlightedSnippet";
 import MemoDisplaySettingMenu from "./MemoDisplaySettingMenu";
 
+const SEARCH_RESULT_LIMIT = 5;
+
+// Splits the query into search terms. Supported syntax:
+// "exact phrase", -word or NOT word to exclude, and word* for prefix matches.
+const parseSearchQuery = (query: string): string[] => {
+  const terms: string[] = [];
+  let negateNext = false;
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+    const [, negatePrefix, phrase, word] = match;
+    if (word === "NOT") {
+      negateNext = true;
+      continue;
+    }
+    const text = (phrase ?? word.replace(/"/g, "")).trim();
+    if (!text || text === "-") {
+      continue;
+    }
+    const negated = negateNext || negatePrefix === "-";
+    terms.push(negated && !text.startsWith("-") ? `-${text}` : text);
+    negateNext = false;
+  }
+  return terms;
+};
+
 const SearchBar = observer(() => {
   const t = useTranslate();
+  const user = useCurrentUser();
+  const navigateTo = useNavigateTo();
   const [queryText, setQueryText] = useState("");
+  const [results, setResults] = useState<Memo[]>([]);
+  const [showResults, setShowResults] = useState(false);
+
+  useDebounce(
+    async () => {
+      const terms = parseSearchQuery(queryText);
+      if (terms.length === 0 || terms.every((term) => term.startsWith("-"))) {
+        setResults([]);
+        return;
+      }
+
+      try {
+        const { memos } = await memoServiceClient.listMemos({
+          parent: user?.name,
+          limit: SEARCH_RESULT_LIMIT,
+          oldFilter: `content_search == ${JSON.stringify(terms)}`,
+        });
+        setResults(memos as Memo[]);
+      } catch (error) {
+        console.error(error);
+        setResults([]);
+      }
+    },
+    300,
+    [queryText],
+  );
 
   const onTextChange = (event: React.FormEvent<HTMLInputElement>) => {
     setQueryText(event.currentTarget.value);
+    setShowResults(true);
   };
 
   const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setShowResults(false);
+      return;
+    }
     if (e.key === "Enter") {
       e.preventDefault();
-      const trimmedText = queryText.trim();
-      if (trimmedText !== "") {
-        const words = trimmedText.split(/\s+/);
-        words.forEach((word) => {
+      const terms = parseSearchQuery(queryText.trim());
+      if (terms.length > 0) {
+        terms.forEach((term) => {
           memoFilterStore.addFilter({
             factor: "contentSearch",
-            value: word,
+            value: term,
           });
         });
         setQueryText("");
+        setResults([]);
       }
     }
   };
 
+  const handleResultClick = (memo: Memo) => {
+    setShowResults(false);
+    setQueryText("");
+    setResults([]);
+    navigateTo(`/memos/${memo.id}`);
+  };
+
   return (
     <div className="relative w-full h-auto flex flex-row justify-start items-center">
       <SearchIcon className="absolute left-2 w-4 h-auto opacity-40 dark:text-zinc-300" />
@@ -42,8 +112,29 @@ const SearchBar = observer(() => {
         value={queryText}
         onChange={onTextChange}
         onKeyDown={onKeyDown}
+        onFocus={() => setShowResults(true)}
+        onBlur={() => setShowResults(false)}
       />
       <MemoDisplaySettingMenu className="absolute right-2 top-2 dark:text-zinc-300" />
+      {showResults && queryText.trim() !== "" && results.length > 0 && (
+        <div className="absolute top-full left-0 z-10 mt-1 w-full flex flex-col bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-lg overflow-hidden">
+          {results.map((memo) => (
+            <div
+              key={memo.name}
+              className="w-full px-3 py-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-700"
+              // Prevent the input from blurring before the click is handled.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleResultClick(memo)}
+            >
+              <HighlightedSnippet className="line-clamp-2" snippet={memo.searchSnippet || memo.snippet} />
+              <span className="text-xs text-gray-400 dark:text-gray-500">{memo.displayTime?.toLocaleString()}</span>
+            </div>
+          ))}
+          <div className="px-3 py-1 text-xs text-gray-400 dark:text-gray-500 border-t border-zinc-100 dark:border-zinc-700">
+            {t("memo.search-enter-hint")}
+          </div>
+        </div>
+      )}
     </div>
   );
 });
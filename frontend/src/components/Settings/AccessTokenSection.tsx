@@ -1,16 +1,23 @@
 import { Button } from "@usememos/mui";
-import copy from "copy-to-clipboard";
-import { ClipboardIcon, TrashIcon } from "lucide-react";
+import { TrashIcon } from "lucide-react";
 import { useEffect, useState } from "react";
-import { toast } from "react-hot-toast";
 import { userServiceClient } from "@/grpcweb";
 import useCurrentUser from "@/hooks/useCurrentUser";
-import { UserAccessToken } from "@/types/proto/api/v1/user_service";
 import { useTranslate } from "@/utils/i18n";
 import showCreateAccessTokenDialog from "../CreateAccessTokenDialog";
 import LearnMore from "../LearnMore";
 
-const listAccessTokens = async (name: string) => {
+// 令牌只在创建时返回明文，列表中的 accessToken 为令牌前缀
+interface UserAccessToken {
+  name: string;
+  accessToken: string;
+  description: string;
+  issuedAt?: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+}
+
+const listAccessTokens = async (name: string): Promise<UserAccessToken[]> => {
   const { accessTokens } = await userServiceClient.listUserAccessTokens({ name });
   return accessTokens.sort((a, b) => (b.issuedAt?.getTime() ?? 0) - (a.issuedAt?.getTime() ?? 0));
 };
@@ -31,22 +38,17 @@ const AccessTokenSection = () => {
     setUserAccessTokens(accessTokens);
   };
 
-  const copyAccessToken = (accessToken: string) => {
-    copy(accessToken);
-    toast.success(t("setting.access-token-section.access-token-copied-to-clipboard"));
-  };
-
-  const handleDeleteAccessToken = async (accessToken: string) => {
-    const formatedAccessToken = getFormatedAccessToken(accessToken);
+  const handleDeleteAccessToken = async (userAccessToken: UserAccessToken) => {
+    const formatedAccessToken = getFormatedAccessToken(userAccessToken.accessToken);
     const confirmed = window.confirm(t("setting.access-token-section.access-token-deletion", { accessToken: formatedAccessToken }));
     if (confirmed) {
-      await userServiceClient.deleteUserAccessToken({ name: currentUser.name, accessToken: accessToken });
-      setUserAccessTokens(userAccessTokens.filter((token) => token.accessToken !== accessToken));
+      await userServiceClient.deleteUserAccessToken({ name: userAccessToken.name });
+      setUserAccessTokens(userAccessTokens.filter((token) => token.name !== userAccessToken.name));
     }
   };
 
   const getFormatedAccessToken = (accessToken: string) => {
-    return `${accessToken.slice(0, 4)}****${accessToken.slice(-4)}`;
+    return `${accessToken}****`;
   };
 
   return (
@@ -86,6 +88,9 @@ const AccessTokenSection = () => {
                     <th scope="col" className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400">
                       {t("setting.access-token-section.create-dialog.created-at")}
                     </th>
+                    <th scope="col" className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400">
+                      {t("setting.access-token-section.last-used-at")}
+                    </th>
                     <th scope="col" className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400">
                       {t("setting.access-token-section.create-dialog.expires-at")}
                     </th>
@@ -96,12 +101,9 @@ const AccessTokenSection = () => {
                 </thead>
                 <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
                   {userAccessTokens.map((userAccessToken) => (
-                    <tr key={userAccessToken.accessToken}>
-                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-900 dark:text-gray-400 flex flex-row justify-start items-center gap-x-1">
+                    <tr key={userAccessToken.name}>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-900 dark:text-gray-400">
                         <span className="font-mono">{getFormatedAccessToken(userAccessToken.accessToken)}</span>
-                        <Button variant="plain" onClick={() => copyAccessToken(userAccessToken.accessToken)}>
-                          <ClipboardIcon className="w-4 h-auto text-gray-400 dark:text-gray-500" />
-                        </Button>
                       </td>
                       <td className="whitespace-nowrap py-2 pl-4 pr-3 text-sm text-gray-900 dark:text-gray-400">
                         {userAccessToken.description}
@@ -109,6 +111,9 @@ const AccessTokenSection = () => {
                       <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
                         {userAccessToken.issuedAt?.toLocaleString()}
                       </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {userAccessToken.lastUsedAt?.toLocaleString() ?? "-"}
+                      </td>
                       <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
                         {userAccessToken.expiresAt?.toLocaleString() ?? t("setting.access-token-section.create-dialog.duration-never")}
                       </td>
@@ -116,7 +121,7 @@ const AccessTokenSection = () => {
                         <Button
                           variant="plain"
                           onClick={() => {
-                            handleDeleteAccessToken(userAccessToken.accessToken);
+                            handleDeleteAccessToken(userAccessToken);
                           }}
                         >
                           <TrashIcon className="text-red-600 w-4 h-auto" />
@@ -0,0 +1,230 @@
+import { Option, Select } from "@mui/joy";
+import { Button, Input } from "@usememos/mui";
+import copy from "copy-to-clipboard";
+import { ClipboardIcon, TrashIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Invite } from "@/api/client";
+import { inviteServiceClient } from "@/grpcweb";
+import { User_Role } from "@/types/proto/api/v1/user_service";
+import { useTranslate } from "@/utils/i18n";
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+const getInviteLink = (invite: Invite) =>
+  `${window.location.origin}/auth/signup?invite=${encodeURIComponent(invite.code)}`;
+
+const isInviteUsable = (invite: Invite) =>
+  (invite.maxUses === 0 || invite.usedCount < invite.maxUses) &&
+  (!invite.expiresAt || new Date(invite.expiresAt) > new Date());
+
+const InviteSection = () => {
+  const t = useTranslate();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [role, setRole] = useState<string>(User_Role.USER);
+  const [maxUses, setMaxUses] = useState(1);
+  const [expiration, setExpiration] = useState(7 * DAY_IN_SECONDS);
+
+  const expirationOptions = [
+    { label: t("setting.invite-section.duration-1d"), value: DAY_IN_SECONDS },
+    {
+      label: t("setting.invite-section.duration-7d"),
+      value: 7 * DAY_IN_SECONDS,
+    },
+    {
+      label: t("setting.invite-section.duration-30d"),
+      value: 30 * DAY_IN_SECONDS,
+    },
+    {
+      label: t("setting.access-token-section.create-dialog.duration-never"),
+      value: 0,
+    },
+  ];
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const fetchInvites = async () => {
+    setInvites(await inviteServiceClient.listInvites());
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      const invite = await inviteServiceClient.createInvite({
+        role,
+        maxUses,
+        expiresAt: expiration
+          ? new Date(Date.now() + expiration * 1000)
+          : undefined,
+      });
+      copy(getInviteLink(invite));
+      toast.success(t("setting.invite-section.created-and-copied"));
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    }
+    await fetchInvites();
+  };
+
+  const handleCopyInviteLink = (invite: Invite) => {
+    copy(getInviteLink(invite));
+    toast.success(t("setting.invite-section.link-copied"));
+  };
+
+  const handleDeleteInvite = async (invite: Invite) => {
+    const confirmed = window.confirm(
+      t("setting.invite-section.delete-warning"),
+    );
+    if (!confirmed) {
+      return;
+    }
+    try {
+      await inviteServiceClient.deleteInvite({ name: invite.name });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+    await fetchInvites();
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2 mt-6">
+      <div className="w-full flex flex-col gap-1">
+        <p className="title-text">{t("setting.invite-section.title")}</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t("setting.invite-section.description")}
+        </p>
+      </div>
+      <div className="w-full flex flex-row flex-wrap justify-start items-end gap-3 border border-zinc-200 rounded-md py-2 px-3 dark:border-zinc-700">
+        <div className="flex flex-col justify-start items-start gap-1">
+          <span className="text-sm">{t("common.role")}</span>
+          <Select
+            className="w-32"
+            value={role}
+            onChange={(_, value) => setRole(value ?? role)}
+          >
+            <Option value={User_Role.USER}>
+              {t("setting.member-section.user")}
+            </Option>
+            <Option value={User_Role.ADMIN}>
+              {t("setting.member-section.admin")}
+            </Option>
+          </Select>
+        </div>
+        <div className="flex flex-col justify-start items-start gap-1">
+          <span className="text-sm">
+            {t("setting.invite-section.max-uses")}
+          </span>
+          <Input
+            className="w-24"
+            type="number"
+            min={0}
+            value={maxUses}
+            onChange={(event: React.ChangeEvent<HTMLInputElement>) =>
+              setMaxUses(
+                Math.max(0, Math.floor(Number(event.target.value) || 0)),
+              )
+            }
+          />
+        </div>
+        <div className="flex flex-col justify-start items-start gap-1">
+          <span className="text-sm">
+            {t("setting.access-token-section.create-dialog.expiration")}
+          </span>
+          <Select
+            className="w-32"
+            value={expiration}
+            onChange={(_, value) => setExpiration(value ?? expiration)}
+          >
+            {expirationOptions.map((option) => (
+              <Option key={option.value} value={option.value}>
+                {option.label}
+              </Option>
+            ))}
+          </Select>
+        </div>
+        <Button color="primary" onClick={handleCreateInvite}>
+          {t("setting.invite-section.create-invite")}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {t("setting.invite-section.max-uses-hint")}
+      </p>
+      {invites.length > 0 && (
+        <div className="w-full overflow-x-auto">
+          <div className="inline-block min-w-full align-middle border border-zinc-200 rounded-lg dark:border-zinc-600">
+            <table className="min-w-full divide-y divide-gray-300 dark:divide-zinc-600">
+              <thead>
+                <tr className="text-sm font-semibold text-left text-gray-900 dark:text-gray-400">
+                  <th scope="col" className="px-3 py-2">
+                    {t("setting.invite-section.code")}
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    {t("common.role")}
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    {t("setting.invite-section.uses")}
+                  </th>
+                  <th scope="col" className="px-3 py-2">
+                    {t("setting.access-token-section.create-dialog.expires-at")}
+                  </th>
+                  <th scope="col" className="relative py-2 pl-3 pr-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-zinc-600">
+                {invites.map((invite) => (
+                  <tr
+                    key={invite.name}
+                    className={isInviteUsable(invite) ? "" : "opacity-60"}
+                  >
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      <span className="font-mono">{invite.code}</span>
+                      {!isInviteUsable(invite) && (
+                        <span className="ml-1 italic">
+                          ({t("setting.invite-section.unavailable")})
+                        </span>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      {invite.role === User_Role.ADMIN
+                        ? t("setting.member-section.admin")
+                        : t("setting.member-section.user")}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      {invite.maxUses === 0
+                        ? `${invite.usedCount} / ∞`
+                        : `${invite.usedCount} / ${invite.maxUses}`}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                      {invite.expiresAt
+                        ? new Date(invite.expiresAt).toLocaleString()
+                        : t(
+                            "setting.access-token-section.create-dialog.duration-never",
+                          )}
+                    </td>
+                    <td className="relative whitespace-nowrap py-2 pl-3 pr-4 text-right text-sm flex justify-end">
+                      <Button
+                        variant="plain"
+                        onClick={() => handleCopyInviteLink(invite)}
+                      >
+                        <ClipboardIcon className="w-4 h-auto text-gray-400 dark:text-gray-500" />
+                      </Button>
+                      <Button
+                        variant="plain"
+                        onClick={() => handleDeleteInvite(invite)}
+                      >
+                        <TrashIcon className="text-red-600 w-4 h-auto" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InviteSection;
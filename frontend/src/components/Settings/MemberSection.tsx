@@ -11,8 +11,11 @@ import { userStore } from "@/store/v2";
 import { State } from "@/types/proto/api/v1/common";
 import { User, User_Role } from "@/types/proto/api/v1/user_service";
 import { useTranslate } from "@/utils/i18n";
+import { canManageUser } from "@/utils/user";
 import showCreateUserDialog from "../CreateUserDialog";
+import showDeleteUserDialog from "../DeleteUserDialog";
 import { Popover, PopoverContent, PopoverTrigger } from "../ui/Popover";
+import InviteSection from "./InviteSection";
 
 interface LocalState {
   creatingUser: User;
@@ -30,6 +33,7 @@ const MemberSection = observer(() => {
   });
   const [users, setUsers] = useState<User[]>([]);
   const sortedUsers = sortBy(users, "id");
+  const isHost = currentUser?.role === User_Role.HOST;
 
   useEffect(() => {
     fetchUsers();
@@ -95,7 +99,8 @@ const MemberSection = observer(() => {
         },
       });
     } catch (error: any) {
-      toast.error(error.details);
+      toast.error(error.message);
+      return;
     }
     await fetchUsers();
     setState({
@@ -110,7 +115,10 @@ const MemberSection = observer(() => {
 
   const handleArchiveUserClick = async (user: User) => {
     const confirmed = window.confirm(t("setting.member-section.archive-warning", { username: user.nickname }));
-    if (confirmed) {
+    if (!confirmed) {
+      return;
+    }
+    try {
       await userServiceClient.updateUser({
         user: {
           name: user.name,
@@ -118,27 +126,31 @@ const MemberSection = observer(() => {
         },
         updateMask: ["state"],
       });
-      fetchUsers();
+    } catch (error: any) {
+      toast.error(error.message);
     }
+    fetchUsers();
   };
 
   const handleRestoreUserClick = async (user: User) => {
-    await userServiceClient.updateUser({
-      user: {
-        name: user.name,
-        state: State.NORMAL,
-      },
-      updateMask: ["state"],
-    });
+    try {
+      await userServiceClient.updateUser({
+        user: {
+          name: user.name,
+          state: State.NORMAL,
+        },
+        updateMask: ["state"],
+      });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
     fetchUsers();
   };
 
-  const handleDeleteUserClick = async (user: User) => {
-    const confirmed = window.confirm(t("setting.member-section.delete-warning", { username: user.nickname }));
-    if (confirmed) {
-      await userStore.deleteUser(user.name);
-      fetchUsers();
-    }
+  const handleDeleteUserClick = (user: User) => {
+    // 内容可以转移给其他未归档的成员
+    const candidates = sortedUsers.filter((candidate) => candidate.name !== user.name && candidate.state === State.NORMAL);
+    showDeleteUserDialog(user, candidates, () => fetchUsers());
   };
 
   return (
@@ -169,7 +181,7 @@ const MemberSection = observer(() => {
           <span>{t("common.role")}</span>
           <RadioGroup orientation="horizontal" defaultValue={User_Role.USER} onChange={handleUserRoleInputChange}>
             <Radio value={User_Role.USER} label={t("setting.member-section.user")} />
-            <Radio value={User_Role.ADMIN} label={t("setting.member-section.admin")} />
+            {isHost && <Radio value={User_Role.ADMIN} label={t("setting.member-section.admin")} />}
           </RadioGroup>
         </div>
         <div className="mt-2">
@@ -206,7 +218,7 @@ const MemberSection = observer(() => {
                 <tr key={user.name}>
                   <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
                     {user.username}
-                    <span className="ml-1 italic">{user.state === State.ARCHIVED && "(Archived)"}</span>
+                    <span className="ml-1 italic">{user.state === State.ARCHIVED && `(${t("common.archived")})`}</span>
                   </td>
                   <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{stringifyUserRole(user.role)}</td>
                   <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{user.nickname}</td>
@@ -214,7 +226,7 @@ const MemberSection = observer(() => {
                   <td className="relative whitespace-nowrap py-2 pl-3 pr-4 text-right text-sm font-medium flex justify-end">
                     {currentUser?.name === user.name ? (
                       <span>{t("common.yourself")}</span>
-                    ) : (
+                    ) : !canManageUser(currentUser, user) ? null : (
                       <Popover>
                         <PopoverTrigger asChild>
                           <button className="flex items-center justify-center p-1 hover:bg-gray-100 dark:hover:bg-zinc-700 rounded">
@@ -244,12 +256,14 @@ const MemberSection = observer(() => {
                                 >
                                   {t("common.restore")}
                                 </button>
-                                <button
-                                  onClick={() => handleDeleteUserClick(user)}
-                                  className="flex items-center gap-2 px-2 py-1 text-left text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-zinc-700 outline-none rounded"
-                                >
-                                  {t("setting.member-section.delete-member")}
-                                </button>
+                                {isHost && (
+                                  <button
+                                    onClick={() => handleDeleteUserClick(user)}
+                                    className="flex items-center gap-2 px-2 py-1 text-left text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-zinc-700 outline-none rounded"
+                                  >
+                                    {t("setting.member-section.delete-member")}
+                                  </button>
+                                )}
                               </>
                             )}
                           </div>
@@ -263,6 +277,7 @@ const MemberSection = observer(() => {
           </table>
         </div>
       </div>
+      {isHost && <InviteSection />}
     </div>
   );
 });
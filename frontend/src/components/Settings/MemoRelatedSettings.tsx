@@ -11,6 +11,10 @@ import { WorkspaceSettingKey } from "@/store/v2/workspace";
 import { WorkspaceMemoRelatedSetting } from "@/types/proto/api/v1/workspace_setting_service";
 import { useTranslate } from "@/utils/i18n";
 
+// Used when the limits have not been configured, keep in sync with the backend defaults.
+const DEFAULT_MEMO_REVISION_LIMIT = 50;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 const MemoRelatedSettings = observer(() => {
   const t = useTranslate();
   const [originalSetting, setOriginalSetting] = useState<WorkspaceMemoRelatedSetting>(workspaceStore.state.memoRelatedSetting);
@@ -117,6 +121,26 @@ const MemoRelatedSettings = observer(() => {
           onBlur={(event) => updatePartialSetting({ contentLengthLimit: Number(event.target.value) })}
         />
       </div>
+      <div className="w-full flex flex-row justify-between items-center">
+        <span>{t("setting.memo-related-settings.revision-limit")}</span>
+        <Input
+          className="w-24"
+          type="number"
+          min={0}
+          defaultValue={memoRelatedSetting.memoRevisionLimit ?? DEFAULT_MEMO_REVISION_LIMIT}
+          onBlur={(event) => updatePartialSetting({ memoRevisionLimit: Math.max(Number(event.target.value), 0) })}
+        />
+      </div>
+      <div className="w-full flex flex-row justify-between items-center">
+        <span>{t("setting.memo-related-settings.trash-retention-days")}</span>
+        <Input
+          className="w-24"
+          type="number"
+          min={0}
+          defaultValue={memoRelatedSetting.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+          onBlur={(event) => updatePartialSetting({ trashRetentionDays: Math.max(Number(event.target.value), 0) })}
+        />
+      </div>
       <div className="w-full">
         <span className="truncate">{t("setting.memo-related-settings.reactions")}</span>
         <div className="mt-2 w-full flex flex-row flex-wrap gap-1">
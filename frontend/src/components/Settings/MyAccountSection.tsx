@@ -1,16 +1,50 @@
 import { Button } from "@usememos/mui";
-import { MoreVerticalIcon, PenLineIcon } from "lucide-react";
+import { DownloadIcon, MoreVerticalIcon, PenLineIcon, UploadIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { StorageUsage } from "@/api/client";
+import { resourceServiceClient, userServiceClient } from "@/grpcweb";
+import { downloadFileFromUrl } from "@/helpers/utils";
 import useCurrentUser from "@/hooks/useCurrentUser";
+import { cn } from "@/utils";
 import { useTranslate } from "@/utils/i18n";
+import { formatFileSize } from "@/utils/resource";
 import showChangeMemberPasswordDialog from "../ChangeMemberPasswordDialog";
+import showImportDataDialog from "../ImportDataDialog";
 import showUpdateAccountDialog from "../UpdateAccountDialog";
 import UserAvatar from "../UserAvatar";
 import { Popover, PopoverContent, PopoverTrigger } from "../ui/Popover";
 import AccessTokenSection from "./AccessTokenSection";
+import UserSessionsSection from "./UserSessionsSection";
 
 const MyAccountSection = () => {
   const t = useTranslate();
   const user = useCurrentUser();
+  const [isExporting, setIsExporting] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage>();
+
+  useEffect(() => {
+    resourceServiceClient
+      .getStorageUsage()
+      .then(setStorageUsage)
+      .catch((error) => console.error(error));
+  }, []);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await userServiceClient.exportCurrentUser();
+      const url = URL.createObjectURL(blob);
+      downloadFileFromUrl(url, filename);
+      // Revoke after the browser has started the download.
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   return (
     <div className="w-full gap-2 pt-2 pb-4">
@@ -30,6 +64,23 @@ const MyAccountSection = () => {
           <PenLineIcon className="w-4 h-4 mx-auto mr-1" />
           {t("common.edit")}
         </Button>
+        <Button
+          variant="outlined"
+          className="border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          disabled={isExporting}
+          onClick={handleExport}
+        >
+          <DownloadIcon className="w-4 h-4 mx-auto mr-1" />
+          {isExporting ? t("setting.account-section.exporting") : t("setting.account-section.export")}
+        </Button>
+        <Button
+          variant="outlined"
+          className="border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          onClick={showImportDataDialog}
+        >
+          <UploadIcon className="w-4 h-4 mx-auto mr-1" />
+          {t("setting.account-section.import")}
+        </Button>
         <Popover>
           <PopoverTrigger asChild>
             <Button variant="outlined" className="border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
@@ -46,8 +97,32 @@ const MyAccountSection = () => {
           </PopoverContent>
         </Popover>
       </div>
+      {storageUsage && (
+        <div className="w-full mt-4 flex flex-col gap-1">
+          <div className="w-full flex flex-row justify-between items-center text-sm">
+            <span className="text-gray-700 dark:text-gray-400">{t("setting.account-section.storage-usage")}</span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {storageUsage.quotaBytes > 0
+                ? `${formatFileSize(storageUsage.usedBytes)} / ${formatFileSize(storageUsage.quotaBytes)}`
+                : t("setting.account-section.storage-used", { size: formatFileSize(storageUsage.usedBytes) })}
+            </span>
+          </div>
+          {storageUsage.quotaBytes > 0 && (
+            <div className="w-full h-2 rounded-full bg-zinc-100 dark:bg-zinc-700 overflow-hidden">
+              <div
+                className={cn(
+                  "h-full rounded-full",
+                  storageUsage.usedBytes >= storageUsage.quotaBytes * 0.9 ? "bg-red-500" : "bg-blue-500",
+                )}
+                style={{ width: `${Math.min(100, (storageUsage.usedBytes / storageUsage.quotaBytes) * 100)}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
 
       <AccessTokenSection />
+      <UserSessionsSection />
     </div>
   );
 };
@@ -1,34 +1,51 @@
 import { Divider, List, ListItem, Radio, RadioGroup, Tooltip } from "@mui/joy";
-import { Button, Input } from "@usememos/mui";
+import { Button, Input, Switch } from "@usememos/mui";
 import { isEqual } from "lodash-es";
 import { HelpCircleIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import React, { useEffect, useMemo, useState } from "react";
 import { toast } from "react-hot-toast";
 import { Link } from "react-router-dom";
+import { resourceServiceClient } from "@/grpcweb";
 import { workspaceSettingNamePrefix } from "@/store/common";
 import { workspaceStore } from "@/store/v2";
 import { WorkspaceSettingKey } from "@/store/v2/workspace";
 import {
   WorkspaceStorageSetting,
+  WorkspaceStorageSetting_S3Config,
   WorkspaceStorageSetting_StorageType,
 } from "@/types/proto/api/v1/workspace_setting_service";
 import { useTranslate } from "@/utils/i18n";
 
+// MIME type lists are edited as comma separated text, e.g. "image/*, application/pdf".
+const parseMimeTypeList = (text: string) =>
+  text
+    .split(",")
+    .map((mimeType) => mimeType.trim())
+    .filter(Boolean);
+
 const StorageSection = observer(() => {
   const t = useTranslate();
   const [workspaceStorageSetting, setWorkspaceStorageSetting] = useState<WorkspaceStorageSetting>(
     WorkspaceStorageSetting.fromPartial(workspaceStore.getWorkspaceSettingByKey(WorkspaceSettingKey.STORAGE)?.storageSetting || {}),
   );
 
+  const [allowedMimeTypesText, setAllowedMimeTypesText] = useState(workspaceStorageSetting.allowedMimeTypes.join(", "));
+  const [deniedMimeTypesText, setDeniedMimeTypesText] = useState(workspaceStorageSetting.deniedMimeTypes.join(", "));
+  const [isMigrating, setIsMigrating] = useState(false);
+  const s3Config = WorkspaceStorageSetting_S3Config.fromPartial(workspaceStorageSetting.s3Config || {});
+
   useEffect(() => {
-    setWorkspaceStorageSetting(
-      WorkspaceStorageSetting.fromPartial(workspaceStore.getWorkspaceSettingByKey(WorkspaceSettingKey.STORAGE)?.storageSetting || {}),
+    const storageSetting = WorkspaceStorageSetting.fromPartial(
+      workspaceStore.getWorkspaceSettingByKey(WorkspaceSettingKey.STORAGE)?.storageSetting || {},
     );
+    setWorkspaceStorageSetting(storageSetting);
+    setAllowedMimeTypesText(storageSetting.allowedMimeTypes.join(", "));
+    setDeniedMimeTypesText(storageSetting.deniedMimeTypes.join(", "));
   }, [workspaceStore.getWorkspaceSettingByKey(WorkspaceSettingKey.STORAGE)]);
 
   const allowSaveStorageSetting = useMemo(() => {
-    if (workspaceStorageSetting.uploadSizeLimitMb <= 0) {
+    if (workspaceStorageSetting.uploadSizeLimitMb <= 0 || workspaceStorageSetting.userStorageQuotaMb < 0) {
       return false;
     }
 
@@ -36,7 +53,13 @@ const StorageSection = observer(() => {
       workspaceStore.getWorkspaceSettingByKey(WorkspaceSettingKey.STORAGE)?.storageSetting || {},
     );
     
-    // 只支持R2存储，不需要额外的验证
+    if (
+      workspaceStorageSetting.storageType === WorkspaceStorageSetting_StorageType.S3 &&
+      (!workspaceStorageSetting.s3Config?.endpoint || !workspaceStorageSetting.s3Config?.bucket)
+    ) {
+      return false;
+    }
+
     return !isEqual(origin, workspaceStorageSetting);
   }, [workspaceStorageSetting, workspaceStore.state]);
 
@@ -52,6 +75,41 @@ const StorageSection = observer(() => {
     setWorkspaceStorageSetting(update);
   };
 
+  const handleUserStorageQuotaChanged = async (event: React.FocusEvent<HTMLInputElement>) => {
+    let num = parseInt(event.target.value);
+    if (Number.isNaN(num)) {
+      num = 0;
+    }
+    const update: WorkspaceStorageSetting = {
+      ...workspaceStorageSetting,
+      userStorageQuotaMb: num,
+    };
+    setWorkspaceStorageSetting(update);
+  };
+
+  const handleAllowedMimeTypesChanged = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    setAllowedMimeTypesText(event.target.value);
+    setWorkspaceStorageSetting({
+      ...workspaceStorageSetting,
+      allowedMimeTypes: parseMimeTypeList(event.target.value),
+    });
+  };
+
+  const handleDeniedMimeTypesChanged = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    setDeniedMimeTypesText(event.target.value);
+    setWorkspaceStorageSetting({
+      ...workspaceStorageSetting,
+      deniedMimeTypes: parseMimeTypeList(event.target.value),
+    });
+  };
+
+  const handleS3ConfigChanged = (partial: Partial<WorkspaceStorageSetting_S3Config>) => {
+    setWorkspaceStorageSetting({
+      ...workspaceStorageSetting,
+      s3Config: { ...s3Config, ...partial },
+    });
+  };
+
   const handleFilepathTemplateChanged = async (event: React.FocusEvent<HTMLInputElement>) => {
     const update: WorkspaceStorageSetting = {
       ...workspaceStorageSetting,
@@ -76,6 +134,33 @@ const StorageSection = observer(() => {
     toast.success("Updated");
   };
 
+  // Moves existing files to the saved storage in batches, the server returns nextAfterId until all resources are processed.
+  const handleMigrateResources = async () => {
+    if (!window.confirm(t("setting.storage-section.migrate-confirm"))) {
+      return;
+    }
+
+    setIsMigrating(true);
+    let migrated = 0;
+    let failed = 0;
+    try {
+      let afterId: number | null = 0;
+      while (afterId !== null) {
+        const result = await resourceServiceClient.migrateResources({ afterId });
+        migrated += result.migrated;
+        failed += result.failed.length;
+        result.failed.forEach((item) => console.error(`Failed to migrate resource ${item.uid}: ${item.message}`));
+        afterId = result.nextAfterId;
+      }
+      toast.success(t("setting.storage-section.migrate-result", { migrated, failed }));
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
   return (
     <div className="w-full flex flex-col gap-2 pt-2 pb-4">
       <div className="font-medium text-gray-700 dark:text-gray-500">{t("setting.storage-section.current-storage")}</div>
@@ -88,9 +173,58 @@ const StorageSection = observer(() => {
         }}
       >
         <Radio value={WorkspaceStorageSetting_StorageType.DATABASE} label={t("setting.storage-section.type-database")} />
-        <Radio value={WorkspaceStorageSetting_StorageType.LOCAL} label={t("setting.storage-section.type-local")} />
         <Radio value={WorkspaceStorageSetting_StorageType.R2} label="Cloudflare R2" />
+        <Radio value={WorkspaceStorageSetting_StorageType.S3} label={t("setting.storage-section.type-s3")} />
       </RadioGroup>
+      {workspaceStorageSetting.storageType === WorkspaceStorageSetting_StorageType.S3 && (
+        <>
+          <div className="w-full flex flex-row justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.endpoint")}</span>
+            <Input
+              value={s3Config.endpoint}
+              placeholder="https://s3.us-east-1.amazonaws.com"
+              onChange={(event) => handleS3ConfigChanged({ endpoint: event.target.value })}
+            />
+          </div>
+          <div className="w-full flex flex-row justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.region")}</span>
+            <Input
+              value={s3Config.region}
+              placeholder={t("setting.storage-section.region-placeholder")}
+              onChange={(event) => handleS3ConfigChanged({ region: event.target.value })}
+            />
+          </div>
+          <div className="w-full flex flex-row justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.bucket")}</span>
+            <Input
+              value={s3Config.bucket}
+              placeholder={t("setting.storage-section.bucket-placeholder")}
+              onChange={(event) => handleS3ConfigChanged({ bucket: event.target.value })}
+            />
+          </div>
+          <div className="w-full flex flex-row justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.accesskey")}</span>
+            <Input
+              value={s3Config.accessKeyId}
+              placeholder={t("setting.storage-section.accesskey-placeholder")}
+              onChange={(event) => handleS3ConfigChanged({ accessKeyId: event.target.value })}
+            />
+          </div>
+          <div className="w-full flex flex-row justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.secretkey")}</span>
+            <Input
+              type="password"
+              value={s3Config.accessKeySecret}
+              placeholder={t("setting.storage-section.secretkey-unchanged-placeholder")}
+              onChange={(event) => handleS3ConfigChanged({ accessKeySecret: event.target.value })}
+            />
+          </div>
+          <div className="w-full flex flex-row justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.use-path-style")}</span>
+            <Switch checked={s3Config.usePathStyle} onChange={(event) => handleS3ConfigChanged({ usePathStyle: event.target.checked })} />
+          </div>
+        </>
+      )}
       <div className="w-full flex flex-row justify-between items-center">
         <div className="flex flex-row items-center">
           <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.system-section.max-upload-size")}</span>
@@ -100,6 +234,28 @@ const StorageSection = observer(() => {
         </div>
         <Input className="w-16 font-mono" value={workspaceStorageSetting.uploadSizeLimitMb} onChange={handleMaxUploadSizeChanged} />
       </div>
+      <div className="w-full flex flex-row justify-between items-center">
+        <div className="flex flex-row items-center">
+          <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.user-storage-quota")}</span>
+          <Tooltip title={t("setting.storage-section.user-storage-quota-hint")} placement="top">
+            <HelpCircleIcon className="w-4 h-auto" />
+          </Tooltip>
+        </div>
+        <Input className="w-24 font-mono" value={workspaceStorageSetting.userStorageQuotaMb} onChange={handleUserStorageQuotaChanged} />
+      </div>
+      <div className="w-full flex flex-row justify-between items-center">
+        <div className="flex flex-row items-center">
+          <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.allowed-mime-types")}</span>
+          <Tooltip title={t("setting.storage-section.allowed-mime-types-hint")} placement="top">
+            <HelpCircleIcon className="w-4 h-auto" />
+          </Tooltip>
+        </div>
+        <Input className="font-mono" value={allowedMimeTypesText} placeholder="image/*, application/pdf" onChange={handleAllowedMimeTypesChanged} />
+      </div>
+      <div className="w-full flex flex-row justify-between items-center">
+        <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.denied-mime-types")}</span>
+        <Input className="font-mono" value={deniedMimeTypesText} placeholder="image/svg+xml" onChange={handleDeniedMimeTypesChanged} />
+      </div>
       {workspaceStorageSetting.storageType !== WorkspaceStorageSetting_StorageType.DATABASE && (
         <div className="w-full flex flex-row justify-between items-center">
           <span className="text-gray-700 dark:text-gray-500 mr-1">{t("setting.storage-section.filepath-template")}</span>
@@ -110,10 +266,17 @@ const StorageSection = observer(() => {
           />
         </div>
       )}
-      <div>
+      <div className="flex flex-row items-center gap-2">
         <Button color="primary" disabled={!allowSaveStorageSetting} onClick={saveWorkspaceStorageSetting}>
           {t("common.save")}
         </Button>
+        <Tooltip title={t("setting.storage-section.migrate-hint")} placement="top">
+          <span>
+            <Button variant="outlined" disabled={allowSaveStorageSetting || isMigrating} onClick={handleMigrateResources}>
+              {isMigrating ? t("setting.storage-section.migrating") : t("setting.storage-section.migrate")}
+            </Button>
+          </span>
+        </Tooltip>
       </div>
       <Divider className="my-2!" />
       <div className="w-full mt-4">
@@ -0,0 +1,183 @@
+import { Button } from "@usememos/mui";
+import { TrashIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { authServiceClient, userServiceClient } from "@/grpcweb";
+import useCurrentUser from "@/hooks/useCurrentUser";
+import { Routes } from "@/router";
+import { useTranslate } from "@/utils/i18n";
+
+interface UserSession {
+  name: string;
+  sessionId: string;
+  userAgent: string;
+  ipAddress: string;
+  current: boolean;
+  createTime?: Date;
+  lastActiveTime?: Date;
+  expireTime?: Date;
+}
+
+const listSessions = async (name: string): Promise<UserSession[]> => {
+  const { sessions } = await userServiceClient.listUserSessions({ name });
+  return sessions;
+};
+
+const UserSessionsSection = () => {
+  const t = useTranslate();
+  const currentUser = useCurrentUser();
+  const [userSessions, setUserSessions] = useState<UserSession[]>([]);
+
+  useEffect(() => {
+    listSessions(currentUser.name).then((sessions) => {
+      setUserSessions(sessions);
+    });
+  }, []);
+
+  const handleRevokeSession = async (userSession: UserSession) => {
+    const confirmed = window.confirm(
+      t("setting.session-section.revoke-session-confirm"),
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      if (userSession.current) {
+        await authServiceClient.signOut({});
+        window.location.href = Routes.AUTH;
+        return;
+      }
+      await userServiceClient.revokeUserSession({ name: userSession.name });
+      setUserSessions(
+        userSessions.filter((session) => session.name !== userSession.name),
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+      console.error(error);
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    const confirmed = window.confirm(
+      t("setting.session-section.sign-out-everywhere-confirm"),
+    );
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await userServiceClient.revokeAllUserSessions({ name: currentUser.name });
+      await authServiceClient.signOut({});
+      window.location.href = Routes.AUTH;
+    } catch (error: any) {
+      toast.error(error.message);
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="mt-6 w-full flex flex-col justify-start items-start space-y-4">
+      <div className="w-full">
+        <div className="sm:flex sm:items-center sm:justify-between">
+          <div className="sm:flex-auto space-y-1">
+            <p className="flex flex-row justify-start items-center font-medium text-gray-700 dark:text-gray-400">
+              {t("setting.session-section.title")}
+            </p>
+            <p className="text-sm text-gray-700 dark:text-gray-500">
+              {t("setting.session-section.description")}
+            </p>
+          </div>
+          <div className="mt-4 sm:mt-0">
+            <Button
+              variant="outlined"
+              className="text-red-600 dark:text-red-500"
+              onClick={handleRevokeAllSessions}
+            >
+              {t("setting.session-section.sign-out-everywhere")}
+            </Button>
+          </div>
+        </div>
+        <div className="w-full mt-2 flow-root">
+          <div className="overflow-x-auto">
+            <div className="inline-block min-w-full border border-zinc-200 rounded-lg align-middle dark:border-zinc-600">
+              <table className="min-w-full divide-y divide-gray-300 dark:divide-zinc-600">
+                <thead>
+                  <tr>
+                    <th
+                      scope="col"
+                      className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400"
+                    >
+                      {t("setting.session-section.device")}
+                    </th>
+                    <th
+                      scope="col"
+                      className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400"
+                    >
+                      {t("setting.session-section.ip-address")}
+                    </th>
+                    <th
+                      scope="col"
+                      className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400"
+                    >
+                      {t("setting.session-section.last-active")}
+                    </th>
+                    <th
+                      scope="col"
+                      className="px-3 py-2 text-left text-sm font-semibold text-gray-900 dark:text-gray-400"
+                    >
+                      {t("setting.session-section.signed-in-at")}
+                    </th>
+                    <th scope="col" className="relative py-3.5 pl-3 pr-4">
+                      <span className="sr-only">
+                        {t("setting.session-section.revoke")}
+                      </span>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+                  {userSessions.map((userSession) => (
+                    <tr key={userSession.name}>
+                      <td className="max-w-xs px-3 py-2 text-sm text-gray-900 dark:text-gray-400">
+                        <p className="truncate" title={userSession.userAgent}>
+                          {userSession.userAgent ||
+                            t("setting.session-section.unknown-device")}
+                        </p>
+                        {userSession.current && (
+                          <span className="text-xs text-green-600 dark:text-green-500">
+                            {t("setting.session-section.current")}
+                          </span>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {userSession.ipAddress || "-"}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {userSession.lastActiveTime?.toLocaleString()}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                        {userSession.createTime?.toLocaleString()}
+                      </td>
+                      <td className="relative whitespace-nowrap py-2 pl-3 pr-4 text-right text-sm">
+                        <Button
+                          variant="plain"
+                          onClick={() => {
+                            handleRevokeSession(userSession);
+                          }}
+                        >
+                          <TrashIcon className="text-red-600 w-4 h-auto" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserSessionsSection;
@@ -0,0 +1,175 @@
+import { Button } from "@usememos/mui";
+import copy from "copy-to-clipboard";
+import { ClipboardIcon, RefreshCwIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { webhookServiceClient } from "@/grpcweb";
+import { cn } from "@/utils";
+import { useTranslate } from "@/utils/i18n";
+
+interface WebhookDelivery {
+  id: number;
+  activityType: string;
+  status: string;
+  attempt: number;
+  statusCode?: number;
+  latencyMs?: number;
+  responseSnippet: string;
+  error: string;
+  nextRetryTime?: Date;
+  createTime?: Date;
+}
+
+interface Props {
+  webhookId: number;
+}
+
+const statusClassNames: Record<string, string> = {
+  SUCCESS: "text-green-600",
+  RETRYING: "text-amber-600",
+  FAILED: "text-red-600",
+  PENDING: "text-gray-500",
+};
+
+const WebhookDeliveriesPanel = ({ webhookId }: Props) => {
+  const t = useTranslate();
+  const [secret, setSecret] = useState("");
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [redeliveringId, setRedeliveringId] = useState<number>();
+
+  const fetchDeliveries = async () => {
+    const { deliveries } = await webhookServiceClient.listWebhookDeliveries({
+      id: webhookId,
+    });
+    setDeliveries(deliveries);
+  };
+
+  useEffect(() => {
+    webhookServiceClient.getWebhook({ id: webhookId }).then((webhook) => {
+      setSecret(webhook.secret);
+    });
+    fetchDeliveries();
+  }, [webhookId]);
+
+  const handleCopySecret = () => {
+    copy(secret);
+    toast.success(t("message.copied"));
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const redelivery = await webhookServiceClient.redeliverWebhook({
+        id: webhookId,
+        deliveryId: delivery.id,
+      });
+      if (redelivery.status === "SUCCESS") {
+        toast.success(
+          t("setting.webhook-section.deliveries.redeliver-succeeded"),
+        );
+      } else {
+        toast.error(t("setting.webhook-section.deliveries.redeliver-failed"));
+      }
+      await fetchDeliveries();
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    } finally {
+      setRedeliveringId(undefined);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col justify-start items-start gap-2 px-3 py-2">
+      {secret && (
+        <div className="w-full flex flex-row justify-start items-center gap-x-1 text-sm text-gray-500 dark:text-gray-400">
+          <span>{t("setting.webhook-section.deliveries.signing-secret")}:</span>
+          <span className="font-mono">{`${secret.slice(0, 4)}****${secret.slice(-4)}`}</span>
+          <Button variant="plain" onClick={handleCopySecret}>
+            <ClipboardIcon className="w-4 h-auto text-gray-400 dark:text-gray-500" />
+          </Button>
+        </div>
+      )}
+      <div className="w-full flex flex-row justify-between items-center">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-400">
+          {t("setting.webhook-section.deliveries.title")}
+        </p>
+        <Button variant="plain" onClick={fetchDeliveries}>
+          <RefreshCwIcon className="w-4 h-auto text-gray-400 dark:text-gray-500" />
+        </Button>
+      </div>
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-zinc-700">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left text-xs font-semibold text-gray-700 dark:text-gray-400">
+              {t("setting.webhook-section.deliveries.event")}
+            </th>
+            <th className="px-2 py-1 text-left text-xs font-semibold text-gray-700 dark:text-gray-400">
+              {t("setting.webhook-section.deliveries.status")}
+            </th>
+            <th className="px-2 py-1 text-left text-xs font-semibold text-gray-700 dark:text-gray-400">
+              {t("setting.webhook-section.deliveries.latency")}
+            </th>
+            <th className="px-2 py-1 text-left text-xs font-semibold text-gray-700 dark:text-gray-400">
+              {t("setting.webhook-section.deliveries.time")}
+            </th>
+            <th className="relative px-2 py-1">
+              <span className="sr-only">
+                {t("setting.webhook-section.deliveries.redeliver")}
+              </span>
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-zinc-700">
+          {deliveries.map((delivery) => (
+            <tr key={delivery.id}>
+              <td className="whitespace-nowrap px-2 py-1 text-xs text-gray-900 dark:text-gray-400 font-mono">
+                {delivery.activityType}
+              </td>
+              <td
+                className={cn(
+                  "whitespace-nowrap px-2 py-1 text-xs",
+                  statusClassNames[delivery.status],
+                )}
+                title={delivery.error || delivery.responseSnippet}
+              >
+                {delivery.status}
+                {delivery.statusCode ? ` (${delivery.statusCode})` : ""}
+                {delivery.attempt > 1 ? ` ×${delivery.attempt}` : ""}
+              </td>
+              <td className="whitespace-nowrap px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+                {delivery.latencyMs !== undefined && delivery.latencyMs !== null
+                  ? `${delivery.latencyMs}ms`
+                  : "-"}
+              </td>
+              <td className="whitespace-nowrap px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+                {delivery.createTime?.toLocaleString()}
+              </td>
+              <td className="whitespace-nowrap px-2 py-1 text-right text-xs">
+                <Button
+                  variant="plain"
+                  disabled={redeliveringId === delivery.id}
+                  onClick={() => handleRedeliver(delivery)}
+                >
+                  {t("setting.webhook-section.deliveries.redeliver")}
+                </Button>
+              </td>
+            </tr>
+          ))}
+          {deliveries.length === 0 && (
+            <tr>
+              <td
+                className="whitespace-nowrap px-2 py-1 text-xs text-gray-500 dark:text-gray-400"
+                colSpan={5}
+              >
+                {t("setting.webhook-section.deliveries.no-deliveries")}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default WebhookDeliveriesPanel;
@@ -1,27 +1,25 @@
 import { Button } from "@usememos/mui";
-import { ExternalLinkIcon, TrashIcon } from "lucide-react";
-import { useEffect, useState } from "react";
+import { ExternalLinkIcon, HistoryIcon, TrashIcon } from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { webhookServiceClient } from "@/grpcweb";
-import useCurrentUser from "@/hooks/useCurrentUser";
 import { Webhook } from "@/types/proto/api/v1/webhook_service";
 import { useTranslate } from "@/utils/i18n";
 import showCreateWebhookDialog from "../CreateWebhookDialog";
+import WebhookDeliveriesPanel from "./WebhookDeliveriesPanel";
 
-const listWebhooks = async (user: string) => {
-  const { webhooks } = await webhookServiceClient.listWebhooks({
-    creator: user,
-  });
+const listWebhooks = async () => {
+  const { webhooks } = await webhookServiceClient.listWebhooks();
   return webhooks;
 };
 
 const WebhookSection = () => {
   const t = useTranslate();
-  const currentUser = useCurrentUser();
   const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [expandedWebhookId, setExpandedWebhookId] = useState<number>();
 
   useEffect(() => {
-    listWebhooks(currentUser.name).then((webhooks) => {
+    listWebhooks().then((webhooks) => {
       setWebhooks(webhooks);
     }).catch((error) => {
       console.error("❌ Failed to load webhooks:", error);
@@ -30,7 +28,7 @@ const WebhookSection = () => {
   }, []);
 
   const handleCreateAccessTokenDialogConfirm = async () => {
-    const webhooks = await listWebhooks(currentUser.name);
+    const webhooks = await listWebhooks();
     setWebhooks(webhooks);
   };
 
@@ -80,22 +78,40 @@ const WebhookSection = () => {
               </thead>
               <tbody className="divide-y divide-gray-200 dark:divide-gray-500">
                 {webhooks.map((webhook) => (
-                  <tr key={webhook.id}>
-                    <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-900 dark:text-gray-400">{webhook.name}</td>
-                    <td className="max-w-[200px] px-3 py-2 text-sm text-gray-900 dark:text-gray-400 truncate" title={webhook.url}>
-                      {webhook.url}
-                    </td>
-                    <td className="relative whitespace-nowrap px-3 py-2 text-right text-sm">
-                      <Button
-                        variant="plain"
-                        onClick={() => {
-                          handleDeleteWebhook(webhook);
-                        }}
-                      >
-                        <TrashIcon className="text-red-600 w-4 h-auto" />
-                      </Button>
-                    </td>
-                  </tr>
+                  <Fragment key={webhook.id}>
+                    <tr>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-900 dark:text-gray-400">{webhook.name}</td>
+                      <td className="max-w-[200px] px-3 py-2 text-sm text-gray-900 dark:text-gray-400 truncate" title={webhook.url}>
+                        {webhook.url}
+                      </td>
+                      <td className="relative whitespace-nowrap px-3 py-2 text-right text-sm">
+                        <Button
+                          variant="plain"
+                          title={t("setting.webhook-section.deliveries.title")}
+                          onClick={() => {
+                            setExpandedWebhookId(expandedWebhookId === webhook.id ? undefined : webhook.id);
+                          }}
+                        >
+                          <HistoryIcon className="text-gray-500 w-4 h-auto" />
+                        </Button>
+                        <Button
+                          variant="plain"
+                          onClick={() => {
+                            handleDeleteWebhook(webhook);
+                          }}
+                        >
+                          <TrashIcon className="text-red-600 w-4 h-auto" />
+                        </Button>
+                      </td>
+                    </tr>
+                    {expandedWebhookId === webhook.id && (
+                      <tr>
+                        <td colSpan={3}>
+                          <WebhookDeliveriesPanel webhookId={webhook.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
 
                 {webhooks.length === 0 && (
@@ -1,5 +1,5 @@
 import dayjs from "dayjs";
-import { CheckCircleIcon, Code2Icon, LinkIcon, ListTodoIcon, BookmarkIcon } from "lucide-react";
+import { CheckCircleIcon, Code2Icon, LinkIcon, ListTodoIcon, BookmarkIcon, ImageIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import { useState, useCallback } from "react";
 import { matchPath, useLocation } from "react-router-dom";
@@ -93,6 +93,13 @@ const StatisticsView = observer(() => {
           count={memoTypeStats.codeCount}
           onClick={() => handleFilterClick("property.hasCode")}
         />
+
+        <StatCard
+          icon={<ImageIcon className="w-4 h-auto mr-1 opacity-70" />}
+          label={t("memo.images")}
+          count={memoTypeStats.imageCount}
+          onClick={() => handleFilterClick("property.hasImage")}
+        />
       </div>
     </div>
   );
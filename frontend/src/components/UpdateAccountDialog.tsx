@@ -6,8 +6,8 @@ import { toast } from "react-hot-toast";
 import { convertFileToBase64 } from "@/helpers/utils";
 import useCurrentUser from "@/hooks/useCurrentUser";
 import { userStore, workspaceStore } from "@/store/v2";
-import { User as UserPb } from "@/types/proto/api/v1/user_service";
-import { useTranslate } from "@/utils/i18n";
+import { User as UserPb, User_Role } from "@/types/proto/api/v1/user_service";
+import { translateError, useTranslate } from "@/utils/i18n";
 import { generateDialog } from "./Dialog";
 import UserAvatar from "./UserAvatar";
 
@@ -32,6 +32,7 @@ const UpdateAccountDialog = ({ destroy }: Props) => {
     description: currentUser.description,
   });
   const workspaceGeneralSetting = workspaceStore.state.generalSetting;
+  const isHost = currentUser.role === User_Role.HOST;
 
   const handleCloseBtnClick = () => {
     destroy();
@@ -134,7 +135,7 @@ const UpdateAccountDialog = ({ destroy }: Props) => {
       handleCloseBtnClick();
     } catch (error: any) {
       console.error(error);
-      toast.error(error.details);
+      toast.error(translateError(t, error));
     }
   };
 
@@ -172,7 +173,7 @@ const UpdateAccountDialog = ({ destroy }: Props) => {
           className="w-full"
           value={state.username}
           onChange={handleUsernameChanged}
-          disabled={workspaceGeneralSetting.disallowChangeUsername}
+          disabled={workspaceGeneralSetting.disallowChangeUsername && !isHost}
         />
         <p className="text-sm">
           {t("common.nickname")}
@@ -182,7 +183,7 @@ const UpdateAccountDialog = ({ destroy }: Props) => {
           className="w-full"
           value={state.nickname}
           onChange={handleNicknameChanged}
-          disabled={workspaceGeneralSetting.disallowChangeNickname}
+          disabled={workspaceGeneralSetting.disallowChangeNickname && !isHost}
         />
         <p className="text-sm">
           {t("common.email")}
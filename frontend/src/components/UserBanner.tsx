@@ -1,4 +1,4 @@
-import { ArchiveIcon, LogOutIcon, User2Icon, SquareUserIcon, SettingsIcon, BellIcon } from "lucide-react";
+import { ArchiveIcon, LogOutIcon, User2Icon, SquareUserIcon, SettingsIcon, BellIcon, Trash2Icon } from "lucide-react";
 import { authServiceClient } from "@/grpcweb";
 import useCurrentUser from "@/hooks/useCurrentUser";
 import useNavigateTo from "@/hooks/useNavigateTo";
@@ -61,6 +61,13 @@ const UserBanner = (props: Props) => {
               <ArchiveIcon className="w-4 h-auto opacity-60" />
               <span className="truncate">{t("common.archived")}</span>
             </button>
+            <button
+              onClick={() => navigateTo(Routes.TRASH)}
+              className="flex items-center gap-2 px-2 py-1 text-left dark:text-zinc-300 hover:bg-gray-100 dark:hover:bg-zinc-700 outline-none rounded"
+            >
+              <Trash2Icon className="w-4 h-auto opacity-60" />
+              <span className="truncate">{t("common.trash")}</span>
+            </button>
             <button
               onClick={() => navigateTo(Routes.INBOX)}
               className="flex items-center gap-2 px-2 py-1 text-left dark:text-zinc-300 hover:bg-gray-100 dark:hover:bg-zinc-700 outline-none rounded"
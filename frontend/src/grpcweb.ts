@@ -1,4 +1,6 @@
 // REST API Client for Cloudflare Workers Backend
+import { parseMarkdown, restoreMarkdownNodes, type Node as MarkdownNode } from "@shared/markdown";
+import { Node } from "@/types/proto/api/v1/markdown_service";
 import { apiClient } from "./api/client";
 
 // Create compatible service clients that use REST API
@@ -37,21 +39,27 @@ export const workspaceSettingServiceClient = {
 
 // Auth Service  
 export const authServiceClient = {
-  signIn: (request: { passwordCredentials?: { username: string; password: string }; neverExpire?: boolean }) => {
+  signIn: (request: {
+    passwordCredentials?: { username: string; password: string };
+    ssoCredentials?: { idpId: number; code: string; state: string; redirectUri: string };
+    neverExpire?: boolean;
+  }) => {
     if (request.passwordCredentials) {
       return apiClient.signIn(request.passwordCredentials.username, request.passwordCredentials.password);
     }
+    if (request.ssoCredentials) {
+      const { idpId, code, state, redirectUri } = request.ssoCredentials;
+      return apiClient.signInWithSSO(idpId, code, state, redirectUri);
+    }
     throw new Error('Password credentials required');
   },
-  signUp: (request: { username: string; password: string; email?: string }) =>
-    apiClient.signUp(request.username, request.password, request.email),
-  signOut: () => {
-    // 清除本地 token
-    localStorage.removeItem("accessToken");
-    sessionStorage.removeItem("accessToken"); // 如果你也用 sessionStorage
-    // 可以根据你的项目实际情况清理其它相关信息
-    return Promise.resolve();
-  },
+  // 由后端生成授权地址（包含 state 和 PKCE code_challenge）
+  getSSOAuthorizeUrl: (request: { idpId: number; redirectUri: string }) =>
+    apiClient.getSSOAuthorizeUrl(request.idpId, request.redirectUri),
+  signUp: (request: { username: string; password: string; email?: string; inviteCode?: string }) =>
+    apiClient.signUp(request.username, request.password, request.email, request.inviteCode),
+  // 注销服务端会话并清除本地 token
+  signOut: (_request?: Record<string, never>) => apiClient.signOut(),
   getAuthStatus: () => apiClient.getCurrentUser(),
 };
 
@@ -63,7 +71,7 @@ export const userServiceClient = {
     return apiClient.getUser(id);
   },
   getUserByUsername: (request: { username: string }) => apiClient.getUserByUsername(request.username),
-  listUsers: () => apiClient.listUsers(),
+  listUsers: (request: { pageToken?: string } = {}) => apiClient.listUsers(request.pageToken),
 updateUser: (request: { user: any; updateMask: any }) => {
   const id = parseInt(request.user.name.replace('users/', ''));
   // 构造后端期望的数据格式
@@ -78,12 +86,58 @@ updateUser: (request: { user: any; updateMask: any }) => {
   if (request.user.password) {
     userData.password = request.user.password;
   }
+  // 角色和状态只在 updateMask 中指定时提交
+  if (request.updateMask?.includes('role')) {
+    userData.role = request.user.role;
+  }
+  if (request.updateMask?.includes('state')) {
+    userData.rowStatus = request.user.state;
+  }
   return apiClient.updateUser(id, userData);
 },
-  deleteUser: (request: { name: string }) => {
+  createUser: (request: { user: any }) =>
+    apiClient.createUser({
+      username: request.user.username,
+      password: request.user.password,
+      role: request.user.role,
+      email: request.user.email,
+      nickname: request.user.nickname,
+    }),
+  // reassignTo 为接收其内容的用户（如 users/1），未指定时彻底删除该用户的全部内容
+  deleteUser: (request: { name: string; reassignTo?: string }) => {
     const id = parseInt(request.name.replace('users/', ''));
-    return apiClient.deleteUser(id);
+    const reassignTo = request.reassignTo ? parseInt(request.reassignTo.replace('users/', '')) : undefined;
+    return apiClient.deleteUser(id, reassignTo);
+  },
+  listUserAccessTokens: (request: { name: string }) => {
+    const id = parseInt(request.name.replace('users/', ''));
+    return apiClient.listUserAccessTokens(id);
+  },
+  createUserAccessToken: (request: { name: string; description: string; expiresAt?: Date }) => {
+    const id = parseInt(request.name.replace('users/', ''));
+    return apiClient.createUserAccessToken(id, request.description, request.expiresAt);
+  },
+  // 令牌名称格式：users/{id}/accessTokens/{tokenId}
+  deleteUserAccessToken: (request: { name: string }) => {
+    const [, userId, , tokenId] = request.name.split('/');
+    return apiClient.deleteUserAccessToken(parseInt(userId), parseInt(tokenId));
   },
+  listUserSessions: (request: { name: string }) => {
+    const id = parseInt(request.name.replace('users/', ''));
+    return apiClient.listUserSessions(id);
+  },
+  // 会话名称格式：users/{id}/sessions/{sessionId}
+  revokeUserSession: (request: { name: string }) => {
+    const [, userId, , sessionId] = request.name.split('/');
+    return apiClient.revokeUserSession(parseInt(userId), sessionId);
+  },
+  // 在所有设备上退出登录
+  revokeAllUserSessions: (request: { name: string }) => {
+    const id = parseInt(request.name.replace('users/', ''));
+    return apiClient.revokeAllUserSessions(id);
+  },
+  // 导出当前用户的数据（ZIP 压缩包）
+  exportCurrentUser: () => apiClient.exportCurrentUser(),
   getUserSetting: async (request?: { name?: string }) => {
     // 获取当前用户信息来提取ID
     const currentUser = await apiClient.getCurrentUser();
@@ -96,9 +150,9 @@ updateUser: (request: { user: any; updateMask: any }) => {
     const currentUserId = parseInt(currentUser.name.replace('users/', ''));
     return apiClient.updateUserSetting(currentUserId, request.setting);
   },
-  getUserStats: (request: { name: string }) => {
+  getUserStats: (request: { name: string; filter?: string }) => {
     const userId = parseInt(request.name.replace('users/', ''));
-    return apiClient.getUserStats(userId);
+    return apiClient.getUserStats(userId, request.filter);
   },
   listAllUserStats: () => apiClient.getAllUserStats(),
 };
@@ -126,7 +180,7 @@ export const memoServiceClient = {
       throw new Error(`Invalid memo ID: ${idString} from name: ${memoName}`);
     }
     
-    return apiClient.updateMemo(id, request.memo);
+    return apiClient.updateMemo(id, request.memo, request.updateMask);
   },
   deleteMemo: (request: { name: string }) => {
     const id = parseInt(request.name.replace('memos/', ''));
@@ -143,8 +197,20 @@ export const memoServiceClient = {
   deleteMemoReaction: (request: { id: number }) => {
     return apiClient.deleteMemoReaction(request.id);
   },
-  renameMemoTag: (request: { parent: string; oldTag: string; newTag: string }) => Promise.resolve({}),
-  deleteMemoTag: (request: { parent: string; tag: string; deleteRelatedMemos?: boolean }) => Promise.resolve({}),
+  listMemoRevisions: (request: { name: string }) => {
+    const memoId = parseInt(request.name.replace('memos/', ''));
+    return apiClient.listMemoRevisions(memoId);
+  },
+  // name 格式：memos/{id}/revisions/{revisionId}
+  restoreMemoRevision: (request: { name: string }) => {
+    const [, memoId, , revisionId] = request.name.split('/');
+    return apiClient.restoreMemoRevision(parseInt(memoId), parseInt(revisionId));
+  },
+  // 后端只处理当前用户的 memo，parent 固定为 memos/-
+  renameMemoTag: (request: { parent: string; oldTag: string; newTag: string }) =>
+    apiClient.renameTag(request.oldTag, request.newTag),
+  deleteMemoTag: (request: { parent: string; tag: string; deleteRelatedMemos?: boolean }) =>
+    apiClient.deleteTagByName(request.tag, request.deleteRelatedMemos),
 };
 
 // Resource Service
@@ -179,8 +245,37 @@ export const resourceServiceClient = {
     });
   },
   updateResource: (request: any) => Promise.resolve(request.resource),
-  deleteResource: (request: { name: string }) => Promise.resolve({}),
-  listResources: (request: { parent: string }) => Promise.resolve({ resources: [] }),
+  deleteResource: (request: { name: string }) => apiClient.deleteResource(request.name.replace('resources/', '')),
+  listResources: (request: { parent?: string; pageToken?: string } = {}) => apiClient.listResources(request.pageToken),
+  getStorageUsage: () => apiClient.getStorageUsage(),
+  migrateResources: (request: { afterId?: number }) => apiClient.migrateResources(request.afterId),
+};
+
+// Trash Service
+// 回收站中的笔记名称格式：memos/{id}，资源名称格式：resources/{uid}
+export const trashServiceClient = {
+  listTrash: () => apiClient.listTrash(),
+  restoreMemo: (request: { name: string }) => apiClient.restoreTrashMemo(getIdFromName(request.name)),
+  deleteMemo: (request: { name: string }) => apiClient.deleteTrashMemo(getIdFromName(request.name)),
+  restoreResource: (request: { name: string }) => apiClient.restoreTrashResource(request.name.replace('resources/', '')),
+  deleteResource: (request: { name: string }) => apiClient.deleteTrashResource(request.name.replace('resources/', '')),
+};
+
+// Import Service
+// 导入任务名称格式：imports/{uid}
+export const importServiceClient = {
+  createImportJob: (request: { file: File }) => apiClient.createImportJob(request.file),
+  getImportJob: (request: { name: string }) => apiClient.getImportJob(request.name.replace('imports/', '')),
+  runImportJob: (request: { name: string }) => apiClient.runImportJob(request.name.replace('imports/', '')),
+};
+
+// Invite Service
+// 邀请码名称格式：invites/{id}
+export const inviteServiceClient = {
+  getInvite: (request: { code: string }) => apiClient.getInvite(request.code),
+  listInvites: () => apiClient.listInvites(),
+  createInvite: (request: { role: string; maxUses: number; expiresAt?: Date }) => apiClient.createInvite(request),
+  deleteInvite: (request: { name: string }) => apiClient.deleteInvite(getIdFromName(request.name)),
 };
 
 // Shortcut Service
@@ -189,7 +284,7 @@ export const shortcutServiceClient = {
     const response = await fetch('/api/shortcut', {
       method: 'GET',
       headers: {
-        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        'Authorization': `Bearer ${await apiClient.getAccessToken()}`,
         'Content-Type': 'application/json',
       },
     });
@@ -205,7 +300,7 @@ export const shortcutServiceClient = {
     const response = await fetch('/api/shortcut', {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        'Authorization': `Bearer ${await apiClient.getAccessToken()}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -225,7 +320,7 @@ export const shortcutServiceClient = {
     const response = await fetch(`/api/shortcut/${request.shortcut.id}`, {
       method: 'PATCH',
       headers: {
-        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        'Authorization': `Bearer ${await apiClient.getAccessToken()}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
@@ -245,7 +340,7 @@ export const shortcutServiceClient = {
     const response = await fetch(`/api/shortcut/${request.id}`, {
       method: 'DELETE',
       headers: {
-        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        'Authorization': `Bearer ${await apiClient.getAccessToken()}`,
         'Content-Type': 'application/json',
       },
     });
@@ -259,370 +354,71 @@ export const shortcutServiceClient = {
 };
 
 // Inbox Service  
+// inbox 名称格式：inboxes/{id}，activity 名称格式：activities/{id}
+const getIdFromName = (name: string) => parseInt(name.split('/').pop() || '');
+
 export const inboxServiceClient = {
-  listInboxes: (request: any) => Promise.resolve({ inboxes: [] }),
-  updateInbox: (request: { inbox: any; updateMask: string[] }) => Promise.resolve(request.inbox),
-  deleteInbox: (request: { name: string }) => Promise.resolve({}),
+  // 后端根据当前登录用户返回其通知
+  listInboxes: (request: { pageToken?: string } = {}) => apiClient.listInboxes(request.pageToken),
+  updateInbox: (request: { inbox: { name?: string; status?: string }; updateMask: string[] }) => {
+    const id = getIdFromName(request.inbox.name || '');
+    if (isNaN(id)) {
+      throw new Error('Inbox name is required for update');
+    }
+    if (!request.updateMask.includes('status') || !request.inbox.status) {
+      throw new Error('Only inbox status can be updated');
+    }
+    return apiClient.updateInbox(id, { status: request.inbox.status });
+  },
+  deleteInbox: (request: { name: string }) => apiClient.deleteInbox(getIdFromName(request.name)),
 };
 
 export const activityServiceClient = {
-  getActivity: () => Promise.resolve({}),
+  getActivity: (request: { name: string }) => apiClient.getActivity(getIdFromName(request.name)),
 };
 
 export const webhookServiceClient = {
-  listWebhooks: async (request: { creator: string }) => {
-    try {
-      // 调用后端的webhook API
-      const response = await (apiClient as any).request(`/api/webhook?creator=${encodeURIComponent(request.creator)}`, {
-        method: 'GET'
-      });
-      return response; // 后端应该返回 { webhooks: [...] }
-    } catch (error) {
-      console.warn('Failed to fetch webhooks:', error);
-      // 返回空的webhooks数组作为fallback
-      return { webhooks: [] };
+  // 后端根据当前登录用户返回其 webhooks
+  listWebhooks: () => apiClient.listWebhooks(),
+  getWebhook: (request: { id: number }) => apiClient.getWebhook(request.id),
+  createWebhook: (request: { name: string; url: string }) => apiClient.createWebhook(request.name, request.url),
+  updateWebhook: (request: { webhook: { id?: number; name?: string; url?: string }; updateMask: string[] }) => {
+    const { id, ...webhook } = request.webhook;
+    if (!id) {
+      throw new Error('Webhook id is required for update');
     }
-  },
-  createWebhook: async (request: { name: string; url: string }) => {
-    try {
-      const response = await (apiClient as any).request('/api/webhook', {
-        method: 'POST',
-        body: JSON.stringify(request)
-      });
-      return response;
-    } catch (error) {
-      console.error('Failed to create webhook:', error);
-      throw error;
-    }
-  },
-  deleteWebhook: async (request: { id: number }) => {
-    try {
-      const response = await (apiClient as any).request(`/api/webhook/${request.id}`, {
-        method: 'DELETE'
-      });
-      return response;
-    } catch (error) {
-      console.error('Failed to delete webhook:', error);
-      throw error;
+    const data: { name?: string; url?: string } = {};
+    for (const field of request.updateMask) {
+      if (field === 'name' || field === 'url') {
+        data[field] = webhook[field];
+      }
     }
+    return apiClient.updateWebhook(id, data);
   },
+  deleteWebhook: (request: { id: number }) => apiClient.deleteWebhook(request.id),
+  listWebhookDeliveries: (request: { id: number }) => apiClient.listWebhookDeliveries(request.id),
+  redeliverWebhook: (request: { id: number; deliveryId: number }) => apiClient.redeliverWebhook(request.id, request.deliveryId),
 };
 
 export const markdownServiceClient = {
-  parseMarkdown: (request: { markdown: string }) => {
-    // 这是一个简化版的markdown解析器
-    // 在实际生产环境中，应该使用后端的markdown解析服务
-    const nodes = parseMarkdownToNodes(request.markdown);
-    return Promise.resolve({ nodes });
-  },
-  restoreMarkdownNodes: (request: { nodes: any[] }) => {
-    // 这是一个简化版的节点还原为markdown的功能
-    const markdown = restoreNodesToMarkdown(request.nodes);
-    return Promise.resolve({ markdown });
-  },
-  getLinkMetadata: (request: { link: string }) =>
-    Promise.resolve({
-      title: request.link,
-      description: '',
-      image: '',
-    }),
+  // 与后端共用 shared/markdown 中的解析器，直接在浏览器中解析
+  parseMarkdown: (request: { markdown: string }) => Promise.resolve({ nodes: parseMarkdown(request.markdown) as unknown as Node[] }),
+  restoreMarkdownNodes: (request: { nodes: Node[] }) =>
+    Promise.resolve({ markdown: restoreMarkdownNodes(request.nodes as unknown as MarkdownNode[]) }),
+  getLinkMetadata: (request: { link: string }) => apiClient.getLinkMetadata(request.link),
 };
 
-// 简化版markdown解析器
-function parseMarkdownToNodes(markdown: string): any[] {
-  const lines = markdown.split('\n');
-  const nodes: any[] = [];
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    
-    // 代码块处理
-    if (line.trim().startsWith('```')) {
-      const language = line.trim().substring(3);
-      const codeLines = [];
-      i++; // 跳过开始的```行
-      
-      while (i < lines.length && !lines[i].trim().startsWith('```')) {
-        codeLines.push(lines[i]);
-        i++;
-      }
-      
-      nodes.push({
-        type: 'CODE_BLOCK',
-        codeBlockNode: {
-          language: language,
-          content: codeLines.join('\n')
-        }
-      });
-      continue;
-    }
-    
-    // 任务列表项
-    if (/^(\s*)- \[([ xX])\] (.*)/.test(line)) {
-      const match = line.match(/^(\s*)- \[([ xX])\] (.*)/);
-      if (match) {
-        const indent = Math.floor(match[1].length / 2);
-        const isComplete = match[2].toLowerCase() === 'x';
-        const content = match[3];
-        
-        nodes.push({
-          type: 'TASK_LIST_ITEM',
-          taskListItemNode: {
-            symbol: '-',
-            indent: indent,
-            complete: isComplete,
-            children: [
-              {
-                type: 'TEXT',
-                textNode: {
-                  content: content
-                }
-              }
-            ]
-          }
-        });
-      }
-    }
-    // 普通列表项
-    else if (/^(\s*)- (.*)/.test(line)) {
-      const match = line.match(/^(\s*)- (.*)/);
-      if (match) {
-        const indent = Math.floor(match[1].length / 2);
-        nodes.push({
-          type: 'UNORDERED_LIST_ITEM',
-          unorderedListItemNode: {
-            symbol: '-',
-            indent: indent,
-            children: [
-              {
-                type: 'TEXT',
-                textNode: {
-                  content: match[2]
-                }
-              }
-            ]
-          }
-        });
-      }
-    }
-    // 有序列表项
-    else if (/^(\s*)(\d+)\. (.*)/.test(line)) {
-      const match = line.match(/^(\s*)(\d+)\. (.*)/);
-      if (match) {
-        const indent = Math.floor(match[1].length / 2);
-        nodes.push({
-          type: 'ORDERED_LIST_ITEM',
-          orderedListItemNode: {
-            number: match[2],
-            indent: indent,
-            children: [
-              {
-                type: 'TEXT',
-                textNode: {
-                  content: match[3]
-                }
-              }
-            ]
-          }
-        });
-      }
-    }
-    // 标题
-    else if (/^#{1,6} (.*)/.test(line)) {
-      const match = line.match(/^(#{1,6}) (.*)/);
-      if (match) {
-        nodes.push({
-          type: 'HEADING',
-          headingNode: {
-            level: match[1].length,
-            children: [
-              {
-                type: 'TEXT',
-                textNode: {
-                  content: match[2]
-                }
-              }
-            ]
-          }
-        });
-      }
-    }
-    // 行内代码
-    else if (/`([^`]+)`/.test(line)) {
-      // 这是一个简化处理，实际应该更复杂地解析行内元素
-      const parts = line.split(/(`[^`]+`)/);
-      const textChildren = [];
-      
-      for (const part of parts) {
-        if (part.startsWith('`') && part.endsWith('`')) {
-          textChildren.push({
-            type: 'CODE',
-            codeNode: {
-              content: part.slice(1, -1)
-            }
-          });
-        } else if (part.trim()) {
-          textChildren.push({
-            type: 'TEXT',
-            textNode: {
-              content: part
-            }
-          });
-        }
-      }
-      
-      if (textChildren.length > 0) {
-        nodes.push({
-          type: 'PARAGRAPH',
-          paragraphNode: {
-            children: textChildren
-          }
-        });
-      }
-    }
-    // 普通文本
-    else if (line.trim()) {
-      nodes.push({
-        type: 'PARAGRAPH',
-        paragraphNode: {
-          children: [
-            {
-              type: 'TEXT',
-              textNode: {
-                content: line
-              }
-            }
-          ]
-        }
-      });
-    }
-    // 换行
-    else {
-      nodes.push({
-        type: 'LINE_BREAK'
-      });
-    }
-  }
-  
-  return nodes;
-}
-
-// 简化版节点还原为markdown
-function restoreNodesToMarkdown(nodes: any[]): string {
-  const lines: string[] = [];
-  
-  for (const node of nodes) {
-    switch (node.type) {
-      case 'TASK_LIST_ITEM':
-        if (node.taskListItemNode) {
-          const indent = '  '.repeat(node.taskListItemNode.indent || 0);
-          const checkbox = node.taskListItemNode.complete ? '[x]' : '[ ]';
-          const content = extractTextFromChildren(node.taskListItemNode.children || []);
-          lines.push(`${indent}- ${checkbox} ${content}`);
-        }
-        break;
-        
-      case 'UNORDERED_LIST_ITEM':
-        if (node.unorderedListItemNode) {
-          const indent = '  '.repeat(node.unorderedListItemNode.indent || 0);
-          const content = extractTextFromChildren(node.unorderedListItemNode.children || []);
-          lines.push(`${indent}- ${content}`);
-        }
-        break;
-        
-      case 'ORDERED_LIST_ITEM':
-        if (node.orderedListItemNode) {
-          const indent = '  '.repeat(node.orderedListItemNode.indent || 0);
-          const content = extractTextFromChildren(node.orderedListItemNode.children || []);
-          lines.push(`${indent}${node.orderedListItemNode.number}. ${content}`);
-        }
-        break;
-        
-      case 'CODE_BLOCK':
-        if (node.codeBlockNode) {
-          lines.push(`\`\`\`${node.codeBlockNode.language || ''}`);
-          lines.push(node.codeBlockNode.content || '');
-          lines.push('```');
-        }
-        break;
-        
-      case 'HEADING':
-        if (node.headingNode) {
-          const level = '#'.repeat(node.headingNode.level || 1);
-          const content = extractTextFromChildren(node.headingNode.children || []);
-          lines.push(`${level} ${content}`);
-        }
-        break;
-        
-      case 'PARAGRAPH':
-        if (node.paragraphNode) {
-          const content = extractTextFromChildren(node.paragraphNode.children || []);
-          lines.push(content);
-        }
-        break;
-        
-      case 'TEXT':
-        if (node.textNode) {
-          lines.push(node.textNode.content || '');
-        }
-        break;
-        
-      case 'LINE_BREAK':
-        lines.push('');
-        break;
-        
-      default:
-        // 对于其他类型，尝试提取文本内容
-        if (node.textNode) {
-          lines.push(node.textNode.content || '');
-        }
-        break;
-    }
-  }
-  
-  return lines.join('\n');
-}
-
-// 辅助函数：从children节点中提取文本内容
-function extractTextFromChildren(children: any[]): string {
-  const textParts: string[] = [];
-  
-  for (const child of children) {
-    switch (child.type) {
-      case 'TEXT':
-        if (child.textNode) {
-          textParts.push(child.textNode.content || '');
-        }
-        break;
-      case 'CODE':
-        if (child.codeNode) {
-          textParts.push(`\`${child.codeNode.content || ''}\``);
-        }
-        break;
-      default:
-        // 对于其他类型，尝试递归提取
-        if (child.children) {
-          textParts.push(extractTextFromChildren(child.children));
-        } else if (child.textNode) {
-          textParts.push(child.textNode.content || '');
-        }
-        break;
-    }
-  }
-  
-  return textParts.join('');
-}
-
 export const identityProviderServiceClient = {
-  listIdentityProviders: () => Promise.resolve({ identityProviders: [] }),
-  getIdentityProvider: (request: { name: string }) => Promise.resolve({
-    name: request.name,
-    type: 'OAUTH2',
-    title: '',
-    identifierFilter: '',
-    config: undefined,
-  }),
-  createIdentityProvider: (request: { identityProvider: any }) => Promise.resolve(request.identityProvider),
-  updateIdentityProvider: (request: { identityProvider: any }) => Promise.resolve(request.identityProvider),
-  deleteIdentityProvider: (request: { name: string }) => Promise.resolve({}),
+  listIdentityProviders: (_request?: Record<string, never>) => apiClient.listIdentityProviders(),
+  getIdentityProvider: (request: { name: string }) => apiClient.getIdentityProvider(getIdFromName(request.name)),
+  createIdentityProvider: (request: { identityProvider: any }) => {
+    const { title, type, identifierFilter, config } = request.identityProvider;
+    return apiClient.createIdentityProvider({ title, type, identifierFilter, config });
+  },
+  updateIdentityProvider: (request: { identityProvider: any; updateMask?: string[] }) => {
+    const { name, title, identifierFilter, config } = request.identityProvider;
+    // clientSecret 为空时后端保留原值
+    return apiClient.updateIdentityProvider(getIdFromName(name), { title, identifierFilter, config });
+  },
+  deleteIdentityProvider: (request: { name: string }) => apiClient.deleteIdentityProvider(getIdFromName(request.name)),
 };
@@ -3,11 +3,11 @@ import { countBy } from "lodash-es";
 import { useMemo } from "react";
 import userStore from "@/store/v2/user";
 import { UserStats_MemoTypeStats } from "@/types/proto/api/v1/user_service";
-import type { StatisticsData } from "@/types/statistics";
+import type { MemoTypeStats, StatisticsData } from "@/types/statistics";
 
 export const useStatisticsData = (): StatisticsData => {
   return useMemo(() => {
-    const memoTypeStats = UserStats_MemoTypeStats.fromPartial({});
+    const memoTypeStats: MemoTypeStats = { ...UserStats_MemoTypeStats.fromPartial({}), imageCount: 0 };
     const displayTimeList: Date[] = [];
 
     for (const stats of Object.values(userStore.state.userStatsByName)) {
@@ -17,6 +17,7 @@ export const useStatisticsData = (): StatisticsData => {
         memoTypeStats.linkCount += stats.memoTypeStats.linkCount;
         memoTypeStats.todoCount += stats.memoTypeStats.todoCount;
         memoTypeStats.undoCount += stats.memoTypeStats.undoCount;
+        memoTypeStats.imageCount += (stats.memoTypeStats as Partial<MemoTypeStats>).imageCount ?? 0;
       }
     }
 
@@ -2,8 +2,10 @@ import { observer } from "mobx-react-lite";
 import AuthFooter from "@/components/AuthFooter";
 import PasswordSignInForm from "@/components/PasswordSignInForm";
 import { workspaceStore } from "@/store/v2";
+import { useTranslate } from "@/utils/i18n";
 
 const AdminSignIn = observer(() => {
+  const t = useTranslate();
   const workspaceGeneralSetting = workspaceStore.state.generalSetting;
 
   return (
@@ -15,7 +17,10 @@ const AdminSignIn = observer(() => {
             {workspaceGeneralSetting.customProfile?.title || "Memos"}
           </p>
         </div>
-        <p className="w-full text-xl font-medium dark:text-gray-500">Sign in with admin accounts</p>
+        <p className="w-full text-xl font-medium dark:text-gray-500">{t("auth.admin-sign-in")}</p>
+        {workspaceGeneralSetting.disallowPasswordAuth && (
+          <p className="w-full mt-1 text-sm text-gray-500 dark:text-gray-400">{t("auth.admin-sign-in-tip")}</p>
+        )}
         <PasswordSignInForm />
       </div>
       <AuthFooter />
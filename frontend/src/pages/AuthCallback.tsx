@@ -50,6 +50,7 @@ const AuthCallback = observer(() => {
           ssoCredentials: {
             idpId: identityProviderId,
             code,
+            state,
             redirectUri,
           },
         });
@@ -63,7 +64,7 @@ const AuthCallback = observer(() => {
         console.error(error);
         setState({
           loading: false,
-          errorMessage: (error as ClientError).details,
+          errorMessage: (error as ClientError).details || error.message,
         });
       }
     })();
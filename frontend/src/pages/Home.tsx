@@ -19,9 +19,9 @@ const Home = observer(() => {
     const tagSearch: string[] = [];
     for (const filter of memoFilterStore.filters) {
       if (filter.factor === "contentSearch") {
-        contentSearch.push(`"${filter.value}"`);
+        contentSearch.push(JSON.stringify(filter.value));
       } else if (filter.factor === "tagSearch") {
-        tagSearch.push(`"${filter.value}"`);
+        tagSearch.push(JSON.stringify(filter.value));
       } else if (filter.factor === "pinned") {
         conditions.push(`pinned == true`);
       } else if (filter.factor === "property.hasLink") {
@@ -30,6 +30,10 @@ const Home = observer(() => {
         conditions.push(`has_task_list == true`);
       } else if (filter.factor === "property.hasCode") {
         conditions.push(`has_code == true`);
+      } else if (filter.factor === "property.hasIncompleteTasks") {
+        conditions.push(`has_incomplete_tasks == true`);
+      } else if (filter.factor === "property.hasImage") {
+        conditions.push(`has_image == true`);
       } else if (filter.factor === "displayTime") {
         const filterDate = new Date(filter.value);
         const filterUtcTimestamp = filterDate.getTime() + filterDate.getTimezoneOffset() * 60 * 1000;
@@ -47,25 +51,29 @@ const Home = observer(() => {
     const finalFilter = conditions.join(" && ");
     return finalFilter;
   }, [user, memoFilterStore.filters, viewStore.state.orderByTimeAsc]);
+  const isContentSearch = memoFilterStore.filters.some((filter) => filter.factor === "contentSearch");
 
   return (
     <PagedMemoList
       renderer={(memo: Memo) => <MemoView key={`${memo.name}-${memo.displayTime}`} memo={memo} showVisibility showPinned compact />}
       listSort={(memos: Memo[]) =>
-        memos
-          .filter((memo) => memo.state === State.NORMAL)
-          .sort((a, b) =>
-            viewStore.state.orderByTimeAsc
-              ? dayjs(a.displayTime).unix() - dayjs(b.displayTime).unix()
-              : dayjs(b.displayTime).unix() - dayjs(a.displayTime).unix(),
-          )
-          .sort((a, b) => Number(b.pinned) - Number(a.pinned))
+        // Content search results keep the relevance order returned by the server.
+        isContentSearch
+          ? memos.filter((memo) => memo.state === State.NORMAL)
+          : memos
+              .filter((memo) => memo.state === State.NORMAL)
+              .sort((a, b) =>
+                viewStore.state.orderByTimeAsc
+                  ? dayjs(a.displayTime).unix() - dayjs(b.displayTime).unix()
+                  : dayjs(b.displayTime).unix() - dayjs(a.displayTime).unix(),
+              )
+              .sort((a, b) => Number(b.pinned) - Number(a.pinned))
       }
       {...(user ? { owner: user.name } : {})}
       direction={viewStore.state.orderByTimeAsc ? Direction.ASC : Direction.DESC}
       filter={(() => {
         if (selectedShortcut?.filter && memoListFilter) {
-          return `${selectedShortcut.filter} && ${memoListFilter}`;
+          return `(${selectedShortcut.filter}) && ${memoListFilter}`;
         } else if (selectedShortcut?.filter) {
           return selectedShortcut.filter;
         } else {
@@ -74,7 +82,7 @@ const Home = observer(() => {
       })()}
       oldFilter={(() => {
         if (selectedShortcut?.filter && memoListFilter) {
-          return `${selectedShortcut.filter} && ${memoListFilter}`;
+          return `(${selectedShortcut.filter}) && ${memoListFilter}`;
         } else if (selectedShortcut?.filter) {
           return selectedShortcut.filter;
         } else {
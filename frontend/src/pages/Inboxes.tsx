@@ -1,9 +1,13 @@
+import { Button } from "@usememos/mui";
 import { sortBy } from "lodash-es";
 import { BellIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import Empty from "@/components/Empty";
 import MemoCommentMessage from "@/components/Inbox/MemoCommentMessage";
+import MemoMentionMessage from "@/components/Inbox/MemoMentionMessage";
+import MemoReactionMessage from "@/components/Inbox/MemoReactionMessage";
+import MemoReminderMessage from "@/components/Inbox/MemoReminderMessage";
 import MobileHeader from "@/components/MobileHeader";
 import useResponsiveWidth from "@/hooks/useResponsiveWidth";
 import { userStore } from "@/store/v2";
@@ -19,10 +23,21 @@ const Inboxes = observer(() => {
     return 2;
   });
 
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
+
   useEffect(() => {
     userStore.fetchInboxes();
   }, []);
 
+  const handleFetchMoreInboxes = async () => {
+    setIsFetchingMore(true);
+    try {
+      await userStore.fetchInboxes(userStore.state.inboxNextPageToken);
+    } finally {
+      setIsFetchingMore(false);
+    }
+  };
+
   return (
     <section className="@container w-full max-w-5xl min-h-full flex flex-col justify-start items-center sm:pt-3 md:pt-6 pb-8">
       {!md && <MobileHeader />}
@@ -45,10 +60,23 @@ const Inboxes = observer(() => {
               {inboxes.map((inbox) => {
                 if (inbox.type === Inbox_Type.MEMO_COMMENT) {
                   return <MemoCommentMessage key={`${inbox.name}-${inbox.status}`} inbox={inbox} />;
+                } else if (inbox.type === Inbox_Type.MEMO_MENTION) {
+                  return <MemoMentionMessage key={`${inbox.name}-${inbox.status}`} inbox={inbox} />;
+                } else if (inbox.type === Inbox_Type.MEMO_REACTION) {
+                  return <MemoReactionMessage key={`${inbox.name}-${inbox.status}`} inbox={inbox} />;
+                } else if (inbox.type === Inbox_Type.MEMO_REMINDER) {
+                  return <MemoReminderMessage key={`${inbox.name}-${inbox.status}`} inbox={inbox} />;
                 }
                 return undefined;
               })}
             </div>
+            {userStore.state.inboxNextPageToken && (
+              <div className="w-full flex flex-row justify-center items-center mt-4">
+                <Button variant="plain" disabled={isFetchingMore} onClick={handleFetchMoreInboxes}>
+                  {t("memo.load-more")}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
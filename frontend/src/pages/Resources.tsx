@@ -42,20 +42,34 @@ const Resources = observer(() => {
     searchQuery: "",
   });
   const [resources, setResources] = useState<Resource[]>([]);
+  const [nextPageToken, setNextPageToken] = useState("");
+  const [isFetchingMore, setIsFetchingMore] = useState(false);
   const filteredResources = resources.filter((resource) => includes(resource.filename, state.searchQuery));
   const groupedResources = groupResourcesByDate(filteredResources.filter((resource) => resource.memo));
   const unusedResources = filteredResources.filter((resource) => !resource.memo);
 
+  const fetchResources = async (pageToken = "") => {
+    const response = await resourceServiceClient.listResources({ pageToken });
+    setResources((prev) => (pageToken ? [...prev, ...response.resources] : response.resources));
+    setNextPageToken(response.nextPageToken);
+    Promise.all(response.resources.map((resource) => (resource.memo ? memoStore.getOrFetchMemoByName(resource.memo) : null)));
+  };
+
   useEffect(() => {
-    resourceServiceClient.listResources({}).then(({ resources }) => {
-      setResources(resources);
-      loadingState.setFinish();
-      Promise.all(resources.map((resource) => (resource.memo ? memoStore.getOrFetchMemoByName(resource.memo) : null)));
-    });
+    fetchResources().then(() => loadingState.setFinish());
   }, []);
 
+  const handleFetchMoreResources = async () => {
+    setIsFetchingMore(true);
+    try {
+      await fetchResources(nextPageToken);
+    } finally {
+      setIsFetchingMore(false);
+    }
+  };
+
   const handleDeleteUnusedResources = async () => {
-    const confirmed = window.confirm("Are you sure to delete all unused resources? This action cannot be undone.");
+    const confirmed = window.confirm("Are you sure to delete all unused resources? They will be moved to the trash.");
     if (confirmed) {
       for (const resource of unusedResources) {
         await resourceServiceClient.deleteResource({ name: resource.name });
@@ -158,6 +172,13 @@ const Resources = observer(() => {
                     )}
                   </div>
                 )}
+                {nextPageToken && (
+                  <div className="w-full flex flex-row justify-center items-center mt-6">
+                    <Button variant="plain" disabled={isFetchingMore} onClick={handleFetchMoreResources}>
+                      {t("memo.load-more")}
+                    </Button>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -18,6 +18,7 @@ import { workspaceStore } from "@/store/v2";
 import { WorkspaceSettingKey } from "@/store/v2/workspace";
 import { User_Role } from "@/types/proto/api/v1/user_service";
 import { useTranslate } from "@/utils/i18n";
+import { isSuperUser } from "@/utils/user";
 
 type SettingSection = "my-account" | "preference" | "member" | "system" | "memo-related" | "storage" | "sso";
 
@@ -27,6 +28,8 @@ interface State {
 
 const BASIC_SECTIONS: SettingSection[] = ["my-account", "preference"];
 const ADMIN_SECTIONS: SettingSection[] = ["member", "system", "memo-related", "storage", "sso"];
+// ADMIN 只能管理成员，其余管理设置仅 HOST 可见
+const MEMBER_ADMIN_SECTIONS: SettingSection[] = ["member"];
 const SECTION_ICON_MAP: Record<SettingSection, LucideIcon> = {
   "my-account": UserIcon,
   preference: CogIcon,
@@ -49,14 +52,11 @@ const Setting = observer(() => {
     selectedSection: "my-account",
   });
   const isHost = user.role === User_Role.HOST;
+  const adminSections = isHost ? ADMIN_SECTIONS : isSuperUser(user) ? MEMBER_ADMIN_SECTIONS : [];
 
   const settingsSectionList = useMemo(() => {
-    let settingList = [...BASIC_SECTIONS];
-    if (isHost) {
-      settingList = settingList.concat(ADMIN_SECTIONS);
-    }
-    return settingList;
-  }, [isHost]);
+    return [...BASIC_SECTIONS, ...adminSections];
+  }, [adminSections]);
 
   useEffect(() => {
     let hash = location.hash.slice(1) as SettingSection;
@@ -104,11 +104,11 @@ const Setting = observer(() => {
                 />
               ))}
             </div>
-            {isHost ? (
+            {adminSections.length > 0 ? (
               <>
                 <span className="text-sm mt-4 pl-3 font-mono select-none text-gray-400 dark:text-gray-500">{t("common.admin")}</span>
                 <div className="w-full flex flex-col justify-start items-start mt-1">
-                  {ADMIN_SECTIONS.map((item) => (
+                  {adminSections.map((item) => (
                     <SectionMenuItem
                       key={item}
                       text={t(`setting.${item}`)}
@@ -6,7 +6,7 @@ import { toast } from "react-hot-toast";
 import { Link } from "react-router-dom";
 import AuthFooter from "@/components/AuthFooter";
 import PasswordSignInForm from "@/components/PasswordSignInForm";
-import { identityProviderServiceClient } from "@/grpcweb";
+import { authServiceClient, identityProviderServiceClient } from "@/grpcweb";
 import { absolutifyLink } from "@/helpers/utils";
 import useCurrentUser from "@/hooks/useCurrentUser";
 import { Routes } from "@/router";
@@ -38,20 +38,19 @@ const SignIn = observer(() => {
   }, []);
 
   const handleSignInWithIdentityProvider = async (identityProvider: IdentityProvider) => {
-    const stateQueryParameter = `auth.signin.${identityProvider.title}-${extractIdentityProviderIdFromName(identityProvider.name)}`;
     if (identityProvider.type === IdentityProvider_Type.OAUTH2) {
       const redirectUri = absolutifyLink("/auth/callback");
-      const oauth2Config = identityProvider.config?.oauth2Config;
-      if (!oauth2Config) {
-        toast.error("Identity provider configuration is invalid.");
-        return;
+      try {
+        // The backend generates the state and PKCE challenge, and verifies them on callback.
+        const { authUrl } = await authServiceClient.getSSOAuthorizeUrl({
+          idpId: extractIdentityProviderIdFromName(identityProvider.name),
+          redirectUri,
+        });
+        window.location.href = authUrl;
+      } catch (error: any) {
+        console.error(error);
+        toast.error(error.message || "Identity provider configuration is invalid.");
       }
-      const authUrl = `${oauth2Config.authUrl}?client_id=${
-        oauth2Config.clientId
-      }&redirect_uri=${redirectUri}&state=${stateQueryParameter}&response_type=code&scope=${encodeURIComponent(
-        (oauth2Config.scopes || []).join(" "),
-      )}`;
-      window.location.href = authUrl;
     }
   };
 
@@ -67,7 +66,7 @@ const SignIn = observer(() => {
         {!workspaceGeneralSetting?.disallowPasswordAuth ? (
           <PasswordSignInForm />
         ) : (
-          identityProviderList.length == 0 && <p className="w-full text-2xl mt-2 dark:text-gray-500">Password auth is not allowed.</p>
+          identityProviderList.length == 0 && <p className="w-full text-2xl mt-2 dark:text-gray-500">{t("message.error.password-auth-disallowed")}</p>
         )}
         {!workspaceGeneralSetting?.disallowUserRegistration && !workspaceGeneralSetting?.disallowPasswordAuth && (
           <p className="w-full mt-4 text-sm">
@@ -2,24 +2,45 @@ import { Button, Input } from "@usememos/mui";
 import { LoaderIcon } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import { ClientError } from "nice-grpc-web";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { toast } from "react-hot-toast";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import AuthFooter from "@/components/AuthFooter";
-import { authServiceClient } from "@/grpcweb";
+import { authServiceClient, inviteServiceClient } from "@/grpcweb";
 import useLoading from "@/hooks/useLoading";
 import useNavigateTo from "@/hooks/useNavigateTo";
 import { workspaceStore } from "@/store/v2";
 import { initialUserStore } from "@/store/v2/user";
+import { User_Role } from "@/types/proto/api/v1/user_service";
 import { useTranslate } from "@/utils/i18n";
 
+// 邀请链接（/auth/signup?invite=<code>）的状态，有效的邀请码不受「禁止用户注册」设置的限制
+type InviteState = { status: "none" | "loading" | "invalid" } | { status: "valid"; role: string };
+
 const SignUp = observer(() => {
   const t = useTranslate();
   const navigateTo = useNavigateTo();
   const actionBtnLoadingState = useLoading(false);
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [searchParams] = useSearchParams();
+  const inviteCode = searchParams.get("invite") ?? "";
+  const [invite, setInvite] = useState<InviteState>({ status: inviteCode ? "loading" : "none" });
   const workspaceGeneralSetting = workspaceStore.state.generalSetting;
+  const allowSignUp = !workspaceGeneralSetting.disallowUserRegistration || invite.status === "valid" || !workspaceStore.state.profile.owner;
+
+  useEffect(() => {
+    if (!inviteCode) {
+      setInvite({ status: "none" });
+      return;
+    }
+
+    setInvite({ status: "loading" });
+    inviteServiceClient
+      .getInvite({ code: inviteCode })
+      .then(({ role }) => setInvite({ status: "valid", role }))
+      .catch(() => setInvite({ status: "invalid" }));
+  }, [inviteCode]);
 
   const handleUsernameInputChanged = (e: React.ChangeEvent<HTMLInputElement>) => {
     const text = e.target.value as string;
@@ -47,12 +68,12 @@ const SignUp = observer(() => {
 
     try {
       actionBtnLoadingState.setLoading();
-      await authServiceClient.signUp({ username, password });
+      await authServiceClient.signUp({ username, password, inviteCode: invite.status === "valid" ? inviteCode : undefined });
       await initialUserStore();
       navigateTo("/");
     } catch (error: any) {
       console.error(error);
-      toast.error((error as ClientError).details || "Sign up failed");
+      toast.error((error as ClientError).details || error.message || "Sign up failed");
     }
     actionBtnLoadingState.setFinish();
   };
@@ -66,9 +87,17 @@ const SignUp = observer(() => {
             {workspaceGeneralSetting.customProfile?.title || "Memos"}
           </p>
         </div>
-        {!workspaceGeneralSetting.disallowUserRegistration ? (
+        {invite.status === "invalid" && <p className="w-full mb-2 text-sm text-red-600 dark:text-red-400">{t("auth.invite-invalid")}</p>}
+        {allowSignUp ? (
           <>
             <p className="w-full text-2xl mt-2 dark:text-gray-500">{t("auth.create-your-account")}</p>
+            {invite.status === "valid" && (
+              <p className="w-full mt-1 text-sm text-gray-500 dark:text-gray-400">
+                {t("auth.invite-tip", {
+                  role: invite.role === User_Role.ADMIN ? t("setting.member-section.admin") : t("setting.member-section.user"),
+                })}
+              </p>
+            )}
             <form className="w-full mt-2" onSubmit={handleFormSubmit}>
               <div className="flex flex-col justify-start items-start w-full gap-4">
                 <div className="w-full flex flex-col justify-start items-start">
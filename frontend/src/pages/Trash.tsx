@@ -0,0 +1,214 @@
+import { Tooltip } from "@mui/joy";
+import { Button } from "@usememos/mui";
+import dayjs from "dayjs";
+import { ArchiveRestoreIcon, FileIcon, Trash2Icon, XIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import Empty from "@/components/Empty";
+import MobileHeader from "@/components/MobileHeader";
+import { trashServiceClient } from "@/grpcweb";
+import useLoading from "@/hooks/useLoading";
+import useResponsiveWidth from "@/hooks/useResponsiveWidth";
+import { userStore } from "@/store/v2";
+import { useTranslate } from "@/utils/i18n";
+
+interface TrashMemo {
+  name: string;
+  snippet: string;
+  deleteTime: Date;
+}
+
+interface TrashResource {
+  name: string;
+  filename: string;
+  deleteTime: Date;
+}
+
+const Trash = () => {
+  const t = useTranslate();
+  const { md } = useResponsiveWidth();
+  const loadingState = useLoading();
+  const [memos, setMemos] = useState<TrashMemo[]>([]);
+  const [resources, setResources] = useState<TrashResource[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+
+  const fetchTrash = async () => {
+    const { memos, resources, retentionDays } =
+      await trashServiceClient.listTrash();
+    setMemos(memos);
+    setResources(resources);
+    setRetentionDays(retentionDays);
+  };
+
+  useEffect(() => {
+    fetchTrash()
+      .catch((error) => {
+        console.error(error);
+        toast.error(error.message);
+      })
+      .finally(() => loadingState.setFinish());
+  }, []);
+
+  const handleAction = async (
+    action: () => Promise<unknown>,
+    message: string,
+  ) => {
+    try {
+      await action();
+      await fetchTrash();
+      // Restored or removed memos change the user stats.
+      userStore.setStatsStateId();
+      toast.success(message);
+    } catch (error: any) {
+      console.error(error);
+      toast.error(error.message);
+    }
+  };
+
+  const handleRestoreMemo = (memo: TrashMemo) =>
+    handleAction(
+      () => trashServiceClient.restoreMemo({ name: memo.name }),
+      t("message.restored-successfully"),
+    );
+
+  const handleDeleteMemo = (memo: TrashMemo) => {
+    if (window.confirm(t("trash.delete-forever-confirm"))) {
+      handleAction(
+        () => trashServiceClient.deleteMemo({ name: memo.name }),
+        t("message.deleted-successfully"),
+      );
+    }
+  };
+
+  const handleRestoreResource = (resource: TrashResource) =>
+    handleAction(
+      () => trashServiceClient.restoreResource({ name: resource.name }),
+      t("message.restored-successfully"),
+    );
+
+  const handleDeleteResource = (resource: TrashResource) => {
+    if (window.confirm(t("trash.delete-forever-confirm"))) {
+      handleAction(
+        () => trashServiceClient.deleteResource({ name: resource.name }),
+        t("message.deleted-successfully"),
+      );
+    }
+  };
+
+  const renderItem = (
+    key: string,
+    title: React.ReactNode,
+    deleteTime: Date,
+    onRestore: () => void,
+    onDelete: () => void,
+  ) => (
+    <div
+      key={key}
+      className="w-full flex flex-row justify-between items-center gap-2 py-2 border-b last:border-b-0 border-zinc-100 dark:border-zinc-700"
+    >
+      <div className="flex flex-col justify-start items-start min-w-0">
+        <div className="w-full truncate text-gray-700 dark:text-gray-300">
+          {title}
+        </div>
+        <span className="text-xs text-gray-400">
+          {t("trash.deleted-at", {
+            time: dayjs(deleteTime).format("YYYY-MM-DD HH:mm"),
+          })}
+        </span>
+      </div>
+      <div className="flex flex-row justify-end items-center shrink-0">
+        <Tooltip title={t("common.restore")} placement="top">
+          <Button variant="plain" onClick={onRestore}>
+            <ArchiveRestoreIcon className="w-4 h-auto opacity-60" />
+          </Button>
+        </Tooltip>
+        <Tooltip title={t("trash.delete-forever")} placement="top">
+          <Button variant="plain" onClick={onDelete}>
+            <XIcon className="w-4 h-auto opacity-60" />
+          </Button>
+        </Tooltip>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="@container w-full max-w-5xl min-h-full flex flex-col justify-start items-center sm:pt-3 md:pt-6 pb-8">
+      {!md && <MobileHeader />}
+      <div className="w-full px-4 sm:px-6">
+        <div className="w-full shadow flex flex-col justify-start items-start px-4 py-3 rounded-xl bg-white dark:bg-zinc-800 text-black dark:text-gray-300">
+          <div className="relative w-full flex flex-row justify-between items-center">
+            <p className="py-1 flex flex-row justify-start items-center select-none opacity-80">
+              <Trash2Icon className="w-6 h-auto mr-1 opacity-80" />
+              <span className="text-lg">{t("common.trash")}</span>
+            </p>
+          </div>
+          {retentionDays > 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t("trash.retention-hint", { days: retentionDays })}
+            </p>
+          )}
+          <div className="w-full flex flex-col justify-start items-start mt-4 mb-6 gap-6">
+            {loadingState.isLoading ? (
+              <div className="w-full h-32 flex flex-col justify-center items-center">
+                <p className="w-full text-center text-base my-6 mt-8">
+                  {t("resource.fetching-data")}
+                </p>
+              </div>
+            ) : memos.length === 0 && resources.length === 0 ? (
+              <div className="w-full mt-8 mb-8 flex flex-col justify-center items-center italic">
+                <Empty />
+                <p className="mt-4 text-gray-600 dark:text-gray-400">
+                  {t("trash.empty")}
+                </p>
+              </div>
+            ) : (
+              <>
+                {memos.length > 0 && (
+                  <div className="w-full flex flex-col justify-start items-start">
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+                      {t("common.memos")} ({memos.length})
+                    </p>
+                    {memos.map((memo) =>
+                      renderItem(
+                        memo.name,
+                        memo.snippet || (
+                          <span className="italic opacity-60">
+                            {t("common.null")}
+                          </span>
+                        ),
+                        memo.deleteTime,
+                        () => handleRestoreMemo(memo),
+                        () => handleDeleteMemo(memo),
+                      ),
+                    )}
+                  </div>
+                )}
+                {resources.length > 0 && (
+                  <div className="w-full flex flex-col justify-start items-start">
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+                      {t("common.resources")} ({resources.length})
+                    </p>
+                    {resources.map((resource) =>
+                      renderItem(
+                        resource.name,
+                        <span className="flex flex-row items-center gap-1">
+                          <FileIcon className="w-4 h-auto shrink-0 opacity-60" />
+                          {resource.filename}
+                        </span>,
+                        resource.deleteTime,
+                        () => handleRestoreResource(resource),
+                        () => handleDeleteResource(resource),
+                      ),
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default Trash;
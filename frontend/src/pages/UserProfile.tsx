@@ -51,9 +51,9 @@ const UserProfile = observer(() => {
     const tagSearch: string[] = [];
     for (const filter of memoFilterStore.filters) {
       if (filter.factor === "contentSearch") {
-        contentSearch.push(`"${filter.value}"`);
+        contentSearch.push(JSON.stringify(filter.value));
       } else if (filter.factor === "tagSearch") {
-        tagSearch.push(`"${filter.value}"`);
+        tagSearch.push(JSON.stringify(filter.value));
       }
     }
     if (contentSearch.length > 0) {
@@ -64,6 +64,7 @@ const UserProfile = observer(() => {
     }
     return conditions.join(" && ");
   }, [user, memoFilterStore.filters]);
+  const isContentSearch = memoFilterStore.filters.some((filter) => filter.factor === "contentSearch");
 
   const handleCopyProfileLink = () => {
     if (!user) {
@@ -102,14 +103,17 @@ const UserProfile = observer(() => {
                   <MemoView key={`${memo.name}-${memo.displayTime}`} memo={memo} showVisibility showPinned compact />
                 )}
                 listSort={(memos: Memo[]) =>
-                  memos
-                    .filter((memo) => memo.state === State.NORMAL)
-                    .sort((a, b) =>
-                      viewStore.state.orderByTimeAsc
-                        ? dayjs(a.displayTime).unix() - dayjs(b.displayTime).unix()
-                        : dayjs(b.displayTime).unix() - dayjs(a.displayTime).unix(),
-                    )
-                    .sort((a, b) => Number(b.pinned) - Number(a.pinned))
+                  // Content search results keep the relevance order returned by the server.
+                  isContentSearch
+                    ? memos.filter((memo) => memo.state === State.NORMAL)
+                    : memos
+                        .filter((memo) => memo.state === State.NORMAL)
+                        .sort((a, b) =>
+                          viewStore.state.orderByTimeAsc
+                            ? dayjs(a.displayTime).unix() - dayjs(b.displayTime).unix()
+                            : dayjs(b.displayTime).unix() - dayjs(a.displayTime).unix(),
+                        )
+                        .sort((a, b) => Number(b.pinned) - Number(a.pinned))
                 }
                 owner={user.name}
                 direction={viewStore.state.orderByTimeAsc ? Direction.ASC : Direction.DESC}
@@ -18,6 +18,7 @@ const Resources = lazy(() => import("@/pages/Resources"));
 const Setting = lazy(() => import("@/pages/Setting"));
 const SignIn = lazy(() => import("@/pages/SignIn"));
 const SignUp = lazy(() => import("@/pages/SignUp"));
+const Trash = lazy(() => import("@/pages/Trash"));
 const UserProfile = lazy(() => import("@/pages/UserProfile"));
 const MemoDetailRedirect = lazy(() => import("./MemoDetailRedirect"));
 
@@ -26,6 +27,7 @@ export enum Routes {
   RESOURCES = "/resources",
   INBOX = "/inbox",
   ARCHIVED = "/archived",
+  TRASH = "/trash",
   SETTING = "/setting",
   EXPLORE = "/explore",
   AUTH = "/auth",
@@ -126,6 +128,14 @@ const router = createBrowserRouter([
               </Suspense>
             ),
           },
+          {
+            path: Routes.TRASH,
+            element: (
+              <Suspense fallback={<Loading />}>
+                <Trash />
+              </Suspense>
+            ),
+          },
           {
             path: Routes.SETTING,
             element: (
@@ -91,7 +91,7 @@ const memoStore = (() => {
       });
     }
 
-    return memo;
+    return memo as Memo;
   };
 
   const getMemoByName = (name: string) => {
@@ -148,6 +148,44 @@ const memoStore = (() => {
     userStore.setStatsStateId();
   };
 
+  // 重新获取带有指定标签（含子标签）的已缓存 memo，deleteFromStore 为 true 时直接移除
+  const refreshMemosWithTag = async (tag: string, deleteFromStore = false) => {
+    const affectedMemos = state.memos.filter((memo) => memo.tags.some((t) => t === tag || t.startsWith(`${tag}/`)));
+    const memoMap = { ...state.memoMapByName };
+    for (const memo of affectedMemos) {
+      if (deleteFromStore) {
+        delete memoMap[memo.name];
+      } else {
+        memoMap[memo.name] = (await memoServiceClient.getMemo({ name: memo.name })) as Memo;
+      }
+    }
+    state.setPartial({
+      stateId: uniqueId(),
+      memoMapByName: memoMap,
+    });
+
+    // 强制更新用户统计数据
+    userStore.setStatsStateId();
+  };
+
+  const renameTag = async (oldTag: string, newTag: string) => {
+    await memoServiceClient.renameMemoTag({
+      parent: "memos/-",
+      oldTag,
+      newTag,
+    });
+    await refreshMemosWithTag(oldTag);
+  };
+
+  const deleteTag = async (tag: string, deleteRelatedMemos = false) => {
+    await memoServiceClient.deleteMemoTag({
+      parent: "memos/-",
+      tag,
+      deleteRelatedMemos,
+    });
+    await refreshMemosWithTag(tag, deleteRelatedMemos);
+  };
+
   return {
     state,
     fetchMemos,
@@ -156,6 +194,8 @@ const memoStore = (() => {
     createMemo,
     updateMemo,
     deleteMemo,
+    renameTag,
+    deleteTag,
   };
 })();
 
@@ -9,7 +9,9 @@ export type FilterFactor =
   | "pinned"
   | "property.hasLink"
   | "property.hasTaskList"
-  | "property.hasCode";
+  | "property.hasCode"
+  | "property.hasIncompleteTasks"
+  | "property.hasImage";
 
 export interface MemoFilter {
   factor: FilterFactor;
@@ -100,6 +102,20 @@ class MemoFilterState {
         value: "true",
       });
     }
+
+    if (oldFilter.includes("has_incomplete_tasks == true")) {
+      this.addFilter({
+        factor: "property.hasIncompleteTasks",
+        value: "true",
+      });
+    }
+
+    if (oldFilter.includes("has_image == true")) {
+      this.addFilter({
+        factor: "property.hasImage",
+        value: "true",
+      });
+    }
   }
 
   setState(state: Partial<MemoFilterState>) {
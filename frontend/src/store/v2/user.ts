@@ -12,6 +12,8 @@ class LocalState {
   userSetting?: UserSetting;
   shortcuts: Shortcut[] = [];
   inboxes: Inbox[] = [];
+  // The page token for loading more inboxes, empty when all inboxes are loaded.
+  inboxNextPageToken = "";
   userMapByName: Record<string, User> = {};
   userStatsByName: Record<string, UserStats> = {};
 
@@ -61,7 +63,7 @@ const userStore = (() => {
         [name]: user,
       },
     });
-    return user;
+    return user as User;
   };
 
   const getOrFetchUserByUsername = async (username: string) => {
@@ -87,8 +89,15 @@ const userStore = (() => {
     return state.userMapByName[name];
   };
 
+  // Loads all pages of users.
   const fetchUsers = async () => {
-    const { users } = await userServiceClient.listUsers({});
+    const users: User[] = [];
+    let pageToken = "";
+    do {
+      const response = await userServiceClient.listUsers({ pageToken });
+      users.push(...(response.users as User[]));
+      pageToken = response.nextPageToken;
+    } while (pageToken);
     const userMap = state.userMapByName;
     for (const user of users) {
       userMap[user.name] = user;
@@ -112,8 +121,9 @@ const userStore = (() => {
     });
   };
 
-  const deleteUser = async (name: string) => {
-    await userServiceClient.deleteUser({ name });
+  // reassignTo 为接收其内容的用户，未指定时彻底删除该用户的全部内容
+  const deleteUser = async (name: string, reassignTo?: string) => {
+    await userServiceClient.deleteUser({ name, reassignTo });
     const userMap = state.userMapByName;
     delete userMap[name];
     state.setPartial({
@@ -150,10 +160,12 @@ const userStore = (() => {
     });
   };
 
-  const fetchInboxes = async () => {
-    const { inboxes } = await inboxServiceClient.listInboxes({});
+  // Loads the first page of inboxes, or appends the next page when pageToken is given.
+  const fetchInboxes = async (pageToken = "") => {
+    const { inboxes, nextPageToken } = await inboxServiceClient.listInboxes({ pageToken });
     state.setPartial({
-      inboxes,
+      inboxes: pageToken ? [...state.inboxes, ...inboxes] : inboxes,
+      inboxNextPageToken: nextPageToken,
     });
   };
 
@@ -173,7 +185,7 @@ const userStore = (() => {
     return updatedInbox;
   };
 
-  const fetchUserStats = async (user?: string) => {
+  const fetchUserStats = async (user?: string, filter?: string) => {
     const userStatsByName: Record<string, UserStats> = {};
     if (!user) {
       const { userStats } = await userServiceClient.listAllUserStats({});
@@ -181,7 +193,7 @@ const userStore = (() => {
         userStatsByName[stats.name] = stats;
       }
     } else {
-      const userStats = await userServiceClient.getUserStats({ name: user });
+      const userStats = await userServiceClient.getUserStats({ name: user, filter });
       userStatsByName[user] = userStats;
     }
     state.setPartial({
@@ -35,6 +35,9 @@ export interface Activity {
 
 export interface ActivityPayload {
   memoComment?: ActivityMemoCommentPayload | undefined;
+  memoMention?: ActivityMemoMentionPayload | undefined;
+  memoReaction?: ActivityMemoReactionPayload | undefined;
+  memoReminder?: ActivityMemoReminderPayload | undefined;
 }
 
 /** ActivityMemoCommentPayload represents the payload of a memo comment activity. */
@@ -48,6 +51,35 @@ export interface ActivityMemoCommentPayload {
   relatedMemo: string;
 }
 
+/** ActivityMemoMentionPayload represents the payload of a memo mention activity. */
+export interface ActivityMemoMentionPayload {
+  /**
+   * The memo name which mentions the user.
+   * Refer to `Memo.name`.
+   */
+  memo: string;
+}
+
+/** ActivityMemoReactionPayload represents the payload of a memo reaction activity. */
+export interface ActivityMemoReactionPayload {
+  /**
+   * The memo name which is reacted.
+   * Refer to `Memo.name`.
+   */
+  memo: string;
+  /** The type of the reaction. */
+  reactionType: string;
+}
+
+/** ActivityMemoReminderPayload represents the payload of a memo reminder activity. */
+export interface ActivityMemoReminderPayload {
+  /**
+   * The memo name whose reminder is due.
+   * Refer to `Memo.name`.
+   */
+  memo: string;
+}
+
 export interface GetActivityRequest {
   /**
    * The name of the activity.
@@ -165,7 +197,7 @@ export const Activity: MessageFns<Activity> = {
 };
 
 function createBaseActivityPayload(): ActivityPayload {
-  return { memoComment: undefined };
+  return { memoComment: undefined, memoMention: undefined, memoReaction: undefined, memoReminder: undefined };
 }
 
 export const ActivityPayload: MessageFns<ActivityPayload> = {
@@ -173,6 +205,15 @@ export const ActivityPayload: MessageFns<ActivityPayload> = {
     if (message.memoComment !== undefined) {
       ActivityMemoCommentPayload.encode(message.memoComment, writer.uint32(10).fork()).join();
     }
+    if (message.memoMention !== undefined) {
+      ActivityMemoMentionPayload.encode(message.memoMention, writer.uint32(18).fork()).join();
+    }
+    if (message.memoReaction !== undefined) {
+      ActivityMemoReactionPayload.encode(message.memoReaction, writer.uint32(26).fork()).join();
+    }
+    if (message.memoReminder !== undefined) {
+      ActivityMemoReminderPayload.encode(message.memoReminder, writer.uint32(34).fork()).join();
+    }
     return writer;
   },
 
@@ -191,6 +232,30 @@ export const ActivityPayload: MessageFns<ActivityPayload> = {
           message.memoComment = ActivityMemoCommentPayload.decode(reader, reader.uint32());
           continue;
         }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.memoMention = ActivityMemoMentionPayload.decode(reader, reader.uint32());
+          continue;
+        }
+        case 3: {
+          if (tag !== 26) {
+            break;
+          }
+
+          message.memoReaction = ActivityMemoReactionPayload.decode(reader, reader.uint32());
+          continue;
+        }
+        case 4: {
+          if (tag !== 34) {
+            break;
+          }
+
+          message.memoReminder = ActivityMemoReminderPayload.decode(reader, reader.uint32());
+          continue;
+        }
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -208,6 +273,15 @@ export const ActivityPayload: MessageFns<ActivityPayload> = {
     message.memoComment = (object.memoComment !== undefined && object.memoComment !== null)
       ? ActivityMemoCommentPayload.fromPartial(object.memoComment)
       : undefined;
+    message.memoMention = (object.memoMention !== undefined && object.memoMention !== null)
+      ? ActivityMemoMentionPayload.fromPartial(object.memoMention)
+      : undefined;
+    message.memoReaction = (object.memoReaction !== undefined && object.memoReaction !== null)
+      ? ActivityMemoReactionPayload.fromPartial(object.memoReaction)
+      : undefined;
+    message.memoReminder = (object.memoReminder !== undefined && object.memoReminder !== null)
+      ? ActivityMemoReminderPayload.fromPartial(object.memoReminder)
+      : undefined;
     return message;
   },
 };
@@ -270,6 +344,156 @@ export const ActivityMemoCommentPayload: MessageFns<ActivityMemoCommentPayload>
   },
 };
 
+function createBaseActivityMemoMentionPayload(): ActivityMemoMentionPayload {
+  return { memo: "" };
+}
+
+export const ActivityMemoMentionPayload: MessageFns<ActivityMemoMentionPayload> = {
+  encode(message: ActivityMemoMentionPayload, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.memo !== "") {
+      writer.uint32(10).string(message.memo);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ActivityMemoMentionPayload {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseActivityMemoMentionPayload();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.memo = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  create(base?: DeepPartial<ActivityMemoMentionPayload>): ActivityMemoMentionPayload {
+    return ActivityMemoMentionPayload.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<ActivityMemoMentionPayload>): ActivityMemoMentionPayload {
+    const message = createBaseActivityMemoMentionPayload();
+    message.memo = object.memo ?? "";
+    return message;
+  },
+};
+
+function createBaseActivityMemoReactionPayload(): ActivityMemoReactionPayload {
+  return { memo: "", reactionType: "" };
+}
+
+export const ActivityMemoReactionPayload: MessageFns<ActivityMemoReactionPayload> = {
+  encode(message: ActivityMemoReactionPayload, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.memo !== "") {
+      writer.uint32(10).string(message.memo);
+    }
+    if (message.reactionType !== "") {
+      writer.uint32(18).string(message.reactionType);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ActivityMemoReactionPayload {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseActivityMemoReactionPayload();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.memo = reader.string();
+          continue;
+        }
+        case 2: {
+          if (tag !== 18) {
+            break;
+          }
+
+          message.reactionType = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  create(base?: DeepPartial<ActivityMemoReactionPayload>): ActivityMemoReactionPayload {
+    return ActivityMemoReactionPayload.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<ActivityMemoReactionPayload>): ActivityMemoReactionPayload {
+    const message = createBaseActivityMemoReactionPayload();
+    message.memo = object.memo ?? "";
+    message.reactionType = object.reactionType ?? "";
+    return message;
+  },
+};
+
+function createBaseActivityMemoReminderPayload(): ActivityMemoReminderPayload {
+  return { memo: "" };
+}
+
+export const ActivityMemoReminderPayload: MessageFns<ActivityMemoReminderPayload> = {
+  encode(message: ActivityMemoReminderPayload, writer: BinaryWriter = new BinaryWriter()): BinaryWriter {
+    if (message.memo !== "") {
+      writer.uint32(10).string(message.memo);
+    }
+    return writer;
+  },
+
+  decode(input: BinaryReader | Uint8Array, length?: number): ActivityMemoReminderPayload {
+    const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+    let end = length === undefined ? reader.len : reader.pos + length;
+    const message = createBaseActivityMemoReminderPayload();
+    while (reader.pos < end) {
+      const tag = reader.uint32();
+      switch (tag >>> 3) {
+        case 1: {
+          if (tag !== 10) {
+            break;
+          }
+
+          message.memo = reader.string();
+          continue;
+        }
+      }
+      if ((tag & 7) === 4 || tag === 0) {
+        break;
+      }
+      reader.skip(tag & 7);
+    }
+    return message;
+  },
+
+  create(base?: DeepPartial<ActivityMemoReminderPayload>): ActivityMemoReminderPayload {
+    return ActivityMemoReminderPayload.fromPartial(base ?? {});
+  },
+  fromPartial(object: DeepPartial<ActivityMemoReminderPayload>): ActivityMemoReminderPayload {
+    const message = createBaseActivityMemoReminderPayload();
+    message.memo = object.memo ?? "";
+    return message;
+  },
+};
+
 function createBaseGetActivityRequest(): GetActivityRequest {
   return { name: "" };
 }
@@ -71,6 +71,9 @@ export enum Inbox_Type {
   TYPE_UNSPECIFIED = "TYPE_UNSPECIFIED",
   MEMO_COMMENT = "MEMO_COMMENT",
   VERSION_UPDATE = "VERSION_UPDATE",
+  MEMO_MENTION = "MEMO_MENTION",
+  MEMO_REACTION = "MEMO_REACTION",
+  MEMO_REMINDER = "MEMO_REMINDER",
   UNRECOGNIZED = "UNRECOGNIZED",
 }
 
@@ -85,6 +88,15 @@ export function inbox_TypeFromJSON(object: any): Inbox_Type {
     case 2:
     case "VERSION_UPDATE":
       return Inbox_Type.VERSION_UPDATE;
+    case 3:
+    case "MEMO_MENTION":
+      return Inbox_Type.MEMO_MENTION;
+    case 4:
+    case "MEMO_REACTION":
+      return Inbox_Type.MEMO_REACTION;
+    case 5:
+    case "MEMO_REMINDER":
+      return Inbox_Type.MEMO_REMINDER;
     case -1:
     case "UNRECOGNIZED":
     default:
@@ -100,6 +112,12 @@ export function inbox_TypeToNumber(object: Inbox_Type): number {
       return 1;
     case Inbox_Type.VERSION_UPDATE:
       return 2;
+    case Inbox_Type.MEMO_MENTION:
+      return 3;
+    case Inbox_Type.MEMO_REACTION:
+      return 4;
+    case Inbox_Type.MEMO_REMINDER:
+      return 5;
     case Inbox_Type.UNRECOGNIZED:
     default:
       return -1;
@@ -102,6 +102,18 @@ export interface Memo {
   snippet: string;
   /** The location of the memo. */
   location?: Location | undefined;
+  /**
+   * The search snippet with matched terms wrapped in <mark></mark>.
+   * Only present in list results of a content search.
+   */
+  searchSnippet?: string | undefined;
+  /**
+   * The time when a scheduled memo becomes visible to others.
+   * Unset once the memo is published.
+   */
+  publishTime?: Date | undefined;
+  /** The time when a reminder for the memo is delivered to the creator's inbox. */
+  remindTime?: Date | undefined;
 }
 
 export interface Memo_Property {
@@ -355,6 +367,8 @@ function createBaseMemo(): Memo {
     parent: undefined,
     snippet: "",
     location: undefined,
+    publishTime: undefined,
+    remindTime: undefined,
   };
 }
 
@@ -604,6 +618,8 @@ export const Memo: MessageFns<Memo> = {
     message.location = (object.location !== undefined && object.location !== null)
       ? Location.fromPartial(object.location)
       : undefined;
+    message.publishTime = object.publishTime ?? undefined;
+    message.remindTime = object.remindTime ?? undefined;
     return message;
   },
 };
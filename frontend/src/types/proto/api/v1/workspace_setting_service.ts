@@ -65,6 +65,15 @@ export interface WorkspaceStorageSetting {
   uploadSizeLimitMb: number;
   /** The S3 config. */
   s3Config?: WorkspaceStorageSetting_S3Config | undefined;
+  /**
+   * allowed_mime_types is the list of MIME types that can be uploaded, empty means all.
+   * e.g. image/*, application/pdf
+   */
+  allowedMimeTypes: string[];
+  /** denied_mime_types is the list of MIME types that can not be uploaded. */
+  deniedMimeTypes: string[];
+  /** user_storage_quota_mb is the storage quota of each user in megabytes, 0 means unlimited. */
+  userStorageQuotaMb: number;
 }
 
 export enum WorkspaceStorageSetting_StorageType {
@@ -153,6 +162,10 @@ export interface WorkspaceMemoRelatedSetting {
   enableBlurNsfwContent: boolean;
   /** nsfw_tags is the list of tags that mark content as NSFW for blurring. */
   nsfwTags: string[];
+  /** memo_revision_limit is the number of revisions kept for each memo, 0 means unlimited. */
+  memoRevisionLimit?: number | undefined;
+  /** trash_retention_days is the number of days deleted items stay in the trash, 0 means forever. */
+  trashRetentionDays?: number | undefined;
 }
 
 export interface GetWorkspaceSettingRequest {
@@ -497,6 +510,9 @@ function createBaseWorkspaceStorageSetting(): WorkspaceStorageSetting {
     filepathTemplate: "",
     uploadSizeLimitMb: 0,
     s3Config: undefined,
+    allowedMimeTypes: [],
+    deniedMimeTypes: [],
+    userStorageQuotaMb: 0,
   };
 }
 
@@ -514,6 +530,15 @@ export const WorkspaceStorageSetting: MessageFns<WorkspaceStorageSetting> = {
     if (message.s3Config !== undefined) {
       WorkspaceStorageSetting_S3Config.encode(message.s3Config, writer.uint32(34).fork()).join();
     }
+    for (const v of message.allowedMimeTypes) {
+      writer.uint32(42).string(v!);
+    }
+    for (const v of message.deniedMimeTypes) {
+      writer.uint32(50).string(v!);
+    }
+    if (message.userStorageQuotaMb !== 0) {
+      writer.uint32(56).int64(message.userStorageQuotaMb);
+    }
     return writer;
   },
 
@@ -556,6 +581,30 @@ export const WorkspaceStorageSetting: MessageFns<WorkspaceStorageSetting> = {
           message.s3Config = WorkspaceStorageSetting_S3Config.decode(reader, reader.uint32());
           continue;
         }
+        case 5: {
+          if (tag !== 42) {
+            break;
+          }
+
+          message.allowedMimeTypes.push(reader.string());
+          continue;
+        }
+        case 6: {
+          if (tag !== 50) {
+            break;
+          }
+
+          message.deniedMimeTypes.push(reader.string());
+          continue;
+        }
+        case 7: {
+          if (tag !== 56) {
+            break;
+          }
+
+          message.userStorageQuotaMb = longToNumber(reader.int64());
+          continue;
+        }
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -576,6 +625,9 @@ export const WorkspaceStorageSetting: MessageFns<WorkspaceStorageSetting> = {
     message.s3Config = (object.s3Config !== undefined && object.s3Config !== null)
       ? WorkspaceStorageSetting_S3Config.fromPartial(object.s3Config)
       : undefined;
+    message.allowedMimeTypes = object.allowedMimeTypes?.map((e) => e) || [];
+    message.deniedMimeTypes = object.deniedMimeTypes?.map((e) => e) || [];
+    message.userStorageQuotaMb = object.userStorageQuotaMb ?? 0;
     return message;
   },
 };
@@ -698,6 +750,8 @@ function createBaseWorkspaceMemoRelatedSetting(): WorkspaceMemoRelatedSetting {
     disableMarkdownShortcuts: false,
     enableBlurNsfwContent: false,
     nsfwTags: [],
+    memoRevisionLimit: undefined,
+    trashRetentionDays: undefined,
   };
 }
 
@@ -733,6 +787,12 @@ export const WorkspaceMemoRelatedSetting: MessageFns<WorkspaceMemoRelatedSetting
     for (const v of message.nsfwTags) {
       writer.uint32(106).string(v!);
     }
+    if (message.memoRevisionLimit !== undefined) {
+      writer.uint32(112).int32(message.memoRevisionLimit);
+    }
+    if (message.trashRetentionDays !== undefined) {
+      writer.uint32(120).int32(message.trashRetentionDays);
+    }
     return writer;
   },
 
@@ -823,6 +883,22 @@ export const WorkspaceMemoRelatedSetting: MessageFns<WorkspaceMemoRelatedSetting
           message.nsfwTags.push(reader.string());
           continue;
         }
+        case 14: {
+          if (tag !== 112) {
+            break;
+          }
+
+          message.memoRevisionLimit = reader.int32();
+          continue;
+        }
+        case 15: {
+          if (tag !== 120) {
+            break;
+          }
+
+          message.trashRetentionDays = reader.int32();
+          continue;
+        }
       }
       if ((tag & 7) === 4 || tag === 0) {
         break;
@@ -847,6 +923,8 @@ export const WorkspaceMemoRelatedSetting: MessageFns<WorkspaceMemoRelatedSetting
     message.disableMarkdownShortcuts = object.disableMarkdownShortcuts ?? false;
     message.enableBlurNsfwContent = object.enableBlurNsfwContent ?? false;
     message.nsfwTags = object.nsfwTags?.map((e) => e) || [];
+    message.memoRevisionLimit = object.memoRevisionLimit ?? undefined;
+    message.trashRetentionDays = object.trashRetentionDays ?? undefined;
     return message;
   },
 };
@@ -49,7 +49,10 @@ export interface StatCardProps {
   className?: string;
 }
 
+// 在 UserStats_MemoTypeStats 基础上增加图片笔记数（含图片附件）
+export type MemoTypeStats = UserStats_MemoTypeStats & { imageCount: number };
+
 export interface StatisticsData {
-  memoTypeStats: UserStats_MemoTypeStats;
+  memoTypeStats: MemoTypeStats;
   activityStats: Record<string, number>;
 }
@@ -0,0 +1,51 @@
+export type LineDiffType = "equal" | "added" | "removed";
+
+export interface LineDiff {
+  type: LineDiffType;
+  content: string;
+}
+
+// Computes a line based diff from `oldText` to `newText` using the longest common subsequence.
+export const diffLines = (oldText: string, newText: string): LineDiff[] => {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i][j] is the LCS length of oldLines[i..] and newLines[j..].
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () =>
+    new Array<number>(cols + 1).fill(0),
+  );
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "equal", content: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", content: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: "added", content: newLines[j] });
+      j++;
+    }
+  }
+  while (i < rows) {
+    result.push({ type: "removed", content: oldLines[i++] });
+  }
+  while (j < cols) {
+    result.push({ type: "added", content: newLines[j++] });
+  }
+  return result;
+};
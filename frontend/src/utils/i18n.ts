@@ -51,3 +51,13 @@ export const isValidateLocale = (locale: string | undefined | null): boolean =>
   if (!locale) return false;
   return locales.includes(locale);
 };
+
+// Backend errors carry structured codes (e.g. PASSWORD_AUTH_DISALLOWED), localized via "message.error.<code>" keys.
+export const translateError = (t: TypedT, error: unknown, fallback?: string): string => {
+  const message = error instanceof Error ? error.message : "";
+  const key = `message.error.${message.toLowerCase().replace(/_/g, "-")}`;
+  if (message && i18n.exists(key)) {
+    return t(key as Translations);
+  }
+  return message || fallback || "";
+};
@@ -40,6 +40,18 @@ export const getResourceType = (resource: Resource) => {
   }
 };
 
+// formatFileSize formats the given bytes as a human readable size, e.g. 1.5 MB.
+export const formatFileSize = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let size = bytes;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${unitIndex === 0 ? size : size.toFixed(1)} ${units[unitIndex]}`;
+};
+
 // isImage returns true if the given mime type is an image.
 export const isImage = (t: string) => {
   // Don't show PSDs as images.
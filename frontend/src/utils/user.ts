@@ -3,3 +3,11 @@ import { User, User_Role } from "@/types/proto/api/v1/user_service";
 export const isSuperUser = (user: User | undefined) => {
   return user && (user.role === User_Role.ADMIN || user.role === User_Role.HOST);
 };
+
+// HOST 可以管理其他所有成员，ADMIN 只能管理普通用户
+export const canManageUser = (actor: User | undefined, target: User) => {
+  if (actor?.role === User_Role.HOST) {
+    return target.role !== User_Role.HOST;
+  }
+  return actor?.role === User_Role.ADMIN && target.role === User_Role.USER;
+};
@@ -1,7 +1,7 @@
 import react from "@vitejs/plugin-react";
 import { codeInspectorPlugin } from "code-inspector-plugin";
 import { resolve } from "path";
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import tailwindcss from "@tailwindcss/vite";
 
 let devProxyServer = "http://localhost:8787";
@@ -22,6 +22,10 @@ export default defineConfig({
   server: {
     host: "0.0.0.0",
     port: 3001,
+    fs: {
+      // Allow serving the markdown parser shared with the backend.
+      allow: [searchForWorkspaceRoot(process.cwd()), resolve(__dirname, "../shared")],
+    },
     proxy: {
       "^/api": {
         target: devProxyServer,
@@ -40,6 +44,7 @@ export default defineConfig({
   resolve: {
     alias: {
       "@/": `${resolve(__dirname, "src")}/`,
+      "@shared/": `${resolve(__dirname, "../shared")}/`,
     },
   },
   build: {
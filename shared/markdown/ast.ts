@@ -0,0 +1,114 @@
+// Markdown 语法树定义，与前端 markdown_service.ts 中的 Node 结构保持一致（JSON 形式）
+
+export const NodeType = {
+  // 块级节点
+  LINE_BREAK: 'LINE_BREAK',
+  PARAGRAPH: 'PARAGRAPH',
+  CODE_BLOCK: 'CODE_BLOCK',
+  HEADING: 'HEADING',
+  HORIZONTAL_RULE: 'HORIZONTAL_RULE',
+  BLOCKQUOTE: 'BLOCKQUOTE',
+  LIST: 'LIST',
+  ORDERED_LIST_ITEM: 'ORDERED_LIST_ITEM',
+  UNORDERED_LIST_ITEM: 'UNORDERED_LIST_ITEM',
+  TASK_LIST_ITEM: 'TASK_LIST_ITEM',
+  MATH_BLOCK: 'MATH_BLOCK',
+  TABLE: 'TABLE',
+  EMBEDDED_CONTENT: 'EMBEDDED_CONTENT',
+  // 行内节点
+  TEXT: 'TEXT',
+  BOLD: 'BOLD',
+  ITALIC: 'ITALIC',
+  BOLD_ITALIC: 'BOLD_ITALIC',
+  CODE: 'CODE',
+  IMAGE: 'IMAGE',
+  LINK: 'LINK',
+  AUTO_LINK: 'AUTO_LINK',
+  TAG: 'TAG',
+  STRIKETHROUGH: 'STRIKETHROUGH',
+  ESCAPING_CHARACTER: 'ESCAPING_CHARACTER',
+  MATH: 'MATH',
+  HIGHLIGHT: 'HIGHLIGHT',
+  SUBSCRIPT: 'SUBSCRIPT',
+  SUPERSCRIPT: 'SUPERSCRIPT',
+  REFERENCED_CONTENT: 'REFERENCED_CONTENT',
+  SPOILER: 'SPOILER',
+  HTML_ELEMENT: 'HTML_ELEMENT',
+} as const;
+
+export type NodeType = typeof NodeType[keyof typeof NodeType];
+
+// 对应 ListNode_Kind，任务列表归为 DESCRIPTION
+export const ListKind = {
+  ORDERED: 'ORDERED',
+  UNORDERED: 'UNORDERED',
+  DESCRIPTION: 'DESCRIPTION',
+} as const;
+
+export type ListKind = typeof ListKind[keyof typeof ListKind];
+
+export interface Node {
+  type: NodeType;
+  lineBreakNode?: Record<string, never>;
+  paragraphNode?: { children: Node[] };
+  codeBlockNode?: { language: string; content: string };
+  headingNode?: { level: number; children: Node[] };
+  horizontalRuleNode?: { symbol: string };
+  blockquoteNode?: { children: Node[] };
+  listNode?: { kind: ListKind; indent: number; children: Node[] };
+  orderedListItemNode?: { number: string; indent: number; children: Node[] };
+  unorderedListItemNode?: { symbol: string; indent: number; children: Node[] };
+  taskListItemNode?: { symbol: string; indent: number; complete: boolean; children: Node[] };
+  mathBlockNode?: { content: string };
+  // 表格单元格保留两侧空白，delimiter 为分隔行中原样的单元格内容，保证还原时与原文一致
+  tableNode?: { header: Node[]; delimiter: string[]; rows: Array<{ cells: Node[] }> };
+  embeddedContentNode?: { resourceName: string; params: string };
+  textNode?: { content: string };
+  boldNode?: { symbol: string; children: Node[] };
+  italicNode?: { symbol: string; children: Node[] };
+  boldItalicNode?: { symbol: string; content: string };
+  codeNode?: { content: string };
+  imageNode?: { altText: string; url: string };
+  linkNode?: { content: Node[]; url: string };
+  autoLinkNode?: { url: string; isRawText: boolean };
+  tagNode?: { content: string };
+  strikethroughNode?: { content: string };
+  escapingCharacterNode?: { symbol: string };
+  mathNode?: { content: string };
+  highlightNode?: { content: string };
+  subscriptNode?: { content: string };
+  superscriptNode?: { content: string };
+  referencedContentNode?: { resourceName: string; params: string };
+  spoilerNode?: { content: string };
+  htmlElementNode?: { tagName: string; attributes: { [key: string]: string } };
+}
+
+// 返回节点的直接子节点（表格返回全部单元格）
+export function getChildNodes(node: Node): Node[] {
+  switch (node.type) {
+    case NodeType.PARAGRAPH:
+      return node.paragraphNode?.children || [];
+    case NodeType.HEADING:
+      return node.headingNode?.children || [];
+    case NodeType.BLOCKQUOTE:
+      return node.blockquoteNode?.children || [];
+    case NodeType.LIST:
+      return node.listNode?.children || [];
+    case NodeType.ORDERED_LIST_ITEM:
+      return node.orderedListItemNode?.children || [];
+    case NodeType.UNORDERED_LIST_ITEM:
+      return node.unorderedListItemNode?.children || [];
+    case NodeType.TASK_LIST_ITEM:
+      return node.taskListItemNode?.children || [];
+    case NodeType.TABLE:
+      return [...(node.tableNode?.header || []), ...(node.tableNode?.rows || []).flatMap((row) => row.cells)];
+    case NodeType.BOLD:
+      return node.boldNode?.children || [];
+    case NodeType.ITALIC:
+      return node.italicNode?.children || [];
+    case NodeType.LINK:
+      return node.linkNode?.content || [];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,7 @@
+// 前后端共用的 Markdown 解析器，语法树结构与 markdown_service.ts 一致
+export { getChildNodes, ListKind, NodeType } from './ast';
+export type { Node } from './ast';
+export { parseInline, parseMarkdown } from './parser';
+export { restoreMarkdownNodes, stringifyMarkdownNodes } from './restore';
+export { extractTagsFromNodes, getMemoPropertyFromNodes, traverseNodes } from './utils';
+export type { MemoProperty } from './utils';
@@ -0,0 +1,528 @@
+// Markdown 解析器：按行解析块级节点、按字符解析行内节点，语法与原版 Memos（gomark）保持一致
+// 每个换行符都对应一个 LINE_BREAK 节点，所有节点都保留还原所需的原始信息，restoreMarkdownNodes(parseMarkdown(x)) === x
+import { ListKind, Node, NodeType } from './ast';
+
+interface InlineOptions {
+  // 链接文字中不再解析链接
+  link: boolean;
+}
+
+interface InlineMatch {
+  node: Node;
+  end: number;
+}
+
+// 向后查找结束标记：key 对应固定的查找方式，search(from) 返回 from 之后第一个结束标记的位置（没有时为 -1）
+type Finder = (key: string, from: number, search: (from: number) => number) => number;
+
+interface InlineContext extends InlineOptions {
+  find: Finder;
+}
+
+type InlineMatcher = (text: string, pos: number, context: InlineContext) => InlineMatch | null;
+
+// 缓存每种结束标记上一次的查找结果：解析时查询起点单调递增，结果仍在起点之后时直接复用，
+// 找不到时之后的查询也不会找到，每种标记只扫描一遍，未闭合的标记不会使解析变成二次方复杂度
+function createFinder(): Finder {
+  const cache = new Map<string, { from: number; index: number }>();
+  return (key, from, search) => {
+    const cached = cache.get(key);
+    if (cached && from >= cached.from && (cached.index === -1 || cached.index >= from)) {
+      return cached.index;
+    }
+    const index = search(from);
+    cache.set(key, { from, index });
+    return index;
+  };
+}
+
+// 可能开始一个行内节点的字符，其余字符直接作为文本
+const INLINE_TRIGGER_CHARS = new Set(['\\', '<', '*', '_', '!', '[', 'h', '~', '^', '=', '|', '`', '$', '#']);
+const ESCAPABLE_CHAR = /[!-/:-@[-`{-~]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+function matchAt(regex: RegExp, text: string, pos: number): RegExpExecArray | null {
+  regex.lastIndex = pos;
+  return regex.exec(text);
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && WORD_CHAR.test(char);
+}
+
+// 行内强调的内容两侧不能是空白，避免 "a * b * c" 被当作斜体
+function isFlanked(content: string): boolean {
+  return content.length > 0 && !/^\s/.test(content) && !/\s$/.test(content);
+}
+
+// 拆分 [[resource?params]] / ![[resource?params]] 中的资源名和参数
+function splitResource(value: string): { resourceName: string; params: string } {
+  const index = value.indexOf('?');
+  if (index > 0 && index < value.length - 1) {
+    return { resourceName: value.slice(0, index), params: value.slice(index + 1) };
+  }
+  return { resourceName: value, params: '' };
+}
+
+const matchEscapingCharacter: InlineMatcher = (text, pos) => {
+  if (text[pos] !== '\\' || pos + 1 >= text.length || !ESCAPABLE_CHAR.test(text[pos + 1])) return null;
+  return { node: { type: NodeType.ESCAPING_CHARACTER, escapingCharacterNode: { symbol: text[pos + 1] } }, end: pos + 2 };
+};
+
+// 只支持 <br>，其他 HTML 一律按文本处理
+const matchHTMLElement: InlineMatcher = (text, pos) => {
+  if (!text.startsWith('<br>', pos)) return null;
+  return { node: { type: NodeType.HTML_ELEMENT, htmlElementNode: { tagName: 'br', attributes: {} } }, end: pos + 4 };
+};
+
+const BOLD_ITALIC_REGEX = /(\*\*\*|___)(.+?)\1/y;
+const matchBoldItalic: InlineMatcher = (text, pos) => {
+  const match = matchAt(BOLD_ITALIC_REGEX, text, pos);
+  if (!match || !isFlanked(match[2])) return null;
+  const end = pos + match[0].length;
+  if (match[1] === '___' && (isWordChar(text[pos - 1]) || isWordChar(text[end]))) return null;
+  return { node: { type: NodeType.BOLD_ITALIC, boldItalicNode: { symbol: match[1][0], content: match[2] } }, end };
+};
+
+const URL_END_REGEX = /[\s()]/g;
+
+// 匹配 pos 处的 "[文字](url)"：文字到第一个 ] 为止，url 不能包含空白和括号
+function matchBracketedLink(text: string, pos: number, find: Finder): { label: string; url: string; end: number } | null {
+  if (text[pos] !== '[') return null;
+  const close = find(']', pos + 1, (from) => text.indexOf(']', from));
+  if (close === -1 || text[close + 1] !== '(') return null;
+  const urlEnd = find('url-end', close + 2, (from) => matchAt(URL_END_REGEX, text, from)?.index ?? -1);
+  if (urlEnd <= close + 2 || text[urlEnd] !== ')') return null;
+  return { label: text.slice(pos + 1, close), url: text.slice(close + 2, urlEnd), end: urlEnd + 1 };
+}
+
+const matchImage: InlineMatcher = (text, pos, context) => {
+  if (text[pos] !== '!') return null;
+  const match = matchBracketedLink(text, pos + 1, context.find);
+  if (!match) return null;
+  return { node: { type: NodeType.IMAGE, imageNode: { altText: match.label, url: match.url } }, end: match.end };
+};
+
+const matchLink: InlineMatcher = (text, pos, context) => {
+  if (!context.link) return null;
+  const match = matchBracketedLink(text, pos, context.find);
+  if (!match) return null;
+  return {
+    node: { type: NodeType.LINK, linkNode: { content: parseInline(match.label, { link: false }), url: match.url } },
+    end: match.end,
+  };
+};
+
+const BRACKETED_URL_REGEX = /<(https?:\/\/[^\s<>]+)>/y;
+const RAW_URL_REGEX = /https?:\/\/[^\s<>"'`]+/y;
+const TRAILING_URL_PUNCTUATION = /[.,;:!?*~'")\]}]/;
+const matchAutoLink: InlineMatcher = (text, pos, context) => {
+  if (!context.link) return null;
+
+  const bracketed = matchAt(BRACKETED_URL_REGEX, text, pos);
+  if (bracketed) {
+    return { node: { type: NodeType.AUTO_LINK, autoLinkNode: { url: bracketed[1], isRawText: false } }, end: pos + bracketed[0].length };
+  }
+
+  if (isWordChar(text[pos - 1])) return null;
+  const raw = matchAt(RAW_URL_REGEX, text, pos);
+  if (!raw) return null;
+  // 去掉结尾的标点，括号只在不成对时去掉
+  let end = raw[0].length;
+  let unmatchedParens = raw[0].split(')').length - raw[0].split('(').length;
+  while (TRAILING_URL_PUNCTUATION.test(raw[0][end - 1])) {
+    if (raw[0][end - 1] === ')') {
+      if (unmatchedParens <= 0) break;
+      unmatchedParens--;
+    }
+    end--;
+  }
+  const url = raw[0].slice(0, end);
+  if (/^https?:\/\/$/.test(url)) return null;
+  return { node: { type: NodeType.AUTO_LINK, autoLinkNode: { url, isRawText: true } }, end: pos + url.length };
+};
+
+// 查找强调语法的结束标记，跳过属于更长标记（如 ** 中的 *）的位置
+function findClosingMarker(text: string, from: number, marker: string, find: Finder): number {
+  const char = marker[0];
+  if (marker.length === 1) {
+    return find(marker, from, (start) => {
+      let index = text.indexOf(marker, start);
+      while (index !== -1 && (text[index - 1] === char || text[index + 1] === char)) {
+        index = text.indexOf(marker, index + 1);
+      }
+      return index;
+    });
+  }
+
+  let index = find(marker, from, (start) => text.indexOf(marker, start));
+  if (index === -1) return -1;
+  // "**a *b***" 中取最后两个 * 作为结束标记
+  while (text[index + marker.length] === char) index++;
+  return index;
+}
+
+const matchBold: InlineMatcher = (text, pos, context) => {
+  const marker = text.slice(pos, pos + 2);
+  if ((marker !== '**' && marker !== '__') || text[pos + 2] === marker[0]) return null;
+  if (marker === '__' && isWordChar(text[pos - 1])) return null;
+
+  const close = findClosingMarker(text, pos + 2, marker, context.find);
+  if (close === -1) return null;
+  const content = text.slice(pos + 2, close);
+  const end = close + 2;
+  if (!isFlanked(content) || (marker === '__' && isWordChar(text[end]))) return null;
+  return { node: { type: NodeType.BOLD, boldNode: { symbol: marker[0], children: parseInline(content) } }, end };
+};
+
+const matchItalic: InlineMatcher = (text, pos, context) => {
+  const marker = text[pos];
+  if ((marker !== '*' && marker !== '_') || text[pos + 1] === marker) return null;
+  if (marker === '_' && isWordChar(text[pos - 1])) return null;
+
+  const close = findClosingMarker(text, pos + 1, marker, context.find);
+  if (close === -1) return null;
+  const content = text.slice(pos + 1, close);
+  const end = close + 1;
+  if (!isFlanked(content) || (marker === '_' && isWordChar(text[end]))) return null;
+  return { node: { type: NodeType.ITALIC, italicNode: { symbol: marker, children: parseInline(content) } }, end };
+};
+
+// 生成形如 "==内容==" 的简单行内语法匹配器
+function createDelimitedMatcher(regex: RegExp, build: (content: string) => Node): InlineMatcher {
+  return (text, pos) => {
+    const match = matchAt(regex, text, pos);
+    if (!match || !match[1].trim()) return null;
+    return { node: build(match[1]), end: pos + match[0].length };
+  };
+}
+
+const matchSpoiler = createDelimitedMatcher(/\|\|(.+?)\|\|/y, (content) => ({ type: NodeType.SPOILER, spoilerNode: { content } }));
+const matchHighlight = createDelimitedMatcher(/==(.+?)==/y, (content) => ({ type: NodeType.HIGHLIGHT, highlightNode: { content } }));
+const matchCode = createDelimitedMatcher(/`([^`]+)`/y, (content) => ({ type: NodeType.CODE, codeNode: { content } }));
+const matchSubscript = createDelimitedMatcher(/~([^~\s]+)~/y, (content) => ({ type: NodeType.SUBSCRIPT, subscriptNode: { content } }));
+const matchSuperscript = createDelimitedMatcher(/\^([^^\s]+)\^/y, (content) => ({ type: NodeType.SUPERSCRIPT, superscriptNode: { content } }));
+// 行内公式两侧不能是空白，避免 "$5 and $10" 被当作公式
+const matchMath = createDelimitedMatcher(/\$([^$\s](?:[^$]*[^$\s])?)\$/y, (content) => ({ type: NodeType.MATH, mathNode: { content } }));
+const matchStrikethrough = createDelimitedMatcher(/~~(.+?)~~/y, (content) => ({ type: NodeType.STRIKETHROUGH, strikethroughNode: { content } }));
+const matchReferencedContent: InlineMatcher = (text, pos, context) => {
+  if (!text.startsWith('[[', pos)) return null;
+  const close = context.find(']', pos + 2, (from) => text.indexOf(']', from));
+  if (close <= pos + 2 || text[close + 1] !== ']') return null;
+  const content = text.slice(pos + 2, close);
+  if (!content.trim()) return null;
+  return { node: { type: NodeType.REFERENCED_CONTENT, referencedContentNode: splitResource(content) }, end: close + 2 };
+};
+// 标签到空白、# 或反斜杠为止
+const matchTag = createDelimitedMatcher(/#([^\s#\\]+)/y, (content) => ({ type: NodeType.TAG, tagNode: { content } }));
+
+// 匹配顺序即优先级
+const INLINE_MATCHERS: InlineMatcher[] = [
+  matchEscapingCharacter,
+  matchHTMLElement,
+  matchBoldItalic,
+  matchImage,
+  matchLink,
+  matchAutoLink,
+  matchBold,
+  matchItalic,
+  matchSpoiler,
+  matchHighlight,
+  matchCode,
+  matchSubscript,
+  matchSuperscript,
+  matchMath,
+  matchReferencedContent,
+  matchTag,
+  matchStrikethrough,
+];
+
+// 解析单行文本中的行内节点，相邻的普通字符合并为一个 TEXT 节点
+export function parseInline(text: string, options: InlineOptions = { link: true }): Node[] {
+  const context: InlineContext = { ...options, find: createFinder() };
+  const nodes: Node[] = [];
+  let buffer = '';
+  let pos = 0;
+
+  const flushText = () => {
+    if (buffer) {
+      nodes.push({ type: NodeType.TEXT, textNode: { content: buffer } });
+      buffer = '';
+    }
+  };
+
+  while (pos < text.length) {
+    let match: InlineMatch | null = null;
+    if (INLINE_TRIGGER_CHARS.has(text[pos])) {
+      for (const matcher of INLINE_MATCHERS) {
+        match = matcher(text, pos, context);
+        if (match) break;
+      }
+    }
+    if (match) {
+      flushText();
+      nodes.push(match.node);
+      pos = match.end;
+    } else {
+      buffer += text[pos];
+      pos++;
+    }
+  }
+  flushText();
+  return nodes;
+}
+
+interface BlockMatch {
+  node: Node;
+  // 块占用的行数
+  lines: number;
+}
+
+type BlockMatcher = (lines: string[], index: number, find: Finder) => BlockMatch | null;
+
+// 围栏代码块和公式块至少包含一行内容，且必须有结束标记
+function findFenceEnd(lines: string[], index: number, fence: string, find: Finder): number {
+  const end = find(fence, index + 1, (from) => lines.indexOf(fence, from));
+  return end > index + 1 ? end : -1;
+}
+
+const CODE_FENCE_REGEX = /^```([^`\s]*)$/;
+const matchCodeBlock: BlockMatcher = (lines, index, find) => {
+  const match = lines[index].match(CODE_FENCE_REGEX);
+  if (!match) return null;
+  const end = findFenceEnd(lines, index, '```', find);
+  if (end === -1) return null;
+  return {
+    node: { type: NodeType.CODE_BLOCK, codeBlockNode: { language: match[1], content: lines.slice(index + 1, end).join('\n') } },
+    lines: end - index + 1,
+  };
+};
+
+const matchMathBlock: BlockMatcher = (lines, index, find) => {
+  if (lines[index] !== '$$') return null;
+  const end = findFenceEnd(lines, index, '$$', find);
+  if (end === -1) return null;
+  return {
+    node: { type: NodeType.MATH_BLOCK, mathBlockNode: { content: lines.slice(index + 1, end).join('\n') } },
+    lines: end - index + 1,
+  };
+};
+
+const TABLE_ROW_REGEX = /^\|.*\|$/;
+const TABLE_DELIMITER_CELL_REGEX = /^\s*:?-+:?\s*$/;
+
+// 按未转义的 | 拆分表格行，单元格保留两侧空白
+function splitTableRow(line: string): string[] {
+  return line.slice(1, -1).split(/(?<!\\)\|/);
+}
+
+function parseTableCell(cell: string): Node {
+  return { type: NodeType.PARAGRAPH, paragraphNode: { children: parseInline(cell) } };
+}
+
+const matchTable: BlockMatcher = (lines, index) => {
+  if (index + 1 >= lines.length || !TABLE_ROW_REGEX.test(lines[index]) || !TABLE_ROW_REGEX.test(lines[index + 1])) return null;
+  if (lines[index].length < 2 || lines[index + 1].length < 2) return null;
+
+  const header = splitTableRow(lines[index]);
+  const delimiter = splitTableRow(lines[index + 1]);
+  if (delimiter.length !== header.length || !delimiter.every((cell) => TABLE_DELIMITER_CELL_REGEX.test(cell))) return null;
+
+  const rows: Array<{ cells: Node[] }> = [];
+  let end = index + 2;
+  while (end < lines.length && lines[end].length >= 2 && TABLE_ROW_REGEX.test(lines[end])) {
+    rows.push({ cells: splitTableRow(lines[end]).map(parseTableCell) });
+    end++;
+  }
+
+  return {
+    node: { type: NodeType.TABLE, tableNode: { header: header.map(parseTableCell), delimiter, rows } },
+    lines: end - index,
+  };
+};
+
+const HORIZONTAL_RULE_REGEX = /^(---|\*\*\*|___)$/;
+const matchHorizontalRule: BlockMatcher = (lines, index) => {
+  const match = lines[index].match(HORIZONTAL_RULE_REGEX);
+  if (!match) return null;
+  return { node: { type: NodeType.HORIZONTAL_RULE, horizontalRuleNode: { symbol: match[1][0] } }, lines: 1 };
+};
+
+const HEADING_REGEX = /^(#{1,6}) (.*\S.*)$/;
+const matchHeading: BlockMatcher = (lines, index) => {
+  const match = lines[index].match(HEADING_REGEX);
+  if (!match) return null;
+  return { node: { type: NodeType.HEADING, headingNode: { level: match[1].length, children: parseInline(match[2]) } }, lines: 1 };
+};
+
+// 连续的 "> " 开头的行组成一个引用块，去掉前缀后递归解析
+const matchBlockquote: BlockMatcher = (lines, index) => {
+  let end = index;
+  while (end < lines.length && lines[end].startsWith('> ')) end++;
+  if (end === index) return null;
+  return {
+    node: { type: NodeType.BLOCKQUOTE, blockquoteNode: { children: parseBlocks(lines.slice(index, end).map((line) => line.slice(2))) } },
+    lines: end - index,
+  };
+};
+
+const TASK_LIST_ITEM_REGEX = /^( *)([-*+]) \[([ xX])\] (.*)$/;
+const matchTaskListItem: BlockMatcher = (lines, index) => {
+  const match = lines[index].match(TASK_LIST_ITEM_REGEX);
+  if (!match) return null;
+  return {
+    node: {
+      type: NodeType.TASK_LIST_ITEM,
+      taskListItemNode: { symbol: match[2], indent: match[1].length, complete: match[3] !== ' ', children: parseInline(match[4]) },
+    },
+    lines: 1,
+  };
+};
+
+const UNORDERED_LIST_ITEM_REGEX = /^( *)([-*+]) (.*\S.*)$/;
+const matchUnorderedListItem: BlockMatcher = (lines, index) => {
+  const match = lines[index].match(UNORDERED_LIST_ITEM_REGEX);
+  if (!match) return null;
+  return {
+    node: {
+      type: NodeType.UNORDERED_LIST_ITEM,
+      unorderedListItemNode: { symbol: match[2], indent: match[1].length, children: parseInline(match[3]) },
+    },
+    lines: 1,
+  };
+};
+
+const ORDERED_LIST_ITEM_REGEX = /^( *)(\d+)\. (.*\S.*)$/;
+const matchOrderedListItem: BlockMatcher = (lines, index) => {
+  const match = lines[index].match(ORDERED_LIST_ITEM_REGEX);
+  if (!match) return null;
+  return {
+    node: {
+      type: NodeType.ORDERED_LIST_ITEM,
+      orderedListItemNode: { number: match[2], indent: match[1].length, children: parseInline(match[3]) },
+    },
+    lines: 1,
+  };
+};
+
+const EMBEDDED_CONTENT_REGEX = /^!\[\[([^\]]+)\]\]$/;
+const matchEmbeddedContent: BlockMatcher = (lines, index) => {
+  const match = lines[index].match(EMBEDDED_CONTENT_REGEX);
+  if (!match) return null;
+  return { node: { type: NodeType.EMBEDDED_CONTENT, embeddedContentNode: splitResource(match[1]) }, lines: 1 };
+};
+
+const matchParagraph: BlockMatcher = (lines, index) => {
+  if (lines[index] === '') return null;
+  return { node: { type: NodeType.PARAGRAPH, paragraphNode: { children: parseInline(lines[index]) } }, lines: 1 };
+};
+
+const BLOCK_MATCHERS: BlockMatcher[] = [
+  matchCodeBlock,
+  matchMathBlock,
+  matchTable,
+  matchHorizontalRule,
+  matchHeading,
+  matchBlockquote,
+  matchTaskListItem,
+  matchUnorderedListItem,
+  matchOrderedListItem,
+  matchEmbeddedContent,
+  matchParagraph,
+];
+
+function createListNode(kind: ListKind, indent: number, children: Node[]): Node {
+  return { type: NodeType.LIST, listNode: { kind, indent, children } };
+}
+
+// 列表项的类型和缩进层级（每两个空格为一级）
+function getListItemInfo(node: Node): { kind: ListKind; indent: number } | null {
+  switch (node.type) {
+    case NodeType.ORDERED_LIST_ITEM:
+      return { kind: ListKind.ORDERED, indent: Math.floor(node.orderedListItemNode!.indent / 2) };
+    case NodeType.UNORDERED_LIST_ITEM:
+      return { kind: ListKind.UNORDERED, indent: Math.floor(node.unorderedListItemNode!.indent / 2) };
+    case NodeType.TASK_LIST_ITEM:
+      return { kind: ListKind.DESCRIPTION, indent: Math.floor(node.taskListItemNode!.indent / 2) };
+    default:
+      return null;
+  }
+}
+
+// 将列表项放入已有列表：优先放入最后一个嵌套列表，缩进更深时创建新的嵌套列表
+function appendListItem(list: Node, kind: ListKind, indent: number, item: Node): boolean {
+  const listNode = list.listNode!;
+  if (indent < listNode.indent) return false;
+
+  const lastChild = listNode.children[listNode.children.length - 1];
+  if (lastChild?.type === NodeType.LIST && appendListItem(lastChild, kind, indent, item)) {
+    return true;
+  }
+  if (indent === listNode.indent) {
+    if (kind !== listNode.kind) return false;
+    listNode.children.push(item);
+    return true;
+  }
+  listNode.children.push(createListNode(kind, indent, [item]));
+  return true;
+}
+
+function getDeepestLastList(list: Node): Node {
+  const lastChild = list.listNode!.children[list.listNode!.children.length - 1];
+  return lastChild?.type === NodeType.LIST ? getDeepestLastList(lastChild) : list;
+}
+
+// 将相邻的列表项合并为 LIST 节点，列表项后的第一个换行归入列表，空行结束列表
+function mergeListItems(nodes: Node[]): Node[] {
+  const result: Node[] = [];
+  for (const node of nodes) {
+    const last = result[result.length - 1];
+    const itemInfo = getListItemInfo(node);
+    if (itemInfo) {
+      if (last?.type !== NodeType.LIST || !appendListItem(last, itemInfo.kind, itemInfo.indent, node)) {
+        result.push(createListNode(itemInfo.kind, itemInfo.indent, [node]));
+      }
+      continue;
+    }
+
+    if (node.type === NodeType.LINE_BREAK && last?.type === NodeType.LIST) {
+      const children = getDeepestLastList(last).listNode!.children;
+      if (children[children.length - 1]?.type !== NodeType.LINE_BREAK) {
+        children.push(node);
+        continue;
+      }
+    }
+    result.push(node);
+  }
+  return result;
+}
+
+function parseBlocks(lines: string[]): Node[] {
+  const find = createFinder();
+  const nodes: Node[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    let match: BlockMatch | null = null;
+    for (const matcher of BLOCK_MATCHERS) {
+      match = matcher(lines, index, find);
+      if (match) break;
+    }
+    if (match) {
+      nodes.push(match.node);
+      index += match.lines;
+    } else {
+      // 空行本身不产生节点
+      index++;
+    }
+    if (index < lines.length) {
+      nodes.push({ type: NodeType.LINE_BREAK, lineBreakNode: {} });
+    }
+  }
+  return mergeListItems(nodes);
+}
+
+// 解析 Markdown 文本为节点树
+export function parseMarkdown(markdown: string): Node[] {
+  if (!markdown) return [];
+  return parseBlocks(markdown.split('\n'));
+}
@@ -0,0 +1,161 @@
+// 节点树还原为 Markdown 文本，以及提取纯文本
+import { getChildNodes, Node, NodeType } from './ast';
+
+function restoreResource(resource: { resourceName: string; params: string } | undefined): string {
+  if (!resource) return '';
+  return resource.params ? `${resource.resourceName}?${resource.params}` : resource.resourceName;
+}
+
+function restoreTableRow(cells: Node[]): string {
+  return `|${cells.map(restoreNode).join('|')}|`;
+}
+
+function restoreNode(node: Node): string {
+  switch (node.type) {
+    case NodeType.LINE_BREAK:
+      return '\n';
+    case NodeType.PARAGRAPH:
+      return restoreMarkdownNodes(node.paragraphNode?.children || []);
+    case NodeType.CODE_BLOCK:
+      return `\`\`\`${node.codeBlockNode?.language || ''}\n${node.codeBlockNode?.content || ''}\n\`\`\``;
+    case NodeType.HEADING:
+      return `${'#'.repeat(node.headingNode?.level || 1)} ${restoreMarkdownNodes(node.headingNode?.children || [])}`;
+    case NodeType.HORIZONTAL_RULE:
+      return (node.horizontalRuleNode?.symbol || '-').repeat(3);
+    case NodeType.BLOCKQUOTE:
+      return restoreMarkdownNodes(node.blockquoteNode?.children || []).split('\n').map((line) => `> ${line}`).join('\n');
+    case NodeType.LIST:
+      return restoreMarkdownNodes(node.listNode?.children || []);
+    case NodeType.ORDERED_LIST_ITEM: {
+      const item = node.orderedListItemNode;
+      return `${' '.repeat(item?.indent || 0)}${item?.number || '1'}. ${restoreMarkdownNodes(item?.children || [])}`;
+    }
+    case NodeType.UNORDERED_LIST_ITEM: {
+      const item = node.unorderedListItemNode;
+      return `${' '.repeat(item?.indent || 0)}${item?.symbol || '-'} ${restoreMarkdownNodes(item?.children || [])}`;
+    }
+    case NodeType.TASK_LIST_ITEM: {
+      const item = node.taskListItemNode;
+      return `${' '.repeat(item?.indent || 0)}${item?.symbol || '-'} [${item?.complete ? 'x' : ' '}] ${restoreMarkdownNodes(item?.children || [])}`;
+    }
+    case NodeType.MATH_BLOCK:
+      return `$$\n${node.mathBlockNode?.content || ''}\n$$`;
+    case NodeType.TABLE: {
+      const table = node.tableNode;
+      if (!table) return '';
+      return [
+        restoreTableRow(table.header),
+        `|${table.delimiter.join('|')}|`,
+        ...table.rows.map((row) => restoreTableRow(row.cells)),
+      ].join('\n');
+    }
+    case NodeType.EMBEDDED_CONTENT:
+      return `![[${restoreResource(node.embeddedContentNode)}]]`;
+    case NodeType.TEXT:
+      return node.textNode?.content || '';
+    case NodeType.BOLD: {
+      const symbol = (node.boldNode?.symbol || '*').repeat(2);
+      return `${symbol}${restoreMarkdownNodes(node.boldNode?.children || [])}${symbol}`;
+    }
+    case NodeType.ITALIC: {
+      const symbol = node.italicNode?.symbol || '*';
+      return `${symbol}${restoreMarkdownNodes(node.italicNode?.children || [])}${symbol}`;
+    }
+    case NodeType.BOLD_ITALIC: {
+      const symbol = (node.boldItalicNode?.symbol || '*').repeat(3);
+      return `${symbol}${node.boldItalicNode?.content || ''}${symbol}`;
+    }
+    case NodeType.CODE:
+      return `\`${node.codeNode?.content || ''}\``;
+    case NodeType.IMAGE:
+      return `![${node.imageNode?.altText || ''}](${node.imageNode?.url || ''})`;
+    case NodeType.LINK:
+      return `[${restoreMarkdownNodes(node.linkNode?.content || [])}](${node.linkNode?.url || ''})`;
+    case NodeType.AUTO_LINK:
+      return node.autoLinkNode?.isRawText ? node.autoLinkNode.url : `<${node.autoLinkNode?.url || ''}>`;
+    case NodeType.TAG:
+      return `#${node.tagNode?.content || ''}`;
+    case NodeType.STRIKETHROUGH:
+      return `~~${node.strikethroughNode?.content || ''}~~`;
+    case NodeType.ESCAPING_CHARACTER:
+      return `\\${node.escapingCharacterNode?.symbol || ''}`;
+    case NodeType.MATH:
+      return `$${node.mathNode?.content || ''}$`;
+    case NodeType.HIGHLIGHT:
+      return `==${node.highlightNode?.content || ''}==`;
+    case NodeType.SUBSCRIPT:
+      return `~${node.subscriptNode?.content || ''}~`;
+    case NodeType.SUPERSCRIPT:
+      return `^${node.superscriptNode?.content || ''}^`;
+    case NodeType.REFERENCED_CONTENT:
+      return `[[${restoreResource(node.referencedContentNode)}]]`;
+    case NodeType.SPOILER:
+      return `||${node.spoilerNode?.content || ''}||`;
+    case NodeType.HTML_ELEMENT:
+      return `<${node.htmlElementNode?.tagName || ''}>`;
+    default:
+      return '';
+  }
+}
+
+// 将节点树还原为 Markdown 文本，与 parseMarkdown 互逆
+export function restoreMarkdownNodes(nodes: Node[]): string {
+  return nodes.map(restoreNode).join('');
+}
+
+function stringifyNode(node: Node): string {
+  switch (node.type) {
+    case NodeType.LINE_BREAK:
+    case NodeType.HTML_ELEMENT:
+      return '\n';
+    case NodeType.CODE_BLOCK:
+      return node.codeBlockNode?.content || '';
+    case NodeType.MATH_BLOCK:
+      return node.mathBlockNode?.content || '';
+    case NodeType.TABLE: {
+      const table = node.tableNode;
+      if (!table) return '';
+      return [table.header, ...table.rows.map((row) => row.cells)]
+        .map((cells) => cells.map((cell) => stringifyMarkdownNodes([cell]).trim()).join(' '))
+        .join('\n');
+    }
+    case NodeType.TEXT:
+      return node.textNode?.content || '';
+    case NodeType.BOLD_ITALIC:
+      return node.boldItalicNode?.content || '';
+    case NodeType.CODE:
+      return node.codeNode?.content || '';
+    case NodeType.IMAGE:
+      return node.imageNode?.altText || '';
+    case NodeType.AUTO_LINK:
+      return node.autoLinkNode?.url || '';
+    case NodeType.TAG:
+      return `#${node.tagNode?.content || ''}`;
+    case NodeType.STRIKETHROUGH:
+      return node.strikethroughNode?.content || '';
+    case NodeType.ESCAPING_CHARACTER:
+      return node.escapingCharacterNode?.symbol || '';
+    case NodeType.MATH:
+      return node.mathNode?.content || '';
+    case NodeType.HIGHLIGHT:
+      return node.highlightNode?.content || '';
+    case NodeType.SUBSCRIPT:
+      return node.subscriptNode?.content || '';
+    case NodeType.SUPERSCRIPT:
+      return node.superscriptNode?.content || '';
+    case NodeType.SPOILER:
+      return node.spoilerNode?.content || '';
+    case NodeType.HORIZONTAL_RULE:
+    case NodeType.EMBEDDED_CONTENT:
+    case NodeType.REFERENCED_CONTENT:
+      return '';
+    default:
+      // 段落、标题、列表、引用、粗体、斜体、链接等容器节点只输出子节点文本
+      return stringifyMarkdownNodes(getChildNodes(node));
+  }
+}
+
+// 提取节点树中的纯文本（去掉 Markdown 标记），用于摘要等场景
+export function stringifyMarkdownNodes(nodes: Node[]): string {
+  return nodes.map(stringifyNode).join('');
+}
@@ -0,0 +1,63 @@
+// 节点树工具：遍历、标签提取和笔记属性计算
+import { getChildNodes, Node, NodeType } from './ast';
+
+// 深度优先遍历节点树
+export function traverseNodes(nodes: Node[], visit: (node: Node) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    traverseNodes(getChildNodes(node), visit);
+  }
+}
+
+// 提取节点树中的标签（去重，保持出现顺序）
+export function extractTagsFromNodes(nodes: Node[]): string[] {
+  const tags = new Set<string>();
+  traverseNodes(nodes, (node) => {
+    if (node.type === NodeType.TAG && node.tagNode?.content) {
+      tags.add(node.tagNode.content);
+    }
+  });
+  return Array.from(tags);
+}
+
+// 对应 memo_service.ts 中的 Memo_Property，另外增加 hasImage（内容中包含 Markdown 图片）
+export interface MemoProperty {
+  hasLink: boolean;
+  hasTaskList: boolean;
+  hasCode: boolean;
+  hasIncompleteTasks: boolean;
+  hasImage: boolean;
+}
+
+// 根据节点树计算笔记属性，代码块中的链接和任务语法不计入
+export function getMemoPropertyFromNodes(nodes: Node[]): MemoProperty {
+  const property: MemoProperty = {
+    hasLink: false,
+    hasTaskList: false,
+    hasCode: false,
+    hasIncompleteTasks: false,
+    hasImage: false,
+  };
+  traverseNodes(nodes, (node) => {
+    switch (node.type) {
+      case NodeType.LINK:
+      case NodeType.AUTO_LINK:
+        property.hasLink = true;
+        break;
+      case NodeType.TASK_LIST_ITEM:
+        property.hasTaskList = true;
+        if (!node.taskListItemNode?.complete) {
+          property.hasIncompleteTasks = true;
+        }
+        break;
+      case NodeType.CODE:
+      case NodeType.CODE_BLOCK:
+        property.hasCode = true;
+        break;
+      case NodeType.IMAGE:
+        property.hasImage = true;
+        break;
+    }
+  });
+  return property;
+}